@@ -0,0 +1,367 @@
+// Local mock of the realtime stream and the notifications API, for trying live updates
+// without the backend. `npm test` also runs the notification contract tests against it.
+//
+// Start it with:   npm run mock:realtime
+// Point the app at it by adding this to .env and restarting `npm run dev`:
+//   VITE_REALTIME_URL=http://localhost:5050/api/realtime/stream
+// (and VITE_API_BASE_URL=http://localhost:5050/api to read notifications from it too)
+//
+// Then push events from another terminal, e.g.:
+//   curl -X POST http://localhost:5050/emit -d '{"type":"notification.unread_count","payload":{"unreadCount":3}}'
+// or type a command into this terminal (see `help`). `drop` closes every connection
+// so the client's reconnect and polling fallback can be watched.
+
+import http from 'node:http';
+import readline from 'node:readline';
+import { pathToFileURL } from 'node:url';
+
+const PORT = Number(process.env.PORT) || 5050;
+const STREAM_PATH = '/api/realtime/stream';
+const NOTIFICATIONS_PATH = '/api/notifications';
+const HEARTBEAT_MS = 15000;
+
+// The types the backend sends, with their labels; the contract tests check the client knows every one
+const NOTIFICATION_TYPES = [
+    ['task_assigned', 'Task Assigned'],
+    ['task_completed', 'Task Completed'],
+    ['task_approved', 'Task Approved'],
+    ['task_rejected', 'Task Rejected'],
+    ['task_transferred', 'Task Transferred'],
+    ['task_deadline_reminder', 'Deadline Reminder'],
+    ['task_overdue', 'Task Overdue'],
+    ['task_unblocked', 'Task Unblocked'],
+    ['status_changed', 'Status Changed'],
+    ['stage_changed', 'Stage Changed'],
+    ['comment_added', 'Comment Added'],
+    ['remark_mention', 'Mentioned in Remark'],
+    ['signup_request', 'Sign-up Awaiting Approval'],
+    ['system_announcement', 'Announcement']
+];
+
+let nextNotificationId = 1;
+
+function sampleNotification(taskId, overrides = {}) {
+    const now = new Date().toISOString();
+    return {
+        _id: `mock-${nextNotificationId++}`,
+        title: 'Mock notification',
+        message: 'This notification came from the mock realtime server',
+        type: 'task_assigned',
+        priority: 'medium',
+        isRead: false,
+        isArchived: false,
+        createdAt: now,
+        channels: { inApp: { read: false } },
+        relatedTask: taskId ? { _id: taskId, title: 'Mock task' } : undefined,
+        ...overrides
+    };
+}
+
+// What a fresh server starts with, including a record still using a legacy type name
+function seedNotifications() {
+    return [
+        sampleNotification('task-1', { title: 'New task assigned', priority: 'high' }),
+        sampleNotification('task-2', { title: 'Deadline tomorrow', type: 'deadline_reminder', isRead: undefined }),
+        sampleNotification('task-3', { title: 'Task approved', type: 'task_approved', isRead: true, channels: { inApp: { read: true } } })
+    ];
+}
+
+function readBody(req) {
+    return new Promise((resolve, reject) => {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+            try {
+                resolve(body ? JSON.parse(body) : {});
+            } catch (error) {
+                reject(error);
+            }
+        });
+    });
+}
+
+function sendJson(res, status, body) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+}
+
+/**
+ * Create the mock server without starting it, so tests can listen on a free port.
+ * Each server keeps its own notifications; `resetNotifications` puts the seed data back.
+ */
+export function createMockServer() {
+    const clients = new Set();
+    let refuseConnections = false;
+    let notifications = seedNotifications();
+    let preferences = null;
+
+    const isRead = notification => notification.isRead ?? notification.channels.inApp.read;
+    const setRead = (notification, read) => {
+        notification.isRead = read;
+        notification.channels.inApp.read = read;
+    };
+    const unreadCount = () => notifications.filter(notification => !notification.isArchived && !isRead(notification)).length;
+
+    function broadcast(event) {
+        const message = `data: ${JSON.stringify(event)}\n\n`;
+        clients.forEach(res => res.write(message));
+        console.log(`📤 Sent ${event.type} to ${clients.size} client(s)`);
+    }
+
+    function resetNotifications() {
+        notifications = seedNotifications();
+        preferences = null;
+    }
+
+    async function handleNotifications(req, res, url) {
+        if (!req.headers.authorization?.startsWith('Bearer ')) {
+            sendJson(res, 401, { success: false, message: 'Not authenticated' });
+            return;
+        }
+
+        const route = url.pathname.slice(NOTIFICATIONS_PATH.length);
+        const body = ['POST', 'PUT', 'PATCH'].includes(req.method) ? await readBody(req) : {};
+        const findNotification = id => notifications.find(notification => notification._id === id);
+        const notFound = () => sendJson(res, 404, { success: false, message: 'Notification not found' });
+
+        if (req.method === 'GET' && route === '') {
+            const page = Number(url.searchParams.get('page')) || 1;
+            const limit = Number(url.searchParams.get('limit')) || 20;
+            const search = url.searchParams.get('search')?.toLowerCase();
+            const matching = notifications.filter(notification =>
+                notification.isArchived === (url.searchParams.get('archived') === 'true') &&
+                (url.searchParams.get('unreadOnly') !== 'true' || !isRead(notification)) &&
+                (!url.searchParams.get('type') || notification.type === url.searchParams.get('type')) &&
+                (!url.searchParams.get('priority') || notification.priority === url.searchParams.get('priority')) &&
+                (!search || `${notification.title} ${notification.message}`.toLowerCase().includes(search))
+            );
+            sendJson(res, 200, {
+                success: true,
+                data: matching.slice((page - 1) * limit, page * limit),
+                pagination: { page, limit, total: matching.length, pages: Math.ceil(matching.length / limit) }
+            });
+            return;
+        }
+
+        if (req.method === 'GET' && route === '/unread-count') {
+            sendJson(res, 200, { success: true, data: { unreadCount: unreadCount() } });
+            return;
+        }
+
+        if (req.method === 'GET' && route === '/types') {
+            sendJson(res, 200, { success: true, data: NOTIFICATION_TYPES.map(([value, label]) => ({ value, label })) });
+            return;
+        }
+
+        if (route === '/preferences' && (req.method === 'GET' || req.method === 'PUT')) {
+            if (req.method === 'PUT') preferences = body;
+            // Only what was saved; the client fills in its own defaults
+            sendJson(res, 200, { success: true, data: preferences || {} });
+            return;
+        }
+
+        if (req.method === 'PATCH' && route === '/mark-all-read') {
+            notifications.forEach(notification => setRead(notification, true));
+            sendJson(res, 200, { success: true, message: 'All notifications marked as read' });
+            return;
+        }
+
+        if (req.method === 'POST' && route === '/bulk') {
+            const selected = notifications.filter(notification => body.ids?.includes(notification._id));
+            if (body.action === 'delete') {
+                notifications = notifications.filter(notification => !selected.includes(notification));
+            } else {
+                selected.forEach(notification => {
+                    if (body.action === 'read' || body.action === 'unread') setRead(notification, body.action === 'read');
+                    if (body.action === 'archive' || body.action === 'unarchive') notification.isArchived = body.action === 'archive';
+                });
+            }
+            sendJson(res, 200, { success: true, message: `${selected.length} notification(s) updated`, data: { updated: selected.length } });
+            return;
+        }
+
+        if (req.method === 'POST' && route === '/test') {
+            const notification = sampleNotification();
+            notifications.unshift(notification);
+            broadcast({ type: 'notification.created', payload: { notification } });
+            broadcast({ type: 'notification.unread_count', payload: { unreadCount: unreadCount() } });
+            sendJson(res, 201, { success: true, message: 'Test notification created' });
+            return;
+        }
+
+        const [, id, action] = route.split('/');
+        const notification = findNotification(id);
+
+        if (req.method === 'PATCH' && (action === 'read' || action === 'unread')) {
+            if (!notification) return notFound();
+            setRead(notification, action === 'read');
+            sendJson(res, 200, { success: true, message: `Notification marked as ${action}` });
+            return;
+        }
+
+        if (req.method === 'PATCH' && action === 'snooze') {
+            if (!notification) return notFound();
+            notification.snoozedUntil = body.until;
+            sendJson(res, 200, { success: true, message: 'Notification snoozed' });
+            return;
+        }
+
+        if (req.method === 'DELETE' && id && !action) {
+            if (!notification) return notFound();
+            notifications = notifications.filter(entry => entry !== notification);
+            sendJson(res, 200, { success: true, message: 'Notification deleted' });
+            return;
+        }
+
+        notFound();
+    }
+
+    const server = http.createServer((req, res) => {
+        res.setHeader('Access-Control-Allow-Origin', '*');
+        res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+        res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
+
+        if (req.method === 'OPTIONS') {
+            res.writeHead(204);
+            res.end();
+            return;
+        }
+
+        const url = new URL(req.url, `http://localhost:${PORT}`);
+
+        if (req.method === 'GET' && url.pathname === STREAM_PATH) {
+            if (refuseConnections) {
+                res.writeHead(503);
+                res.end();
+                return;
+            }
+            if (!url.searchParams.get('token')) {
+                res.writeHead(401);
+                res.end();
+                return;
+            }
+
+            res.writeHead(200, {
+                'Content-Type': 'text/event-stream',
+                'Cache-Control': 'no-cache',
+                Connection: 'keep-alive'
+            });
+            res.write(': connected\n\n');
+            clients.add(res);
+            console.log(`🔗 Client connected (${clients.size} open)`);
+
+            const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+            req.on('close', () => {
+                clearInterval(heartbeat);
+                clients.delete(res);
+                console.log(`👋 Client disconnected (${clients.size} open)`);
+            });
+            return;
+        }
+
+        if (url.pathname === NOTIFICATIONS_PATH || url.pathname.startsWith(`${NOTIFICATIONS_PATH}/`)) {
+            handleNotifications(req, res, url).catch(error => {
+                sendJson(res, 400, { success: false, message: error.message });
+            });
+            return;
+        }
+
+        if (req.method === 'POST' && url.pathname === '/emit') {
+            readBody(req)
+                .then(event => {
+                    if (!event.type) throw new Error('Missing "type"');
+                    broadcast(event);
+                    sendJson(res, 200, { success: true, clients: clients.size });
+                })
+                .catch(error => sendJson(res, 400, { success: false, message: error.message }));
+            return;
+        }
+
+        res.writeHead(404);
+        res.end();
+    });
+
+    const dropConnections = () => {
+        clients.forEach(res => res.end());
+        clients.clear();
+    };
+
+    return {
+        server,
+        broadcast,
+        resetNotifications,
+        dropConnections,
+        setRefuseConnections: refuse => { refuseConnections = refuse; },
+        createNotification: taskId => {
+            const notification = sampleNotification(taskId);
+            notifications.unshift(notification);
+            return notification;
+        }
+    };
+}
+
+function startCli() {
+    const mock = createMockServer();
+    const { broadcast } = mock;
+
+    const commands = {
+        help: () => {
+            console.log(`Commands:
+  notify [taskId]         add a notification and push notification.created
+  count <n>               push notification.unread_count
+  remark <taskId>         push task.remark_added
+  stage <taskId> <stage>  push task.stage_changed
+  approve <taskId>        push task.approval_decided (approved)
+  reject <taskId>         push task.approval_decided (rejected)
+  update <taskId>         push task.updated
+  drop                    close all connections
+  down / up               refuse / accept new connections`);
+        },
+        notify: (taskId) => broadcast({ type: 'notification.created', payload: { notification: mock.createNotification(taskId) } }),
+        count: (n) => broadcast({ type: 'notification.unread_count', payload: { unreadCount: Number(n) || 0 } }),
+        remark: (taskId) => broadcast({ type: 'task.remark_added', payload: { taskId } }),
+        stage: (taskId, stage = 'in_progress') => broadcast({ type: 'task.stage_changed', payload: { taskId, stage } }),
+        approve: (taskId) => broadcast({ type: 'task.approval_decided', payload: { taskId, approval: 'approved' } }),
+        reject: (taskId) => broadcast({ type: 'task.approval_decided', payload: { taskId, approval: 'rejected' } }),
+        update: (taskId) => broadcast({ type: 'task.updated', payload: { taskId } }),
+        drop: () => {
+            mock.dropConnections();
+            console.log('🔌 Dropped all connections');
+        },
+        down: () => {
+            mock.setRefuseConnections(true);
+            commands.drop();
+            console.log('⛔ Refusing new connections');
+        },
+        up: () => {
+            mock.setRefuseConnections(false);
+            console.log('✅ Accepting connections again');
+        }
+    };
+
+    mock.server.listen(PORT, () => {
+        console.log(`📡 Mock realtime server on http://localhost:${PORT}${STREAM_PATH}`);
+        commands.help();
+    });
+
+    const rl = readline.createInterface({ input: process.stdin });
+    rl.on('line', line => {
+        const [name, ...args] = line.trim().split(/\s+/);
+        if (!name) return;
+        const command = commands[name];
+        if (command) {
+            command(...args);
+        } else {
+            console.log(`❓ Unknown command "${name}", type help for the list`);
+        }
+    });
+    rl.on('close', () => {
+        commands.drop();
+        mock.server.close();
+    });
+}
+
+// Only start listening when run directly, not when imported by the tests
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+    startCli();
+}
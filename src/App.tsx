@@ -1,18 +1,31 @@
-import React, { useEffect } from 'react';
-import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
+import React, { useState, useEffect } from 'react';
+import { BrowserRouter as Router, Routes, Route, Navigate, useLocation } from 'react-router-dom';
 import { ToastContainer } from 'react-toastify';
 import 'react-toastify/dist/ReactToastify.css';
 import authService from './services/authService';
+import { useCurrentUser } from './hooks/useCurrentUser';
+import { hasPermission, getHomePath } from './utils/permissions';
+import type { Permission } from './utils/permissions';
 import Layout from './components/Layout';
+import SessionManager from './components/SessionManager';
 import Login from './pages/Login';
+import TwoFactorChallenge from './pages/TwoFactorChallenge';
 import Signup from './pages/Signup';
+import AcceptInvitation from './pages/AcceptInvitation';
 import AdminDashboard from './pages/AdminDashboard';
 import TaskDetail from './pages/TaskDetail';
 import TaskCreate from './pages/TaskCreate';
+import TaskDrafts from './pages/TaskDrafts';
+import RecurringTasks from './pages/RecurringTasks';
 import Tasks from './pages/Tasks';
 import GroupTaskDetail from './pages/GroupTaskDetail';
 import OverviewerTaskDetail from './pages/OverviewerTaskDetail';
 import IndividualReport from './pages/IndividualReport';
+import NotificationPreferences from './pages/NotificationPreferences';
+import TwoFactorSettings from './pages/TwoFactorSettings';
+import Security from './pages/Security';
+import Invitations from './pages/Invitations';
+import Notifications from './pages/Notifications';
 import HODDashboard from './pages/HODDashboard';
 import HODTasks from './pages/HODTasks';
 import HODEmployees from './pages/HODEmployees';
@@ -25,32 +38,70 @@ import AdminDepartmentReports from './pages/AdminDepartmentReports';
 import AdminReports from './pages/AdminReports';
 import SystemAdminEmployees from './pages/SystemAdminEmployees';
 import AdminEmployeeDetail from './pages/AdminEmployeeDetail';
+import AdminReminders from './pages/AdminReminders';
+import AdminSecurity from './pages/AdminSecurity';
 import ForgotPassword from './pages/ForgotPassword';
 import ResetPassword from './pages/ResetPassword';
 
-const ProtectedRoute: React.FC<{ children: React.ReactNode; requiredRole?: string }> = ({ 
+const TWO_FACTOR_SETTINGS_PATH = '/settings/two-factor';
+
+const ProtectedRoute: React.FC<{ children: React.ReactNode; permission?: Permission }> = ({ 
   children, 
-  requiredRole 
+  permission 
 }) => {
+  const user = useCurrentUser();
+  const location = useLocation();
+  // The cached user could be stale or edited, so nothing renders until the server has confirmed it
+  const [verification, setVerification] = useState<'pending' | 'verified' | 'failed'>(
+    () => (authService.isSessionVerified() ? 'verified' : 'pending')
+  );
   const isAuthenticated = authService.isAuthenticated();
-  const user = authService.getCurrentUser();
 
-  if (!isAuthenticated || !user) {
-    // Clear any invalid tokens
-    authService.logout();
+  useEffect(() => {
+    if (!isAuthenticated || verification !== 'pending') return;
+    authService.verifySession()
+      .then(() => setVerification('verified'))
+      .catch(error => {
+        // A rejected session is signed out by the api interceptor; anything else can be retried
+        console.error('Session verification failed:', error);
+        setVerification('failed');
+      });
+  }, [isAuthenticated, verification]);
+
+  if (!isAuthenticated) {
     return <Navigate to="/login" replace />;
   }
+
+  if (verification === 'failed') {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen text-gray-600">
+        <p className="mb-4">We couldn't confirm your account. Check your connection and try again.</p>
+        <button
+          onClick={() => setVerification('pending')}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+        >
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  if (verification === 'pending' || !user) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
    
-  // If a specific role is required, check if user has that role
-  if (requiredRole && user.role !== requiredRole) {
-    // Redirect based on user's actual role
-    if (user.role === 'admin') {
-      return <Navigate to="/admin/dashboard" replace />;
-    } else if (user.role === 'hod') {
-      return <Navigate to="/hod/dashboard" replace />;
-    } else {
-      return <Navigate to="/dashboard" replace />;
-    }
+  // A role that requires two-factor can't use anything else until it's set up
+  if (user.twoFactorRequired && !user.twoFactorEnabled && location.pathname !== TWO_FACTOR_SETTINGS_PATH) {
+    return <Navigate to={TWO_FACTOR_SETTINGS_PATH} replace />;
+  }
+
+  // Send users without access to the dashboard for their role
+  if (permission && !hasPermission(user, permission)) {
+    return <Navigate to={getHomePath(user.role)} replace />;
   }
 
   return <Layout>{children}</Layout>;
@@ -64,20 +115,15 @@ const PublicRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
 
 function App() {
   useEffect(() => {
-    // Clear any invalid authentication state on app start
-    const token = authService.getToken();
-    if (token) {
-      // Validate token by checking if user data exists
-      const user = authService.getCurrentUser();
-      if (!user) {
-        // Token exists but no user data, clear everything
-        authService.logout();
-      }
+    // Check the stored session with the server straight away rather than trusting the cached user
+    if (authService.isAuthenticated()) {
+      authService.verifySession().catch(error => console.error('Session verification failed:', error));
     }
   }, []);
 
   return (
     <Router>
+      <SessionManager />
       <Routes>
         {/* Public routes - allow access regardless of authentication */}
         <Route
@@ -88,6 +134,14 @@ function App() {
             </PublicRoute>
           }
         />
+        <Route
+          path="/login/two-factor"
+          element={
+            <PublicRoute>
+              <TwoFactorChallenge />
+            </PublicRoute>
+          }
+        />
         <Route
           path="/signup"
           element={
@@ -96,6 +150,14 @@ function App() {
             </PublicRoute>
           }
         />
+        <Route
+          path="/invite/:token"
+          element={
+            <PublicRoute>
+              <AcceptInvitation />
+            </PublicRoute>
+          }
+        />
         <Route
           path="/forgot-password"
           element={
@@ -138,6 +200,30 @@ function App() {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/tasks/drafts"
+          element={
+            <ProtectedRoute>
+              <TaskDrafts />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/tasks/recurring"
+          element={
+            <ProtectedRoute>
+              <RecurringTasks />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/tasks/recurring/:seriesId"
+          element={
+            <ProtectedRoute>
+              <RecurringTasks />
+            </ProtectedRoute>
+          }
+        />
         <Route
           path="/tasks/:id"
           element={
@@ -170,12 +256,52 @@ function App() {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/notifications"
+          element={
+            <ProtectedRoute>
+              <Notifications />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/settings/notifications"
+          element={
+            <ProtectedRoute>
+              <NotificationPreferences />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/invitations"
+          element={
+            <ProtectedRoute permission="users.invite">
+              <Invitations />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/settings/security"
+          element={
+            <ProtectedRoute>
+              <Security />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path={TWO_FACTOR_SETTINGS_PATH}
+          element={
+            <ProtectedRoute>
+              <TwoFactorSettings />
+            </ProtectedRoute>
+          }
+        />
 
         {/* HOD routes */}
         <Route
           path="/hod/dashboard"
           element={
-            <ProtectedRoute>
+            <ProtectedRoute permission="department.manage">
               <HODDashboard />
             </ProtectedRoute>
           }
@@ -183,7 +309,7 @@ function App() {
         <Route
           path="/hod/tasks"
           element={
-            <ProtectedRoute>
+            <ProtectedRoute permission="department.manage">
               <HODTasks />
             </ProtectedRoute>
           }
@@ -191,7 +317,7 @@ function App() {
         <Route
           path="/hod/employees"
           element={
-            <ProtectedRoute>
+            <ProtectedRoute permission="department.manage">
               <HODEmployees />
             </ProtectedRoute>
           }
@@ -199,7 +325,7 @@ function App() {
         <Route
           path="/hod/employees/:employeeId"
           element={
-            <ProtectedRoute>
+            <ProtectedRoute permission="department.manage">
               <HODEmployeeDetail />
             </ProtectedRoute>
           }
@@ -207,7 +333,7 @@ function App() {
         <Route
           path="/hod/reports"
           element={
-            <ProtectedRoute>
+            <ProtectedRoute permission="department.manage">
               <HODReports />
             </ProtectedRoute>
           }
@@ -217,7 +343,7 @@ function App() {
         <Route
           path="/admin/dashboard"
           element={
-            <ProtectedRoute requiredRole="admin">
+            <ProtectedRoute permission="admin.access">
               <SystemAdminDashboard />
             </ProtectedRoute>
           }
@@ -226,7 +352,7 @@ function App() {
         <Route
           path="/admin/employees"
           element={
-            <ProtectedRoute requiredRole="admin">
+            <ProtectedRoute permission="users.manage">
               <SystemAdminEmployees />
             </ProtectedRoute>
           }
@@ -234,7 +360,7 @@ function App() {
         <Route
           path="/admin/employees/:employeeId"
           element={
-            <ProtectedRoute requiredRole="admin">
+            <ProtectedRoute permission="users.manage">
               <AdminEmployeeDetail />
             </ProtectedRoute>
           }
@@ -242,7 +368,7 @@ function App() {
         <Route
           path="/admin/departments"
           element={
-            <ProtectedRoute requiredRole="admin">
+            <ProtectedRoute permission="admin.access">
               <AdminDepartments />
             </ProtectedRoute>
           }
@@ -250,7 +376,7 @@ function App() {
         <Route
           path="/admin/departments/:departmentId"
           element={
-            <ProtectedRoute requiredRole="admin">
+            <ProtectedRoute permission="admin.access">
               <AdminDepartmentDetail />
             </ProtectedRoute>
           }
@@ -258,15 +384,31 @@ function App() {
         <Route
           path="/admin/departments/:departmentId/reports"
           element={
-            <ProtectedRoute requiredRole="admin">
+            <ProtectedRoute permission="admin.access">
               <AdminDepartmentReports />
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/admin/reminders"
+          element={
+            <ProtectedRoute permission="admin.access">
+              <AdminReminders />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/admin/security"
+          element={
+            <ProtectedRoute permission="admin.access">
+              <AdminSecurity />
+            </ProtectedRoute>
+          }
+        />
         <Route
           path="/admin/reports"
           element={
-            <ProtectedRoute requiredRole="admin">
+            <ProtectedRoute permission="admin.access">
               <AdminReports />
             </ProtectedRoute>
           }
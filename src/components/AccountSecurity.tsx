@@ -0,0 +1,267 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'react-toastify';
+import {
+  FaDesktop,
+  FaMobileAlt,
+  FaCheckCircle,
+  FaTimesCircle,
+  FaKey,
+  FaSignOutAlt,
+  FaBan
+} from 'react-icons/fa';
+import authService from '../services/authService';
+import securityService, { LOGIN_EVENT_LABELS } from '../services/securityService';
+import type { ActiveSession, LoginEvent, LoginEventType } from '../services/securityService';
+import { adminService } from '../services/adminService';
+import { getApiErrorMessage } from '../utils/apiError';
+import { describeUserAgent, formatDevice } from '../utils/userAgent';
+
+interface AccountSecurityProps {
+  // Show this employee's account (admin view) instead of the signed-in user's
+  employeeId?: string;
+}
+
+const HISTORY_PAGE_SIZE = 20;
+
+const FAILED_EVENTS: LoginEventType[] = ['login_failed', 'two_factor_failed'];
+
+const getEventIcon = (type: LoginEventType) => {
+  switch (type) {
+    case 'login':
+      return <FaCheckCircle className="text-green-500" />;
+    case 'login_failed':
+    case 'two_factor_failed':
+      return <FaTimesCircle className="text-red-500" />;
+    case 'password_reset_requested':
+    case 'password_reset':
+      return <FaKey className="text-yellow-500" />;
+    case 'session_revoked':
+      return <FaBan className="text-gray-500" />;
+    default:
+      return <FaSignOutAlt className="text-gray-400" />;
+  }
+};
+
+const formatDateTime = (date: string) =>
+  new Date(date).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+/**
+ * Where an account is signed in, with ways to sign devices out, and its sign-in history
+ */
+const AccountSecurity: React.FC<AccountSecurityProps> = ({ employeeId }) => {
+  const navigate = useNavigate();
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [events, setEvents] = useState<LoginEvent[]>([]);
+  const [historyPage, setHistoryPage] = useState(1);
+  const [hasMoreHistory, setHasMoreHistory] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  const isOwnAccount = !employeeId;
+
+  const fetchSessions = useCallback(async () => {
+    const response = employeeId
+      ? (await adminService.getEmployeeSessions(employeeId)).data
+      : await securityService.getSessions();
+    setSessions(response.data.sessions);
+  }, [employeeId]);
+
+  const fetchHistory = useCallback(async (page: number) => {
+    const params = { page, limit: HISTORY_PAGE_SIZE };
+    const response = employeeId
+      ? (await adminService.getEmployeeLoginHistory(employeeId, params)).data
+      : await securityService.getLoginHistory(params);
+    setEvents(prev => (page === 1 ? response.data.events : [...prev, ...response.data.events]));
+    setHistoryPage(page);
+    setHasMoreHistory(response.data.pagination.hasNextPage);
+  }, [employeeId]);
+
+  useEffect(() => {
+    setLoading(true);
+    Promise.all([fetchSessions(), fetchHistory(1)])
+      .catch(error => {
+        console.error('Error loading account security:', error);
+        toast.error(getApiErrorMessage(error, 'Failed to load sessions and sign-in history'));
+      })
+      .finally(() => setLoading(false));
+  }, [fetchSessions, fetchHistory]);
+
+  const handleRevoke = async (session: ActiveSession) => {
+    if (!window.confirm(`Sign out ${formatDevice(session.userAgent)} (${session.ipAddress})?`)) return;
+
+    try {
+      setBusy(true);
+      if (employeeId) {
+        await adminService.revokeEmployeeSession(employeeId, session._id);
+      } else {
+        await securityService.revokeSession(session._id);
+      }
+      setSessions(prev => prev.filter(entry => entry._id !== session._id));
+      toast.success('Session signed out');
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to sign out session'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRevokeAll = async () => {
+    const message = isOwnAccount
+      ? 'Sign out on every device, including this one?'
+      : 'Sign this employee out on every device?';
+    if (!window.confirm(message)) return;
+
+    try {
+      setBusy(true);
+      if (employeeId) {
+        await adminService.revokeAllEmployeeSessions(employeeId);
+        await fetchSessions();
+        toast.success('Signed out everywhere');
+      } else {
+        await authService.logoutEverywhere();
+        toast.success('Signed out everywhere');
+        navigate('/login', { replace: true });
+      }
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to sign out everywhere'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleLoadMore = async () => {
+    try {
+      setBusy(true);
+      await fetchHistory(historyPage + 1);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to load more history'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Active sessions */}
+      <div className="bg-white rounded-lg shadow-sm">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">Active sessions</h2>
+            <p className="text-sm text-gray-500">
+              {isOwnAccount ? 'Devices signed in to your account' : 'Devices signed in to this account'}
+            </p>
+          </div>
+          <button
+            onClick={handleRevokeAll}
+            disabled={busy || sessions.length === 0}
+            className="px-3 py-2 border border-red-300 text-red-700 text-sm rounded-md hover:bg-red-50 disabled:opacity-50"
+          >
+            Log out everywhere
+          </button>
+        </div>
+        {sessions.length === 0 ? (
+          <p className="px-6 py-8 text-center text-sm text-gray-500">No active sessions</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {sessions.map(session => {
+              const { isMobile } = describeUserAgent(session.userAgent);
+              return (
+                <li key={session._id} className="flex items-center justify-between px-6 py-4">
+                  <div className="flex items-center">
+                    {isMobile
+                      ? <FaMobileAlt className="text-xl text-gray-400 mr-4" />
+                      : <FaDesktop className="text-xl text-gray-400 mr-4" />}
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">
+                        {formatDevice(session.userAgent)}
+                        {session.current && isOwnAccount && (
+                          <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-800">This device</span>
+                        )}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {session.ipAddress}
+                        {session.location && ` • ${session.location}`}
+                        {' • '}Last seen {formatDateTime(session.lastSeenAt)}
+                      </p>
+                      <p className="text-xs text-gray-400">Signed in {formatDateTime(session.createdAt)}</p>
+                    </div>
+                  </div>
+                  {!(session.current && isOwnAccount) && (
+                    <button
+                      onClick={() => handleRevoke(session)}
+                      disabled={busy}
+                      className="text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+                    >
+                      Revoke
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      {/* Login history */}
+      <div className="bg-white rounded-lg shadow-sm">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900">Sign-in history</h2>
+          <p className="text-sm text-gray-500">Sign-ins, failed attempts and password resets</p>
+        </div>
+        {events.length === 0 ? (
+          <p className="px-6 py-8 text-center text-sm text-gray-500">No sign-in activity yet</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {events.map(event => (
+              <li
+                key={event._id}
+                className={`flex items-start px-6 py-3 ${FAILED_EVENTS.includes(event.type) ? 'bg-red-50' : ''}`}
+              >
+                <span className="mt-1 mr-4">{getEventIcon(event.type)}</span>
+                <div className="flex-1">
+                  <p className="text-sm font-medium text-gray-900">
+                    {LOGIN_EVENT_LABELS[event.type] || event.type}
+                    {event.reason && <span className="font-normal text-gray-600"> — {event.reason}</span>}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {formatDevice(event.userAgent)}
+                    {event.ipAddress && ` • ${event.ipAddress}`}
+                  </p>
+                </div>
+                <span className="text-xs text-gray-500 whitespace-nowrap ml-4">{formatDateTime(event.createdAt)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+        {hasMoreHistory && (
+          <div className="px-6 py-3 border-t border-gray-200 text-center">
+            <button
+              onClick={handleLoadMore}
+              disabled={busy}
+              className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+            >
+              Load more
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AccountSecurity;
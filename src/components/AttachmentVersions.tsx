@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { toast } from 'react-toastify';
+import { FaDownload, FaUndo, FaUpload } from 'react-icons/fa';
+import FileDropzone from './FileDropzone';
+import UploadProgressList from './UploadProgressList';
+import taskService from '../services/taskService';
+import type { AttachmentVersion, Task, TaskAttachment } from '../services/taskService';
+import { useUploadQueue } from '../hooks/useUploadQueue';
+import { getApiErrorMessage } from '../utils/apiError';
+
+interface AttachmentVersionsProps {
+  taskId: string;
+  attachment: TaskAttachment;
+  canEdit: boolean;
+  onTaskUpdate?: (updatedTask: Task) => void;
+}
+
+const getUploaderName = (uploadedBy: AttachmentVersion['uploadedBy']) =>
+  typeof uploadedBy === 'object' && uploadedBy ? uploadedBy.name : 'Unknown user';
+
+const AttachmentVersions: React.FC<AttachmentVersionsProps> = ({ taskId, attachment, canEdit, onTaskUpdate }) => {
+  const [files, setFiles] = useState<File[]>([]);
+  const [note, setNote] = useState('');
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const uploads = useUploadQueue();
+
+  const currentVersion = attachment.version || 1;
+  const previousVersions = [...(attachment.versions || [])].reverse();
+
+  // The upload itself doesn't return the task, so read it back to show the new version
+  const refreshTask = async () => {
+    try {
+      const response = await taskService.getTask(taskId);
+      if (response.success) {
+        onTaskUpdate?.(response.data.task);
+      }
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to refresh task'));
+    }
+  };
+
+  const handleUpload = async () => {
+    const [file] = files;
+    if (!file) return;
+
+    setFiles([]);
+    setNote('');
+    const { succeeded } = await uploads.uploadFiles(
+      { kind: 'version', id: attachment._id, taskId, note: note.trim() || undefined },
+      [file]
+    );
+
+    if (succeeded > 0) {
+      toast.success(`Uploaded version ${currentVersion + 1} of ${attachment.originalName}`);
+      refreshTask();
+    } else {
+      toast.warning("The new version didn't upload. Retry it from the list below.");
+    }
+  };
+
+  const handleRetryUpload = async (uploadId: string) => {
+    if (await uploads.retry(uploadId)) refreshTask();
+  };
+
+  const handleRestore = async (version: AttachmentVersion) => {
+    if (!window.confirm(`Restore version ${version.version}? The current file will be kept in the history.`)) return;
+    try {
+      setRestoringId(version._id);
+      const response = await taskService.restoreAttachmentVersion(
+        taskId,
+        attachment._id,
+        version._id,
+        `Restored version ${version.version}`
+      );
+      if (response.success) {
+        toast.success(`Version ${version.version} restored`);
+        onTaskUpdate?.(response.data.task);
+      }
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to restore version'));
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const handleDownload = async (versionId?: string) => {
+    try {
+      await taskService.downloadAttachment(taskId, attachment._id, versionId);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to download file'));
+    }
+  };
+
+  const renderVersion = (version: AttachmentVersion, isCurrent: boolean) => (
+    <li key={isCurrent ? 'current' : version._id} className="py-2 flex items-start justify-between">
+      <div className="min-w-0">
+        <p className="text-sm text-gray-900">
+          <span className="font-medium">v{version.version}</span>
+          {isCurrent && <span className="ml-2 text-xs px-2 py-0.5 bg-green-100 text-green-800 rounded-full">Current</span>}
+          <span className="ml-2 text-gray-600 break-all">{version.originalName}</span>
+        </p>
+        <p className="text-xs text-gray-500">
+          {getUploaderName(version.uploadedBy)} • {new Date(version.uploadedAt).toLocaleString()} • {(version.size / 1024 / 1024).toFixed(2)} MB
+        </p>
+        {version.note && <p className="text-xs text-gray-600 mt-1 italic">{version.note}</p>}
+      </div>
+      <div className="flex items-center space-x-2 ml-3">
+        <button
+          onClick={() => handleDownload(isCurrent ? undefined : version._id)}
+          className="text-blue-600 hover:text-blue-800"
+          title="Download this version"
+        >
+          <FaDownload />
+        </button>
+        {canEdit && !isCurrent && (
+          <button
+            onClick={() => handleRestore(version)}
+            disabled={restoringId !== null}
+            className="text-orange-600 hover:text-orange-800 disabled:opacity-50"
+            title="Restore this version"
+          >
+            <FaUndo />
+          </button>
+        )}
+      </div>
+    </li>
+  );
+
+  return (
+    <div className="mt-2 p-3 bg-gray-50 border border-gray-200 rounded-md">
+      {canEdit && (
+        <div className="mb-3 space-y-2">
+          <p className="text-sm font-medium text-gray-700">Upload a new version</p>
+          <FileDropzone files={files} onChange={setFiles} multiple={false} disabled={uploads.isUploading} />
+          <div className="flex flex-col sm:flex-row gap-2">
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="What changed? (optional)"
+              maxLength={200}
+              className="flex-1 px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+            <button
+              onClick={handleUpload}
+              disabled={files.length === 0 || uploads.isUploading}
+              className="px-3 py-1 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50 flex items-center justify-center space-x-1"
+            >
+              <FaUpload />
+              <span>{uploads.isUploading ? 'Uploading...' : 'Upload'}</span>
+            </button>
+          </div>
+          <UploadProgressList
+            items={uploads.items}
+            onCancel={uploads.cancel}
+            onRetry={handleRetryUpload}
+            onDismiss={uploads.dismiss}
+          />
+        </div>
+      )}
+
+      <p className="text-sm font-medium text-gray-700">Version history</p>
+      <ul className="divide-y divide-gray-200">
+        {renderVersion({ ...attachment, version: currentVersion }, true)}
+        {previousVersions.map(version => renderVersion(version, false))}
+      </ul>
+    </div>
+  );
+};
+
+export default AttachmentVersions;
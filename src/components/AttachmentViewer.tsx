@@ -0,0 +1,289 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { FaTimes, FaChevronLeft, FaChevronRight, FaDownload } from 'react-icons/fa';
+import taskService from '../services/taskService';
+import type { TaskAttachment } from '../services/taskService';
+import {
+  MAX_SPREADSHEET_PREVIEW_ROWS,
+  MAX_TEXT_PREVIEW_CHARS,
+  getPreviewBlobType,
+  getPreviewKind,
+} from '../utils/attachments';
+import { getApiErrorMessage } from '../utils/apiError';
+
+interface AttachmentViewerProps {
+  taskId: string;
+  attachments: TaskAttachment[];
+  initialIndex: number;
+  onClose: () => void;
+}
+
+interface SheetPreview {
+  name: string;
+  rows: string[][];
+  totalRows: number;
+}
+
+type PreviewContent =
+  | { kind: 'image' | 'pdf'; url: string }
+  | { kind: 'text'; text: string; truncated: boolean }
+  | { kind: 'spreadsheet'; sheets: SheetPreview[] }
+  | { kind: 'unsupported' };
+
+const readSpreadsheet = async (blob: Blob): Promise<SheetPreview[]> => {
+  // Only loaded when a spreadsheet is actually opened
+  const XLSX = await import('xlsx');
+  const workbook = XLSX.read(await blob.arrayBuffer(), { type: 'array' });
+  return workbook.SheetNames.map(name => {
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], { header: 1, defval: '' });
+    return {
+      name,
+      rows: rows.slice(0, MAX_SPREADSHEET_PREVIEW_ROWS).map(row => row.map(cell => String(cell))),
+      totalRows: rows.length,
+    };
+  });
+};
+
+const AttachmentViewer: React.FC<AttachmentViewerProps> = ({ taskId, attachments, initialIndex, onClose }) => {
+  const [index, setIndex] = useState(initialIndex);
+  const [content, setContent] = useState<PreviewContent | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [activeSheet, setActiveSheet] = useState(0);
+
+  // Files already fetched, so stepping back and forth doesn't download them again
+  const blobCache = useRef(new Map<string, Blob>());
+
+  const attachment = attachments[index];
+  const hasMultiple = attachments.length > 1;
+
+  const showPrevious = () => setIndex(prev => (prev - 1 + attachments.length) % attachments.length);
+  const showNext = () => setIndex(prev => (prev + 1) % attachments.length);
+
+  useEffect(() => {
+    if (!attachment) return;
+
+    const kind = getPreviewKind(attachment);
+    let cancelled = false;
+    let objectUrl: string | null = null;
+
+    setContent(null);
+    setError(null);
+    setActiveSheet(0);
+
+    if (!kind) {
+      // A previewable file may still have been loading when we switched away from it
+      setLoading(false);
+      setContent({ kind: 'unsupported' });
+      return;
+    }
+
+    const load = async () => {
+      try {
+        setLoading(true);
+        let blob = blobCache.current.get(attachment._id);
+        if (!blob) {
+          blob = await taskService.getAttachmentBlob(taskId, attachment._id);
+          blobCache.current.set(attachment._id, blob);
+        }
+        if (cancelled) return;
+
+        if (kind === 'image' || kind === 'pdf') {
+          // The server may send a generic content type; the browser needs a real one to render inline
+          objectUrl = URL.createObjectURL(new Blob([blob], { type: getPreviewBlobType(attachment, kind) }));
+          setContent({ kind, url: objectUrl });
+        } else if (kind === 'text') {
+          const text = await blob.text();
+          if (!cancelled) {
+            setContent({
+              kind,
+              text: text.slice(0, MAX_TEXT_PREVIEW_CHARS),
+              truncated: text.length > MAX_TEXT_PREVIEW_CHARS,
+            });
+          }
+        } else {
+          const sheets = await readSpreadsheet(blob);
+          if (!cancelled) setContent({ kind, sheets });
+        }
+      } catch (err) {
+        console.error('Error loading attachment preview:', err);
+        if (!cancelled) setError(getApiErrorMessage(err, 'Failed to load preview'));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [taskId, attachment]);
+
+  // Keyboard shortcuts: Escape closes, arrow keys move between files
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      } else if (e.key === 'ArrowLeft' && attachments.length > 1) {
+        setIndex(prev => (prev - 1 + attachments.length) % attachments.length);
+      } else if (e.key === 'ArrowRight' && attachments.length > 1) {
+        setIndex(prev => (prev + 1) % attachments.length);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [attachments.length, onClose]);
+
+  if (!attachment) return null;
+
+  const renderContent = () => {
+    if (loading || (!content && !error)) {
+      return (
+        <div className="flex items-center justify-center h-full">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-white"></div>
+        </div>
+      );
+    }
+
+    if (error || !content) {
+      return <p className="text-center text-red-300 mt-16">{error}</p>;
+    }
+
+    switch (content.kind) {
+      case 'image':
+        return (
+          <div className="flex items-center justify-center h-full">
+            <img src={content.url} alt={attachment.originalName} className="max-h-full max-w-full object-contain" />
+          </div>
+        );
+      case 'pdf':
+        // Without allow-same-origin the frame can never reach this page's storage; scripts are left
+        // on for browsers whose PDF viewer is itself a script (e.g. Firefox)
+        return (
+          <iframe
+            src={content.url}
+            title={attachment.originalName}
+            sandbox="allow-scripts"
+            className="w-full h-full bg-white rounded"
+          />
+        );
+      case 'text':
+        return (
+          <div className="h-full overflow-auto bg-white rounded p-4">
+            <pre className="text-sm text-gray-800 whitespace-pre-wrap break-words font-mono">{content.text}</pre>
+            {content.truncated && (
+              <p className="mt-4 text-xs text-gray-500">Preview shortened. Download the file to see all of it.</p>
+            )}
+          </div>
+        );
+      case 'spreadsheet': {
+        const sheet = content.sheets[activeSheet];
+        return (
+          <div className="h-full flex flex-col bg-white rounded">
+            {content.sheets.length > 1 && (
+              <div className="flex space-x-1 border-b border-gray-200 px-2 pt-2 overflow-x-auto">
+                {content.sheets.map((item, sheetIndex) => (
+                  <button
+                    key={item.name}
+                    onClick={() => setActiveSheet(sheetIndex)}
+                    className={`px-3 py-1 text-sm rounded-t ${sheetIndex === activeSheet ? 'bg-blue-100 text-blue-800' : 'text-gray-600 hover:bg-gray-100'}`}
+                  >
+                    {item.name}
+                  </button>
+                ))}
+              </div>
+            )}
+            <div className="flex-1 overflow-auto">
+              {sheet && sheet.rows.length > 0 ? (
+                <table className="min-w-full text-xs border-collapse">
+                  <tbody>
+                    {sheet.rows.map((row, rowIndex) => (
+                      <tr key={rowIndex} className={rowIndex === 0 ? 'bg-gray-50 font-medium' : ''}>
+                        {row.map((cell, cellIndex) => (
+                          <td key={cellIndex} className="border border-gray-200 px-2 py-1 whitespace-nowrap text-gray-800">
+                            {cell}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <p className="text-center text-gray-500 mt-8">This sheet is empty</p>
+              )}
+            </div>
+            {sheet && sheet.totalRows > sheet.rows.length && (
+              <p className="px-3 py-2 text-xs text-gray-500 border-t border-gray-200">
+                Showing the first {sheet.rows.length} of {sheet.totalRows} rows
+              </p>
+            )}
+          </div>
+        );
+      }
+      default:
+        return (
+          <div className="text-center text-gray-200 mt-16">
+            <p className="mb-4">This file type can't be previewed.</p>
+            <button
+              onClick={() => taskService.downloadAttachment(taskId, attachment._id)}
+              className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 inline-flex items-center space-x-2"
+            >
+              <FaDownload />
+              <span>Download</span>
+            </button>
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black bg-opacity-75 flex flex-col"
+      role="dialog"
+      aria-modal="true"
+      aria-label={`Preview of ${attachment.originalName}`}
+    >
+      {/* Toolbar */}
+      <div className="flex items-center justify-between px-4 py-3 text-white">
+        <div className="min-w-0">
+          <p className="font-medium truncate">{attachment.originalName}</p>
+          <p className="text-xs text-gray-300">
+            {(attachment.size / 1024 / 1024).toFixed(2)} MB
+            {hasMultiple && ` • ${index + 1} of ${attachments.length}`}
+          </p>
+        </div>
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={() => taskService.downloadAttachment(taskId, attachment._id)}
+            className="hover:text-gray-300"
+            title="Download"
+          >
+            <FaDownload />
+          </button>
+          <button onClick={onClose} className="hover:text-gray-300" title="Close">
+            <FaTimes className="h-5 w-5" />
+          </button>
+        </div>
+      </div>
+
+      {/* Preview */}
+      <div className="flex-1 flex items-stretch min-h-0 px-2 pb-4">
+        {hasMultiple && (
+          <button onClick={showPrevious} className="px-2 text-white hover:text-gray-300" title="Previous">
+            <FaChevronLeft className="h-6 w-6" />
+          </button>
+        )}
+        <div className="flex-1 min-w-0">{renderContent()}</div>
+        {hasMultiple && (
+          <button onClick={showNext} className="px-2 text-white hover:text-gray-300" title="Next">
+            <FaChevronRight className="h-6 w-6" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AttachmentViewer;
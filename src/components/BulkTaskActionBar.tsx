@@ -0,0 +1,260 @@
+import React, { useState, useEffect } from 'react';
+import { toast } from 'react-toastify';
+import { FaCheckSquare, FaTimes, FaUndo } from 'react-icons/fa';
+import userService from '../services/userService';
+import type { Task, UpdateStageData, UpdateStatusData } from '../services/taskService';
+import { useBulkTaskActions } from '../hooks/useBulkTaskActions';
+import {
+  BULK_ACTION_LABELS,
+  buildBulkConfirmation,
+  describeBulkAction,
+  validateBulkAction,
+} from '../utils/bulkTaskActions';
+import type { BulkAction, BulkActionType, BulkTaskItem } from '../utils/bulkTaskActions';
+
+interface BulkTaskActionBarProps {
+  selected: BulkTaskItem[];
+  onSelectionChange: (ids: string[]) => void;
+  // Called after tasks were changed (or changes undone) so the list can reload
+  onComplete: () => void;
+  actions?: BulkActionType[];
+}
+
+const ALL_ACTIONS: BulkActionType[] = ['reassign', 'status', 'stage', 'priority', 'deadline', 'tag', 'delete'];
+
+const STATUS_OPTIONS: UpdateStatusData['status'][] = ['created', 'assigned', 'in_progress', 'completed', 'approved', 'rejected'];
+const STAGE_OPTIONS: UpdateStageData['stage'][] = ['not_started', 'pending', 'done'];
+const PRIORITY_OPTIONS: Task['priority'][] = ['low', 'medium', 'high', 'urgent'];
+
+const inputClass = 'px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const BulkTaskActionBar: React.FC<BulkTaskActionBarProps> = ({
+  selected,
+  onSelectionChange,
+  onComplete,
+  actions = ALL_ACTIONS,
+}) => {
+  const bulk = useBulkTaskActions();
+  const [actionType, setActionType] = useState<BulkActionType>(actions[0]);
+  const [userIds, setUserIds] = useState<string[]>([]);
+  const [status, setStatus] = useState<UpdateStatusData['status']>('in_progress');
+  const [stage, setStage] = useState<UpdateStageData['stage']>('pending');
+  const [priority, setPriority] = useState<Task['priority']>('medium');
+  const [days, setDays] = useState('1');
+  const [tag, setTag] = useState('');
+  const [users, setUsers] = useState<Array<{ _id: string; name: string }>>([]);
+  const [now, setNow] = useState(() => Date.now());
+
+  // The user list is only needed for reassigning, so load it the first time that's picked
+  useEffect(() => {
+    if (actionType !== 'reassign' || users.length > 0) return;
+    userService.getUsersForDropdown()
+      .then(response => setUsers(response.data.users))
+      .catch(error => console.error('Error loading users:', error));
+  }, [actionType, users.length]);
+
+  // Tick the undo countdown
+  useEffect(() => {
+    if (!bulk.undoExpiresAt) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [bulk.undoExpiresAt]);
+
+  const buildAction = (): BulkAction => {
+    switch (actionType) {
+      case 'reassign':
+        return {
+          type: 'reassign',
+          userIds,
+          userNames: users.filter(user => userIds.includes(user._id)).map(user => user.name),
+        };
+      case 'status':
+        return { type: 'status', status };
+      case 'stage':
+        return { type: 'stage', stage };
+      case 'priority':
+        return { type: 'priority', priority };
+      case 'deadline':
+        return { type: 'deadline', days: Number(days) };
+      case 'tag':
+        return { type: 'tag', tag: tag.trim() };
+      case 'delete':
+        return { type: 'delete' };
+    }
+  };
+
+  const handleApply = async () => {
+    const action = buildAction();
+    const validationError = validateBulkAction(action);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+    if (!window.confirm(buildBulkConfirmation(action, selected))) return;
+
+    const results = await bulk.run(action, selected);
+    const failed = results.filter(result => result.outcome === 'failed');
+    const succeeded = results.length - failed.length;
+
+    if (failed.length === 0) {
+      toast.success(`Done: ${describeBulkAction(action)} for ${succeeded} task(s)`);
+    } else {
+      toast.warning(`${failed.length} of ${results.length} task(s) could not be updated`);
+    }
+
+    // Keep the failures selected so they can be tried again
+    onSelectionChange(failed.map(result => result.item._id));
+    if (succeeded > 0) onComplete();
+  };
+
+  const handleUndo = async () => {
+    const failed = await bulk.undo();
+    if (failed === 0) {
+      toast.success('Changes undone');
+    } else {
+      toast.error(`${failed} task(s) could not be put back`);
+    }
+    onComplete();
+  };
+
+  const failedResults = bulk.results?.filter(result => result.outcome === 'failed') || [];
+  const undoSecondsLeft = bulk.undoExpiresAt ? Math.max(0, Math.ceil((bulk.undoExpiresAt - now) / 1000)) : 0;
+
+  if (selected.length === 0 && !bulk.running && !bulk.undoExpiresAt && failedResults.length === 0) {
+    return null;
+  }
+
+  const renderActionInput = () => {
+    switch (actionType) {
+      case 'reassign':
+        return (
+          <select
+            multiple
+            value={userIds}
+            onChange={(e) => setUserIds(Array.from(e.target.selectedOptions, option => option.value))}
+            className={`${inputClass} h-20 min-w-[12rem]`}
+            title="Hold Ctrl (or Cmd) to pick more than one person"
+          >
+            {users.map(user => (
+              <option key={user._id} value={user._id}>{user.name}</option>
+            ))}
+          </select>
+        );
+      case 'status':
+        return (
+          <select value={status} onChange={(e) => setStatus(e.target.value as UpdateStatusData['status'])} className={inputClass}>
+            {STATUS_OPTIONS.map(option => (
+              <option key={option} value={option}>{option.replace('_', ' ')}</option>
+            ))}
+          </select>
+        );
+      case 'stage':
+        return (
+          <select value={stage} onChange={(e) => setStage(e.target.value as UpdateStageData['stage'])} className={inputClass}>
+            {STAGE_OPTIONS.map(option => (
+              <option key={option} value={option}>{option.replace('_', ' ')}</option>
+            ))}
+          </select>
+        );
+      case 'priority':
+        return (
+          <select value={priority} onChange={(e) => setPriority(e.target.value as Task['priority'])} className={inputClass}>
+            {PRIORITY_OPTIONS.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        );
+      case 'deadline':
+        return (
+          <label className="flex items-center space-x-1 text-sm text-gray-700">
+            <input type="number" value={days} onChange={(e) => setDays(e.target.value)} className={`${inputClass} w-20`} />
+            <span>days (negative for earlier)</span>
+          </label>
+        );
+      case 'tag':
+        return (
+          <input
+            type="text"
+            value={tag}
+            onChange={(e) => setTag(e.target.value)}
+            placeholder="Tag"
+            maxLength={50}
+            className={inputClass}
+          />
+        );
+      case 'delete':
+        return null;
+    }
+  };
+
+  return (
+    <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg space-y-3">
+      {bulk.running ? (
+        <p className="text-sm text-blue-800">
+          Updating {bulk.progress.done} of {bulk.progress.total} task(s)...
+        </p>
+      ) : selected.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="flex items-center text-sm font-medium text-blue-900">
+            <FaCheckSquare className="mr-2" />
+            {selected.length} selected
+          </span>
+          <select
+            value={actionType}
+            onChange={(e) => setActionType(e.target.value as BulkActionType)}
+            className={inputClass}
+          >
+            {actions.map(action => (
+              <option key={action} value={action}>{BULK_ACTION_LABELS[action]}</option>
+            ))}
+          </select>
+          {renderActionInput()}
+          <button
+            onClick={handleApply}
+            className={`px-3 py-1 text-sm text-white rounded-md ${
+              actionType === 'delete' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+            }`}
+          >
+            Apply
+          </button>
+          <button onClick={() => onSelectionChange([])} className="text-sm text-gray-600 hover:text-gray-800">
+            Clear selection
+          </button>
+        </div>
+      )}
+
+      {bulk.undoExpiresAt && !bulk.running && (
+        <div className="flex items-center justify-between text-sm text-gray-700">
+          <span>Changes applied.</span>
+          <button onClick={handleUndo} className="flex items-center text-blue-700 hover:text-blue-900 font-medium">
+            <FaUndo className="mr-1" />
+            Undo ({undoSecondsLeft}s)
+          </button>
+        </div>
+      )}
+
+      {failedResults.length > 0 && !bulk.running && (
+        <div className="p-3 bg-white border border-red-200 rounded-md">
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-sm font-medium text-red-700">
+              {failedResults.length} of {bulk.results?.length} task(s) were not updated
+            </p>
+            <button onClick={bulk.dismissResults} className="text-gray-400 hover:text-gray-600" title="Dismiss">
+              <FaTimes />
+            </button>
+          </div>
+          <ul className="space-y-1 text-sm">
+            {failedResults.map(result => (
+              <li key={result.item._id}>
+                <span className="font-medium text-gray-900">{result.item.title}</span>
+                <span className="text-red-600">: {result.error}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BulkTaskActionBar;
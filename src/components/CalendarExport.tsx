@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { FaCalendarPlus, FaCopy, FaRss, FaSync, FaTimes } from 'react-icons/fa';
+import { toast } from 'react-toastify';
+import taskService from '../services/taskService';
+import type { CalendarFeed } from '../services/taskService';
+import { downloadTaskCalendar, PRIORITY_REMINDERS } from '../utils/ical';
+import type { CalendarTask } from '../utils/ical';
+import { getApiErrorMessage } from '../utils/apiError';
+
+interface CalendarExportProps {
+  loadTasks: () => Promise<CalendarTask[]>; // Fetches every task to export, not just the current page
+  calendarName: string;
+  fileName: string;
+}
+
+const formatReminder = (minutes: number) => {
+  const [amount, unit] = minutes % (60 * 24) === 0
+    ? [minutes / (60 * 24), 'day']
+    : minutes % 60 === 0 ? [minutes / 60, 'hour'] : [minutes, 'minute'];
+  return `${amount} ${unit}${amount === 1 ? '' : 's'}`;
+};
+
+const CalendarExport: React.FC<CalendarExportProps> = ({ loadTasks, calendarName, fileName }) => {
+  const [exporting, setExporting] = useState(false);
+  const [showFeed, setShowFeed] = useState(false);
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [feedLoading, setFeedLoading] = useState(false);
+
+  const handleExport = async () => {
+    try {
+      setExporting(true);
+      const tasks = await loadTasks();
+      if (tasks.length === 0) {
+        toast.warning('No tasks to export');
+        return;
+      }
+      downloadTaskCalendar(tasks, calendarName, fileName);
+      toast.success(`Exported ${tasks.length} deadlines to calendar file`);
+    } catch (error) {
+      console.error('Error exporting calendar:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to export calendar'));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const openFeed = async () => {
+    setShowFeed(true);
+    if (feed) return;
+
+    try {
+      setFeedLoading(true);
+      const response = await taskService.getCalendarFeed();
+      setFeed(response.data);
+    } catch (error) {
+      console.error('Error loading calendar feed:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to load calendar feed'));
+    } finally {
+      setFeedLoading(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feed) return;
+    try {
+      await navigator.clipboard.writeText(feed.url);
+      toast.success('Feed URL copied');
+    } catch (error) {
+      console.error('Error copying feed URL:', error);
+      toast.error('Could not copy the URL, please copy it manually');
+    }
+  };
+
+  const handleRegenerate = async () => {
+    if (!window.confirm('Calendars subscribed with the current URL will stop updating. Create a new URL?')) {
+      return;
+    }
+
+    try {
+      setFeedLoading(true);
+      const response = await taskService.regenerateCalendarFeed();
+      setFeed(response.data);
+      toast.success('New feed URL created');
+    } catch (error) {
+      console.error('Error regenerating calendar feed:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to create a new feed URL'));
+    } finally {
+      setFeedLoading(false);
+    }
+  };
+
+  return (
+    <div className="relative inline-flex items-center gap-2">
+      <button
+        onClick={handleExport}
+        disabled={exporting}
+        className="flex items-center px-4 py-2 text-sm font-medium border border-gray-300 rounded-md bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        title="Download deadlines as an .ics file"
+      >
+        <FaCalendarPlus className="mr-2" />
+        {exporting ? 'Exporting...' : 'Export to Calendar'}
+      </button>
+      <button
+        onClick={() => (showFeed ? setShowFeed(false) : openFeed())}
+        className="flex items-center px-4 py-2 text-sm font-medium border border-gray-300 rounded-md bg-white text-gray-700 hover:bg-gray-50"
+        title="Subscribe to your deadlines from a calendar app"
+      >
+        <FaRss className="mr-2" />
+        Subscribe
+      </button>
+
+      {showFeed && (
+        <div className="absolute right-0 top-full mt-2 w-96 max-w-[90vw] bg-white border border-gray-200 rounded-lg shadow-lg p-4 z-20 text-left">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-semibold text-gray-900">Calendar subscription</h3>
+            <button onClick={() => setShowFeed(false)} className="text-gray-400 hover:text-gray-600">
+              <FaTimes />
+            </button>
+          </div>
+          <p className="text-xs text-gray-600 mb-3">
+            Add this URL to Google Calendar, Outlook or Apple Calendar to keep your deadlines in sync.
+            Anyone with the URL can see your tasks, so keep it private.
+          </p>
+
+          {feedLoading && !feed ? (
+            <p className="text-sm text-gray-500 text-center py-2">Loading...</p>
+          ) : feed ? (
+            <>
+              <div className="flex items-center gap-2 mb-3">
+                <input
+                  type="text"
+                  readOnly
+                  value={feed.url}
+                  onFocus={(e) => e.target.select()}
+                  className="flex-1 min-w-0 px-2 py-1 text-xs border border-gray-300 rounded-md bg-gray-50 font-mono"
+                />
+                <button
+                  onClick={handleCopy}
+                  className="p-2 text-blue-600 hover:text-blue-800"
+                  title="Copy URL"
+                >
+                  <FaCopy />
+                </button>
+              </div>
+              <p className="text-xs text-gray-500 mb-3">
+                Reminders: {Object.entries(PRIORITY_REMINDERS)
+                  .map(([priority, minutes]) => `${priority} ${minutes.map(formatReminder).join(' + ')} before`)
+                  .join(', ')}
+              </p>
+              <button
+                onClick={handleRegenerate}
+                disabled={feedLoading}
+                className="flex items-center text-xs text-red-600 hover:text-red-800 disabled:opacity-50"
+              >
+                <FaSync className="mr-1" size={10} />
+                Create a new URL
+              </button>
+            </>
+          ) : (
+            <p className="text-sm text-gray-500 text-center py-2">Feed unavailable</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CalendarExport;
@@ -0,0 +1,20 @@
+import React from 'react';
+import { usePermission } from '../hooks/useCurrentUser';
+import type { Permission } from '../utils/permissions';
+
+interface CanProps {
+  permission: Permission;
+  children: React.ReactNode;
+  // Shown instead when the user lacks the permission
+  fallback?: React.ReactNode;
+}
+
+/**
+ * Renders its children only for users with the given permission
+ */
+const Can: React.FC<CanProps> = ({ permission, children, fallback = null }) => {
+  const allowed = usePermission(permission);
+  return <>{allowed ? children : fallback}</>;
+};
+
+export default Can;
@@ -0,0 +1,189 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { toast } from 'react-toastify';
+import { FaCloudUploadAlt, FaFileAlt, FaTimes } from 'react-icons/fa';
+import {
+  ATTACHMENT_ACCEPT,
+  MAX_ATTACHMENT_SIZE,
+  describeRejectedFiles,
+  formatFileSize,
+  getPastedFiles,
+  isImageFile,
+  validateAttachmentFiles,
+} from '../utils/uploadValidation';
+
+interface FileDropzoneProps {
+  files: File[];
+  onChange: (files: File[]) => void;
+  multiple?: boolean;
+  disabled?: boolean;
+  // Extra text shown next to a selected file, e.g. that it's already saved in a draft
+  getFileNote?: (file: File) => string | undefined;
+}
+
+const FileThumbnail: React.FC<{ file: File }> = ({ file }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isImageFile(file)) return;
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  if (!url) {
+    return (
+      <div className="w-10 h-10 flex items-center justify-center bg-gray-100 rounded text-gray-400 shrink-0">
+        <FaFileAlt />
+      </div>
+    );
+  }
+  return <img src={url} alt={file.name} className="w-10 h-10 object-cover rounded border border-gray-200 shrink-0" />;
+};
+
+const FileDropzone: React.FC<FileDropzoneProps> = ({
+  files,
+  onChange,
+  multiple = true,
+  disabled = false,
+  getFileNote,
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  // dragenter/dragleave fire for every child element, so count them to know when the drag really left
+  const dragDepth = useRef(0);
+
+  const addFiles = (incoming: File[]) => {
+    if (disabled || incoming.length === 0) return;
+
+    const candidates = multiple ? incoming : incoming.slice(0, 1);
+    const { accepted, rejected } = validateAttachmentFiles(candidates, multiple ? files : []);
+    if (rejected.length > 0) {
+      toast.error(`Some files were not added. ${describeRejectedFiles(rejected)}`);
+    }
+    if (accepted.length > 0) {
+      onChange(multiple ? [...files, ...accepted] : accepted);
+    }
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(e.target.files || []));
+    e.target.value = ''; // Allow choosing the same file again after removing it
+  };
+
+  const handleDragEnter = (e: React.DragEvent) => {
+    e.preventDefault();
+    if (disabled) return;
+    dragDepth.current++;
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    e.preventDefault();
+    dragDepth.current = Math.max(0, dragDepth.current - 1);
+    if (dragDepth.current === 0) setIsDragging(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    dragDepth.current = 0;
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const pasted = getPastedFiles(e.clipboardData);
+    if (pasted.length === 0) return;
+    e.preventDefault();
+    addFiles(pasted);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.target === e.currentTarget && (e.key === 'Enter' || e.key === ' ')) {
+      e.preventDefault();
+      inputRef.current?.click();
+    }
+  };
+
+  const removeFile = (index: number) => {
+    onChange(files.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div>
+      <div
+        role="button"
+        tabIndex={disabled ? -1 : 0}
+        aria-disabled={disabled}
+        onClick={() => !disabled && inputRef.current?.click()}
+        onKeyDown={handleKeyDown}
+        onPaste={handlePaste}
+        onDragEnter={handleDragEnter}
+        onDragOver={(e) => e.preventDefault()}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+        className={`flex flex-col items-center justify-center px-4 py-6 border-2 border-dashed rounded-lg text-center transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+          disabled
+            ? 'border-gray-200 bg-gray-50 cursor-not-allowed opacity-60'
+            : isDragging
+              ? 'border-blue-500 bg-blue-50 cursor-copy'
+              : 'border-gray-300 hover:border-blue-400 cursor-pointer'
+        }`}
+      >
+        <FaCloudUploadAlt className="w-8 h-8 text-gray-400 mb-2" />
+        <p className="text-sm text-gray-700">
+          <span className="font-medium text-blue-600">Choose {multiple ? 'files' : 'a file'}</span> or drag {multiple ? 'them' : 'it'} here
+        </p>
+        <p className="text-xs text-gray-500 mt-1">
+          Screenshots can be pasted with Ctrl+V while this box is selected
+        </p>
+        <p className="text-xs text-gray-500 mt-1">Max file size: {formatFileSize(MAX_ATTACHMENT_SIZE)} per file</p>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple={multiple}
+          accept={ATTACHMENT_ACCEPT}
+          onChange={handleInputChange}
+          disabled={disabled}
+          className="hidden"
+        />
+      </div>
+
+      {files.length > 0 && (
+        <ul className="mt-3 space-y-2">
+          {files.map((file, index) => {
+            const note = getFileNote?.(file);
+            return (
+              <li
+                key={`${file.name}:${file.size}:${file.lastModified}`}
+                className="flex items-center justify-between p-2 bg-gray-50 rounded"
+              >
+                <div className="flex items-center space-x-3 min-w-0">
+                  <FileThumbnail file={file} />
+                  <div className="min-w-0">
+                    <p className="text-sm text-gray-700 truncate">{file.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {formatFileSize(file.size)}
+                      {note && ` • ${note}`}
+                    </p>
+                  </div>
+                </div>
+                {!disabled && (
+                  <button
+                    type="button"
+                    onClick={() => removeFile(index)}
+                    className="text-red-600 hover:text-red-800 ml-2"
+                    title="Remove"
+                  >
+                    <FaTimes className="w-4 h-4" />
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default FileDropzone;
@@ -3,6 +3,7 @@ import { FaUsers, FaCheckCircle, FaClock, FaExclamationTriangle, FaEdit } from '
 import type { Task as TaskType } from '../services/taskService';
 import taskService from '../services/taskService';
 import { toast } from 'react-toastify';
+import { getSubtaskProgress } from '../utils/subtasks';
 
 interface GroupTaskViewProps {
   task: TaskType;
@@ -60,6 +61,12 @@ const GroupTaskView: React.FC<GroupTaskViewProps> = ({ task, currentUserId, onTa
   };
 
   const handleIndividualStageUpdate = async (newStage: string, notes?: string) => {
+    if (newStage !== 'not_started' && taskService.getOpenBlockers(task).length > 0) {
+      toast.error('This task is blocked by unfinished tasks. Finish them before starting it.');
+      setEditingStage(null);
+      return;
+    }
+
     try {
       setIsUpdating(true);
       
@@ -90,12 +97,17 @@ const GroupTaskView: React.FC<GroupTaskViewProps> = ({ task, currentUserId, onTa
     return task.assignedTo.find(assignment => assignment.user?._id === currentUserId);
   };
 
+  const subtasks = task.subtasks || [];
+  const totalAssignees = task.assignedTo.length;
+  const completedAssignees = task.assignedTo.filter(
+    assignment => assignment.individualStage === 'done' || assignment.status === 'completed'
+  ).length;
+
+  // When the task is broken into subtasks, overall progress rolls up from them
   const calculateProgress = () => {
-    const totalAssignees = task.assignedTo.length;
-    const completedAssignees = task.assignedTo.filter(
-      assignment => assignment.individualStage === 'done' || assignment.status === 'completed'
-    ).length;
-    
+    const subtaskProgress = getSubtaskProgress(task);
+    if (subtaskProgress !== null) return subtaskProgress;
+
     return totalAssignees > 0 ? Math.round((completedAssignees / totalAssignees) * 100) : 0;
   };
 
@@ -139,6 +151,11 @@ const GroupTaskView: React.FC<GroupTaskViewProps> = ({ task, currentUserId, onTa
             </div>
             <span className="text-sm font-medium text-gray-700">{progress}%</span>
           </div>
+          {subtasks.length > 0 && (
+            <div className="text-xs text-gray-500 mt-1">
+              {subtasks.filter(subtask => subtask.stage === 'done').length}/{subtasks.length} subtasks · {completedAssignees}/{totalAssignees} members done
+            </div>
+          )}
         </div>
       </div>
 
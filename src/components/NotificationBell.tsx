@@ -1,5 +1,9 @@
 import { useState, useEffect, useRef } from 'react';
-import { FaBell, FaCircle, FaCheckDouble, FaTimes } from 'react-icons/fa';
+import { useNavigate } from 'react-router-dom';
+import { FaBell, FaCircle, FaCheckDouble, FaTimes, FaCog } from 'react-icons/fa';
+import NotificationService, { NOTIFICATION_TYPE_LABELS, getNotificationLink } from '../services/notificationService';
+import type { Notification, NotificationParams, NotificationType } from '../services/notificationService';
+import { useRealtimeEvent, usePollingFallback } from '../hooks/useRealtime';
 
 // Add scrollbar styles
 const scrollbarStyle = `
@@ -19,142 +23,15 @@ const scrollbarStyle = `
   }
 `;
 
-// Type Definitions
-type Notification = {
-  _id: string;
-  isRead: boolean;
-  channels?: {
-    inApp?: {
-      read: boolean;
-      readAt?: Date;
-    };
-    email?: {
-      sent: boolean;
-      sentAt?: Date;
-    };
-  };
-  title: string;
-  message: string;
-  priority: 'low' | 'medium' | 'high' | 'urgent';
-  type: 'task_assigned' | 'task_completed' | 'deadline_reminder' | 'comment_added' | 'status_changed';
-  createdAt: Date;
-  relatedTask?: {
-    _id: string;
-    title: string;
-  };
-};
-
-type NotificationParams = {
-  page: number;
-  limit: number;
-  unreadOnly?: boolean;
-  type?: string;
-};
-
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000/api';
-
-// Auth headers
-const getAuthHeaders = () => {
-  const token = localStorage.getItem('authToken');
-  return {
-    Authorization: `Bearer ${token}`,
-    'Content-Type': 'application/json',
-  };
-};
-
-// Notification Service
-const NotificationService = {
-  getUnreadCount: async (): Promise<number> => {
-    try {
-      const res = await fetch(`${API_BASE_URL}/notifications/unread-count`, { headers: getAuthHeaders() });
-      if (!res.ok) throw new Error('Failed to fetch unread count');
-      const data = await res.json();
-      return data.count;
-    } catch (err) {
-      console.error('Error fetching unread count:', err);
-      return 0;
-    }
-  },
-
-  getNotifications: async (params: NotificationParams) => {
-    try {
-      const query = new URLSearchParams({
-        page: params.page.toString(),
-        limit: params.limit.toString(),
-        ...(params.unreadOnly && { unreadOnly: 'true' }),
-        ...(params.type && { type: params.type }),
-      });
-      const res = await fetch(`${API_BASE_URL}/notifications?${query}`, {
-        headers: getAuthHeaders(),
-      });
-      if (!res.ok) throw new Error('Failed to fetch notifications');
-      return await res.json();
-    } catch (err) {
-      console.error('Error fetching notifications:', err);
-      throw err;
-    }
-  },
-
-  markAsRead: async (id: string) => {
-    const res = await fetch(`${API_BASE_URL}/notifications/${id}/read`, {
-      method: 'PATCH',
-      headers: getAuthHeaders(),
-    });
-    if (!res.ok) throw new Error('Failed to mark as read');
-  },
-
-  markAllAsRead: async () => {
-    const res = await fetch(`${API_BASE_URL}/notifications/mark-all-read`, {
-      method: 'PATCH',
-      headers: getAuthHeaders(),
-    });
-    if (!res.ok) throw new Error('Failed to mark all as read');
-  },
-
-  getNotificationIcon: (type: string): string => {
-    const icons: Record<string, string> = {
-      task_assigned: '👤',
-      task_completed: '✅',
-      deadline_reminder: '⏰',
-      comment_added: '💬',
-      status_changed: '📝',
-    };
-    return icons[type] || '📝';
-  },
-
-  formatNotificationTime: (createdAt: Date): string => {
-    const now = new Date();
-    const diff = now.getTime() - new Date(createdAt).getTime();
-    const mins = Math.floor(diff / (1000 * 60));
-    const hrs = Math.floor(diff / (1000 * 60 * 60));
-    const days = Math.floor(diff / (1000 * 60 * 60 * 24));
-    if (mins < 1) return 'Just now';
-    if (mins < 60) return `${mins}m ago`;
-    if (hrs < 24) return `${hrs}h ago`;
-    if (days < 7) return `${days}d ago`;
-    return new Date(createdAt).toLocaleDateString();
-  },
-};
-
-// ✅ Normalize function — ensures channels.inApp always exists
-const normalizeNotifications = (data: Notification[]): Notification[] => {
-  return data.map((n) => ({
-    ...n,
-    channels: {
-      ...n.channels,
-      inApp: n.channels?.inApp || { read: n.isRead, readAt: n.createdAt },
-    },
-  }));
-};
-
 const NotificationBell = () => {
+  const navigate = useNavigate();
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [unreadCount, setUnreadCount] = useState(0);
   const [isOpen, setIsOpen] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showUnreadOnly, setShowUnreadOnly] = useState(false);
-  const [selectedType, setSelectedType] = useState('');
+  const [selectedType, setSelectedType] = useState<NotificationType | ''>('');
   const [page, setPage] = useState(1);
   const [hasMore, setHasMore] = useState(true);
   const dropdownRef = useRef<HTMLDivElement>(null);
@@ -165,6 +42,14 @@ const NotificationBell = () => {
     return token && token.length > 10;
   };
 
+  // Refresh the cached preferences that decide whether new notifications make a sound or pop up
+  useEffect(() => {
+    if (!localStorage.getItem('authToken')) return;
+    NotificationService.getPreferences().catch((err) => {
+      console.error('Error loading notification preferences:', err);
+    });
+  }, []);
+
   // Close dropdown when clicking outside
   useEffect(() => {
     const handleClickOutside = (e: MouseEvent) => {
@@ -188,8 +73,12 @@ const NotificationBell = () => {
   }, [isOpen, showUnreadOnly, selectedType]);
 
   const fetchUnreadCount = async () => {
-    const count = await NotificationService.getUnreadCount();
-    setUnreadCount(count);
+    try {
+      const count = await NotificationService.getUnreadCount();
+      setUnreadCount(count);
+    } catch (err) {
+      console.error('Error fetching unread count:', err);
+    }
   };
 
   const fetchNotifications = async (reset = false) => {
@@ -203,12 +92,11 @@ const NotificationBell = () => {
         type: selectedType || undefined,
       };
       const res = await NotificationService.getNotifications(params);
-      const normalized = normalizeNotifications(res.data);
       if (reset) {
-        setNotifications(normalized);
+        setNotifications(res.data);
         setPage(1);
       } else {
-        setNotifications((prev) => [...prev, ...normalized]);
+        setNotifications((prev) => [...prev, ...res.data]);
         setPage((prev) => prev + 1);
       }
       setHasMore(res.pagination.page < res.pagination.pages);
@@ -219,6 +107,31 @@ const NotificationBell = () => {
     }
   };
 
+  // Live updates pushed by the server
+  useRealtimeEvent('notification.created', ({ notification }) => {
+    setNotifications((prev) =>
+      prev.some((n) => n._id === notification._id)
+        ? prev
+        : [NotificationService.normalizeNotification(notification), ...prev]
+    );
+    if (!notification.isRead) {
+      setUnreadCount((prev) => prev + 1);
+      NotificationService.playNotificationSound(notification);
+      NotificationService.showBrowserNotification(notification.title, notification.message, {}, notification);
+    }
+  }, !!isAuthenticated());
+
+  useRealtimeEvent('notification.unread_count', ({ unreadCount }) => {
+    setUnreadCount(unreadCount);
+  }, !!isAuthenticated());
+
+  // Poll instead while the push connection is down
+  usePollingFallback(() => {
+    if (!isAuthenticated()) return;
+    fetchUnreadCount();
+    if (isOpen) fetchNotifications(true);
+  });
+
   // ✅ Safe Mark One as Read
   const handleNotificationClick = async (n: Notification) => {
     try {
@@ -232,7 +145,7 @@ const NotificationBell = () => {
                   isRead: true,
                   channels: {
                     ...item.channels,
-                    inApp: { ...(item.channels?.inApp || {}), read: true, readAt: new Date() },
+                    inApp: { ...(item.channels?.inApp || {}), read: true, readAt: new Date().toISOString() },
                   },
                 }
               : item
@@ -240,7 +153,8 @@ const NotificationBell = () => {
         );
         setUnreadCount((prev) => Math.max(0, prev - 1));
       }
-      if (n.relatedTask) window.location.href = `/tasks/${n.relatedTask._id}`;
+      const link = getNotificationLink(n);
+      if (link) window.location.href = link;
     } catch (err) {
       console.error('Error marking notification as read:', err);
     }
@@ -256,7 +170,7 @@ const NotificationBell = () => {
           isRead: true,
           channels: {
             ...n.channels,
-            inApp: { ...(n.channels?.inApp || {}), read: true, readAt: new Date() },
+            inApp: { ...(n.channels?.inApp || {}), read: true, readAt: new Date().toISOString() },
           },
         }))
       );
@@ -321,9 +235,21 @@ const NotificationBell = () => {
           <div className="p-4 border-b border-gray-200 bg-gray-50">
             <div className="flex items-center justify-between mb-3">
               <h3 className="text-lg font-semibold text-gray-900">Notifications</h3>
-              <button onClick={() => setIsOpen(false)} className="p-1 text-gray-400 hover:text-gray-600 rounded-full">
-                <FaTimes className="w-4 h-4" />
-              </button>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => {
+                    setIsOpen(false);
+                    navigate('/settings/notifications');
+                  }}
+                  className="p-1 text-gray-400 hover:text-gray-600 rounded-full"
+                  title="Notification settings"
+                >
+                  <FaCog className="w-4 h-4" />
+                </button>
+                <button onClick={() => setIsOpen(false)} className="p-1 text-gray-400 hover:text-gray-600 rounded-full">
+                  <FaTimes className="w-4 h-4" />
+                </button>
+              </div>
             </div>
 
             <div className="flex flex-col sm:flex-row gap-2 text-sm">
@@ -346,20 +272,28 @@ const NotificationBell = () => {
                   Mark all read
                 </button>
               )}
+
+              <button
+                onClick={() => {
+                  setIsOpen(false);
+                  navigate('/notifications');
+                }}
+                className="text-blue-600 hover:text-blue-800 font-medium sm:ml-auto"
+              >
+                View all
+              </button>
             </div>
 
             <div className="flex items-center gap-2 mt-2">
               <select
                 value={selectedType}
-                onChange={(e) => setSelectedType(e.target.value)}
+                onChange={(e) => setSelectedType(e.target.value as NotificationType | '')}
                 className="border rounded p-1 text-sm"
               >
                 <option value="">All Types</option>
-                <option value="task_assigned">Task Assigned</option>
-                <option value="task_completed">Task Completed</option>
-                <option value="deadline_reminder">Deadline Reminder</option>
-                <option value="comment_added">Comment Added</option>
-                <option value="status_changed">Status Changed</option>
+                {Object.entries(NOTIFICATION_TYPE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
               </select>
             </div>
           </div>
@@ -0,0 +1,48 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { FaThumbtack } from 'react-icons/fa';
+import savedViewService, { getSavedViewPath } from '../services/savedViewService';
+import type { SavedView } from '../services/savedViewService';
+
+const LIST_LABELS: Record<SavedView['list'], string> = {
+  tasks: 'Tasks',
+  'hod-tasks': 'Department',
+  dashboard: 'Dashboard',
+};
+
+/**
+ * Shortcuts to the saved views the user pinned, shown on their dashboard
+ */
+const PinnedViews: React.FC = () => {
+  const [views, setViews] = useState<SavedView[]>([]);
+
+  useEffect(() => {
+    savedViewService.getViews()
+      .then(response => setViews(response.data.views.filter(view => view.pinned)))
+      .catch(error => console.error('Error loading pinned views:', error));
+  }, []);
+
+  if (views.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-4">
+      <span className="flex items-center text-sm text-gray-500">
+        <FaThumbtack className="mr-1" />
+        Pinned views:
+      </span>
+      {views.map(view => (
+        <Link
+          key={view._id}
+          to={getSavedViewPath(view)}
+          className="px-3 py-1 bg-white border border-gray-300 rounded-full text-sm text-gray-700 hover:border-blue-400 hover:text-blue-700"
+          title={`Open in ${LIST_LABELS[view.list]}`}
+        >
+          {view.name}
+          <span className="ml-1 text-xs text-gray-400">{LIST_LABELS[view.list]}</span>
+        </Link>
+      ))}
+    </div>
+  );
+};
+
+export default PinnedViews;
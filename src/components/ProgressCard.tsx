@@ -5,9 +5,10 @@ interface ProgressCardProps {
   label: string;
   count?: number;
   color?: string;
+  unit?: string; // What the count refers to, e.g. "subtasks"
 }
 
-const ProgressCard: React.FC<ProgressCardProps> = ({ percentage, label, count, color }) => {
+const ProgressCard: React.FC<ProgressCardProps> = ({ percentage, label, count, color, unit = 'tasks' }) => {
   const radius = 70;
   const circumference = 2 * Math.PI * radius;
   const arcLength = (3 / 4) * circumference;
@@ -115,7 +116,7 @@ const ProgressCard: React.FC<ProgressCardProps> = ({ percentage, label, count, c
             dominantBaseline="middle"
             className="sm:text-[14px]"
           >
-            ({count} tasks)
+            ({count} {unit})
           </text>
         )}
 
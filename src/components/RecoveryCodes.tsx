@@ -0,0 +1,71 @@
+import React from 'react';
+import { toast } from 'react-toastify';
+import { FaCopy, FaDownload } from 'react-icons/fa';
+
+interface RecoveryCodesProps {
+  codes: string[];
+  onDone: () => void;
+}
+
+/**
+ * One-time display of freshly issued recovery codes, with ways to keep them
+ */
+const RecoveryCodes: React.FC<RecoveryCodesProps> = ({ codes, onDone }) => {
+  const text = codes.join('\n');
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success('Recovery codes copied');
+    } catch {
+      window.prompt('Copy these recovery codes:', codes.join(' '));
+    }
+  };
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([`IMTS recovery codes\n\n${text}\n`], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'imts-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="border border-yellow-300 bg-yellow-50 rounded-lg p-4">
+      <h3 className="font-medium text-gray-900">Save your recovery codes</h3>
+      <p className="text-sm text-gray-600 mt-1">
+        Each code signs you in once if you lose your phone. They won't be shown again.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 my-4 font-mono text-sm">
+        {codes.map(code => (
+          <li key={code} className="bg-white border border-gray-200 rounded px-3 py-1 text-center">{code}</li>
+        ))}
+      </ul>
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={handleCopy}
+          className="inline-flex items-center px-3 py-2 border border-gray-300 bg-white text-sm text-gray-700 rounded-md hover:bg-gray-50"
+        >
+          <FaCopy className="mr-2" />
+          Copy
+        </button>
+        <button
+          onClick={handleDownload}
+          className="inline-flex items-center px-3 py-2 border border-gray-300 bg-white text-sm text-gray-700 rounded-md hover:bg-gray-50"
+        >
+          <FaDownload className="mr-2" />
+          Download
+        </button>
+        <button
+          onClick={onDone}
+          className="ml-auto px-3 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700"
+        >
+          I've saved them
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RecoveryCodes;
@@ -0,0 +1,269 @@
+import React from 'react';
+import { FaRedo, FaSyncAlt } from 'react-icons/fa';
+import type { AssignmentMode, RecurrenceFrequency, RecurrenceRule } from '../services/recurringTaskService';
+import {
+  WEEKDAY_LABELS, describeRecurrence, getRotatingAssignee, getUpcomingOccurrences,
+  toRecurrenceRule, validateRecurrence
+} from '../utils/recurrence';
+import type { RecurrenceSettingsValue } from '../utils/recurrence';
+
+interface RecurrenceSettingsProps {
+  value: RecurrenceSettingsValue;
+  onChange: (value: RecurrenceSettingsValue) => void;
+  assignees: Array<{ _id: string; name: string }>;
+}
+
+const RecurrenceSettings: React.FC<RecurrenceSettingsProps> = ({ value, onChange, assignees }) => {
+  const { rule } = value;
+
+  const updateRule = (changes: Partial<RecurrenceRule>) => {
+    onChange({ ...value, rule: { ...rule, ...changes } });
+  };
+
+  const toggleWeekday = (day: number) => {
+    const days = rule.daysOfWeek || [];
+    updateRule({
+      daysOfWeek: days.includes(day) ? days.filter(d => d !== day) : [...days, day]
+    });
+  };
+
+  const intervalUnit = {
+    daily: 'day(s)',
+    weekly: 'week(s)',
+    monthly: 'month(s)',
+    cron: '',
+  }[rule.frequency];
+
+  const error = validateRecurrence(value);
+  const preview = error ? [] : getUpcomingOccurrences(toRecurrenceRule(value), 5);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+          <FaRedo className="mr-2 text-blue-600" />
+          Repeat
+        </h2>
+        <label className="inline-flex items-center text-sm text-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={value.enabled}
+            onChange={(e) => onChange({ ...value, enabled: e.target.checked })}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500 mr-2"
+          />
+          Make this a recurring task
+        </label>
+      </div>
+
+      {!value.enabled ? (
+        <p className="text-sm text-gray-500">
+          The task is created once. Turn on repeating to generate it automatically on a schedule.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Frequency</label>
+              <select
+                value={rule.frequency}
+                onChange={(e) => updateRule({ frequency: e.target.value as RecurrenceFrequency })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="daily">Daily</option>
+                <option value="weekly">Weekly</option>
+                <option value="monthly">Monthly</option>
+                <option value="cron">Custom (cron)</option>
+              </select>
+            </div>
+
+            {rule.frequency !== 'cron' ? (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Every</label>
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="number"
+                      min={1}
+                      value={rule.interval}
+                      onChange={(e) => updateRule({ interval: Math.max(1, Number(e.target.value) || 1) })}
+                      className="w-20 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <span className="text-sm text-gray-600">{intervalUnit}</span>
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">At</label>
+                  <input
+                    type="time"
+                    value={rule.time}
+                    onChange={(e) => updateRule({ time: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              </>
+            ) : (
+              <div className="lg:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Cron expression</label>
+                <input
+                  type="text"
+                  value={rule.cron || ''}
+                  onChange={(e) => updateRule({ cron: e.target.value })}
+                  placeholder="0 9 * * 1-5"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <p className="text-xs text-gray-500 mt-1">minute hour day-of-month month day-of-week</p>
+              </div>
+            )}
+          </div>
+
+          {rule.frequency === 'weekly' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">On</label>
+              <div className="flex flex-wrap gap-2">
+                {WEEKDAY_LABELS.map((label, day) => (
+                  <button
+                    key={label}
+                    type="button"
+                    onClick={() => toggleWeekday(day)}
+                    className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                      rule.daysOfWeek?.includes(day)
+                        ? 'bg-blue-600 border-blue-600 text-white'
+                        : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {rule.frequency === 'monthly' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Day of month</label>
+              <input
+                type="number"
+                min={1}
+                max={31}
+                value={rule.dayOfMonth || ''}
+                onChange={(e) => updateRule({ dayOfMonth: Number(e.target.value) || undefined })}
+                placeholder="Same day as the start date"
+                className="w-48 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Starts on</label>
+              <input
+                type="date"
+                value={rule.startDate}
+                onChange={(e) => updateRule({ startDate: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Ends</label>
+              <select
+                value={value.endType}
+                onChange={(e) => onChange({ ...value, endType: e.target.value as RecurrenceSettingsValue['endType'] })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="never">Never</option>
+                <option value="on_date">On a date</option>
+                <option value="after_count">After a number of times</option>
+              </select>
+            </div>
+            <div>
+              {value.endType === 'on_date' && (
+                <>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">End date</label>
+                  <input
+                    type="date"
+                    value={rule.endDate || ''}
+                    min={rule.startDate}
+                    onChange={(e) => updateRule({ endDate: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </>
+              )}
+              {value.endType === 'after_count' && (
+                <>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Occurrences</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={rule.count || ''}
+                    onChange={(e) => updateRule({ count: Number(e.target.value) || undefined })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Deadline</label>
+              <div className="flex items-center space-x-2">
+                <input
+                  type="number"
+                  min={0}
+                  value={value.deadlineAfterDays}
+                  onChange={(e) => onChange({ ...value, deadlineAfterDays: Math.max(0, Number(e.target.value) || 0) })}
+                  className="w-20 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <span className="text-sm text-gray-600">day(s) after each occurrence</span>
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Assignees</label>
+              <select
+                value={value.assignmentMode}
+                onChange={(e) => onChange({ ...value, assignmentMode: e.target.value as AssignmentMode })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="fixed">Same assignees every time</option>
+                <option value="rotating">Rotate through the assignees</option>
+              </select>
+            </div>
+          </div>
+
+          {/* Schedule preview */}
+          <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
+            {error ? (
+              <p className="text-sm text-red-600">{error}</p>
+            ) : (
+              <>
+                <p className="text-sm font-medium text-blue-800 mb-2 flex items-center">
+                  <FaSyncAlt className="mr-2" />
+                  {describeRecurrence(toRecurrenceRule(value))}
+                </p>
+                {preview.length === 0 ? (
+                  <p className="text-sm text-blue-700">No upcoming occurrences for this schedule.</p>
+                ) : (
+                  <ul className="space-y-1">
+                    {preview.map((date, index) => {
+                      const assignee = value.assignmentMode === 'rotating'
+                        ? getRotatingAssignee(assignees, index)
+                        : undefined;
+                      return (
+                        <li key={date.toISOString()} className="text-sm text-blue-700">
+                          {date.toLocaleString()}
+                          {assignee && <span className="text-blue-500"> → {assignee.name}</span>}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecurrenceSettings;
@@ -0,0 +1,139 @@
+import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { toast } from 'react-toastify';
+import { FaBookmark, FaLink, FaThumbtack, FaTrash } from 'react-icons/fa';
+import savedViewService, { getSavedViewPath } from '../services/savedViewService';
+import type { SavedView, SavedViewList } from '../services/savedViewService';
+import { getApiErrorMessage } from '../utils/apiError';
+import { getFilterQuery } from '../utils/taskFilterParams';
+
+interface SavedViewsMenuProps {
+  list: SavedViewList;
+}
+
+const SavedViewsMenu: React.FC<SavedViewsMenuProps> = ({ list }) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    savedViewService.getViews(list)
+      .then(response => setViews(response.data.views))
+      .catch(error => console.error('Error loading saved views:', error));
+  }, [list]);
+
+  const currentQuery = getFilterQuery(searchParams);
+  const activeView = views.find(view => view.query === currentQuery);
+
+  const handleSelect = (viewId: string) => {
+    const view = views.find(entry => entry._id === viewId);
+    setSearchParams(new URLSearchParams(view ? view.query : ''));
+  };
+
+  const handleSave = async () => {
+    const name = window.prompt('Name this view, e.g. "My urgent overdue"')?.trim();
+    if (!name) return;
+
+    try {
+      setBusy(true);
+      const response = await savedViewService.createView({ name, list, query: currentQuery });
+      setViews(prev => [...prev, response.data.view]);
+      toast.success(`Saved view "${name}"`);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to save view'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleTogglePin = async (view: SavedView) => {
+    try {
+      setBusy(true);
+      const response = await savedViewService.updateView(view._id, { pinned: !view.pinned });
+      setViews(prev => prev.map(entry => (entry._id === view._id ? response.data.view : entry)));
+      toast.success(view.pinned ? 'Removed from your dashboard' : 'Pinned to your dashboard');
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to update view'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async (view: SavedView) => {
+    if (!window.confirm(`Delete the saved view "${view.name}"?`)) return;
+
+    try {
+      setBusy(true);
+      await savedViewService.deleteView(view._id);
+      setViews(prev => prev.filter(entry => entry._id !== view._id));
+      toast.success('Saved view deleted');
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to delete view'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    const link = `${window.location.origin}${getSavedViewPath({ list, query: currentQuery })}`;
+    try {
+      await navigator.clipboard.writeText(link);
+      toast.success('Link copied to clipboard');
+    } catch {
+      window.prompt('Copy this link:', link);
+    }
+  };
+
+  const iconButtonClass = 'p-2 text-gray-500 hover:text-gray-700 disabled:opacity-50';
+
+  return (
+    <div className="flex items-center space-x-1">
+      <FaBookmark className="text-gray-400 mr-1" />
+      <select
+        value={activeView?._id || ''}
+        onChange={(e) => handleSelect(e.target.value)}
+        className="px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        aria-label="Saved views"
+      >
+        <option value="">{activeView || !currentQuery ? 'All tasks' : 'Unsaved filters'}</option>
+        {views.map(view => (
+          <option key={view._id} value={view._id}>{view.pinned ? `📌 ${view.name}` : view.name}</option>
+        ))}
+      </select>
+      {activeView ? (
+        <>
+          <button
+            onClick={() => handleTogglePin(activeView)}
+            disabled={busy}
+            className={`${iconButtonClass} ${activeView.pinned ? 'text-blue-600' : ''}`}
+            title={activeView.pinned ? 'Unpin from dashboard' : 'Pin to dashboard'}
+          >
+            <FaThumbtack />
+          </button>
+          <button
+            onClick={() => handleDelete(activeView)}
+            disabled={busy}
+            className={`${iconButtonClass} hover:text-red-600`}
+            title="Delete saved view"
+          >
+            <FaTrash />
+          </button>
+        </>
+      ) : (
+        <button
+          onClick={handleSave}
+          disabled={busy || !currentQuery}
+          className="px-3 py-1.5 text-sm text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+          title={currentQuery ? 'Save these filters as a view' : 'Set some filters to save a view'}
+        >
+          Save view
+        </button>
+      )}
+      <button onClick={handleCopyLink} className={iconButtonClass} title="Copy a link to this list">
+        <FaLink />
+      </button>
+    </div>
+  );
+};
+
+export default SavedViewsMenu;
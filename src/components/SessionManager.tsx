@@ -0,0 +1,133 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { toast } from 'react-toastify';
+import { FaClock } from 'react-icons/fa';
+import authService from '../services/authService';
+import sessionService from '../services/sessionService';
+import realtimeService from '../services/realtimeService';
+import { getApiErrorMessage } from '../utils/apiError';
+import { isPublicRoute } from '../utils/publicRoutes';
+
+// How long before the session ends the warning appears
+const EXPIRY_WARNING_MS = 2 * 60 * 1000;
+
+const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+};
+
+/**
+ * Keeps this tab in step with logins and logouts in other tabs, and warns
+ * before the session runs out so it can be extended without losing work.
+ */
+const SessionManager: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [now, setNow] = useState(() => Date.now());
+  const [extending, setExtending] = useState(false);
+  // Who this tab is signed in as, to spot another tab switching accounts
+  const tabUserRef = useRef(authService.getCurrentUser());
+
+  const onPublicRoute = isPublicRoute(location.pathname);
+
+  useEffect(() => {
+    return sessionService.subscribe((event, remote) => {
+      if (event.type === 'login') {
+        // The live updates stream authenticates with the token, so it needs the new one
+        realtimeService.reconnect();
+      }
+      if (!remote) {
+        tabUserRef.current = authService.getCurrentUser();
+        return;
+      }
+
+      const tabUser = tabUserRef.current;
+      if (event.type === 'logout' && tabUser) {
+        toast.info('You were signed out in another tab');
+        navigate('/login', { replace: true });
+      } else if (event.type === 'login' && event.userId !== tabUser?._id) {
+        // A different account (or a first login) in another tab; reload so every page picks it up
+        window.location.reload();
+      } else if (event.type === 'user' && tabUser) {
+        const updatedUser = authService.getCurrentUser();
+        if (updatedUser && updatedUser.role !== tabUser.role) {
+          window.location.reload();
+        }
+      }
+    });
+  }, [navigate]);
+
+  // Tick once a second so the countdown stays current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const expiresAt = authService.isAuthenticated() ? authService.getSessionExpiry() : null;
+  const remaining = expiresAt === null ? null : expiresAt - now;
+  const expired = remaining !== null && remaining <= 0;
+
+  // Sign out cleanly once the time is up rather than waiting for the next request to fail
+  useEffect(() => {
+    if (!expired || onPublicRoute) return;
+    authService.logout().then(() => {
+      toast.info('Your session has expired. Please sign in again.');
+      navigate('/login', { replace: true });
+    });
+  }, [expired, onPublicRoute, navigate]);
+
+  const handleExtend = async () => {
+    try {
+      setExtending(true);
+      await authService.extendSession();
+      setNow(Date.now());
+      toast.success('Session extended');
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Could not extend your session. Save your work and sign in again.'));
+    } finally {
+      setExtending(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    await authService.logout();
+    navigate('/login', { replace: true });
+  };
+
+  if (onPublicRoute || remaining === null || expired || remaining > EXPIRY_WARNING_MS) {
+    return null;
+  }
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 max-w-sm bg-white border border-yellow-300 rounded-lg shadow-lg p-4" role="alertdialog">
+      <div className="flex items-start">
+        <FaClock className="text-yellow-500 mt-1 mr-3 shrink-0" />
+        <div>
+          <p className="text-sm font-medium text-gray-900">Your session is about to expire</p>
+          <p className="text-sm text-gray-600 mt-1">
+            You'll be signed out in <span className="font-mono">{formatCountdown(remaining)}</span>. Unsaved changes may be lost.
+          </p>
+          <div className="mt-3 flex space-x-2">
+            <button
+              onClick={handleExtend}
+              disabled={extending}
+              className="px-3 py-1 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {extending ? 'Extending...' : 'Stay signed in'}
+            </button>
+            <button
+              onClick={handleSignOut}
+              className="px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Sign out
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionManager;
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import {
+  FaHistory, FaExchangeAlt, FaUserPlus, FaPaperclip, FaEye, FaCheckCircle, FaTimesCircle, FaEdit
+} from 'react-icons/fa';
+import type { TaskHistoryEntry } from '../services/taskService';
+import {
+  HISTORY_ACTION_CATEGORIES,
+  describeHistoryEntry,
+  formatHistoryValue,
+  getHistoryFieldLabel,
+  getVisibleChanges,
+} from '../utils/taskHistory';
+import type { HistoryCategory } from '../utils/taskHistory';
+
+interface TaskActivityFeedProps {
+  history: TaskHistoryEntry[];
+  title?: string;
+}
+
+// Entries shown before "Show all" is needed
+const COLLAPSED_COUNT = 8;
+
+const CATEGORY_STYLES: Record<HistoryCategory, { icon: React.ReactNode; className: string }> = {
+  status: { icon: <FaExchangeAlt />, className: 'bg-blue-100 text-blue-600' },
+  assignment: { icon: <FaUserPlus />, className: 'bg-purple-100 text-purple-600' },
+  attachment: { icon: <FaPaperclip />, className: 'bg-gray-100 text-gray-600' },
+  overviewer: { icon: <FaEye />, className: 'bg-teal-100 text-teal-600' },
+  approval: { icon: <FaCheckCircle />, className: 'bg-green-100 text-green-600' },
+  edit: { icon: <FaEdit />, className: 'bg-yellow-100 text-yellow-700' },
+};
+
+const TaskActivityFeed: React.FC<TaskActivityFeedProps> = ({ history, title = 'Activity' }) => {
+  const [showAll, setShowAll] = useState(false);
+
+  // Newest first, matching the remarks list
+  const entries = [...history].reverse();
+  const visible = showAll ? entries : entries.slice(0, COLLAPSED_COUNT);
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <h2 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+        <FaHistory className="mr-2 text-gray-500" />
+        {title}
+      </h2>
+
+      {entries.length === 0 ? (
+        <p className="text-gray-500 text-center py-4">No activity recorded yet</p>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-3 space-y-4">
+          {visible.map(entry => {
+            const category = HISTORY_ACTION_CATEGORIES[entry.action] || 'edit';
+            const style = entry.action === 'rejected'
+              ? { icon: <FaTimesCircle />, className: 'bg-red-100 text-red-600' }
+              : CATEGORY_STYLES[category];
+            const changes = getVisibleChanges(entry);
+
+            return (
+              <li key={entry._id} className="ml-6">
+                <span className={`absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full text-xs ${style.className}`}>
+                  {style.icon}
+                </span>
+                <div className="flex flex-col sm:flex-row sm:items-baseline sm:justify-between">
+                  <p className="text-sm text-gray-900">
+                    <span className="font-medium">{entry.performedBy?.name || 'System'}</span>{' '}
+                    {describeHistoryEntry(entry)}
+                  </p>
+                  {entry.timestamp && (
+                    <time className="text-xs text-gray-500 sm:ml-4 whitespace-nowrap">
+                      {new Date(entry.timestamp).toLocaleString()}
+                    </time>
+                  )}
+                </div>
+
+                {changes.length > 0 && (
+                  <ul className="mt-2 space-y-1">
+                    {changes.map(change => (
+                      <li key={change.field} className="text-xs text-gray-600">
+                        <span className="font-medium text-gray-700">{getHistoryFieldLabel(change.field)}:</span>{' '}
+                        <span className="line-through text-red-600">{formatHistoryValue(change.field, change.from)}</span>
+                        {' → '}
+                        <span className="text-green-700">{formatHistoryValue(change.field, change.to)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {entry.reason && (
+                  <p className="mt-2 text-xs text-gray-600 bg-gray-50 border-l-2 border-gray-300 pl-2 py-1">
+                    Reason: {entry.reason}
+                  </p>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {entries.length > COLLAPSED_COUNT && (
+        <button
+          onClick={() => setShowAll(prev => !prev)}
+          className="mt-4 text-sm text-blue-600 hover:text-blue-800"
+        >
+          {showAll ? 'Show less' : `Show all ${entries.length} entries`}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default TaskActivityFeed;
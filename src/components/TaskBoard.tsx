@@ -0,0 +1,263 @@
+import React, { useState } from 'react';
+import { FaClock, FaFlag, FaLock, FaFilter } from 'react-icons/fa';
+import { toast } from 'react-toastify';
+import taskService from '../services/taskService';
+import type { TaskFilters, UpdateStageData, UpdateStatusData, UpdateTaskData } from '../services/taskService';
+import { BOARD_COLUMNS, UNASSIGNED, getBoardLanes, getBoardValue, matchesTaskFilters } from '../utils/taskBoard';
+import type { BoardGroupBy, BoardSwimlane, BoardTask } from '../utils/taskBoard';
+import { getApiErrorMessage } from '../utils/apiError';
+import { getTaskPriorityColor } from '../utils/taskColors';
+
+interface TaskBoardProps<T extends BoardTask> {
+  tasks: T[];
+  setTasks: React.Dispatch<React.SetStateAction<T[]>>;
+  onOpenTask: (task: T) => void;
+  groupByOptions?: BoardGroupBy[];
+  swimlaneOptions?: BoardSwimlane[];
+  onLaneFilter?: (filters: TaskFilters) => void; // Narrow the task list down to a single lane
+}
+
+const GROUP_BY_LABELS: Record<BoardGroupBy, string> = {
+  stage: 'Stage',
+  status: 'Status',
+  priority: 'Priority',
+};
+
+const SWIMLANE_LABELS: Record<BoardSwimlane, string> = {
+  none: 'None',
+  assignee: 'Assignee',
+  department: 'Department',
+};
+
+function TaskBoard<T extends BoardTask>({
+  tasks,
+  setTasks,
+  onOpenTask,
+  groupByOptions = ['stage', 'status', 'priority'],
+  swimlaneOptions = ['none', 'assignee', 'department'],
+  onLaneFilter,
+}: TaskBoardProps<T>) {
+  const [groupBy, setGroupBy] = useState<BoardGroupBy>(groupByOptions[0]);
+  const [swimlane, setSwimlane] = useState<BoardSwimlane>('none');
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [savingIds, setSavingIds] = useState<Set<string>>(new Set());
+
+  const columns = BOARD_COLUMNS[groupBy];
+  const lanes = getBoardLanes(tasks, swimlane);
+
+  const setSaving = (taskId: string, saving: boolean) => {
+    setSavingIds(prev => {
+      const next = new Set(prev);
+      if (saving) {
+        next.add(taskId);
+      } else {
+        next.delete(taskId);
+      }
+      return next;
+    });
+  };
+
+  const moveTask = async (task: T, target: string) => {
+    if (getBoardValue(task, groupBy) === target) return;
+
+    if (groupBy !== 'priority' && taskService.startsWork(groupBy, target) && taskService.getOpenBlockers(task).length > 0) {
+      toast.error('This task is blocked by unfinished tasks. Finish them before starting it.');
+      return;
+    }
+
+    // Show the card in its new column straight away and put it back if the server refuses
+    const field = groupBy;
+    setTasks(current => current.map(t => (t._id === task._id ? { ...t, [field]: target } : t)));
+    setSaving(task._id, true);
+
+    try {
+      if (groupBy === 'stage') {
+        await taskService.updateTaskStage(task._id, {
+          stage: target as UpdateStageData['stage'],
+          reason: `Stage changed to ${target}`
+        });
+      } else if (groupBy === 'status') {
+        await taskService.updateTaskStatus(task._id, {
+          status: target as UpdateStatusData['status'],
+          reason: `Status changed to ${target}`
+        });
+      } else {
+        await taskService.updateTask(task._id, { priority: target as UpdateTaskData['priority'] });
+      }
+    } catch (error) {
+      console.error('Error moving task:', error);
+      setTasks(current => current.map(t => (t._id === task._id ? task : t)));
+      toast.error(getApiErrorMessage(error, 'Failed to move task'));
+    } finally {
+      setSaving(task._id, false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, target: string) => {
+    e.preventDefault();
+    const taskId = draggingId || e.dataTransfer.getData('text/plain');
+    const task = tasks.find(t => t._id === taskId);
+    setDraggingId(null);
+    setDropTarget(null);
+    if (task) moveTask(task, target);
+  };
+
+  const isOverdue = (task: T) =>
+    new Date(task.deadline) < new Date() && !['completed', 'approved'].includes(task.status);
+
+  const renderCard = (task: T) => (
+    <div
+      key={task._id}
+      draggable={!savingIds.has(task._id)}
+      onDragStart={(e) => {
+        e.dataTransfer.setData('text/plain', task._id);
+        e.dataTransfer.effectAllowed = 'move';
+        setDraggingId(task._id);
+      }}
+      onDragEnd={() => {
+        setDraggingId(null);
+        setDropTarget(null);
+      }}
+      onClick={() => onOpenTask(task)}
+      className={`bg-white rounded-md shadow-sm border border-gray-200 p-3 cursor-pointer hover:shadow-md transition-shadow ${
+        draggingId === task._id || savingIds.has(task._id) ? 'opacity-50' : ''
+      }`}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <p className="text-sm font-medium text-gray-900 break-words">{task.title}</p>
+        {taskService.getOpenBlockers(task).length > 0 && (
+          <FaLock className="text-red-500 flex-shrink-0 mt-0.5" size={12} title="Blocked by unfinished tasks" />
+        )}
+      </div>
+      <div className="flex items-center justify-between mt-2">
+        {groupBy !== 'priority' ? (
+          <span className={`inline-flex items-center px-2 py-0.5 text-xs rounded-full ${getTaskPriorityColor(task.priority)}`}>
+            <FaFlag className="mr-1" size={10} />
+            {task.priority}
+          </span>
+        ) : (
+          <span />
+        )}
+        <span className={`flex items-center text-xs ${isOverdue(task) ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+          <FaClock className="mr-1" size={10} />
+          {new Date(task.deadline).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+        </span>
+      </div>
+      {task.assignedTo.length > 0 && (
+        <div className="flex -space-x-2 mt-2">
+          {task.assignedTo.slice(0, 4).map((assignment, index) => (
+            <div
+              key={`${assignment.user?._id || 'unknown'}-${index}`}
+              className="w-6 h-6 bg-blue-100 border-2 border-white rounded-full flex items-center justify-center"
+              title={assignment.user?.name || 'Unknown User'}
+            >
+              <span className="text-[10px] font-medium text-blue-700">
+                {assignment.user?.name ? assignment.user.name.split(' ').map(n => n[0]).join('').slice(0, 2) : '?'}
+              </span>
+            </div>
+          ))}
+          {task.assignedTo.length > 4 && (
+            <span className="pl-3 text-xs text-gray-500">+{task.assignedTo.length - 4}</span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div>
+      {/* Board Controls */}
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        <div className="flex items-center space-x-2">
+          <label className="text-sm font-medium text-gray-700">Columns:</label>
+          <select
+            value={groupBy}
+            onChange={(e) => setGroupBy(e.target.value as BoardGroupBy)}
+            className="px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {groupByOptions.map(option => (
+              <option key={option} value={option}>{GROUP_BY_LABELS[option]}</option>
+            ))}
+          </select>
+        </div>
+        {swimlaneOptions.length > 1 && (
+          <div className="flex items-center space-x-2">
+            <label className="text-sm font-medium text-gray-700">Swimlanes:</label>
+            <select
+              value={swimlane}
+              onChange={(e) => setSwimlane(e.target.value as BoardSwimlane)}
+              className="px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {swimlaneOptions.map(option => (
+                <option key={option} value={option}>{SWIMLANE_LABELS[option]}</option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-6">
+        {lanes.map(lane => {
+          const laneTasks = tasks.filter(task => matchesTaskFilters(task, lane.filters));
+
+          return (
+            <div key={lane.key}>
+              {swimlane !== 'none' && (
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="text-sm font-semibold text-gray-800">
+                    {lane.label} <span className="text-gray-500 font-normal">({laneTasks.length})</span>
+                  </h3>
+                  {onLaneFilter && lane.key !== UNASSIGNED && (
+                    <button
+                      onClick={() => onLaneFilter(lane.filters)}
+                      className="text-xs text-blue-600 hover:text-blue-800 flex items-center"
+                    >
+                      <FaFilter className="mr-1" size={10} />
+                      Show only this lane
+                    </button>
+                  )}
+                </div>
+              )}
+
+              <div className="flex gap-4 overflow-x-auto pb-2">
+                {columns.map(column => {
+                  const targetKey = `${lane.key}:${column.value}`;
+                  const columnTasks = laneTasks.filter(task => getBoardValue(task, groupBy) === column.value);
+
+                  return (
+                    <div
+                      key={column.value}
+                      onDragOver={(e) => {
+                        e.preventDefault();
+                        e.dataTransfer.dropEffect = 'move';
+                        if (dropTarget !== targetKey) setDropTarget(targetKey);
+                      }}
+                      onDragLeave={() => setDropTarget(prev => (prev === targetKey ? null : prev))}
+                      onDrop={(e) => handleDrop(e, column.value)}
+                      className={`w-72 flex-shrink-0 rounded-lg p-3 transition-colors ${
+                        dropTarget === targetKey ? 'bg-blue-50 ring-2 ring-blue-300' : 'bg-gray-100'
+                      }`}
+                    >
+                      <div className="flex items-center justify-between mb-3">
+                        <span className="text-sm font-medium text-gray-700">{column.label}</span>
+                        <span className="text-xs text-gray-500 bg-white px-2 py-0.5 rounded-full">
+                          {columnTasks.length}
+                        </span>
+                      </div>
+                      <div className="space-y-2 min-h-[60px]">
+                        {columnTasks.map(renderCard)}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default TaskBoard;
@@ -0,0 +1,249 @@
+import { useState } from 'react';
+import { FaChevronLeft, FaChevronRight, FaCalendarAlt } from 'react-icons/fa';
+import { toast } from 'react-toastify';
+import taskService from '../services/taskService';
+import TaskTimeline from './TaskTimeline';
+import {
+  addDays, getMonthGrid, getTasksDueOn, getWeekDays, isSameDay, isTaskFinished, isTaskOverdue,
+  moveDeadlineToDay, startOfDay, startOfWeek
+} from '../utils/taskSchedule';
+import type { ScheduleTask } from '../utils/taskSchedule';
+import { getApiErrorMessage } from '../utils/apiError';
+
+type CalendarMode = 'month' | 'week' | 'timeline';
+
+interface TaskCalendarProps<T extends ScheduleTask> {
+  tasks: T[];
+  onOpenTask: (task: T) => void;
+  // Updates the task in the parent's list; called again with the old deadline if saving fails
+  onDeadlineChange?: (taskId: string, deadline: string) => void;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Four weeks of timeline, so a whole month fits on screen
+const TIMELINE_DAYS = 28;
+
+// Cells show this many tasks before collapsing the rest into "+N more"
+const MAX_TASKS_PER_CELL = 3;
+
+function TaskCalendar<T extends ScheduleTask>({ tasks, onOpenTask, onDeadlineChange }: TaskCalendarProps<T>) {
+  const [mode, setMode] = useState<CalendarMode>('month');
+  const [cursor, setCursor] = useState(() => startOfDay(new Date()));
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropDay, setDropDay] = useState<string | null>(null);
+  const today = new Date();
+
+  const canReschedule = !!onDeadlineChange;
+
+  const handleReschedule = async (task: T, deadline: string) => {
+    if (!onDeadlineChange || isSameDay(new Date(deadline), new Date(task.deadline))) return;
+
+    // Move the task straight away and put it back if the server refuses
+    onDeadlineChange(task._id, deadline);
+    try {
+      await taskService.updateTask(task._id, { deadline });
+      toast.success(`Deadline moved to ${new Date(deadline).toLocaleDateString()}`);
+    } catch (error) {
+      console.error('Error rescheduling task:', error);
+      onDeadlineChange(task._id, task.deadline);
+      toast.error(getApiErrorMessage(error, 'Failed to reschedule task'));
+    }
+  };
+
+  const navigate = (direction: -1 | 1) => {
+    setCursor(prev => {
+      if (mode === 'month') return new Date(prev.getFullYear(), prev.getMonth() + direction, 1);
+      if (mode === 'week') return addDays(prev, direction * 7);
+      return addDays(prev, direction * 14);
+    });
+  };
+
+  const getTitle = () => {
+    if (mode === 'month') {
+      return cursor.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+    }
+    const first = startOfWeek(cursor);
+    const last = addDays(first, mode === 'week' ? 6 : TIMELINE_DAYS - 1);
+    const format = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+    return `${format(first)} – ${format(last)}`;
+  };
+
+  const getTaskChipColor = (task: T) => {
+    if (isTaskOverdue(task, today)) return 'bg-red-100 text-red-800 border-red-300 font-medium';
+    if (isTaskFinished(task)) return 'bg-green-50 text-green-700 border-green-200 line-through';
+    if (task.priority === 'urgent' || task.priority === 'high') return 'bg-orange-50 text-orange-800 border-orange-200';
+    return 'bg-blue-50 text-blue-800 border-blue-200';
+  };
+
+  const renderTaskChip = (task: T, showTime: boolean) => (
+    <div
+      key={task._id}
+      draggable={canReschedule && !isTaskFinished(task)}
+      onDragStart={(e) => {
+        e.dataTransfer.setData('text/plain', task._id);
+        e.dataTransfer.effectAllowed = 'move';
+        setDraggingId(task._id);
+      }}
+      onDragEnd={() => {
+        setDraggingId(null);
+        setDropDay(null);
+      }}
+      onClick={() => onOpenTask(task)}
+      className={`px-1.5 py-0.5 text-xs border rounded truncate cursor-pointer hover:shadow-sm ${getTaskChipColor(task)} ${
+        draggingId === task._id ? 'opacity-50' : ''
+      }`}
+      title={`${task.title} – due ${new Date(task.deadline).toLocaleString()}`}
+    >
+      {showTime && (
+        <span className="mr-1 opacity-75">
+          {new Date(task.deadline).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}
+        </span>
+      )}
+      {task.title}
+    </div>
+  );
+
+  const renderDayCell = (day: Date, inMonth: boolean, tall: boolean) => {
+    const dayTasks = getTasksDueOn(tasks, day);
+    const key = day.toISOString();
+    const visibleTasks = tall ? dayTasks : dayTasks.slice(0, MAX_TASKS_PER_CELL);
+
+    return (
+      <div
+        key={key}
+        onDragOver={(e) => {
+          if (!canReschedule) return;
+          e.preventDefault();
+          if (dropDay !== key) setDropDay(key);
+        }}
+        onDragLeave={() => setDropDay(prev => (prev === key ? null : prev))}
+        onDrop={(e) => {
+          e.preventDefault();
+          const task = tasks.find(t => t._id === (draggingId || e.dataTransfer.getData('text/plain')));
+          setDraggingId(null);
+          setDropDay(null);
+          if (task) handleReschedule(task, moveDeadlineToDay(task.deadline, day));
+        }}
+        className={`border-b border-r border-gray-200 p-1 ${tall ? 'min-h-[240px]' : 'min-h-[96px]'} ${
+          dropDay === key ? 'bg-blue-50' : inMonth ? 'bg-white' : 'bg-gray-50'
+        }`}
+      >
+        <div className={`text-xs mb-1 ${
+          isSameDay(day, today)
+            ? 'inline-flex items-center justify-center w-6 h-6 rounded-full bg-blue-600 text-white font-semibold'
+            : inMonth ? 'text-gray-700' : 'text-gray-400'
+        }`}>
+          {day.getDate()}
+        </div>
+        <div className="space-y-1">
+          {visibleTasks.map(task => renderTaskChip(task, tall))}
+          {dayTasks.length > visibleTasks.length && (
+            <button
+              onClick={() => {
+                setCursor(day);
+                setMode('week');
+              }}
+              className="text-xs text-blue-600 hover:text-blue-800"
+            >
+              +{dayTasks.length - visibleTasks.length} more
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const overdueCount = tasks.filter(task => isTaskOverdue(task, today)).length;
+
+  return (
+    <div>
+      {/* Calendar Controls */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 border border-gray-300 rounded-md hover:bg-gray-50"
+            title="Previous"
+          >
+            <FaChevronLeft size={12} />
+          </button>
+          <button
+            onClick={() => setCursor(startOfDay(new Date()))}
+            className="px-3 py-1 border border-gray-300 rounded-md text-sm hover:bg-gray-50"
+          >
+            Today
+          </button>
+          <button
+            onClick={() => navigate(1)}
+            className="p-2 border border-gray-300 rounded-md hover:bg-gray-50"
+            title="Next"
+          >
+            <FaChevronRight size={12} />
+          </button>
+          <h2 className="text-lg font-semibold text-gray-900 ml-2 flex items-center">
+            <FaCalendarAlt className="mr-2 text-blue-600" />
+            {getTitle()}
+          </h2>
+        </div>
+        <div className="flex items-center gap-3">
+          {overdueCount > 0 && (
+            <span className="px-2 py-1 text-xs rounded-full bg-red-100 text-red-800 font-medium">
+              {overdueCount} overdue
+            </span>
+          )}
+          <div className="inline-flex rounded-md border border-gray-300 overflow-hidden">
+            {(['month', 'week', 'timeline'] as CalendarMode[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setMode(option)}
+                className={`px-3 py-1 text-sm capitalize ${
+                  mode === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {mode === 'timeline' ? (
+        tasks.length === 0 ? (
+          <p className="text-center py-8 text-gray-500">No tasks to show</p>
+        ) : (
+          <TaskTimeline
+            tasks={[...tasks].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())}
+            rangeStart={startOfWeek(cursor)}
+            days={TIMELINE_DAYS}
+            onOpenTask={onOpenTask}
+            onReschedule={canReschedule ? handleReschedule : undefined}
+          />
+        )
+      ) : (
+        <div className="border-t border-l border-gray-200 rounded-lg overflow-hidden">
+          <div className="grid grid-cols-7">
+            {WEEKDAYS.map(day => (
+              <div key={day} className="border-b border-r border-gray-200 bg-gray-50 py-2 text-center text-xs font-medium text-gray-500 uppercase">
+                {day}
+              </div>
+            ))}
+            {mode === 'month'
+              ? getMonthGrid(cursor).map(day => renderDayCell(day, day.getMonth() === cursor.getMonth(), false))
+              : getWeekDays(cursor).map(day => renderDayCell(day, true, true))}
+          </div>
+        </div>
+      )}
+
+      {canReschedule && (
+        <p className="text-xs text-gray-500 mt-2">
+          {mode === 'timeline'
+            ? 'Drag the end of a bar to change the deadline.'
+            : 'Drag a task to another day to change its deadline.'}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default TaskCalendar;
@@ -0,0 +1,245 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { FaLink, FaPlus, FaTimes, FaSearch, FaLock, FaLockOpen } from 'react-icons/fa';
+import { toast } from 'react-toastify';
+import taskService from '../services/taskService';
+import type { Task, TaskDependency } from '../services/taskService';
+import { findDependencyCycle } from '../utils/taskDependencies';
+import { getApiErrorMessage } from '../utils/apiError';
+import { getTaskStatusColor, getStatusDisplayText } from '../utils/taskColors';
+
+interface TaskDependenciesProps {
+  task: Task;
+  canEdit: boolean;
+  onTaskUpdate?: (updatedTask: Task) => void;
+}
+
+const TaskDependencies: React.FC<TaskDependenciesProps> = ({ task, canEdit, onTaskUpdate }) => {
+  const navigate = useNavigate();
+  const [showAddDialog, setShowAddDialog] = useState(false);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [searchResults, setSearchResults] = useState<Task[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const blockedBy = task.blockedBy || [];
+  const blocks = task.blocks || [];
+  const openBlockers = taskService.getOpenBlockers(task);
+  const candidates = searchResults.filter(candidate =>
+    candidate._id !== task._id && !blockedBy.some(blocker => blocker._id === candidate._id)
+  );
+
+  // Search candidate blockers while typing
+  useEffect(() => {
+    if (!showAddDialog || !searchTerm.trim()) {
+      setSearchResults([]);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        setSearching(true);
+        const response = await taskService.getTasks({ search: searchTerm.trim(), limit: 10 });
+        setSearchResults(response.data.tasks);
+      } catch (error) {
+        console.error('Error searching tasks:', error);
+      } finally {
+        setSearching(false);
+      }
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [searchTerm, showAddDialog]);
+
+  const handleAddDependency = async (blocker: Task) => {
+    try {
+      setLoading(true);
+
+      // Check for loops before asking the server, so we can explain which tasks are involved
+      const graph = await taskService.getDependencyGraph(task._id);
+      const cycle = findDependencyCycle(graph.data.edges, task._id, blocker._id);
+      if (cycle) {
+        const titles = new Map<string, string>(graph.data.nodes.map(node => [node._id, node.title]));
+        titles.set(task._id, task.title);
+        titles.set(blocker._id, blocker.title);
+        toast.error(`This would create a circular dependency: ${cycle.map(id => titles.get(id) || id).join(' → ')}`);
+        return;
+      }
+
+      const response = await taskService.addDependency(task._id, blocker._id);
+      if (response.success) {
+        toast.success('Dependency added successfully');
+        setShowAddDialog(false);
+        setSearchTerm('');
+        onTaskUpdate?.(response.data.task);
+      }
+    } catch (error) {
+      console.error('Error adding dependency:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to add dependency'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRemoveDependency = async (blockerId: string) => {
+    try {
+      setLoading(true);
+      const response = await taskService.removeDependency(task._id, blockerId);
+      if (response.success) {
+        toast.success('Dependency removed successfully');
+        onTaskUpdate?.(response.data.task);
+      }
+    } catch (error) {
+      console.error('Error removing dependency:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to remove dependency'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderDependency = (dependency: TaskDependency, removable: boolean) => {
+    const isOpen = !['completed', 'approved'].includes(dependency.status);
+
+    return (
+      <div
+        key={dependency._id}
+        className="flex items-center justify-between p-3 border border-gray-200 rounded-md"
+      >
+        <div className="flex items-center space-x-2 min-w-0">
+          {isOpen ? (
+            <FaLock className="text-red-500 flex-shrink-0" size={12} />
+          ) : (
+            <FaLockOpen className="text-green-500 flex-shrink-0" size={12} />
+          )}
+          <button
+            onClick={() => navigate(`/tasks/${dependency._id}`)}
+            className="text-sm text-blue-600 hover:text-blue-800 truncate text-left"
+            title={dependency.title}
+          >
+            {dependency.title}
+          </button>
+        </div>
+        <div className="flex items-center space-x-2 flex-shrink-0">
+          <span className={`px-2 py-0.5 text-xs rounded-full ${getTaskStatusColor(dependency.status)}`}>
+            {getStatusDisplayText(dependency.status)}
+          </span>
+          {removable && (
+            <button
+              onClick={() => handleRemoveDependency(dependency._id)}
+              disabled={loading}
+              className="text-red-600 hover:text-red-800 disabled:opacity-50"
+              title="Remove dependency"
+            >
+              <FaTimes size={12} />
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 sm:p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-medium text-gray-900 flex items-center">
+          <FaLink className="mr-2 text-blue-600" />
+          Dependencies
+        </h2>
+        {canEdit && (
+          <button
+            onClick={() => setShowAddDialog(true)}
+            className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm flex items-center gap-1"
+          >
+            <FaPlus size={12} />
+            Add
+          </button>
+        )}
+      </div>
+
+      {openBlockers.length > 0 && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+          Waiting on {openBlockers.length} unfinished task{openBlockers.length > 1 ? 's' : ''}. Work can start once they are completed.
+        </div>
+      )}
+
+      {/* Add Dependency Dialog */}
+      {showAddDialog && (
+        <div className="mb-4 p-4 border border-gray-200 rounded-lg bg-gray-50">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-sm font-medium text-gray-900">This task is blocked by...</h3>
+            <button
+              onClick={() => {
+                setShowAddDialog(false);
+                setSearchTerm('');
+              }}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              <FaTimes size={14} />
+            </button>
+          </div>
+
+          <div className="relative mb-3">
+            <FaSearch className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={14} />
+            <input
+              type="text"
+              placeholder="Search tasks by title..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+            />
+          </div>
+
+          <div className="max-h-40 overflow-y-auto space-y-2">
+            {searching ? (
+              <p className="text-sm text-gray-500 text-center py-2">Searching...</p>
+            ) : candidates.length > 0 ? (
+              candidates.map(candidate => (
+                <button
+                  key={candidate._id}
+                  onClick={() => handleAddDependency(candidate)}
+                  disabled={loading}
+                  className="w-full flex items-center justify-between p-2 border border-gray-200 rounded bg-white hover:bg-blue-50 text-left disabled:opacity-50"
+                >
+                  <span className="text-sm text-gray-800 truncate">{candidate.title}</span>
+                  <span className={`ml-2 px-2 py-0.5 text-xs rounded-full flex-shrink-0 ${getTaskStatusColor(candidate.status)}`}>
+                    {getStatusDisplayText(candidate.status)}
+                  </span>
+                </button>
+              ))
+            ) : (
+              <p className="text-sm text-gray-500 text-center py-2">
+                {searchTerm ? 'No matching tasks found' : 'Start typing to find a task'}
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        <div>
+          <p className="text-sm font-medium text-gray-700 mb-2">Blocked by ({blockedBy.length})</p>
+          {blockedBy.length > 0 ? (
+            <div className="space-y-2">
+              {blockedBy.map(dependency => renderDependency(dependency, canEdit))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">Not waiting on any task</p>
+          )}
+        </div>
+
+        <div>
+          <p className="text-sm font-medium text-gray-700 mb-2">Blocks ({blocks.length})</p>
+          {blocks.length > 0 ? (
+            <div className="space-y-2">
+              {blocks.map(dependency => renderDependency(dependency, false))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">No tasks are waiting on this one</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TaskDependencies;
@@ -0,0 +1,404 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { toast } from 'react-toastify';
+import { FaReply, FaEdit, FaTrash } from 'react-icons/fa';
+import taskService from '../services/taskService';
+import type { Task } from '../services/taskService';
+import userService from '../services/userService';
+import authService from '../services/authService';
+import {
+  buildRemarkThreads,
+  extractMentionIds,
+  findMentionQuery,
+  insertMention,
+  parseRemarkMarkdown,
+} from '../utils/remarks';
+import type { InlineToken, MentionUser, RemarkCategory, RemarkNode } from '../utils/remarks';
+import { getApiErrorMessage } from '../utils/apiError';
+
+interface TaskRemarksProps {
+  task: Task;
+  canComment?: boolean; // Overviewers can read remarks but not write them
+  onTaskUpdate?: (updatedTask: Task) => void;
+}
+
+// Replies deeper than this are shown at the same indent
+const MAX_INDENT_DEPTH = 3;
+
+const CATEGORY_STYLES: Record<RemarkCategory, string> = {
+  creator: 'bg-blue-50 border-l-4 border-blue-400',
+  assignee: 'bg-green-50 border-l-4 border-green-400',
+  general: 'bg-gray-50 border-l-4 border-gray-400',
+};
+
+const CATEGORY_LABELS: Record<RemarkCategory, string> = {
+  creator: 'Creator',
+  assignee: 'Assignee',
+  general: 'General',
+};
+
+const renderInline = (tokens: InlineToken[]): React.ReactNode =>
+  tokens.map((token, index) => {
+    switch (token.type) {
+      case 'bold':
+        return <strong key={index}>{renderInline(token.children)}</strong>;
+      case 'italic':
+        return <em key={index}>{renderInline(token.children)}</em>;
+      case 'code':
+        return <code key={index} className="px-1 bg-gray-200 rounded text-xs font-mono">{token.text}</code>;
+      case 'link':
+        return (
+          <a key={index} href={token.href} target="_blank" rel="noopener noreferrer" className="text-blue-600 underline">
+            {token.text}
+          </a>
+        );
+      case 'mention':
+        return <span key={index} className="text-blue-700 font-medium">@{token.name}</span>;
+      default:
+        return <React.Fragment key={index}>{token.text}</React.Fragment>;
+    }
+  });
+
+const RemarkText: React.FC<{ text: string }> = ({ text }) => (
+  <div className="text-sm text-gray-800 space-y-2 break-words">
+    {parseRemarkMarkdown(text).map((block, index) =>
+      block.type === 'list' ? (
+        <ul key={index} className="list-disc list-inside">
+          {block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>)}
+        </ul>
+      ) : (
+        <p key={index}>
+          {block.lines.map((line, lineIndex) => (
+            <React.Fragment key={lineIndex}>
+              {lineIndex > 0 && <br />}
+              {renderInline(line)}
+            </React.Fragment>
+          ))}
+        </p>
+      )
+    )}
+  </div>
+);
+
+interface RemarkComposerProps {
+  users: MentionUser[];
+  initialText?: string;
+  placeholder?: string;
+  submitLabel: string;
+  autoFocus?: boolean;
+  onSubmit: (text: string) => Promise<boolean>;
+  onCancel?: () => void;
+}
+
+const RemarkComposer: React.FC<RemarkComposerProps> = ({
+  users, initialText = '', placeholder, submitLabel, autoFocus, onSubmit, onCancel
+}) => {
+  const [text, setText] = useState(initialText);
+  const [submitting, setSubmitting] = useState(false);
+  const [mention, setMention] = useState<{ start: number; query: string } | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const suggestions = mention
+    ? users.filter(user => user.name.toLowerCase().includes(mention.query.toLowerCase())).slice(0, 6)
+    : [];
+
+  const updateMention = (value: string, caret: number) => {
+    setMention(findMentionQuery(value, caret));
+    setHighlighted(0);
+  };
+
+  const chooseMention = (user: MentionUser) => {
+    const textarea = textareaRef.current;
+    if (!mention || !textarea) return;
+    const result = insertMention(text, mention.start, textarea.selectionStart, user);
+    setText(result.text);
+    setMention(null);
+    // Put the caret after the inserted mention once React has updated the value
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(result.caret, result.caret);
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!text.trim() || submitting) return;
+    setSubmitting(true);
+    const saved = await onSubmit(text.trim());
+    setSubmitting(false);
+    if (saved && !onCancel) {
+      setText('');
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setHighlighted(prev => (prev + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        chooseMention(suggestions[highlighted]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        setMention(null);
+        return;
+      }
+    }
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      handleSubmit();
+    }
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        value={text}
+        autoFocus={autoFocus}
+        onChange={(e) => {
+          setText(e.target.value);
+          updateMention(e.target.value, e.target.selectionStart);
+        }}
+        onClick={(e) => updateMention(text, e.currentTarget.selectionStart)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setTimeout(() => setMention(null), 150)}
+        placeholder={placeholder}
+        rows={3}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+
+      {suggestions.length > 0 && (
+        <ul className="absolute z-10 left-0 mt-1 w-64 bg-white border border-gray-200 rounded-md shadow-lg max-h-48 overflow-y-auto">
+          {suggestions.map((user, index) => (
+            <li key={user._id}>
+              <button
+                type="button"
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  chooseMention(user);
+                }}
+                className={`w-full text-left px-3 py-2 text-sm ${index === highlighted ? 'bg-blue-50 text-blue-800' : 'text-gray-700 hover:bg-gray-50'}`}
+              >
+                {user.name}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center justify-between mt-2">
+        <p className="text-xs text-gray-400">**bold**, *italic*, `code`, [link](https://…), - lists, @ to mention</p>
+        <div className="flex space-x-2">
+          {onCancel && (
+            <button
+              onClick={onCancel}
+              className="px-3 py-1 text-sm text-gray-600 hover:text-gray-800"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            onClick={handleSubmit}
+            disabled={!text.trim() || submitting}
+            className="px-4 py-1 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {submitting ? 'Saving...' : submitLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const TaskRemarks: React.FC<TaskRemarksProps> = ({ task, canComment = true, onTaskUpdate }) => {
+  const [users, setUsers] = useState<MentionUser[]>([]);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const currentUser = authService.getCurrentUser();
+  const threads = buildRemarkThreads(task.remarks);
+
+  // People who can be @mentioned
+  useEffect(() => {
+    if (!canComment) return;
+    userService.getUsersForDropdown()
+      .then(response => {
+        if (response.success) setUsers(response.data.users);
+      })
+      .catch(error => console.error('Error loading users for mentions:', error));
+  }, [canComment]);
+
+  const applyUpdate = (updatedTask: Task) => {
+    onTaskUpdate?.(updatedTask);
+  };
+
+  const handleAdd = async (text: string, parentId?: string): Promise<boolean> => {
+    try {
+      const response = await taskService.addRemark(task._id, {
+        text,
+        category: 'auto', // Let backend automatically determine the category
+        parentId,
+        mentions: extractMentionIds(text),
+      });
+      if (response.success) {
+        toast.success(parentId ? 'Reply added' : 'Remark added successfully');
+        applyUpdate(response.data.task);
+        setReplyingTo(null);
+        return true;
+      }
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to add remark'));
+    }
+    return false;
+  };
+
+  const handleEdit = async (remarkId: string, text: string): Promise<boolean> => {
+    try {
+      const response = await taskService.updateRemark(task._id, remarkId, {
+        text,
+        mentions: extractMentionIds(text),
+      });
+      if (response.success) {
+        toast.success('Remark updated');
+        applyUpdate(response.data.task);
+        setEditingId(null);
+        return true;
+      }
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to update remark'));
+    }
+    return false;
+  };
+
+  const handleDelete = async (remarkId: string) => {
+    if (!window.confirm('Delete this remark? Replies to it will stay visible.')) return;
+    try {
+      const response = await taskService.deleteRemark(task._id, remarkId);
+      if (response.success) {
+        toast.success('Remark deleted');
+        applyUpdate(response.data.task);
+      }
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to delete remark'));
+    }
+  };
+
+  const renderRemark = (remark: RemarkNode, depth: number): React.ReactNode => {
+    const isAuthor = remark.author?._id === currentUser?._id;
+    const isEditing = editingId === remark._id;
+
+    return (
+      <div key={remark._id} className={depth > 0 && depth <= MAX_INDENT_DEPTH ? 'ml-6 mt-3' : depth > 0 ? 'mt-3' : ''}>
+        <div className={`p-3 rounded-r-md ${CATEGORY_STYLES[remark.category]}`}>
+          {remark.isDeleted ? (
+            <p className="text-sm italic text-gray-500">This remark was deleted</p>
+          ) : isEditing ? (
+            <RemarkComposer
+              users={users}
+              initialText={remark.text}
+              submitLabel="Save"
+              autoFocus
+              onSubmit={(text) => handleEdit(remark._id, text)}
+              onCancel={() => setEditingId(null)}
+            />
+          ) : (
+            <RemarkText text={remark.text} />
+          )}
+
+          {!isEditing && (
+            <div className="flex items-center justify-between mt-2">
+              <p className="text-xs text-gray-500">
+                By {remark.author?.name} • {new Date(remark.createdAt).toLocaleString()}
+                {remark.editedAt && !remark.isDeleted && (
+                  <span title={`Edited ${new Date(remark.editedAt).toLocaleString()}`}> • edited</span>
+                )}
+              </p>
+              <div className="flex items-center space-x-3">
+                {canComment && !remark.isDeleted && (
+                  <>
+                    <button
+                      onClick={() => setReplyingTo(replyingTo === remark._id ? null : remark._id)}
+                      className="text-xs text-gray-500 hover:text-blue-600 flex items-center"
+                      title="Reply"
+                    >
+                      <FaReply className="mr-1" /> Reply
+                    </button>
+                    {isAuthor && (
+                      <>
+                        <button
+                          onClick={() => setEditingId(remark._id)}
+                          className="text-xs text-gray-500 hover:text-blue-600"
+                          title="Edit"
+                        >
+                          <FaEdit />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(remark._id)}
+                          className="text-xs text-gray-500 hover:text-red-600"
+                          title="Delete"
+                        >
+                          <FaTrash />
+                        </button>
+                      </>
+                    )}
+                  </>
+                )}
+                <span className="text-xs px-2 py-1 bg-white bg-opacity-50 rounded-full">
+                  {CATEGORY_LABELS[remark.category]}
+                </span>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {replyingTo === remark._id && (
+          <div className="ml-6 mt-3">
+            <RemarkComposer
+              users={users}
+              placeholder={`Reply to ${remark.author?.name}...`}
+              submitLabel="Reply"
+              autoFocus
+              onSubmit={(text) => handleAdd(text, remark._id)}
+              onCancel={() => setReplyingTo(null)}
+            />
+          </div>
+        )}
+
+        {remark.replies.map(reply => renderRemark(reply, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 sm:p-6">
+      <h2 className="text-lg font-medium text-gray-900 mb-4">Remarks & Comments</h2>
+
+      {/* Add New Remark */}
+      {canComment && (
+        <div className="mb-6 p-4 border border-gray-200 rounded-lg">
+          <RemarkComposer
+            users={users}
+            placeholder="Add a remark or comment... Type @ to mention someone"
+            submitLabel="Add Remark"
+            onSubmit={(text) => handleAdd(text)}
+          />
+        </div>
+      )}
+
+      {/* Existing Remarks */}
+      <div className="space-y-3">
+        {threads.length === 0 ? (
+          <p className="text-gray-500 text-sm">No remarks yet</p>
+        ) : (
+          threads.map(remark => renderRemark(remark, 0))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TaskRemarks;
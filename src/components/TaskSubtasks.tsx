@@ -0,0 +1,397 @@
+import React, { useState } from 'react';
+import { FaListUl, FaPlus, FaTrash, FaArrowUp, FaArrowDown, FaTimes } from 'react-icons/fa';
+import { toast } from 'react-toastify';
+import taskService from '../services/taskService';
+import type { Task, TaskResponse, SubtaskData } from '../services/taskService';
+import ProgressCard from './ProgressCard';
+import { buildSubtaskTree, getSubtaskProgress, moveId, sortChecklist } from '../utils/subtasks';
+import type { SubtaskNode } from '../utils/subtasks';
+import { getApiErrorMessage } from '../utils/apiError';
+import { getTaskStageColor } from '../utils/taskColors';
+
+interface TaskSubtasksProps {
+  task: Task;
+  canEdit: boolean;
+  onTaskUpdate?: (updatedTask: Task) => void;
+}
+
+const emptySubtask: SubtaskData = {
+  title: '',
+  parentId: null,
+  owner: '',
+  deadline: '',
+};
+
+const TaskSubtasks: React.FC<TaskSubtasksProps> = ({ task, canEdit, onTaskUpdate }) => {
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [newSubtask, setNewSubtask] = useState<SubtaskData>(emptySubtask);
+  const [newChecklistItem, setNewChecklistItem] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const subtasks = task.subtasks || [];
+  const tree = buildSubtaskTree(subtasks);
+  const checklist = sortChecklist(task.checklist || []);
+  const progress = getSubtaskProgress(task);
+
+  // Subtasks can be owned by anyone working on the task
+  const owners = [
+    ...task.assignedTo.filter(assignment => assignment.user).map(assignment => assignment.user),
+    ...(task.createdBy && !task.assignedTo.some(assignment => assignment.user?._id === task.createdBy._id)
+      ? [task.createdBy]
+      : []),
+  ];
+
+  const runUpdate = async (request: () => Promise<TaskResponse>, successMessage: string | null, errorMessage: string) => {
+    try {
+      setLoading(true);
+      const response = await request();
+      if (response.success) {
+        if (successMessage) toast.success(successMessage);
+        onTaskUpdate?.(response.data.task);
+        return true;
+      }
+    } catch (error) {
+      console.error(`${errorMessage}:`, error);
+      toast.error(getApiErrorMessage(error, errorMessage));
+    } finally {
+      setLoading(false);
+    }
+    return false;
+  };
+
+  const handleAddSubtask = async () => {
+    if (!newSubtask.title.trim()) {
+      toast.error('Please enter a subtask title');
+      return;
+    }
+
+    const added = await runUpdate(
+      () => taskService.addSubtask(task._id, {
+        title: newSubtask.title.trim(),
+        parentId: newSubtask.parentId || null,
+        owner: newSubtask.owner || undefined,
+        deadline: newSubtask.deadline || undefined,
+      }),
+      'Subtask added successfully',
+      'Failed to add subtask'
+    );
+
+    if (added) {
+      setNewSubtask(emptySubtask);
+      setShowAddForm(false);
+    }
+  };
+
+  const openAddForm = (parentId: string | null) => {
+    setNewSubtask({ ...emptySubtask, parentId });
+    setShowAddForm(true);
+  };
+
+  const handleMoveSubtask = (node: SubtaskNode, siblings: SubtaskNode[], direction: -1 | 1) => {
+    const order = moveId(siblings.map(sibling => sibling._id), node._id, direction);
+    if (!order) return;
+    runUpdate(
+      () => taskService.reorderSubtasks(task._id, node.parentId || null, order),
+      null,
+      'Failed to reorder subtasks'
+    );
+  };
+
+  const handleDeleteSubtask = (node: SubtaskNode) => {
+    const message = node.children.length > 0
+      ? `Delete "${node.title}" and its ${node.children.length} nested subtask(s)?`
+      : `Delete "${node.title}"?`;
+    if (!window.confirm(message)) return;
+
+    runUpdate(
+      () => taskService.deleteSubtask(task._id, node._id),
+      'Subtask deleted successfully',
+      'Failed to delete subtask'
+    );
+  };
+
+  const handleAddChecklistItem = async () => {
+    if (!newChecklistItem.trim()) return;
+
+    const added = await runUpdate(
+      () => taskService.addChecklistItem(task._id, newChecklistItem.trim()),
+      null,
+      'Failed to add checklist item'
+    );
+    if (added) setNewChecklistItem('');
+  };
+
+  const handleMoveChecklistItem = (itemId: string, direction: -1 | 1) => {
+    const order = moveId(checklist.map(item => item._id), itemId, direction);
+    if (!order) return;
+    runUpdate(
+      () => taskService.reorderChecklist(task._id, order),
+      null,
+      'Failed to reorder checklist'
+    );
+  };
+
+  const renderMoveButtons = (onMove: (direction: -1 | 1) => void, isFirst: boolean, isLast: boolean) => (
+    <>
+      <button
+        onClick={() => onMove(-1)}
+        disabled={loading || isFirst}
+        className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+        title="Move up"
+      >
+        <FaArrowUp size={10} />
+      </button>
+      <button
+        onClick={() => onMove(1)}
+        disabled={loading || isLast}
+        className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+        title="Move down"
+      >
+        <FaArrowDown size={10} />
+      </button>
+    </>
+  );
+
+  const renderSubtask = (node: SubtaskNode, siblings: SubtaskNode[], index: number, depth: number): React.ReactNode => {
+    const isOverdue = node.deadline && node.stage !== 'done' && new Date(node.deadline) < new Date();
+
+    return (
+      <React.Fragment key={node._id}>
+        <div
+          className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 border border-gray-200 rounded-md"
+          style={{ marginLeft: depth * 20 }}
+        >
+          <div className="min-w-0">
+            <p className={`text-sm font-medium truncate ${node.stage === 'done' ? 'text-gray-400 line-through' : 'text-gray-900'}`}>
+              {node.title}
+            </p>
+            <p className="text-xs text-gray-500">
+              {node.owner?.name || 'No owner'}
+              {node.deadline && (
+                <span className={isOverdue ? 'text-red-600 ml-2' : 'ml-2'}>
+                  Due {new Date(node.deadline).toLocaleDateString()}
+                </span>
+              )}
+            </p>
+          </div>
+
+          <div className="flex items-center space-x-1 flex-shrink-0">
+            {canEdit ? (
+              <select
+                value={node.stage}
+                onChange={(e) => runUpdate(
+                  () => taskService.updateSubtask(task._id, node._id, { stage: e.target.value as SubtaskData['stage'] }),
+                  null,
+                  'Failed to update subtask'
+                )}
+                disabled={loading}
+                className={`px-2 py-1 border border-gray-300 rounded text-xs ${getTaskStageColor(node.stage)}`}
+              >
+                <option value="not_started">Not Started</option>
+                <option value="pending">In Progress</option>
+                <option value="done">Done</option>
+              </select>
+            ) : (
+              <span className={`px-2 py-1 rounded-full text-xs ${getTaskStageColor(node.stage)}`}>
+                {node.stage === 'not_started' ? 'Not Started' : node.stage === 'pending' ? 'In Progress' : 'Done'}
+              </span>
+            )}
+
+            {canEdit && (
+              <>
+                {renderMoveButtons(
+                  direction => handleMoveSubtask(node, siblings, direction),
+                  index === 0,
+                  index === siblings.length - 1
+                )}
+                <button
+                  onClick={() => openAddForm(node._id)}
+                  disabled={loading}
+                  className="p-1 text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                  title="Add nested subtask"
+                >
+                  <FaPlus size={10} />
+                </button>
+                <button
+                  onClick={() => handleDeleteSubtask(node)}
+                  disabled={loading}
+                  className="p-1 text-red-600 hover:text-red-800 disabled:opacity-50"
+                  title="Delete subtask"
+                >
+                  <FaTrash size={10} />
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+
+        {node.children.map((child, childIndex) => renderSubtask(child, node.children, childIndex, depth + 1))}
+      </React.Fragment>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 sm:p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-medium text-gray-900 flex items-center">
+          <FaListUl className="mr-2 text-blue-600" />
+          Subtasks & Checklist
+        </h2>
+        {canEdit && (
+          <button
+            onClick={() => openAddForm(null)}
+            className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm flex items-center gap-1"
+          >
+            <FaPlus size={12} />
+            Add Subtask
+          </button>
+        )}
+      </div>
+
+      {progress !== null && (
+        <div className="flex justify-center mb-4">
+          <ProgressCard percentage={progress} label="Progress" count={tree.length + checklist.length} unit="items" />
+        </div>
+      )}
+
+      {/* Add Subtask Form */}
+      {showAddForm && (
+        <div className="mb-4 p-4 border border-gray-200 rounded-lg bg-gray-50">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-sm font-medium text-gray-900">
+              {newSubtask.parentId
+                ? `New subtask under "${subtasks.find(subtask => subtask._id === newSubtask.parentId)?.title || ''}"`
+                : 'New subtask'}
+            </h3>
+            <button
+              onClick={() => setShowAddForm(false)}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              <FaTimes size={14} />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <input
+              type="text"
+              placeholder="Subtask title"
+              value={newSubtask.title}
+              onChange={(e) => setNewSubtask({ ...newSubtask, title: e.target.value })}
+              className="sm:col-span-3 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+            />
+            <select
+              value={newSubtask.owner}
+              onChange={(e) => setNewSubtask({ ...newSubtask, owner: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+            >
+              <option value="">No owner</option>
+              {owners.map(owner => (
+                <option key={owner._id} value={owner._id}>{owner.name}</option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={newSubtask.deadline}
+              max={task.deadline ? task.deadline.slice(0, 10) : undefined}
+              onChange={(e) => setNewSubtask({ ...newSubtask, deadline: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+            />
+            <button
+              onClick={handleAddSubtask}
+              disabled={loading}
+              className="px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 text-sm"
+            >
+              {loading ? 'Adding...' : 'Add'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Subtask Tree */}
+      <div className="space-y-2 mb-6">
+        {tree.length > 0 ? (
+          tree.map((node, index) => renderSubtask(node, tree, index, 0))
+        ) : (
+          <p className="text-sm text-gray-500">No subtasks yet</p>
+        )}
+      </div>
+
+      {/* Checklist */}
+      <div>
+        <p className="text-sm font-medium text-gray-700 mb-2">
+          Checklist ({checklist.filter(item => item.done).length}/{checklist.length})
+        </p>
+        <div className="space-y-1">
+          {checklist.map((item, index) => (
+            <div key={item._id} className="flex items-center justify-between group">
+              <label className="flex items-center space-x-2 text-sm min-w-0">
+                <input
+                  type="checkbox"
+                  checked={item.done}
+                  disabled={!canEdit || loading}
+                  onChange={(e) => runUpdate(
+                    () => taskService.updateChecklistItem(task._id, item._id, { done: e.target.checked }),
+                    null,
+                    'Failed to update checklist item'
+                  )}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span className={`truncate ${item.done ? 'text-gray-400 line-through' : 'text-gray-800'}`}>
+                  {item.text}
+                </span>
+              </label>
+              {canEdit && (
+                <div className="flex items-center flex-shrink-0">
+                  {renderMoveButtons(
+                    direction => handleMoveChecklistItem(item._id, direction),
+                    index === 0,
+                    index === checklist.length - 1
+                  )}
+                  <button
+                    onClick={() => runUpdate(
+                      () => taskService.deleteChecklistItem(task._id, item._id),
+                      null,
+                      'Failed to delete checklist item'
+                    )}
+                    disabled={loading}
+                    className="p-1 text-red-600 hover:text-red-800 disabled:opacity-50"
+                    title="Delete item"
+                  >
+                    <FaTimes size={10} />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+          {checklist.length === 0 && !canEdit && (
+            <p className="text-sm text-gray-500">No checklist items</p>
+          )}
+        </div>
+
+        {canEdit && (
+          <div className="flex items-center space-x-2 mt-2">
+            <input
+              type="text"
+              placeholder="Add a checklist item..."
+              value={newChecklistItem}
+              onChange={(e) => setNewChecklistItem(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleAddChecklistItem();
+              }}
+              className="flex-1 px-3 py-1.5 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+            />
+            <button
+              onClick={handleAddChecklistItem}
+              disabled={loading || !newChecklistItem.trim()}
+              className="px-3 py-1.5 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 disabled:opacity-50 text-sm"
+            >
+              Add
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TaskSubtasks;
@@ -0,0 +1,198 @@
+import { useState, useEffect } from 'react';
+import { addDays, diffInDays, isSameDay, isTaskFinished, isTaskOverdue, moveDeadlineToDay, startOfDay } from '../utils/taskSchedule';
+import type { ScheduleTask } from '../utils/taskSchedule';
+
+interface TaskTimelineProps<T extends ScheduleTask> {
+  tasks: T[];
+  rangeStart: Date;
+  days: number;
+  onOpenTask: (task: T) => void;
+  onReschedule?: (task: T, deadline: string) => void;
+}
+
+const DAY_WIDTH = 32;
+
+interface DragState {
+  taskId: string;
+  originX: number;
+  deltaDays: number;
+}
+
+function TaskTimeline<T extends ScheduleTask>({ tasks, rangeStart, days, onOpenTask, onReschedule }: TaskTimelineProps<T>) {
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const today = startOfDay(new Date());
+  const dayList = Array.from({ length: days }, (_, i) => addDays(rangeStart, i));
+  const todayOffset = diffInDays(rangeStart, today);
+
+  // Follow the pointer while a bar's end is being dragged, and reschedule when it is released
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMove = (e: PointerEvent) => {
+      const deltaDays = Math.round((e.clientX - drag.originX) / DAY_WIDTH);
+      setDrag(prev => (prev && prev.deltaDays !== deltaDays ? { ...prev, deltaDays } : prev));
+    };
+
+    const handleUp = () => {
+      const task = tasks.find(t => t._id === drag.taskId);
+      if (task && onReschedule) {
+        const deadline = new Date(task.deadline);
+        const deltaDays = Math.max(drag.deltaDays, diffInDays(deadline, new Date(task.createdAt)));
+        if (deltaDays !== 0) {
+          onReschedule(task, moveDeadlineToDay(task.deadline, addDays(deadline, deltaDays)));
+        }
+      }
+      setDrag(null);
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  }, [drag, tasks, onReschedule]);
+
+  const getDeadline = (task: T): Date => {
+    const deadline = new Date(task.deadline);
+    if (drag?.taskId !== task._id) return deadline;
+
+    // Don't let the deadline be dragged before the day the task was created
+    const minimumDelta = diffInDays(deadline, new Date(task.createdAt));
+    return addDays(deadline, Math.max(drag.deltaDays, minimumDelta));
+  };
+
+  // Clamp a day offset to the visible range
+  const clamp = (offset: number) => Math.min(Math.max(offset, 0), days);
+
+  const renderBar = (task: T) => {
+    const deadline = getDeadline(task);
+    const overdue = isTaskOverdue({ status: task.status, deadline: deadline.toISOString() });
+    const finished = isTaskFinished(task);
+
+    const startOffset = diffInDays(rangeStart, new Date(task.createdAt));
+    const endOffset = diffInDays(rangeStart, deadline) + 1;
+    const left = clamp(startOffset);
+    const right = clamp(endOffset);
+
+    const overdueRight = overdue ? clamp(todayOffset + 1) : right;
+    const completedOffset = task.completedAt ? diffInDays(rangeStart, new Date(task.completedAt)) : null;
+
+    const barColor = finished
+      ? 'bg-green-400'
+      : overdue
+        ? 'bg-red-500'
+        : task.priority === 'urgent' || task.priority === 'high'
+          ? 'bg-orange-400'
+          : 'bg-blue-500';
+
+    return (
+      <>
+        {right > left && (
+          <div
+            onClick={() => onOpenTask(task)}
+            className={`absolute top-2 h-5 rounded ${barColor} cursor-pointer`}
+            style={{ left: left * DAY_WIDTH, width: (right - left) * DAY_WIDTH }}
+            title={`${task.title}: ${new Date(task.createdAt).toLocaleDateString()} → ${deadline.toLocaleDateString()}`}
+          >
+            {/* Dragging the end of the bar moves the deadline */}
+            {onReschedule && !finished && endOffset <= days && (
+              <div
+                onPointerDown={(e) => {
+                  e.preventDefault();
+                  e.stopPropagation();
+                  setDrag({ taskId: task._id, originX: e.clientX, deltaDays: 0 });
+                }}
+                onClick={(e) => e.stopPropagation()}
+                className="absolute right-0 top-0 h-full w-2 cursor-ew-resize rounded-r bg-black bg-opacity-20 hover:bg-opacity-40"
+                title="Drag to change the deadline"
+              />
+            )}
+          </div>
+        )}
+
+        {/* Time past the deadline */}
+        {overdue && overdueRight > right && (
+          <div
+            className="absolute top-2 h-5 rounded-r bg-red-200 border border-dashed border-red-400"
+            style={{ left: right * DAY_WIDTH, width: (overdueRight - right) * DAY_WIDTH }}
+            title="Overdue"
+          />
+        )}
+
+        {completedOffset !== null && completedOffset >= 0 && completedOffset < days && (
+          <div
+            className="absolute top-1 text-green-700 text-xs font-bold"
+            style={{ left: completedOffset * DAY_WIDTH + DAY_WIDTH / 2 - 4 }}
+            title={`Completed ${new Date(task.completedAt!).toLocaleDateString()}`}
+          >
+            ✓
+          </div>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="flex border border-gray-200 rounded-lg overflow-hidden">
+      {/* Task titles */}
+      <div className="w-48 sm:w-64 flex-shrink-0 border-r border-gray-200 bg-white">
+        <div className="h-12 border-b border-gray-200 px-3 flex items-end pb-1 text-xs font-medium text-gray-500 uppercase">
+          Task
+        </div>
+        {tasks.map(task => (
+          <button
+            key={task._id}
+            onClick={() => onOpenTask(task)}
+            className={`h-9 w-full px-3 flex items-center text-left text-sm truncate border-b border-gray-100 hover:bg-gray-50 ${
+              isTaskOverdue(task) ? 'text-red-600 font-medium' : 'text-gray-800'
+            }`}
+            title={task.title}
+          >
+            <span className="truncate">{task.title}</span>
+          </button>
+        ))}
+      </div>
+
+      {/* Bars */}
+      <div className={`flex-1 overflow-x-auto ${drag ? 'select-none cursor-ew-resize' : ''}`}>
+        <div className="relative" style={{ width: days * DAY_WIDTH }}>
+          <div className="flex h-12 border-b border-gray-200">
+            {dayList.map((day, i) => (
+              <div
+                key={day.toISOString()}
+                className={`flex-shrink-0 flex flex-col items-center justify-end pb-1 text-xs ${
+                  isSameDay(day, today) ? 'text-blue-600 font-semibold' : 'text-gray-500'
+                } ${day.getDay() === 0 || day.getDay() === 6 ? 'bg-gray-50' : ''}`}
+                style={{ width: DAY_WIDTH }}
+              >
+                {(i === 0 || day.getDate() === 1) && (
+                  <span className="text-[10px] text-gray-400">
+                    {day.toLocaleDateString('en-US', { month: 'short' })}
+                  </span>
+                )}
+                {day.getDate()}
+              </div>
+            ))}
+          </div>
+
+          {tasks.map(task => (
+            <div key={task._id} className="relative h-9 border-b border-gray-100">
+              {renderBar(task)}
+            </div>
+          ))}
+
+          {/* Today marker */}
+          {todayOffset >= 0 && todayOffset < days && (
+            <div
+              className="absolute top-0 bottom-0 w-px bg-blue-500 pointer-events-none"
+              style={{ left: todayOffset * DAY_WIDTH + DAY_WIDTH / 2 }}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default TaskTimeline;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { FaTimes, FaRedo, FaCheck } from 'react-icons/fa';
+import type { UploadItem } from '../hooks/useUploadQueue';
+import { formatFileSize } from '../utils/uploadValidation';
+
+interface UploadProgressListProps {
+  items: UploadItem[];
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onDismiss: (id: string) => void;
+}
+
+const BAR_COLORS: Record<UploadItem['status'], string> = {
+  queued: 'bg-gray-300',
+  uploading: 'bg-blue-600',
+  done: 'bg-green-500',
+  failed: 'bg-red-500',
+  cancelled: 'bg-gray-400',
+};
+
+const STATUS_LABELS: Record<UploadItem['status'], string> = {
+  queued: 'Waiting',
+  uploading: 'Uploading',
+  done: 'Uploaded',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const UploadProgressList: React.FC<UploadProgressListProps> = ({ items, onCancel, onRetry, onDismiss }) => {
+  if (items.length === 0) return null;
+
+  return (
+    <ul className="space-y-2 mb-4">
+      {items.map(item => {
+        const percent = Math.round(item.progress * 100);
+        const canRetry = item.status === 'failed' || item.status === 'cancelled';
+        const isActive = item.status === 'uploading' || item.status === 'queued';
+
+        return (
+          <li key={item.id} className="p-2 border border-gray-200 rounded-md">
+            <div className="flex items-center justify-between text-sm">
+              <span className="truncate text-gray-900 mr-2">{item.file.name}</span>
+              <div className="flex items-center space-x-2 shrink-0">
+                <span className={`text-xs ${item.status === 'failed' ? 'text-red-600' : 'text-gray-500'}`}>
+                  {item.status === 'uploading' ? `${percent}%` : STATUS_LABELS[item.status]} • {formatFileSize(item.file.size)}
+                </span>
+                {item.status === 'done' && <FaCheck className="text-green-600" />}
+                {canRetry && (
+                  <button onClick={() => onRetry(item.id)} className="text-blue-600 hover:text-blue-800" title="Retry">
+                    <FaRedo />
+                  </button>
+                )}
+                {isActive ? (
+                  <button onClick={() => onCancel(item.id)} className="text-gray-500 hover:text-red-600" title="Cancel upload">
+                    <FaTimes />
+                  </button>
+                ) : (
+                  <button onClick={() => onDismiss(item.id)} className="text-gray-400 hover:text-gray-600" title="Dismiss">
+                    <FaTimes />
+                  </button>
+                )}
+              </div>
+            </div>
+            <div className="mt-1 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+              <div
+                className={`h-full rounded-full transition-all ${BAR_COLORS[item.status]}`}
+                style={{ width: `${item.status === 'queued' ? 0 : percent}%` }}
+              />
+            </div>
+            {item.error && <p className="mt-1 text-xs text-red-600">{item.error}</p>}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default UploadProgressList;
@@ -0,0 +1,152 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import taskService from '../services/taskService';
+import type { Task } from '../services/taskService';
+import { getApiErrorMessage } from '../utils/apiError';
+import { BULK_UNDO_WINDOW_MS, shiftDeadline } from '../utils/bulkTaskActions';
+import type { BulkAction, BulkItemResult, BulkTaskItem } from '../utils/bulkTaskActions';
+
+type UndoStep = () => Promise<unknown>;
+
+// Status and stage changes that start work are refused while the task still has open blockers
+const getBlockedReason = (task: Task, action: BulkAction): string | null => {
+  if (action.type !== 'status' && action.type !== 'stage') return null;
+
+  const target = action.type === 'status' ? action.status : action.stage;
+  if (task[action.type] === target || !taskService.startsWork(action.type, target)) return null;
+
+  const blockers = taskService.getOpenBlockers(task);
+  return blockers.length > 0 ? `Blocked by ${blockers.map(blocker => blocker.title).join(', ')}` : null;
+};
+
+// Apply an action to one task, returning how to put it back, or null if there was nothing to change
+const applyToTask = async (task: Task, action: BulkAction): Promise<UndoStep | null> => {
+  const id = task._id;
+
+  switch (action.type) {
+    case 'reassign': {
+      const previous = task.assignedTo.map(assignment => assignment.user?._id).filter(Boolean);
+      if (previous.length === action.userIds.length && action.userIds.every(userId => previous.includes(userId))) {
+        return null;
+      }
+      await taskService.assignTask(id, { userIds: action.userIds, reason: 'Bulk reassignment' });
+      return () => taskService.assignTask(id, { userIds: previous, reason: 'Undid bulk reassignment' });
+    }
+    case 'status': {
+      const previous = task.status;
+      if (previous === action.status) return null;
+      await taskService.updateTaskStatus(id, { status: action.status, reason: 'Bulk status change' });
+      return () => taskService.updateTaskStatus(id, { status: previous, reason: 'Undid bulk status change' });
+    }
+    case 'stage': {
+      const previous = task.stage;
+      if (previous === action.stage) return null;
+      await taskService.updateTaskStage(id, { stage: action.stage, reason: 'Bulk stage change' });
+      return () => taskService.updateTaskStage(id, { stage: previous, reason: 'Undid bulk stage change' });
+    }
+    case 'priority': {
+      const previous = task.priority;
+      if (previous === action.priority) return null;
+      await taskService.updateTask(id, { priority: action.priority });
+      return () => taskService.updateTask(id, { priority: previous });
+    }
+    case 'deadline': {
+      const previous = task.deadline;
+      await taskService.updateTask(id, { deadline: shiftDeadline(previous, action.days) });
+      return () => taskService.updateTask(id, { deadline: previous });
+    }
+    case 'tag': {
+      const previous = task.tags || [];
+      const tag = action.tag.trim();
+      if (previous.includes(tag)) return null;
+      await taskService.updateTask(id, { tags: [...previous, tag] });
+      return () => taskService.updateTask(id, { tags: previous });
+    }
+    case 'delete':
+      await taskService.deleteTask(id);
+      return () => taskService.restoreTask(id);
+  }
+};
+
+/**
+ * Runs a bulk action over tasks one at a time, collecting a result for each and
+ * keeping what's needed to undo the changes for a short while afterwards.
+ */
+export const useBulkTaskActions = () => {
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [results, setResults] = useState<BulkItemResult[] | null>(null);
+  const [undoExpiresAt, setUndoExpiresAt] = useState<number | null>(null);
+  const undoSteps = useRef<UndoStep[]>([]);
+
+  // Drop the undo once its window has passed
+  useEffect(() => {
+    if (!undoExpiresAt) return;
+    const timer = setTimeout(() => {
+      undoSteps.current = [];
+      setUndoExpiresAt(null);
+    }, Math.max(0, undoExpiresAt - Date.now()));
+    return () => clearTimeout(timer);
+  }, [undoExpiresAt]);
+
+  const run = useCallback(async (action: BulkAction, items: BulkTaskItem[]) => {
+    setRunning(true);
+    setResults(null);
+    setUndoExpiresAt(null);
+    setProgress({ done: 0, total: items.length });
+
+    const steps: UndoStep[] = [];
+    const itemResults: BulkItemResult[] = [];
+
+    for (const item of items) {
+      try {
+        // Work from the current task rather than the list row, which may be stale or incomplete
+        const response = await taskService.getTask(item._id);
+        const blockedReason = getBlockedReason(response.data.task, action);
+        if (blockedReason) {
+          itemResults.push({ item, outcome: 'failed', error: blockedReason });
+        } else {
+          const undo = await applyToTask(response.data.task, action);
+          if (undo) steps.push(undo);
+          itemResults.push({ item, outcome: undo ? 'changed' : 'unchanged' });
+        }
+      } catch (error) {
+        itemResults.push({ item, outcome: 'failed', error: getApiErrorMessage(error, 'Update failed') });
+      }
+      setProgress({ done: itemResults.length, total: items.length });
+    }
+
+    undoSteps.current = steps;
+    setResults(itemResults);
+    setUndoExpiresAt(steps.length > 0 ? Date.now() + BULK_UNDO_WINDOW_MS : null);
+    setRunning(false);
+    return itemResults;
+  }, []);
+
+  /**
+   * Reverse the last bulk action. Resolves with how many tasks couldn't be put back.
+   */
+  const undo = useCallback(async () => {
+    const steps = undoSteps.current;
+    undoSteps.current = [];
+    setUndoExpiresAt(null);
+    setRunning(true);
+
+    let failed = 0;
+    for (const step of [...steps].reverse()) {
+      try {
+        await step();
+      } catch (error) {
+        console.error('Error undoing bulk change:', error);
+        failed++;
+      }
+    }
+
+    setResults(null);
+    setRunning(false);
+    return failed;
+  }, []);
+
+  const dismissResults = useCallback(() => setResults(null), []);
+
+  return { run, undo, dismissResults, running, progress, results, undoExpiresAt };
+};
@@ -0,0 +1,26 @@
+import { useState, useEffect } from 'react';
+import authService from '../services/authService';
+import sessionService from '../services/sessionService';
+import type { User } from '../services/authService';
+import { hasPermission } from '../utils/permissions';
+import type { Permission } from '../utils/permissions';
+
+/**
+ * The signed-in user, kept current when the profile is re-verified or the
+ * session changes in this or another tab
+ */
+export const useCurrentUser = (): User | null => {
+  const [user, setUser] = useState<User | null>(() => authService.getCurrentUser());
+
+  useEffect(() => sessionService.subscribe(() => setUser(authService.getCurrentUser())), []);
+
+  return user;
+};
+
+/**
+ * Whether the signed-in user has a permission
+ */
+export const usePermission = (permission: Permission): boolean => {
+  const user = useCurrentUser();
+  return hasPermission(user, permission);
+};
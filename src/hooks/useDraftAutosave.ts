@@ -0,0 +1,268 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import axios from 'axios';
+import taskService from '../services/taskService';
+import uploadService from '../services/uploadService';
+import type { SaveDraftData, TaskDraft } from '../services/taskService';
+
+export type DraftSaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+export interface DraftFileUpload {
+  fileName: string;
+  progress: number; // 0 to 1
+}
+
+interface UseDraftAutosaveOptions {
+  /** Current form state. `attachments` holds every local file on the form. */
+  data: SaveDraftData;
+  /** Draft being resumed, if any */
+  initialDraftId?: string | null;
+  /** Autosave is paused while false (e.g. while a draft is still loading) */
+  enabled?: boolean;
+  /** Debounce in milliseconds between the last change and the save */
+  delay?: number;
+  onSaved?: (draft: TaskDraft) => void;
+}
+
+// Files can't be serialized, so they are compared by name, size and mtime
+const snapshotOf = (data: SaveDraftData): string =>
+  JSON.stringify({
+    ...data,
+    attachments: (data.attachments || []).map(file => `${file.name}:${file.size}:${file.lastModified}`),
+  });
+
+const isEmptyDraft = (data: SaveDraftData): boolean =>
+  !data.title?.trim() &&
+  !data.description?.trim() &&
+  !data.deadline &&
+  !(data.assignedTo && data.assignedTo.length > 0) &&
+  !(data.tags && data.tags.length > 0) &&
+  !(data.attachments && data.attachments.length > 0);
+
+/**
+ * Debounced server-side autosave for the task creation forms.
+ * New local files are uploaded to the draft through uploadService after the
+ * fields are saved, so large files go in resumable chunks. Keeps track of
+ * which files were already uploaded so each is only sent once, and removes
+ * uploaded files that were taken off the form.
+ */
+export const useDraftAutosave = ({
+  data,
+  initialDraftId = null,
+  enabled = true,
+  delay = 2000,
+  onSaved,
+}: UseDraftAutosaveOptions) => {
+  const [draftId, setDraftId] = useState<string | null>(initialDraftId);
+  const [status, setStatus] = useState<DraftSaveStatus>('idle');
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const [upload, setUpload] = useState<DraftFileUpload | null>(null);
+
+  const draftIdRef = useRef<string | null>(initialDraftId);
+  const dataRef = useRef(data);
+  const onSavedRef = useRef(onSaved);
+  const lastSnapshotRef = useRef<string | null>(null);
+  const baselineSetRef = useRef(false);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const inFlightRef = useRef<Promise<boolean> | null>(null);
+  const uploadedFilesRef = useRef(new Map<File, string>());
+  const removedIdsRef = useRef(new Set<string>());
+  const uploadControllerRef = useRef<AbortController | null>(null);
+
+  dataRef.current = data;
+  onSavedRef.current = onSaved;
+
+  // Resolves to false when the save failed, so callers can tell a stale draft
+  // from an up-to-date one
+  const save = useCallback(async (): Promise<boolean> => {
+    // Never run two saves at once, otherwise the first POST would create a
+    // second draft before its ID is known
+    if (inFlightRef.current) {
+      await inFlightRef.current;
+    }
+
+    const current = dataRef.current;
+    const snapshot = snapshotOf(current);
+    if (snapshot === lastSnapshotRef.current || isEmptyDraft(current)) {
+      return true;
+    }
+
+    const localFiles = current.attachments || [];
+    const newFiles = localFiles.filter(file => !uploadedFilesRef.current.has(file));
+    const droppedFiles = Array.from(uploadedFilesRef.current.keys()).filter(file => !localFiles.includes(file));
+    const removeAttachments = [
+      ...(current.removeAttachments || []).filter(attachmentId => !removedIdsRef.current.has(attachmentId)),
+      ...droppedFiles.map(file => uploadedFilesRef.current.get(file) as string),
+    ];
+
+    const run = async (): Promise<boolean> => {
+      try {
+        setStatus('saving');
+        const knownIds = new Set(uploadedFilesRef.current.values());
+        const response = await taskService.saveDraft({ ...current, removeAttachments }, draftIdRef.current);
+
+        if (!response.success) {
+          setStatus('error');
+          return false;
+        }
+
+        let draft = response.data.draft;
+        draftIdRef.current = draft._id;
+        setDraftId(draft._id);
+
+        removeAttachments.forEach(attachmentId => removedIdsRef.current.add(attachmentId));
+        droppedFiles.forEach(file => uploadedFilesRef.current.delete(file));
+
+        let failedUploads = 0;
+        if (newFiles.length > 0) {
+          const controller = new AbortController();
+          uploadControllerRef.current = controller;
+          try {
+            for (const file of newFiles) {
+              setUpload({ fileName: file.name, progress: 0 });
+              try {
+                await uploadService.uploadAttachment({ kind: 'draft', id: draft._id }, file, {
+                  signal: controller.signal,
+                  onProgress: (progress) => setUpload({ fileName: file.name, progress }),
+                });
+              } catch (error) {
+                if (axios.isCancel(error)) throw error;
+                console.error(`Error uploading ${file.name} to draft:`, error);
+                failedUploads++;
+              }
+            }
+          } finally {
+            uploadControllerRef.current = null;
+            setUpload(null);
+          }
+
+          // Read the draft back to learn the IDs of the attachments just uploaded
+          const refreshed = await taskService.getDraft(draft._id);
+          if (refreshed.success) {
+            draft = refreshed.data.draft;
+          }
+        }
+
+        // Match the freshly uploaded attachments back to the files we sent
+        const unmatched = draft.attachments.filter(attachment => !knownIds.has(attachment._id));
+        newFiles.forEach(file => {
+          const index = unmatched.findIndex(
+            attachment => attachment.originalName === file.name && attachment.size === file.size
+          );
+          if (index !== -1) {
+            uploadedFilesRef.current.set(file, unmatched[index]._id);
+            unmatched.splice(index, 1);
+          }
+        });
+
+        // Files that didn't make it are sent again on the next save
+        if (failedUploads > 0) {
+          setStatus('error');
+          return false;
+        }
+
+        lastSnapshotRef.current = snapshot;
+        setLastSavedAt(new Date(draft.updatedAt || Date.now()));
+        setStatus('saved');
+        onSavedRef.current?.(draft);
+        return true;
+      } catch (error) {
+        if (!axios.isCancel(error)) {
+          console.error('Draft autosave failed:', error);
+        }
+        setStatus('error');
+        return false;
+      }
+    };
+
+    const promise = run();
+    inFlightRef.current = promise;
+    const saved = await promise;
+    inFlightRef.current = null;
+    return saved;
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const snapshot = snapshotOf(data);
+
+    // A resumed draft is already saved, so its loaded state is the baseline
+    if (!baselineSetRef.current) {
+      baselineSetRef.current = true;
+      if (draftIdRef.current) {
+        lastSnapshotRef.current = snapshot;
+        return;
+      }
+    }
+
+    if (snapshot === lastSnapshotRef.current || isEmptyDraft(data)) return;
+
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(() => {
+      timerRef.current = null;
+      save();
+    }, delay);
+
+    return () => {
+      if (timerRef.current) {
+        clearTimeout(timerRef.current);
+        timerRef.current = null;
+      }
+    };
+  }, [data, enabled, delay, save]);
+
+  /**
+   * Save any pending changes right away and return the draft ID.
+   * Rejects when the save fails, since the draft on the server is then out of date.
+   */
+  const flush = useCallback(async (): Promise<string | null> => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    if (!(await save())) {
+      throw new Error('The draft could not be saved');
+    }
+    return draftIdRef.current;
+  }, [save]);
+
+  /**
+   * Stop autosaving, e.g. right before the draft is published or the task is created.
+   * The current form counts as handled, so it won't be saved into a new draft afterwards.
+   */
+  const cancel = useCallback(async (): Promise<void> => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    if (inFlightRef.current) {
+      await inFlightRef.current;
+    }
+    lastSnapshotRef.current = snapshotOf(dataRef.current);
+  }, []);
+
+  /**
+   * Delete the draft on the server and start over with a fresh one
+   */
+  const discard = useCallback(async (): Promise<void> => {
+    // No point finishing uploads to a draft that is about to be deleted
+    uploadControllerRef.current?.abort();
+    await cancel();
+    if (draftIdRef.current) {
+      await taskService.deleteDraft(draftIdRef.current);
+    }
+    draftIdRef.current = null;
+    setDraftId(null);
+    uploadedFilesRef.current.clear();
+    removedIdsRef.current.clear();
+    lastSnapshotRef.current = snapshotOf(dataRef.current);
+    setLastSavedAt(null);
+    setStatus('idle');
+  }, [cancel]);
+
+  const isFileSaved = useCallback((file: File) => uploadedFilesRef.current.has(file), []);
+
+  return { draftId, status, lastSavedAt, upload, flush, cancel, discard, isFileSaved };
+};
+
+export default useDraftAutosave;
@@ -0,0 +1,106 @@
+import { useState, useEffect, useRef } from 'react';
+import realtimeService, { TASK_EVENT_TYPES } from '../services/realtimeService';
+import type { RealtimeEventMap, RealtimeEventType, RealtimeStatus, TaskRealtimeEvent } from '../services/realtimeService';
+
+/**
+ * Current state of the realtime connection
+ */
+export const useRealtimeStatus = (): RealtimeStatus => {
+  const [status, setStatus] = useState<RealtimeStatus>(realtimeService.getStatus());
+
+  useEffect(() => realtimeService.onStatusChange(setStatus), []);
+
+  return status;
+};
+
+/**
+ * Call `handler` whenever an event of the given type is pushed.
+ * The latest handler is always used, so it doesn't need to be memoized.
+ */
+export const useRealtimeEvent = <K extends RealtimeEventType>(
+  type: K,
+  handler: (payload: RealtimeEventMap[K]) => void,
+  enabled = true
+) => {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    if (!enabled) return;
+    return realtimeService.subscribe(type, (payload) => handlerRef.current(payload));
+  }, [type, enabled]);
+};
+
+/**
+ * Call `handler` whenever someone changes the given task
+ */
+export const useTaskRealtime = (taskId: string | undefined, handler: (event: TaskRealtimeEvent) => void) => {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    if (!taskId) return;
+    return realtimeService.subscribeToTask(taskId, (event) => handlerRef.current(event));
+  }, [taskId]);
+};
+
+/**
+ * Keep data fresh when pushes aren't arriving: runs `poll` on an interval while the
+ * stream is down, and once more when it reconnects to pick up anything that was missed.
+ * Only takes effect alongside a realtime subscription, which is what opens the stream.
+ */
+export const usePollingFallback = (poll: () => void, intervalMs = 30000, enabled = true) => {
+  const status = useRealtimeStatus();
+  const pollRef = useRef(poll);
+  const wasDisconnectedRef = useRef(false);
+  pollRef.current = poll;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    if (status === 'open') {
+      if (wasDisconnectedRef.current) {
+        wasDisconnectedRef.current = false;
+        pollRef.current();
+      }
+      return;
+    }
+
+    if (status !== 'polling') return;
+
+    wasDisconnectedRef.current = true;
+    const interval = setInterval(() => pollRef.current(), intervalMs);
+    return () => clearInterval(interval);
+  }, [status, intervalMs, enabled]);
+};
+
+/**
+ * Refresh a task list or dashboard whenever any task changes, batching bursts of
+ * events into one refresh, and poll instead while the stream is down
+ */
+export const useTaskListRealtime = (refresh: () => void, enabled = true, debounceMs = 1000) => {
+  const refreshRef = useRef(refresh);
+  refreshRef.current = refresh;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const scheduleRefresh = () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        timer = null;
+        refreshRef.current();
+      }, debounceMs);
+    };
+
+    const unsubscribers = TASK_EVENT_TYPES.map(type => realtimeService.subscribe(type, scheduleRefresh));
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, [enabled, debounceMs]);
+
+  usePollingFallback(refresh, 30000, enabled);
+};
@@ -0,0 +1,24 @@
+import { useState, useCallback } from 'react';
+
+/**
+ * Checkbox selection over a list of items. Selected ids that are no longer in
+ * the list (after paging or filtering) are ignored rather than kept around.
+ */
+export const useSelection = <T extends { _id: string }>(items: T[]) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const selectedItems = items.filter(item => selectedIds.includes(item._id));
+  const allSelected = items.length > 0 && selectedItems.length === items.length;
+
+  const isSelected = useCallback((id: string) => selectedIds.includes(id), [selectedIds]);
+
+  const toggle = useCallback((id: string) => {
+    setSelectedIds(prev => (prev.includes(id) ? prev.filter(selectedId => selectedId !== id) : [...prev, id]));
+  }, []);
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? [] : items.map(item => item._id));
+  };
+
+  return { selectedItems, setSelectedIds, isSelected, toggle, toggleAll, allSelected };
+};
@@ -0,0 +1,42 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import taskService from '../services/taskService';
+import type { TaskHistoryEntry, TaskResponse } from '../services/taskService';
+
+/**
+ * Keeps a task's activity history in step with the task itself.
+ *
+ * Pages hand over every `getTask` response they already make through
+ * `applyHistory`. Other updates (stage changes, remarks and so on) return the
+ * task without its history, so when `version` (the task's `updatedAt`) moves
+ * past the last history we saw, it is fetched again.
+ */
+export const useTaskHistory = (taskId: string | undefined, version: string | undefined) => {
+  const [history, setHistory] = useState<TaskHistoryEntry[]>([]);
+  const loadedVersion = useRef<string | undefined>(undefined);
+
+  // Stable, so pages can list it in their effects' dependencies
+  const applyHistory = useCallback((response: TaskResponse) => {
+    loadedVersion.current = response.data.task.updatedAt;
+    setHistory(response.data.history || []);
+  }, []);
+
+  useEffect(() => {
+    if (!taskId || !version || version === loadedVersion.current) return;
+    loadedVersion.current = version;
+
+    let cancelled = false;
+    taskService.getTask(taskId)
+      .then(response => {
+        if (!cancelled && response.success) {
+          setHistory(response.data.history || []);
+        }
+      })
+      .catch(error => console.error('Error loading task history:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [taskId, version]);
+
+  return { history, applyHistory };
+};
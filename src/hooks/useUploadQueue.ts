@@ -0,0 +1,114 @@
+import { useState, useRef, useCallback } from 'react';
+import axios from 'axios';
+import uploadService from '../services/uploadService';
+import type { UploadTarget } from '../services/uploadService';
+import { getApiErrorMessage } from '../utils/apiError';
+
+export type UploadStatus = 'queued' | 'uploading' | 'done' | 'failed' | 'cancelled';
+
+export interface UploadItem {
+  id: string;
+  target: UploadTarget;
+  file: File;
+  status: UploadStatus;
+  progress: number; // 0 to 1
+  error?: string;
+}
+
+/**
+ * Uploads files to a task (or draft, or series) one at a time, tracking progress for each and
+ * letting individual files be cancelled or retried.
+ */
+export const useUploadQueue = () => {
+  const [items, setItems] = useState<UploadItem[]>([]);
+  const controllers = useRef(new Map<string, AbortController>());
+  const cancelledBeforeStart = useRef(new Set<string>());
+  const nextId = useRef(0);
+
+  const updateItem = useCallback((id: string, changes: Partial<UploadItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  }, []);
+
+  const runUpload = useCallback(async (item: Pick<UploadItem, 'id' | 'target' | 'file'>): Promise<boolean> => {
+    const controller = new AbortController();
+    controllers.current.set(item.id, controller);
+    updateItem(item.id, { status: 'uploading', error: undefined });
+
+    try {
+      await uploadService.uploadAttachment(item.target, item.file, {
+        signal: controller.signal,
+        onProgress: (progress) => updateItem(item.id, { progress }),
+      });
+      updateItem(item.id, { status: 'done', progress: 1 });
+      return true;
+    } catch (error) {
+      if (axios.isCancel(error)) {
+        updateItem(item.id, { status: 'cancelled' });
+      } else {
+        console.error(`Error uploading ${item.file.name}:`, error);
+        updateItem(item.id, { status: 'failed', error: getApiErrorMessage(error, 'Upload failed') });
+      }
+      return false;
+    } finally {
+      controllers.current.delete(item.id);
+    }
+  }, [updateItem]);
+
+  /**
+   * Queue files for a task, draft or series and upload them in order. Resolves with how many made it.
+   */
+  const uploadFiles = useCallback(async (target: UploadTarget, files: File[]) => {
+    const queued: UploadItem[] = files.map(file => ({
+      id: `upload-${nextId.current++}`,
+      target,
+      file,
+      status: 'queued',
+      progress: 0,
+    }));
+    setItems(prev => [...prev, ...queued]);
+
+    let succeeded = 0;
+    for (const item of queued) {
+      if (cancelledBeforeStart.current.has(item.id)) continue;
+      if (await runUpload(item)) succeeded++;
+    }
+    return { succeeded, failed: queued.length - succeeded };
+  }, [runUpload]);
+
+  const retry = useCallback((id: string) => {
+    const item = items.find(entry => entry.id === id);
+    if (!item || (item.status !== 'failed' && item.status !== 'cancelled')) {
+      return Promise.resolve(false);
+    }
+    cancelledBeforeStart.current.delete(id);
+    return runUpload(item);
+  }, [items, runUpload]);
+
+  const cancel = useCallback((id: string) => {
+    const item = items.find(entry => entry.id === id);
+    if (!item) return;
+
+    const controller = controllers.current.get(id);
+    if (controller) {
+      controller.abort();
+    } else if (item.status === 'queued') {
+      cancelledBeforeStart.current.add(id);
+      updateItem(id, { status: 'cancelled' });
+    }
+    // A cancelled file won't be resumed, so drop anything already sent
+    uploadService.discardUpload(item.target, item.file);
+  }, [items, updateItem]);
+
+  const dismiss = useCallback((id: string) => {
+    setItems(prev => prev.filter(item => item.id !== id));
+  }, []);
+
+  const clearFinished = useCallback(() => {
+    setItems(prev => prev.filter(item => item.status !== 'done' && item.status !== 'cancelled'));
+  }, []);
+
+  const isUploading = items.some(item => item.status === 'uploading' || item.status === 'queued');
+  const failedCount = items.filter(item => item.status === 'failed').length;
+
+  return { items, uploadFiles, retry, cancel, dismiss, clearFinished, isUploading, failedCount };
+};
@@ -0,0 +1,27 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { filtersToSearchParams, searchParamsToFilters } from '../utils/taskFilterParams';
+import type { TaskFilterParamKey } from '../utils/taskFilterParams';
+
+type FilterValues = { [K in TaskFilterParamKey]?: string | number };
+
+/**
+ * Filters that live in the URL query string instead of component state, used like `useState`.
+ * `defaults` should be a module-level constant so the filters object only changes when the URL does.
+ */
+export const useUrlFilters = <T extends FilterValues>(defaults: T) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.toString();
+
+  // Keyed on the query string so effects depending on the filters only rerun when they really change
+  const filters = useMemo(() => searchParamsToFilters(new URLSearchParams(query), defaults), [query, defaults]);
+
+  const setFilters = useCallback((update: T | ((prev: T) => T)) => {
+    setSearchParams(prev => {
+      const next = typeof update === 'function' ? update(searchParamsToFilters(prev, defaults)) : update;
+      return filtersToSearchParams(next, defaults, prev);
+    }, { replace: true });
+  }, [defaults, setSearchParams]);
+
+  return [filters, setFilters] as const;
+};
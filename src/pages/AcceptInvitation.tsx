@@ -0,0 +1,197 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { toast } from 'react-toastify';
+import authService from '../services/authService';
+import invitationService from '../services/invitationService';
+import type { InvitationPreview } from '../services/invitationService';
+import { getApiErrorMessage } from '../utils/apiError';
+import { PASSWORD_RULES, meetsPasswordRules } from '../utils/passwordRules';
+import { ROLE_LABELS, getHomePath } from '../utils/permissions';
+
+const inputClass = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition';
+
+/**
+ * Sign-up from an invitation link. The email, role and department were chosen
+ * by whoever sent the invitation, so only the personal details are asked for.
+ */
+const AcceptInvitation: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const [invitation, setInvitation] = useState<InvitationPreview | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [formData, setFormData] = useState({ name: '', phone: '', password: '', confirmPassword: '' });
+
+  useEffect(() => {
+    if (!token) return;
+    invitationService.getInvitationByToken(token)
+      .then(response => setInvitation(response.data))
+      .catch(error => setLoadError(getApiErrorMessage(
+        error,
+        'This invitation link is invalid or has expired. Ask whoever invited you to send a new one.'
+      )))
+      .finally(() => setLoading(false));
+  }, [token]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFormData({ ...formData, [e.target.name]: e.target.value });
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!token) return;
+
+    if (formData.password !== formData.confirmPassword) {
+      toast.error('Passwords do not match');
+      return;
+    }
+    if (!meetsPasswordRules(formData.password)) {
+      toast.error('Please ensure your password meets all the requirements');
+      return;
+    }
+    if (!/^\d{10}$/.test(formData.phone)) {
+      toast.error('Phone number must be 10 digits');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const response = await authService.acceptInvitation(token, {
+        name: formData.name,
+        phone: formData.phone,
+        password: formData.password,
+      });
+      toast.success('Account created successfully! Welcome to IMTS Institute.');
+      navigate(getHomePath(response.data.user.role), { replace: true });
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to create your account. Please try again.'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-gray-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!invitation) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-gray-50 px-2 sm:px-4">
+        <div className="w-full max-w-md bg-white p-4 sm:p-8 md:p-10 rounded-xl shadow-lg border border-gray-200 text-center">
+          <h2 className="text-2xl font-bold mb-4 text-gray-800">Invitation unavailable</h2>
+          <p className="text-gray-600 mb-6">{loadError}</p>
+          <Link to="/login" className="text-blue-600 hover:text-blue-800 font-medium">
+            Go to sign in
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gray-50 px-2 sm:px-4 py-8">
+      <div className="w-full max-w-md">
+        <form
+          onSubmit={handleSubmit}
+          className="bg-white p-4 sm:p-8 md:p-10 rounded-xl shadow-lg w-full border border-gray-200"
+        >
+          <h2 className="text-2xl sm:text-3xl font-bold mb-2 text-center text-gray-800">Join IMTS Institute</h2>
+          <p className="text-sm text-gray-600 text-center mb-6">
+            {invitation.invitedBy.name} invited you as {ROLE_LABELS[invitation.role] || invitation.role} in {invitation.department.name}.
+          </p>
+
+          <div className="mb-5">
+            <label htmlFor="email" className="block mb-1 text-sm font-medium text-gray-700">Email Address</label>
+            <input id="email" value={invitation.email} className={`${inputClass} bg-gray-100 text-gray-600`} readOnly />
+          </div>
+
+          <div className="mb-5">
+            <label htmlFor="name" className="block mb-1 text-sm font-medium text-gray-700">Full Name</label>
+            <input
+              type="text"
+              name="name"
+              id="name"
+              value={formData.name}
+              onChange={handleChange}
+              placeholder="John Doe"
+              className={inputClass}
+              required
+            />
+          </div>
+
+          <div className="mb-5">
+            <label htmlFor="phone" className="block mb-1 text-sm font-medium text-gray-700">Phone Number</label>
+            <input
+              type="tel"
+              name="phone"
+              id="phone"
+              value={formData.phone}
+              onChange={handleChange}
+              placeholder="9210989898"
+              className={inputClass}
+              required
+              pattern="^\d{10}$"
+              title="Enter a valid 10-digit phone number"
+            />
+          </div>
+
+          <div className="mb-5">
+            <label htmlFor="password" className="block mb-1 text-sm font-medium text-gray-700">Password</label>
+            <input
+              type="password"
+              name="password"
+              id="password"
+              value={formData.password}
+              onChange={handleChange}
+              placeholder="••••••••"
+              className={inputClass}
+              autoComplete="new-password"
+              required
+            />
+            <div className="mt-2 space-y-1">
+              {PASSWORD_RULES.map(rule => {
+                const met = rule.test(formData.password);
+                return (
+                  <div key={rule.label} className={`flex items-center text-xs ${met ? 'text-green-600' : 'text-red-500'}`}>
+                    <span className="mr-2">{met ? '✓' : '✗'}</span>
+                    {rule.label}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="mb-6">
+            <label htmlFor="confirmPassword" className="block mb-1 text-sm font-medium text-gray-700">Confirm Password</label>
+            <input
+              type="password"
+              name="confirmPassword"
+              id="confirmPassword"
+              value={formData.confirmPassword}
+              onChange={handleChange}
+              placeholder="••••••••"
+              className={inputClass}
+              autoComplete="new-password"
+              required
+            />
+          </div>
+
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full bg-blue-600 text-white py-2.5 rounded-lg hover:bg-blue-700 disabled:bg-blue-400 disabled:cursor-not-allowed transition-colors font-medium"
+          >
+            {submitting ? 'Creating Account...' : 'Create Account'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default AcceptInvitation;
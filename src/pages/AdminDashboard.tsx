@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { FaUserCircle, FaSignOutAlt, FaFilter, FaSearch, FaEye, FaUsers, FaHome } from 'react-icons/fa';
+import { FaUserCircle, FaSignOutAlt, FaShieldAlt, FaFilter, FaSearch, FaEye, FaUsers, FaHome, FaList, FaColumns } from 'react-icons/fa';
 import { AiOutlineSearch } from 'react-icons/ai';
 import { BsFillPlusCircleFill } from 'react-icons/bs';
 import { useNavigate } from 'react-router-dom';
@@ -10,6 +10,24 @@ import type { Task as TaskType, TaskFilters } from '../services/taskService';
 import GroupTaskView from '../components/GroupTaskView';
 import OverviewerTasksTable from '../components/OverviewerTasksTable';
 import ErrorBoundary from '../components/ErrorBoundary';
+import TaskBoard from '../components/TaskBoard';
+import SavedViewsMenu from '../components/SavedViewsMenu';
+import PinnedViews from '../components/PinnedViews';
+import Can from '../components/Can';
+import { useTaskListRealtime } from '../hooks/useRealtime';
+import { useUrlFilters } from '../hooks/useUrlFilters';
+import { withoutViewParam } from '../utils/taskFilterParams';
+
+// The board shows every matching task at once instead of paging through them
+const BOARD_PAGE_SIZE = 100;
+
+const DEFAULT_FILTERS: TaskFilters & { view?: 'table' | 'board' } = {
+  page: 1,
+  limit: 10,
+  sortBy: 'createdAt',
+  sortOrder: 'desc',
+  view: 'table',
+};
 
 // interface TaskStats {
 //   total: number;
@@ -33,12 +51,9 @@ const AdminDashboard: React.FC = () => {
   // Task management state
   const [tasks, setTasks] = useState<TaskType[]>([]);
   const [loading, setLoading] = useState(true);
-  const [filters, setFilters] = useState<TaskFilters>({
-    page: 1,
-    limit: 10,
-    sortBy: 'createdAt',
-    sortOrder: 'desc',
-  });
+  // Filters, paging and the view mode live in the URL so a refresh or shared link opens the same list
+  const [filters, setFilters] = useUrlFilters(DEFAULT_FILTERS);
+  const viewMode = filters.view || 'table';
   const [pagination, setPagination] = useState({
     currentPage: 1,
     totalPages: 1,
@@ -47,7 +62,7 @@ const AdminDashboard: React.FC = () => {
     hasPrevPage: false,
   });
   const [showFilters, setShowFilters] = useState(false);
-  const [searchTerm, setSearchTerm] = useState('');
+  const [searchTerm, setSearchTerm] = useState(filters.search || '');
   
   // Filter options state
   const [creators, setCreators] = useState<Array<{_id: string; name: string}>>([]);
@@ -95,10 +110,10 @@ const AdminDashboard: React.FC = () => {
   //   }
   // };
 
-  const loadTasks = async () => {
+  const loadTasks = async (silent = false) => {
     try {
-      setLoading(true);
-      const response = await taskService.getTasks(filters);
+      if (!silent) setLoading(true);
+      const response = await taskService.getTasks(withoutViewParam(filters));
       setTasks(response.data.tasks);
       setPagination(response.data.pagination);
     } catch (error) {
@@ -109,6 +124,9 @@ const AdminDashboard: React.FC = () => {
     }
   };
 
+  // Reload quietly when tasks change elsewhere
+  useTaskListRealtime(() => loadTasks(true));
+
   // Update filter data when tasks change
   useEffect(() => {
     if (tasks.length > 0) {
@@ -180,6 +198,20 @@ const AdminDashboard: React.FC = () => {
     }));
   };
 
+  // Keep the search box in step when the URL changes underneath it, e.g. opening a saved view
+  useEffect(() => {
+    setSearchTerm(filters.search || '');
+  }, [filters.search]);
+
+  const handleViewModeChange = (mode: 'table' | 'board') => {
+    setFilters(prev => ({
+      ...prev,
+      view: mode,
+      page: 1,
+      limit: mode === 'board' ? BOARD_PAGE_SIZE : 10,
+    }));
+  };
+
   const handlePageChange = (page: number) => {
     setFilters(prev => ({
       ...prev,
@@ -321,22 +353,22 @@ const AdminDashboard: React.FC = () => {
             >
               <BsFillPlusCircleFill /> <span className="hidden sm:inline">Create Task</span><span className="sm:hidden">Create</span>
             </button>
-            {currentUser?.role === 'hod' && (
+            <Can permission="department.manage">
               <button 
                 onClick={() => navigate('/hod/dashboard')}
                 className="bg-orange-600 text-white px-3 py-2 rounded-md flex items-center space-x-2 text-sm hover:bg-orange-700 transition-colors"
               >
                 <FaHome /> <span className="hidden sm:inline">Back to HOD Dashboard</span><span className="sm:hidden">HOD Dashboard</span>
               </button>
-            )}
-            {currentUser?.role === 'admin' && (
+            </Can>
+            <Can permission="admin.access">
               <button 
                 onClick={() => navigate('/admin/dashboard')}
                 className="bg-purple-600 text-white px-3 py-2 rounded-md flex items-center space-x-2 text-sm hover:bg-purple-700 transition-colors"
               >
                 <FaUsers /> <span className="hidden sm:inline">Admin Dashboard</span><span className="sm:hidden">Admin</span>
               </button>
-            )}
+            </Can>
             <button 
               onClick={() => navigate('/report/individual')}
               className="bg-green-600 text-white px-3 py-2 rounded-md flex items-center space-x-2 text-sm hover:bg-green-700 transition-colors"
@@ -352,6 +384,13 @@ const AdminDashboard: React.FC = () => {
                 
                 <div className="absolute right-0 mt-2 w-48 bg-white rounded-md shadow-lg z-10 border">
                   <div className="py-1">
+                    <button
+                      onClick={() => navigate('/settings/security')}
+                      className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                    >
+                      <FaShieldAlt className="mr-2" />
+                      Security
+                    </button>
                     <button
                       onClick={handleLogout}
                       className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
@@ -366,6 +405,8 @@ const AdminDashboard: React.FC = () => {
           </div>
         </div>
 
+        <PinnedViews />
+
         {/* Overviewer Tasks Section */}
         <ErrorBoundary fallback={
           <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6">
@@ -551,10 +592,9 @@ const AdminDashboard: React.FC = () => {
                   <button
                     onClick={() => {
                       setFilters({
-                        page: 1,
-                        limit: 10,
-                        sortBy: 'createdAt',
-                        sortOrder: 'desc',
+                        ...DEFAULT_FILTERS,
+                        view: viewMode,
+                        limit: viewMode === 'board' ? BOARD_PAGE_SIZE : 10,
                       });
                       setSearchTerm('');
                     }}
@@ -574,7 +614,24 @@ const AdminDashboard: React.FC = () => {
             <div className="text-lg font-semibold">
               Tasks ({pagination.totalTasks})
             </div>
-            <div className="flex items-center space-x-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <SavedViewsMenu list="dashboard" />
+              <div className="flex space-x-1 mr-2">
+                <button
+                  onClick={() => handleViewModeChange('table')}
+                  className={`px-3 py-1 rounded flex items-center ${viewMode === 'table' ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'}`}
+                  title="Table view"
+                >
+                  <FaList />
+                </button>
+                <button
+                  onClick={() => handleViewModeChange('board')}
+                  className={`px-3 py-1 rounded flex items-center ${viewMode === 'board' ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'}`}
+                  title="Board view"
+                >
+                  <FaColumns />
+                </button>
+              </div>
               <span className="text-sm text-gray-600">
                 Page {pagination.currentPage} of {pagination.totalPages}
               </span>
@@ -606,6 +663,13 @@ const AdminDashboard: React.FC = () => {
             <div className="text-center py-8 text-gray-500">
               No tasks found. {searchTerm && `Try adjusting your search term "${searchTerm}".`}
             </div>
+          ) : viewMode === 'board' ? (
+            <TaskBoard
+              tasks={tasks}
+              setTasks={setTasks}
+              onOpenTask={(task) => navigate(task.isGroupTask ? `/tasks/${task._id}/group` : `/tasks/${task._id}`)}
+              onLaneFilter={(laneFilters) => setFilters(prev => ({ ...prev, ...laneFilters, page: 1 }))}
+            />
           ) : (
             <table className="min-w-full text-left text-sm overflow-x-auto">
               <thead>
@@ -1,7 +1,27 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, Link, useNavigate, useSearchParams } from 'react-router-dom';
-import { ArrowLeft, Users, CheckSquare, Clock, TrendingUp, User, Calendar, ChevronLeft, ChevronRight } from 'lucide-react';
+import { ArrowLeft, Users, CheckSquare, Clock, TrendingUp, User, Calendar, ChevronLeft, ChevronRight, List } from 'lucide-react';
 import { adminService } from '../services/adminService';
+import TaskCalendar from '../components/TaskCalendar';
+import BulkTaskActionBar from '../components/BulkTaskActionBar';
+import { useSelection } from '../hooks/useSelection';
+import { filtersToSearchParams, searchParamsToFilters } from '../utils/taskFilterParams';
+
+// The calendar shows every matching task at once instead of paging through them
+const CALENDAR_PAGE_SIZE = 100;
+
+// Task filters that stay out of the URL when unchanged
+const DEFAULT_TASK_FILTERS = {
+  search: '',
+  status: '',
+  priority: '',
+  startDate: '',
+  endDate: '',
+  sortBy: 'createdAt',
+  sortOrder: 'desc',
+  page: 1,
+  view: 'list',
+};
 
 interface DepartmentDetailData {
   _id: string;
@@ -31,6 +51,7 @@ interface DepartmentDetailData {
     };
     createdAt: string;
     dueDate: string;
+    completedAt?: string;
   }>;
   statistics: {
     totalEmployees: number;
@@ -44,7 +65,9 @@ interface DepartmentDetailData {
 const AdminDepartmentDetail: React.FC = () => {
   const { departmentId } = useParams<{ departmentId: string }>();
   const navigate = useNavigate();
-  const [searchParams] = useSearchParams();
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Task filters start from the URL so a refreshed or shared link opens the same list
+  const [initialTaskFilters] = useState(() => searchParamsToFilters(searchParams, DEFAULT_TASK_FILTERS));
   const [department, setDepartment] = useState<DepartmentDetailData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -55,11 +78,13 @@ const AdminDepartmentDetail: React.FC = () => {
 
   // Pagination states
   const [employeePage, setEmployeePage] = useState(1);
-  const [taskPage, setTaskPage] = useState(1);
+  const [taskPage, setTaskPage] = useState(initialTaskFilters.page);
+  const [taskView, setTaskView] = useState<'list' | 'calendar'>(initialTaskFilters.view === 'calendar' ? 'calendar' : 'list');
   const [employeePagination, setEmployeePagination] = useState<any>(null);
   const [taskPagination, setTaskPagination] = useState<any>(null);
   const [loadingEmployees, setLoadingEmployees] = useState(false);
   const [loadingTasks, setLoadingTasks] = useState(false);
+  const taskSelection = useSelection(department?.tasks || []);
 
   // Employee task view states
   const [selectedEmployee, setSelectedEmployee] = useState<any>(null);
@@ -74,15 +99,33 @@ const AdminDepartmentDetail: React.FC = () => {
 
   // Search states
   const [employeeSearchTerm, setEmployeeSearchTerm] = useState('');
-  const [taskSearchTerm, setTaskSearchTerm] = useState('');
+  const [taskSearchTerm, setTaskSearchTerm] = useState(initialTaskFilters.search);
 
   // Task filter states
-  const [taskStatus, setTaskStatus] = useState('');
-  const [taskPriority, setTaskPriority] = useState('');
-  const [taskStartDate, setTaskStartDate] = useState('');
-  const [taskEndDate, setTaskEndDate] = useState('');
-  const [taskSortBy, setTaskSortBy] = useState('createdAt');
-  const [taskSortOrder, setTaskSortOrder] = useState('desc');
+  const [taskStatus, setTaskStatus] = useState(initialTaskFilters.status);
+  const [taskPriority, setTaskPriority] = useState(initialTaskFilters.priority);
+  const [taskStartDate, setTaskStartDate] = useState(initialTaskFilters.startDate);
+  const [taskEndDate, setTaskEndDate] = useState(initialTaskFilters.endDate);
+  const [taskSortBy, setTaskSortBy] = useState(initialTaskFilters.sortBy);
+  const [taskSortOrder, setTaskSortOrder] = useState(initialTaskFilters.sortOrder);
+
+  // Mirror the task filters into the URL, leaving other params such as the tab alone
+  useEffect(() => {
+    const next = filtersToSearchParams({
+      search: taskSearchTerm,
+      status: taskStatus,
+      priority: taskPriority,
+      startDate: taskStartDate,
+      endDate: taskEndDate,
+      sortBy: taskSortBy,
+      sortOrder: taskSortOrder,
+      page: taskPage,
+      view: taskView,
+    }, DEFAULT_TASK_FILTERS, searchParams);
+    if (next.toString() !== searchParams.toString()) {
+      setSearchParams(next, { replace: true });
+    }
+  }, [taskSearchTerm, taskStatus, taskPriority, taskStartDate, taskEndDate, taskSortBy, taskSortOrder, taskPage, taskView, searchParams, setSearchParams]);
 
   const itemsPerPage = 10;
 
@@ -164,7 +207,7 @@ const AdminDepartmentDetail: React.FC = () => {
       setLoadingTasks(true);
       const params: any = {
         page,
-        limit: itemsPerPage,
+        limit: taskView === 'calendar' ? CALENDAR_PAGE_SIZE : itemsPerPage,
         search: search || taskSearchTerm
       };
 
@@ -187,7 +230,8 @@ const AdminDepartmentDetail: React.FC = () => {
         isGroupTask: task.isGroupTask || false,
         assignedTo: task.assignedTo[0]?.user || { _id: '', name: 'Unassigned' },
         createdAt: task.createdAt,
-        dueDate: task.deadline
+        dueDate: task.deadline,
+        completedAt: task.completedAt
       }));
 
       setDepartment(prev => prev ? { ...prev, tasks } : null);
@@ -362,7 +406,7 @@ const AdminDepartmentDetail: React.FC = () => {
     if (activeTab === 'tasks' && department) {
       fetchTasks(taskPage);
     }
-  }, [taskStatus, taskPriority, taskStartDate, taskEndDate, taskSortBy, taskSortOrder]);
+  }, [taskStatus, taskPriority, taskStartDate, taskEndDate, taskSortBy, taskSortOrder, taskView]);
 
   // Load employees immediately after department is loaded (fixes initial load issue)
   useEffect(() => {
@@ -550,10 +594,11 @@ const AdminDepartmentDetail: React.FC = () => {
                   setActiveTab('employees');
                   setSelectedEmployee(null);
                   setEmployeeTasks([]);
-                  // Update URL without causing a navigation
-                  const newSearchParams = new URLSearchParams(searchParams);
-                  newSearchParams.set('tab', 'employees');
-                  window.history.replaceState(null, '', `?${newSearchParams.toString()}`);
+                  setSearchParams(prev => {
+                    const next = new URLSearchParams(prev);
+                    next.set('tab', 'employees');
+                    return next;
+                  }, { replace: true });
                 }}
                 className={`py-4 px-1 border-b-2 font-medium text-sm ${activeTab === 'employees'
                   ? 'border-blue-500 text-blue-600'
@@ -567,10 +612,11 @@ const AdminDepartmentDetail: React.FC = () => {
                   setActiveTab('tasks');
                   setSelectedEmployee(null);
                   setEmployeeTasks([]);
-                  // Update URL without causing a navigation
-                  const newSearchParams = new URLSearchParams(searchParams);
-                  newSearchParams.set('tab', 'tasks');
-                  window.history.replaceState(null, '', `?${newSearchParams.toString()}`);
+                  setSearchParams(prev => {
+                    const next = new URLSearchParams(prev);
+                    next.set('tab', 'tasks');
+                    return next;
+                  }, { replace: true });
                 }}
                 className={`py-4 px-1 border-b-2 font-medium text-sm ${activeTab === 'tasks'
                   ? 'border-blue-500 text-blue-600'
@@ -905,11 +951,28 @@ const AdminDepartmentDetail: React.FC = () => {
               <div>
                 <div className="flex items-center justify-between mb-4">
                   <h3 className="text-lg font-semibold text-gray-900">Department Tasks</h3>
-                  {getActiveTaskFilterCount() > 0 && (
-                    <span className="px-3 py-1 bg-blue-100 text-blue-800 rounded-full text-sm font-medium">
-                      {getActiveTaskFilterCount()} filter{getActiveTaskFilterCount() > 1 ? 's' : ''} active
-                    </span>
-                  )}
+                  <div className="flex items-center space-x-3">
+                    {getActiveTaskFilterCount() > 0 && (
+                      <span className="px-3 py-1 bg-blue-100 text-blue-800 rounded-full text-sm font-medium">
+                        {getActiveTaskFilterCount()} filter{getActiveTaskFilterCount() > 1 ? 's' : ''} active
+                      </span>
+                    )}
+                    <div className="inline-flex rounded-md border border-gray-300 overflow-hidden">
+                      {(['list', 'calendar'] as const).map(view => (
+                        <button
+                          key={view}
+                          onClick={() => {
+                            setTaskView(view);
+                            setTaskPage(1);
+                          }}
+                          className={`px-3 py-1 flex items-center text-sm capitalize ${taskView === view ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                        >
+                          {view === 'list' ? <List className="w-4 h-4 mr-1" /> : <Calendar className="w-4 h-4 mr-1" />}
+                          {view}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
                 </div>
 
                 {/* Task Filters */}
@@ -1051,19 +1114,54 @@ const AdminDepartmentDetail: React.FC = () => {
                     </div>
                   )}
                 </div>
+                {taskView === 'list' && (
+                  <BulkTaskActionBar
+                    selected={taskSelection.selectedItems}
+                    onSelectionChange={taskSelection.setSelectedIds}
+                    onComplete={() => fetchTasks(taskPage, taskSearchTerm)}
+                  />
+                )}
                 {loadingTasks ? (
                   <div className="flex justify-center py-8">
                     <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
                   </div>
+                ) : taskView === 'calendar' ? (
+                  <TaskCalendar
+                    tasks={department.tasks.map(task => ({ ...task, deadline: task.dueDate }))}
+                    onOpenTask={handleTaskClick}
+                    onDeadlineChange={(taskId, deadline) => setDepartment(prev => prev ? {
+                      ...prev,
+                      tasks: prev.tasks.map(task => task._id === taskId ? { ...task, dueDate: deadline } : task)
+                    } : null)}
+                  />
                 ) : department.tasks.length > 0 ? (
                   <div className="space-y-4">
+                    <label className="flex items-center space-x-2 text-sm text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={taskSelection.allSelected}
+                        onChange={taskSelection.toggleAll}
+                        className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                      />
+                      <span>Select all on this page</span>
+                    </label>
                     {department.tasks.map((task) => (
                       <div
                         key={task._id}
-                        className="border border-gray-200 rounded-lg p-4 hover:shadow-md transition-shadow cursor-pointer hover:bg-gray-50"
+                        className={`border rounded-lg p-4 hover:shadow-md transition-shadow cursor-pointer ${
+                          taskSelection.isSelected(task._id) ? 'border-blue-300 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                        }`}
                         onClick={() => handleTaskClick(task)}
                       >
                         <div className="flex items-start justify-between">
+                          <input
+                            type="checkbox"
+                            checked={taskSelection.isSelected(task._id)}
+                            onChange={() => taskSelection.toggle(task._id)}
+                            onClick={(e) => e.stopPropagation()}
+                            aria-label={`Select ${task.title}`}
+                            className="h-4 w-4 mt-1.5 mr-3 text-blue-600 border-gray-300 rounded"
+                          />
                           <div className="flex-1">
                             <div className="flex items-center space-x-2 mb-2">
                               <h4 className="text-lg font-medium text-gray-900 hover:text-blue-600">
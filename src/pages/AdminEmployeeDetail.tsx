@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
+import { toast } from 'react-toastify';
 import { 
   ArrowLeft, 
   User, 
@@ -14,9 +15,12 @@ import {
   BarChart3,
   Eye,
   Search,
+  ShieldCheck,
   X
 } from 'lucide-react';
 import { adminService } from '../services/adminService';
+import AccountSecurity from '../components/AccountSecurity';
+import { getApiErrorMessage } from '../utils/apiError';
 
 interface EmployeeDetail {
   _id: string;
@@ -27,6 +31,7 @@ interface EmployeeDetail {
   isActive: boolean;
   createdAt: string;
   lastLogin?: string;
+  twoFactorEnabled?: boolean;
   taskStats: {
     totalTasks: number;
     completedTasks: number;
@@ -61,7 +66,8 @@ const AdminEmployeeDetail: React.FC = () => {
   const [taskSearchTerm, setTaskSearchTerm] = useState('');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'overview' | 'tasks'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'tasks' | 'security'>('overview');
+  const [resettingTwoFactor, setResettingTwoFactor] = useState(false);
 
   useEffect(() => {
     if (employeeId) {
@@ -147,6 +153,25 @@ const AdminEmployeeDetail: React.FC = () => {
     }
   }, [tasks, taskSearchTerm]);
 
+  // For someone who has lost their phone and recovery codes
+  const handleResetTwoFactor = async () => {
+    if (!employee) return;
+    if (!window.confirm(`Reset two-factor authentication for ${employee.name}? They'll sign in with just their password, and must set it up again if their role requires it. Only do this once you've confirmed who's asking.`)) {
+      return;
+    }
+
+    try {
+      setResettingTwoFactor(true);
+      await adminService.resetUserTwoFactor(employee._id);
+      setEmployee(prev => (prev ? { ...prev, twoFactorEnabled: false } : prev));
+      toast.success('Two-factor authentication reset');
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to reset two-factor authentication'));
+    } finally {
+      setResettingTwoFactor(false);
+    }
+  };
+
   // Handle task search
   const handleTaskSearch = (searchTerm: string) => {
     setTaskSearchTerm(searchTerm);
@@ -236,6 +261,21 @@ const AdminEmployeeDetail: React.FC = () => {
                 <span className="px-3 py-1 rounded-full text-sm font-medium bg-blue-100 text-blue-800 capitalize">
                   {employee.role}
                 </span>
+                {employee.twoFactorEnabled && (
+                  <>
+                    <span className="flex items-center px-3 py-1 rounded-full text-sm font-medium bg-green-100 text-green-800">
+                      <ShieldCheck className="h-4 w-4 mr-1" />
+                      2FA
+                    </span>
+                    <button
+                      onClick={handleResetTwoFactor}
+                      disabled={resettingTwoFactor}
+                      className="px-3 py-1 border border-red-300 text-red-700 rounded-lg text-sm hover:bg-red-50 disabled:opacity-50"
+                    >
+                      {resettingTwoFactor ? 'Resetting...' : 'Reset 2FA'}
+                    </button>
+                  </>
+                )}
               </div>
             </div>
           </div>
@@ -306,6 +346,17 @@ const AdminEmployeeDetail: React.FC = () => {
               <ClipboardList className="h-4 w-4 inline mr-2" />
               Tasks ({tasks.length})
             </button>
+            <button
+              onClick={() => setActiveTab('security')}
+              className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                activeTab === 'security'
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              <ShieldCheck className="h-4 w-4 inline mr-2" />
+              Security
+            </button>
           </nav>
         </div>
 
@@ -450,6 +501,8 @@ const AdminEmployeeDetail: React.FC = () => {
             )}
           </div>
         )}
+
+        {activeTab === 'security' && <AccountSecurity employeeId={employee._id} />}
       </div>
     </div>
   );
@@ -0,0 +1,410 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'react-toastify';
+import { FaArrowLeft, FaBell, FaPlus, FaTimes, FaSave, FaUndo, FaExclamationTriangle } from 'react-icons/fa';
+import { adminService } from '../services/adminService';
+import type { EscalationTarget, ReminderPriority, ReminderRules, ReminderTask } from '../services/adminService';
+import {
+  DEFAULT_REMINDER_RULES,
+  ESCALATION_LABELS,
+  ESCALATION_ORDER,
+  REMINDER_PRIORITIES,
+  formatTimeUntil,
+  getCurrentEscalation,
+  getReminderOffsets,
+  getUpcomingSchedule,
+  validateReminderRules,
+} from '../utils/reminderSchedule';
+import type { ScheduledEvent } from '../utils/reminderSchedule';
+import { getApiErrorMessage } from '../utils/apiError';
+import { getTaskPriorityColor } from '../utils/taskColors';
+
+const WINDOW_OPTIONS = [
+  { hours: 24, label: 'Next 24 hours' },
+  { hours: 72, label: 'Next 3 days' },
+  { hours: 168, label: 'Next 7 days' },
+];
+
+const describeRecipients = (event: ScheduledEvent): string => {
+  const { task } = event;
+  if (event.kind === 'reminder') {
+    const names = task.assignedTo.map(assignment => assignment.user.name);
+    return names.length > 0 ? names.join(', ') : 'No assignees';
+  }
+
+  switch (event.step.target) {
+    case 'creator':
+      return task.createdBy.name;
+    case 'hod':
+      return task.department?.hod?.name || `${task.department?.name || 'Department'} HOD (not set)`;
+    default:
+      return ESCALATION_LABELS.admin;
+  }
+};
+
+const describeEvent = (event: ScheduledEvent): string => {
+  if (event.kind === 'reminder') {
+    return `Reminder ${event.hoursBefore}h before deadline`;
+  }
+  const days = event.step.afterDays;
+  return `Escalate to ${ESCALATION_LABELS[event.step.target].toLowerCase()} ${
+    days === 0 ? 'when overdue' : `${days} day${days === 1 ? '' : 's'} overdue`
+  }`;
+};
+
+const AdminReminders: React.FC = () => {
+  const navigate = useNavigate();
+
+  const [savedRules, setSavedRules] = useState<ReminderRules>(DEFAULT_REMINDER_RULES);
+  const [rules, setRules] = useState<ReminderRules>(DEFAULT_REMINDER_RULES);
+  const [tasks, setTasks] = useState<ReminderTask[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [windowHours, setWindowHours] = useState(72);
+  const [newOffsets, setNewOffsets] = useState<Record<ReminderPriority, string>>({
+    urgent: '', high: '', medium: '', low: '',
+  });
+
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        setLoading(true);
+        const [rulesResponse, tasksResponse] = await Promise.all([
+          adminService.getReminderRules(),
+          adminService.getReminderTasks({ days: 7 }),
+        ]);
+        setSavedRules(rulesResponse.data.data);
+        setRules(rulesResponse.data.data);
+        setTasks(tasksResponse.data.data.tasks);
+      } catch (error) {
+        console.error('Error loading reminder rules:', error);
+        toast.error(getApiErrorMessage(error, 'Failed to load reminder rules'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadData();
+  }, []);
+
+  const errors = useMemo(() => validateReminderRules(rules), [rules]);
+  const hasChanges = JSON.stringify(rules) !== JSON.stringify(savedRules);
+
+  // Previewed against the rules being edited, so the effect of a change is visible before saving
+  const upcoming = useMemo(
+    () => getUpcomingSchedule(tasks, rules, windowHours),
+    [tasks, rules, windowHours]
+  );
+
+  const escalated = useMemo(
+    () => tasks
+      .map(task => ({ task, step: getCurrentEscalation(task, rules) }))
+      .filter((entry): entry is { task: ReminderTask; step: NonNullable<typeof entry.step> } => entry.step !== null),
+    [tasks, rules]
+  );
+
+  const addOffset = (priority: ReminderPriority) => {
+    const hours = Number(newOffsets[priority]);
+    if (!Number.isFinite(hours) || hours <= 0) {
+      toast.error('Enter a positive number of hours');
+      return;
+    }
+    if (rules.reminders[priority].includes(hours)) {
+      toast.info(`A ${hours}h reminder already exists`);
+      return;
+    }
+    setRules(prev => ({
+      ...prev,
+      reminders: { ...prev.reminders, [priority]: [...prev.reminders[priority], hours] },
+    }));
+    setNewOffsets(prev => ({ ...prev, [priority]: '' }));
+  };
+
+  const removeOffset = (priority: ReminderPriority, hours: number) => {
+    setRules(prev => ({
+      ...prev,
+      reminders: { ...prev.reminders, [priority]: prev.reminders[priority].filter(value => value !== hours) },
+    }));
+  };
+
+  const getStep = (target: EscalationTarget) => rules.escalation.find(step => step.target === target);
+
+  const toggleStep = (target: EscalationTarget, enabled: boolean) => {
+    setRules(prev => ({
+      ...prev,
+      escalation: enabled
+        ? [...prev.escalation, DEFAULT_REMINDER_RULES.escalation.find(step => step.target === target) || { target, afterDays: 0 }]
+        : prev.escalation.filter(step => step.target !== target),
+    }));
+  };
+
+  const updateStepDays = (target: EscalationTarget, afterDays: number) => {
+    setRules(prev => ({
+      ...prev,
+      escalation: prev.escalation.map(step => (step.target === target ? { ...step, afterDays } : step)),
+    }));
+  };
+
+  const handleSave = async () => {
+    if (errors.length > 0) {
+      toast.error(errors[0]);
+      return;
+    }
+    try {
+      setSaving(true);
+      const response = await adminService.updateReminderRules(rules);
+      setSavedRules(response.data.data);
+      setRules(response.data.data);
+      toast.success('Reminder rules saved');
+    } catch (error) {
+      console.error('Error saving reminder rules:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to save reminder rules'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading reminder rules...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-6">
+            <div className="flex items-center space-x-4">
+              <button
+                onClick={() => navigate('/admin/dashboard')}
+                className="text-gray-600 hover:text-gray-900"
+              >
+                <FaArrowLeft className="h-5 w-5" />
+              </button>
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900">Deadline Reminders</h1>
+                <p className="text-gray-600">When assignees are reminded and who hears about overdue tasks</p>
+              </div>
+            </div>
+            <div className="flex space-x-2">
+              <button
+                onClick={() => setRules(savedRules)}
+                disabled={!hasChanges || saving}
+                className="bg-gray-100 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-200 disabled:opacity-50 flex items-center space-x-2 text-sm"
+              >
+                <FaUndo className="h-4 w-4" />
+                <span>Discard</span>
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={!hasChanges || saving}
+                className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50 flex items-center space-x-2 text-sm"
+              >
+                <FaSave className="h-4 w-4" />
+                <span>{saving ? 'Saving...' : 'Save Rules'}</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {errors.length > 0 && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">
+            {errors.map(error => (
+              <p key={error}>{error}</p>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Reminder offsets per priority */}
+          <div className="bg-white shadow rounded-lg p-6">
+            <h2 className="text-lg font-medium text-gray-900 mb-1">Reminders before the deadline</h2>
+            <p className="text-sm text-gray-500 mb-4">Assignees are reminded this many hours before a task is due.</p>
+            <div className="space-y-4">
+              {REMINDER_PRIORITIES.map(priority => (
+                <div key={priority}>
+                  <p className={`text-sm font-medium capitalize mb-2 ${getTaskPriorityColor(priority)}`}>{priority}</p>
+                  <div className="flex flex-wrap items-center gap-2">
+                    {getReminderOffsets(rules, priority).map(hours => (
+                      <span
+                        key={hours}
+                        className="inline-flex items-center px-2 py-1 rounded-full text-xs bg-blue-100 text-blue-800"
+                      >
+                        {hours}h
+                        <button
+                          onClick={() => removeOffset(priority, hours)}
+                          className="ml-1 text-blue-600 hover:text-blue-900"
+                          title="Remove reminder"
+                        >
+                          <FaTimes className="h-3 w-3" />
+                        </button>
+                      </span>
+                    ))}
+                    {rules.reminders[priority].length === 0 && (
+                      <span className="text-xs text-gray-400">No reminders</span>
+                    )}
+                    <input
+                      type="number"
+                      min="1"
+                      value={newOffsets[priority]}
+                      onChange={(e) => setNewOffsets(prev => ({ ...prev, [priority]: e.target.value }))}
+                      onKeyDown={(e) => e.key === 'Enter' && addOffset(priority)}
+                      placeholder="Hours"
+                      className="w-20 px-2 py-1 border border-gray-300 rounded-md text-xs focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    />
+                    <button
+                      onClick={() => addOffset(priority)}
+                      className="text-blue-600 hover:text-blue-800"
+                      title="Add reminder"
+                    >
+                      <FaPlus className="h-3 w-3" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Escalation chain */}
+          <div className="bg-white shadow rounded-lg p-6">
+            <h2 className="text-lg font-medium text-gray-900 mb-1">Escalation when overdue</h2>
+            <p className="text-sm text-gray-500 mb-4">Each person is told once the task has been overdue for the given number of days.</p>
+            <div className="space-y-3">
+              {ESCALATION_ORDER.map(target => {
+                const step = getStep(target);
+                return (
+                  <div key={target} className="flex items-center justify-between border border-gray-200 rounded-md p-3">
+                    <label className="flex items-center space-x-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={!!step}
+                        onChange={(e) => toggleStep(target, e.target.checked)}
+                        className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                      />
+                      <span>{ESCALATION_LABELS[target]}</span>
+                    </label>
+                    {step && (
+                      <div className="flex items-center space-x-2 text-sm text-gray-600">
+                        <span>after</span>
+                        <input
+                          type="number"
+                          min="0"
+                          value={step.afterDays}
+                          onChange={(e) => updateStepDays(target, Number(e.target.value))}
+                          className="w-16 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        />
+                        <span>days overdue</span>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+
+        {/* Upcoming reminders */}
+        <div className="bg-white shadow rounded-lg">
+          <div className="px-6 py-4 border-b border-gray-200 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+            <div>
+              <h2 className="text-lg font-medium text-gray-900 flex items-center">
+                <FaBell className="mr-2 text-blue-600" />
+                Upcoming
+              </h2>
+              {hasChanges && (
+                <p className="text-xs text-orange-600">Showing the schedule for your unsaved changes</p>
+              )}
+            </div>
+            <select
+              value={windowHours}
+              onChange={(e) => setWindowHours(Number(e.target.value))}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
+            >
+              {WINDOW_OPTIONS.map(option => (
+                <option key={option.hours} value={option.hours}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          {upcoming.length === 0 ? (
+            <p className="px-6 py-8 text-center text-gray-500">Nothing scheduled in this period</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">When</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Task</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Action</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Sent to</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {upcoming.map(event => (
+                    <tr key={`${event.task._id}-${event.kind}-${event.at.getTime()}`} className="hover:bg-gray-50">
+                      <td className="px-6 py-3 text-sm text-gray-900 whitespace-nowrap">
+                        <div>{event.at.toLocaleString()}</div>
+                        <div className="text-xs text-gray-500">{formatTimeUntil(event.at)}</div>
+                      </td>
+                      <td className="px-6 py-3 text-sm">
+                        <button
+                          onClick={() => navigate(`/tasks/${event.task._id}`)}
+                          className="text-blue-600 hover:text-blue-800 font-medium text-left"
+                        >
+                          {event.task.title}
+                        </button>
+                        <div className={`text-xs capitalize ${getTaskPriorityColor(event.task.priority)}`}>
+                          {event.task.priority}
+                        </div>
+                      </td>
+                      <td className="px-6 py-3 text-sm text-gray-700">
+                        {event.kind === 'escalation' && <FaExclamationTriangle className="inline mr-1 text-orange-500" />}
+                        {describeEvent(event)}
+                      </td>
+                      <td className="px-6 py-3 text-sm text-gray-700">{describeRecipients(event)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {/* Tasks already escalated */}
+        {escalated.length > 0 && (
+          <div className="bg-white shadow rounded-lg p-6">
+            <h2 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+              <FaExclamationTriangle className="mr-2 text-red-500" />
+              Overdue and escalated ({escalated.length})
+            </h2>
+            <ul className="divide-y divide-gray-200">
+              {escalated.map(({ task, step }) => (
+                <li key={task._id} className="py-2 flex items-center justify-between text-sm">
+                  <button
+                    onClick={() => navigate(`/tasks/${task._id}`)}
+                    className="text-blue-600 hover:text-blue-800 font-medium text-left"
+                  >
+                    {task.title}
+                  </button>
+                  <span className="text-gray-600">
+                    Due {new Date(task.deadline).toLocaleDateString()} · now with {ESCALATION_LABELS[step.target].toLowerCase()}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AdminReminders;
@@ -0,0 +1,154 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'react-toastify';
+import { FaArrowLeft, FaShieldAlt, FaSave, FaUndo } from 'react-icons/fa';
+import { adminService } from '../services/adminService';
+import type { TwoFactorPolicy } from '../services/adminService';
+import { ROLE_LABELS } from '../utils/permissions';
+import type { UserRole } from '../utils/permissions';
+import { getApiErrorMessage } from '../utils/apiError';
+
+const ROLES = Object.keys(ROLE_LABELS) as UserRole[];
+
+const EMPTY_POLICY: TwoFactorPolicy = { requiredRoles: [] };
+
+const AdminSecurity: React.FC = () => {
+  const navigate = useNavigate();
+  const [savedPolicy, setSavedPolicy] = useState<TwoFactorPolicy>(EMPTY_POLICY);
+  const [policy, setPolicy] = useState<TwoFactorPolicy>(EMPTY_POLICY);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const loadPolicy = async () => {
+      try {
+        const response = await adminService.getTwoFactorPolicy();
+        setSavedPolicy(response.data.data);
+        setPolicy(response.data.data);
+      } catch (error) {
+        console.error('Error loading security settings:', error);
+        toast.error(getApiErrorMessage(error, 'Failed to load security settings'));
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadPolicy();
+  }, []);
+
+  const hasChanges = ROLES.some(
+    role => policy.requiredRoles.includes(role) !== savedPolicy.requiredRoles.includes(role)
+  );
+
+  const toggleRole = (role: UserRole) => {
+    setPolicy(prev => ({
+      requiredRoles: prev.requiredRoles.includes(role)
+        ? prev.requiredRoles.filter(entry => entry !== role)
+        : [...prev.requiredRoles, role],
+    }));
+  };
+
+  const handleSave = async () => {
+    const added = policy.requiredRoles.filter(role => !savedPolicy.requiredRoles.includes(role));
+    if (
+      added.length > 0 &&
+      !window.confirm(
+        `${added.map(role => ROLE_LABELS[role]).join(', ')} users without two-factor will have to set it up before they can continue. Save?`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await adminService.updateTwoFactorPolicy(policy);
+      setSavedPolicy(response.data.data);
+      setPolicy(response.data.data);
+      toast.success('Security settings saved');
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to save security settings'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading security settings...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-6">
+            <div className="flex items-center space-x-4">
+              <button
+                onClick={() => navigate('/admin/dashboard')}
+                className="text-gray-600 hover:text-gray-900"
+              >
+                <FaArrowLeft className="h-5 w-5" />
+              </button>
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900">Security</h1>
+                <p className="text-gray-600">Sign-in requirements for each role</p>
+              </div>
+            </div>
+            <div className="flex space-x-2">
+              <button
+                onClick={() => setPolicy(savedPolicy)}
+                disabled={!hasChanges || saving}
+                className="bg-gray-100 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-200 disabled:opacity-50 flex items-center space-x-2 text-sm"
+              >
+                <FaUndo className="h-4 w-4" />
+                <span>Discard</span>
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={!hasChanges || saving}
+                className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50 flex items-center space-x-2 text-sm"
+              >
+                <FaSave className="h-4 w-4" />
+                <span>{saving ? 'Saving...' : 'Save'}</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white shadow rounded-lg p-6">
+          <div className="flex items-center mb-2">
+            <FaShieldAlt className="h-5 w-5 text-blue-600 mr-2" />
+            <h2 className="text-lg font-medium text-gray-900">Require two-factor authentication</h2>
+          </div>
+          <p className="text-sm text-gray-600 mb-4">
+            Users in these roles must set up an authenticator app before they can use the app, and can't turn it off.
+            To help someone who has lost their phone, reset two-factor from their employee page.
+          </p>
+          <div className="space-y-3">
+            {ROLES.map(role => (
+              <label key={role} className="flex items-center space-x-3">
+                <input
+                  type="checkbox"
+                  checked={policy.requiredRoles.includes(role)}
+                  onChange={() => toggleRole(role)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span className="text-sm text-gray-800">{ROLE_LABELS[role]}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AdminSecurity;
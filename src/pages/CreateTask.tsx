@@ -1,9 +1,13 @@
-import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { toast } from 'react-toastify';
 import authService from '../services/authService';
 import taskService from '../services/taskService';
 import userService from '../services/userService';
+import type { SaveDraftData } from '../services/taskService';
+import useDraftAutosave from '../hooks/useDraftAutosave';
+import FileDropzone from '../components/FileDropzone';
+import { getApiErrorMessage } from '../utils/apiError';
 
 interface CreateTaskFormData {
   title: string;
@@ -16,8 +20,12 @@ interface CreateTaskFormData {
   attachments: File[];
 }
 
+const FORM_PRIORITIES: Array<CreateTaskFormData['priority']> = ['urgent', 'medium', 'normal'];
+
 const CreateTask: React.FC = () => {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const resumeDraftId = searchParams.get('draft');
   const [formData, setFormData] = useState<CreateTaskFormData>({
     title: '',
     description: '',
@@ -33,12 +41,37 @@ const CreateTask: React.FC = () => {
   const [availableUsers, setAvailableUsers] = useState<any[]>([]);
   const [showUserDropdown, setShowUserDropdown] = useState(false);
   const [selectedUsers, setSelectedUsers] = useState<any[]>([]);
+  const [loadingDraft, setLoadingDraft] = useState(!!resumeDraftId);
+
+  const draftData = useMemo<SaveDraftData>(() => ({
+    title: formData.title,
+    description: formData.description,
+    deadline: formData.deadline,
+    startDate: formData.startDate,
+    priority: formData.priority as 'low' | 'medium' | 'high' | 'urgent',
+    assignedTo: formData.assignedTo,
+    isGroupTask: formData.assignedTo.length > 1,
+    attachments: formData.attachments,
+  }), [formData]);
+
+  const autosave = useDraftAutosave({
+    data: draftData,
+    initialDraftId: resumeDraftId,
+    enabled: !loadingDraft && !loading,
+  });
 
   // Load available users on component mount
   useEffect(() => {
     loadAvailableUsers();
   }, []);
 
+  // Resume a draft when opened with ?draft=<id>
+  useEffect(() => {
+    if (resumeDraftId) {
+      loadDraft(resumeDraftId);
+    }
+  }, [resumeDraftId]);
+
   // Auto-detect task type based on number of assigned users
   useEffect(() => {
     const newTaskType = formData.assignedTo.length > 1 ? 'group' : 'individual';
@@ -79,6 +112,35 @@ const CreateTask: React.FC = () => {
     }
   };
 
+  const loadDraft = async (draftId: string) => {
+    try {
+      setLoadingDraft(true);
+      const response = await taskService.getDraft(draftId);
+      if (response.success) {
+        const draft = response.data.draft;
+        const priority = draft.priority as CreateTaskFormData['priority'];
+        setFormData(prev => ({
+          ...prev,
+          title: draft.title || '',
+          description: draft.description || '',
+          deadline: draft.deadline || '',
+          startDate: draft.startDate || '',
+          priority: FORM_PRIORITIES.includes(priority) ? priority : 'normal',
+          assignedTo: draft.assignedTo.map(user => user._id),
+        }));
+        setSelectedUsers(draft.assignedTo);
+        if (draft.attachments.length > 0) {
+          toast.info(`${draft.attachments.length} attachment(s) from the draft will be included when the task is assigned`);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to load draft:', error);
+      toast.error('Failed to load draft');
+    } finally {
+      setLoadingDraft(false);
+    }
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({
@@ -115,21 +177,10 @@ const CreateTask: React.FC = () => {
     setSelectedUsers(prev => prev.filter(u => u._id !== userId));
   };
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = Array.from(e.target.files || []);
-    const maxFileSize = 10 * 1024 * 1024; // 10MB in bytes
-    
-    // Check file sizes
-    const oversizedFiles = files.filter(file => file.size > maxFileSize);
-    if (oversizedFiles.length > 0) {
-      toast.error(`File size limit exceeded. Maximum allowed size is 10MB. Files: ${oversizedFiles.map(f => f.name).join(', ')}`);
-      e.target.value = ''; // Clear the input
-      return;
-    }
-    
+  const handleFilesChange = (files: File[]) => {
     setFormData(prev => ({
       ...prev,
-      attachments: [...prev.attachments, ...files],
+      attachments: files,
     }));
   };
 
@@ -182,7 +233,25 @@ const CreateTask: React.FC = () => {
       console.log('Is group task (formData.taskType === "group"):', formData.taskType === 'group');
       console.log('Full formData:', formData);
 
-      const response = await taskService.createTask(createTaskData);
+      // Publish the saved draft so its uploaded attachments are kept.
+      // If the latest changes didn't reach the draft, publishing it would drop them.
+      let draftId: string | null = null;
+      if (autosave.draftId) {
+        try {
+          draftId = await autosave.flush();
+        } catch (error) {
+          console.error('Draft save error:', error);
+          toast.error('Your latest changes could not be saved to the draft. Please try again.');
+          return;
+        }
+      }
+      if (!draftId) {
+        await autosave.cancel();
+      }
+
+      const response = draftId
+        ? await taskService.publishDraft(draftId)
+        : await taskService.createTask(createTaskData);
 
       if (response.success) {
         toast.success('Task created successfully!');
@@ -199,9 +268,18 @@ const CreateTask: React.FC = () => {
     }
   };
 
-  const handleSaveDraft = () => {
-    // Implement save draft functionality
-    toast.info('Draft saved successfully');
+  const handleSaveDraft = async () => {
+    try {
+      const draftId = await autosave.flush();
+      if (draftId) {
+        toast.success('Draft saved successfully');
+      } else {
+        toast.info('Nothing to save yet');
+      }
+    } catch (error) {
+      console.error('Draft save error:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to save draft'));
+    }
   };
 
   const handleCancel = () => {
@@ -490,27 +568,8 @@ const CreateTask: React.FC = () => {
             {/* Attachments */}
             <div className="mb-6">
               <label className="block text-3xl font-normal text-gray-700 mb-4">Attachments</label>
-              <div className="w-1/2 h-48 border-2 border-dashed border-blue-800 rounded-lg flex flex-col items-center justify-center">
-                <div className="text-center">
-                  <svg className="w-7 h-7 mx-auto mb-2 text-black" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
-                  </svg>
-                  <p className="text-lg text-black">Drop here files or browse files</p>
-                  <p className="text-sm text-gray-500 mt-1">Max file size: 10MB per file</p>
-                </div>
-                <input
-                  type="file"
-                  multiple
-                  onChange={handleFileChange}
-                  className="hidden"
-                  id="file-upload"
-                />
-                <label
-                  htmlFor="file-upload"
-                  className="mt-2 px-4 py-2 bg-blue-600 text-white rounded cursor-pointer hover:bg-blue-700"
-                >
-                  Browse Files
-                </label>
+              <div className="w-1/2">
+                <FileDropzone files={formData.attachments} onChange={handleFilesChange} disabled={loading} />
               </div>
             </div>
           </div>
@@ -554,7 +613,9 @@ const CreateTask: React.FC = () => {
             onClick={handleSaveDraft}
             className="w-56 h-18 border-2 border-gray-500 rounded-lg text-xl font-medium text-black hover:bg-gray-50"
           >
-            Save Draft
+            {autosave.status !== 'saving'
+              ? 'Save Draft'
+              : autosave.upload ? `Uploading ${Math.round(autosave.upload.progress * 100)}%...` : 'Saving...'}
           </button>
           <button
             type="submit"
@@ -6,6 +6,11 @@ import authService from '../services/authService';
 import taskService, { type Task } from '../services/taskService';
 import GroupTaskView from '../components/GroupTaskView';
 import OverviewerManagement from '../components/OverviewerManagement';
+import TaskSubtasks from '../components/TaskSubtasks';
+import TaskRemarks from '../components/TaskRemarks';
+import TaskActivityFeed from '../components/TaskActivityFeed';
+import { useTaskRealtime, usePollingFallback } from '../hooks/useRealtime';
+import { useTaskHistory } from '../hooks/useTaskHistory';
 
 const GroupTaskDetail: React.FC = () => {
   const { id } = useParams<{ id: string }>();
@@ -14,6 +19,7 @@ const GroupTaskDetail: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const currentUser = authService.getCurrentUser();
+  const { history, applyHistory } = useTaskHistory(id, task?.updatedAt);
 
   // Form data for deadline editing
   const [formData, setFormData] = useState({
@@ -23,10 +29,6 @@ const GroupTaskDetail: React.FC = () => {
   // Check if current user is creator
   const isCreator = task?.createdBy?._id === currentUser?._id;
 
-  // Remark states
-  const [newRemark, setNewRemark] = useState('');
-  const [addingRemark, setAddingRemark] = useState(false);
-
   // Handle deadline update for creators
   const handleSave = async () => {
     if (!task || !isCreator || !id) {
@@ -82,6 +84,7 @@ const GroupTaskDetail: React.FC = () => {
             return;
           }
           setTask(res.data.task);
+          applyHistory(res);
           // Set form data for deadline editing
           setFormData({
             deadline: new Date(res.data.task.deadline).toISOString().slice(0, 16)
@@ -94,33 +97,32 @@ const GroupTaskDetail: React.FC = () => {
       }
     };
     load();
-  }, [id]);
-
-  const handleTaskUpdate = (updated: Task) => setTask(updated);
-
-  const handleAddRemark = async () => {
-    if (!newRemark.trim() || !id) return;
+  }, [id, navigate, applyHistory]);
 
+  // Pick up changes other members make while the page is open, leaving the deadline form alone
+  const refreshTask = async () => {
+    if (!id) return;
     try {
-      setAddingRemark(true);
-      const remarkData = {
-        text: newRemark,
-        category: 'auto' as const // Let backend automatically determine the category
-      };
-
-      const response = await taskService.addRemark(id, remarkData);
-      if (response.success) {
-        toast.success('Remark added successfully');
-        setTask(response.data.task);
-        setNewRemark('');
+      const res = await taskService.getTask(id);
+      if (res.success) {
+        setTask(res.data.task);
+        applyHistory(res);
       }
-    } catch (error: any) {
-      toast.error(error.response?.data?.message || 'Failed to add remark');
-    } finally {
-      setAddingRemark(false);
+    } catch (error) {
+      console.error('Error refreshing task:', error);
     }
   };
 
+  useTaskRealtime(id, (event) => {
+    // Our own changes are already on screen
+    if ('userId' in event.payload && event.payload.userId === currentUser?._id) return;
+    refreshTask();
+  });
+
+  usePollingFallback(refreshTask);
+
+  const handleTaskUpdate = (updated: Task) => setTask(updated);
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -320,6 +322,15 @@ const GroupTaskDetail: React.FC = () => {
 
         <GroupTaskView task={task} currentUserId={currentUser?._id as string} onTaskUpdate={handleTaskUpdate} />
 
+        {/* Subtasks and Checklist */}
+        <div className="mb-4">
+          <TaskSubtasks
+            task={task}
+            canEdit={isCreator || task.assignedTo.some(assignment => assignment.user?._id === currentUser?._id)}
+            onTaskUpdate={handleTaskUpdate}
+          />
+        </div>
+
         {/* Overviewer Management */}
         <div className="mb-4">
           <OverviewerManagement 
@@ -329,104 +340,11 @@ const GroupTaskDetail: React.FC = () => {
         </div>
 
         {/* Remarks Section */}
-        <div className="bg-white rounded-lg shadow-md p-6">
-          <h2 className="text-lg font-medium text-gray-900 mb-4">Remarks & Comments</h2>
-
-          {/* Add New Remark */}
-          <div className="mb-6 p-4 border border-gray-200 rounded-lg">
-            <div className="flex items-start space-x-3">
-              <div className="flex-1">
-                <textarea
-                  value={newRemark}
-                  onChange={(e) => setNewRemark(e.target.value)}
-                  placeholder="Add a remark or comment..."
-                  rows={3}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                />
-                <div className="flex justify-end mt-2">
-                  <button
-                    onClick={handleAddRemark}
-                    disabled={!newRemark.trim() || addingRemark}
-                    className="px-4 py-1 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50"
-                  >
-                    {addingRemark ? 'Adding...' : 'Add Remark'}
-                  </button>
-                </div>
-              </div>
-            </div>
-          </div>
+        <TaskRemarks task={task} onTaskUpdate={handleTaskUpdate} />
 
-          {/* Existing Remarks */}
-          <div className="space-y-3">
-            {(() => {
-              // Combine all remarks from different categories into one array
-              const allRemarks = [];
-              
-              if (task.remarks?.creator) {
-                allRemarks.push(...task.remarks.creator.map(remark => ({ ...remark, category: 'creator' })));
-              }
-              if (task.remarks?.assignee) {
-                allRemarks.push(...task.remarks.assignee.map(remark => ({ ...remark, category: 'assignee' })));
-              }
-              if (task.remarks?.general) {
-                allRemarks.push(...task.remarks.general.map(remark => ({ ...remark, category: 'general' })));
-              }
-              
-              // Sort by creation date (latest first)
-              allRemarks.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-              
-              if (allRemarks.length === 0) {
-                return <p className="text-gray-500 text-sm">No remarks yet</p>;
-              }
-              
-              return allRemarks.map((remark, index) => {
-                // Get styling based on category
-                const getCategoryStyle = (category: string) => {
-                  switch (category) {
-                    case 'creator':
-                      return 'bg-blue-50 border-l-4 border-blue-400';
-                    case 'assignee':
-                      return 'bg-orange-50 border-l-4 border-orange-400';
-                    case 'general':
-                      return 'bg-gray-50 border-l-4 border-gray-400';
-                    default:
-                      return 'bg-gray-50 border-l-4 border-gray-400';
-                  }
-                };
-                
-                const getCategoryLabel = (category: string) => {
-                  switch (category) {
-                    case 'creator':
-                      return 'Creator';
-                    case 'assignee':
-                      return 'Assignee';
-                    case 'general':
-                      return 'General';
-                    default:
-                      return 'General';
-                  }
-                };
-                
-                return (
-                  <div key={`${remark.category}-${index}`} className={`p-3 rounded-r-md ${getCategoryStyle(remark.category)}`}>
-                    <div className="flex items-start justify-between">
-                      <div className="flex-1">
-                        <p className="text-sm text-gray-800">{remark.text}</p>
-                        <div className="flex items-center justify-between mt-2">
-                          <p className="text-xs text-gray-500">
-                            By {remark.author?.name} • {new Date(remark.createdAt).toLocaleString()}
-                          </p>
-                          <span className="text-xs px-2 py-1 bg-white bg-opacity-50 rounded-full">
-                            {getCategoryLabel(remark.category)}
-                          </span>
-                        </div>
-                      </div>
-                    </div>
-                  </div>
-                );
-              });
-            })()}
-          </div>
+        {/* Activity */}
+        <div className="mt-4">
+          <TaskActivityFeed history={history} />
         </div>
       </div>
     </div>
@@ -8,12 +8,15 @@ import {
   CheckCircle, 
   BarChart3,
   Home,
-  Plus
+  Plus,
+  UserPlus
 } from 'lucide-react';
 import { FaSignOutAlt } from 'react-icons/fa';
 import { toast } from 'react-toastify';
 import hodService from '../services/hodService';
 import authService from '../services/authService';
+import { useTaskListRealtime } from '../hooks/useRealtime';
+import PinnedViews from '../components/PinnedViews';
 
 interface DashboardStats {
   totalEmployees: number;
@@ -45,9 +48,9 @@ const HODDashboard: React.FC = () => {
     fetchDashboardData();
   }, []);
 
-  const fetchDashboardData = async () => {
+  const fetchDashboardData = async (silent = false) => {
     try {
-      setLoading(true);
+      if (!silent) setLoading(true);
       const data = await hodService.getDashboard();
       setDashboardData(data);
       setError(null);
@@ -58,6 +61,9 @@ const HODDashboard: React.FC = () => {
     }
   };
 
+  // Keep the numbers current as tasks change
+  useTaskListRealtime(() => fetchDashboardData(true));
+
   const handleLogout = async () => {
     try {
       await authService.logout();
@@ -91,7 +97,7 @@ const HODDashboard: React.FC = () => {
           <h2 className="text-xl font-semibold text-gray-900 mb-2">Error Loading Dashboard</h2>
           <p className="text-gray-600 mb-4">{error}</p>
           <button
-            onClick={fetchDashboardData}
+            onClick={() => fetchDashboardData()}
             className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700"
           >
             Try Again
@@ -172,7 +178,14 @@ const HODDashboard: React.FC = () => {
                   <span>Your Tasks</span>
                 </button>
                 <button
-                  onClick={fetchDashboardData}
+                  onClick={() => navigate('/invitations')}
+                  className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 flex items-center space-x-2"
+                >
+                  <UserPlus className="h-4 w-4" />
+                  <span>Invite</span>
+                </button>
+                <button
+                  onClick={() => fetchDashboardData()}
                   className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center space-x-2"
                 >
                   <TrendingUp className="h-4 w-4" />
@@ -193,6 +206,8 @@ const HODDashboard: React.FC = () => {
 
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <PinnedViews />
+
         {/* Department Info */}
         <div className="bg-white rounded-lg shadow-sm p-6 mb-8">
           <h2 className="text-xl font-semibold text-gray-900 mb-2">Department Information</h2>
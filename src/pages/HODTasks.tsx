@@ -5,11 +5,34 @@ import {
   AlertCircle,
   User,
   ChevronLeft,
-  ChevronRight
+  ChevronRight,
+  List,
+  Kanban,
+  Calendar
 } from 'lucide-react';
 import authService from '../services/authService';
 import hodService from '../services/hodService';
 import type { Task, TaskFilters } from '../services/hodService';
+import TaskBoard from '../components/TaskBoard';
+import TaskCalendar from '../components/TaskCalendar';
+import BulkTaskActionBar from '../components/BulkTaskActionBar';
+import SavedViewsMenu from '../components/SavedViewsMenu';
+import { useSelection } from '../hooks/useSelection';
+import { useUrlFilters } from '../hooks/useUrlFilters';
+import { withoutViewParam } from '../utils/taskFilterParams';
+
+type ViewMode = 'table' | 'board' | 'calendar';
+
+// The board and calendar show every matching task at once instead of paging through them
+const FULL_VIEW_PAGE_SIZE = 100;
+
+const DEFAULT_FILTERS: TaskFilters & { view?: ViewMode } = {
+  page: 1,
+  limit: 10,
+  sortBy: 'createdAt',
+  sortOrder: 'desc',
+  view: 'table'
+};
 
 const HODTasks: React.FC = () => {
   const [tasks, setTasks] = useState<Task[]>([]);
@@ -23,14 +46,12 @@ const HODTasks: React.FC = () => {
     hasPrevPage: false
   });
 
-  const [filters, setFilters] = useState<TaskFilters>({
-    page: 1,
-    limit: 10,
-    sortBy: 'createdAt',
-    sortOrder: 'desc'
-  });
+  // Filters, paging and the view mode live in the URL so a refresh or shared link opens the same list
+  const [filters, setFilters] = useUrlFilters(DEFAULT_FILTERS);
+  const viewMode = filters.view || 'table';
 
   const user = authService.getCurrentUser();
+  const selection = useSelection(tasks);
 
   useEffect(() => {
     fetchTasks();
@@ -39,7 +60,7 @@ const HODTasks: React.FC = () => {
   const fetchTasks = async () => {
     try {
       setLoading(true);
-      const response = await hodService.getDepartmentTasks(filters);
+      const response = await hodService.getDepartmentTasks(withoutViewParam(filters));
       setTasks(response.data);
       setPagination(response.pagination);
       setError(null);
@@ -58,6 +79,15 @@ const HODTasks: React.FC = () => {
     }));
   };
 
+  const handleViewModeChange = (mode: ViewMode) => {
+    setFilters(prev => ({
+      ...prev,
+      view: mode,
+      page: 1,
+      limit: mode === 'table' ? 10 : FULL_VIEW_PAGE_SIZE
+    }));
+  };
+
   const handleSearch = (searchTerm: string) => {
     handleFilterChange('search', searchTerm);
   };
@@ -129,6 +159,30 @@ const HODTasks: React.FC = () => {
                 </p>
               </div>
               <div className="flex items-center space-x-4">
+                <SavedViewsMenu list="hod-tasks" />
+                <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden">
+                  <button
+                    onClick={() => handleViewModeChange('table')}
+                    className={`px-3 py-2 flex items-center text-sm ${viewMode === 'table' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                  >
+                    <List className="h-4 w-4 mr-1" />
+                    Table
+                  </button>
+                  <button
+                    onClick={() => handleViewModeChange('board')}
+                    className={`px-3 py-2 flex items-center text-sm ${viewMode === 'board' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                  >
+                    <Kanban className="h-4 w-4 mr-1" />
+                    Board
+                  </button>
+                  <button
+                    onClick={() => handleViewModeChange('calendar')}
+                    className={`px-3 py-2 flex items-center text-sm ${viewMode === 'calendar' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                  >
+                    <Calendar className="h-4 w-4 mr-1" />
+                    Calendar
+                  </button>
+                </div>
                 <button
                   onClick={() => window.location.href = '/hod/dashboard'}
                   className="bg-gray-600 text-white px-4 py-2 rounded-lg hover:bg-gray-700"
@@ -209,6 +263,14 @@ const HODTasks: React.FC = () => {
           </div>
         )}
 
+        {viewMode === 'table' && (
+          <BulkTaskActionBar
+            selected={selection.selectedItems}
+            onSelectionChange={selection.setSelectedIds}
+            onComplete={fetchTasks}
+          />
+        )}
+
         <div className="bg-white rounded-lg shadow-sm overflow-hidden">
           {tasks.length === 0 ? (
             <div className="text-center py-12">
@@ -218,11 +280,42 @@ const HODTasks: React.FC = () => {
                 No tasks match your current filters.
               </p>
             </div>
+          ) : viewMode === 'calendar' ? (
+            <div className="p-6">
+              <TaskCalendar
+                tasks={tasks}
+                onOpenTask={(task) => window.location.href = `/tasks/${task._id}`}
+                onDeadlineChange={(taskId, deadline) => setTasks(prev => prev.map(task =>
+                  task._id === taskId ? { ...task, deadline } : task
+                ))}
+              />
+            </div>
+          ) : viewMode === 'board' ? (
+            <div className="p-6">
+              {/* HOD task lists don't carry the stage, and every task is in the HOD's department */}
+              <TaskBoard
+                tasks={tasks}
+                setTasks={setTasks}
+                onOpenTask={(task) => window.location.href = `/tasks/${task._id}`}
+                groupByOptions={['status', 'priority']}
+                swimlaneOptions={['none', 'assignee']}
+                onLaneFilter={(laneFilters) => handleFilterChange('assignedTo', laneFilters.assignedTo)}
+              />
+            </div>
           ) : (
             <div className="overflow-x-auto">
               <table className="min-w-full divide-y divide-gray-200">
                 <thead className="bg-gray-50">
                   <tr>
+                    <th className="pl-6 py-3 text-left">
+                      <input
+                        type="checkbox"
+                        checked={selection.allSelected}
+                        onChange={selection.toggleAll}
+                        aria-label="Select all tasks on this page"
+                        className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                      />
+                    </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Task
                     </th>
@@ -245,7 +338,16 @@ const HODTasks: React.FC = () => {
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
                   {tasks.map((task) => (
-                    <tr key={task._id} className="hover:bg-gray-50">
+                    <tr key={task._id} className={selection.isSelected(task._id) ? 'bg-blue-50' : 'hover:bg-gray-50'}>
+                      <td className="pl-6 py-4">
+                        <input
+                          type="checkbox"
+                          checked={selection.isSelected(task._id)}
+                          onChange={() => selection.toggle(task._id)}
+                          aria-label={`Select ${task.title}`}
+                          className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                        />
+                      </td>
                       <td className="px-6 py-4">
                         <div>
                           <div className="text-sm font-medium text-gray-900">
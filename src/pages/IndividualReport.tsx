@@ -5,6 +5,7 @@ import * as XLSX from 'xlsx';
 import taskService from '../services/taskService';
 import type { Task } from '../services/taskService';
 import authService from '../services/authService';
+import CalendarExport from '../components/CalendarExport';
 import { ArrowLeft, Download, Filter, Search, Calendar, User, CheckCircle, Clock, AlertCircle } from 'lucide-react';
 
 // Helper function to sanitize task user references
@@ -339,6 +340,16 @@ const IndividualReport: React.FC = () => {
     }
   };
 
+  const loadCalendarTasks = async () => {
+    const response = await taskService.getIndividualReport({
+      limit: 10000,
+      ...Object.fromEntries(
+        Object.entries(filters).filter(([, value]) => value !== '')
+      )
+    });
+    return response.data.tasks;
+  };
+
   // Use statistics from API instead of calculating from paginated tasks
   const taskStats = statistics;
 
@@ -375,14 +386,21 @@ const IndividualReport: React.FC = () => {
               </button>
               <h1 className="text-xl font-semibold text-gray-900">My Tasks Report</h1>
             </div>
-            <button
-              onClick={exportToExcel}
-              disabled={exportLoading || loading}
-              className="flex items-center bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              <Download className="w-4 h-4 mr-2" />
-              {exportLoading ? 'Exporting...' : 'Export to Excel'}
-            </button>
+            <div className="flex items-center gap-2">
+              <CalendarExport
+                loadTasks={loadCalendarTasks}
+                calendarName={`${currentUser.name} - IMTS Tasks`}
+                fileName={`Individual_Tasks_${currentUser.name.replace(/\s+/g, '_')}.ics`}
+              />
+              <button
+                onClick={exportToExcel}
+                disabled={exportLoading || loading}
+                className="flex items-center bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                {exportLoading ? 'Exporting...' : 'Export to Excel'}
+              </button>
+            </div>
           </div>
         </div>
       </div>
@@ -0,0 +1,400 @@
+import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { toast } from 'react-toastify';
+import { FaEnvelope, FaUserClock, FaPaperPlane, FaCheck, FaTimes, FaRedo, FaLink } from 'react-icons/fa';
+import invitationService from '../services/invitationService';
+import type { Invitation, InvitationStatus } from '../services/invitationService';
+import signupRequestService from '../services/signupRequestService';
+import type { SignupRequest } from '../services/signupRequestService';
+import { adminService } from '../services/adminService';
+import Can from '../components/Can';
+import { useCurrentUser } from '../hooks/useCurrentUser';
+import { getApiErrorMessage } from '../utils/apiError';
+import { ROLE_LABELS, getInvitableRoles, hasPermission } from '../utils/permissions';
+import type { UserRole } from '../utils/permissions';
+
+type Tab = 'invitations' | 'pending';
+
+const STATUS_COLORS: Record<InvitationStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  accepted: 'bg-green-100 text-green-800',
+  revoked: 'bg-gray-100 text-gray-800',
+  expired: 'bg-red-100 text-red-800',
+};
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const copyInviteLink = async (inviteUrl: string) => {
+  try {
+    await navigator.clipboard.writeText(inviteUrl);
+    toast.success('Invitation link copied');
+  } catch {
+    window.prompt('Copy this invitation link:', inviteUrl);
+  }
+};
+
+const Invitations: React.FC = () => {
+  const user = useCurrentUser();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const activeTab: Tab = searchParams.get('tab') === 'pending' ? 'pending' : 'invitations';
+
+  // Admins invite into any department; HODs only into their own
+  const canPickDepartment = hasPermission(user, 'users.manage');
+  const invitableRoles = getInvitableRoles(user?.role);
+
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [requests, setRequests] = useState<SignupRequest[]>([]);
+  const [departments, setDepartments] = useState<Array<{ _id: string; name: string }>>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+  const [lastInviteUrl, setLastInviteUrl] = useState<string | null>(null);
+  const [form, setForm] = useState<{ email: string; role: UserRole; departmentId: string }>({
+    email: '',
+    role: 'employee',
+    departmentId: user?.department?._id || '',
+  });
+
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        setLoading(true);
+        const [invitationsResponse, requestsResponse] = await Promise.all([
+          invitationService.getInvitations(),
+          signupRequestService.getPendingRequests(),
+        ]);
+        setInvitations(invitationsResponse.data.invitations);
+        setRequests(requestsResponse.data.requests);
+      } catch (error) {
+        console.error('Error loading invitations:', error);
+        toast.error(getApiErrorMessage(error, 'Failed to load invitations'));
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadData();
+  }, []);
+
+  useEffect(() => {
+    if (!canPickDepartment) return;
+    adminService.getAllDepartments()
+      .then(response => setDepartments(response.data.data))
+      .catch(error => console.error('Error loading departments:', error));
+  }, [canPickDepartment]);
+
+  const setTab = (tab: Tab) => {
+    setSearchParams(tab === 'invitations' ? {} : { tab }, { replace: true });
+  };
+
+  const handleInvite = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!form.departmentId) {
+      toast.error('Choose a department');
+      return;
+    }
+
+    try {
+      setSending(true);
+      const response = await invitationService.createInvitation({
+        email: form.email.trim(),
+        role: form.role,
+        departmentId: form.departmentId,
+      });
+      setInvitations(prev => [response.data.invitation, ...prev]);
+      setLastInviteUrl(response.data.inviteUrl || null);
+      setForm(prev => ({ ...prev, email: '' }));
+      toast.success(`Invitation sent to ${response.data.invitation.email}`);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to send invitation'));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleResend = async (invitation: Invitation) => {
+    try {
+      setBusyId(invitation._id);
+      const response = await invitationService.resendInvitation(invitation._id);
+      setInvitations(prev => prev.map(entry => (entry._id === invitation._id ? response.data.invitation : entry)));
+      setLastInviteUrl(response.data.inviteUrl || null);
+      toast.success(`Invitation resent to ${invitation.email}`);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to resend invitation'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRevoke = async (invitation: Invitation) => {
+    if (!window.confirm(`Cancel the invitation for ${invitation.email}? The link will stop working.`)) return;
+
+    try {
+      setBusyId(invitation._id);
+      await invitationService.revokeInvitation(invitation._id);
+      setInvitations(prev => prev.map(entry => (entry._id === invitation._id ? { ...entry, status: 'revoked' } : entry)));
+      toast.success('Invitation cancelled');
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to cancel invitation'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleApprove = async (request: SignupRequest) => {
+    try {
+      setBusyId(request._id);
+      await signupRequestService.approveRequest(request._id);
+      setRequests(prev => prev.filter(entry => entry._id !== request._id));
+      toast.success(`${request.name} can now sign in`);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to approve sign-up'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleReject = async (request: SignupRequest) => {
+    const reason = window.prompt(`Reject the sign-up from ${request.name}? You can add a reason for the email (optional):`);
+    if (reason === null) return;
+
+    try {
+      setBusyId(request._id);
+      await signupRequestService.rejectRequest(request._id, reason.trim() || undefined);
+      setRequests(prev => prev.filter(entry => entry._id !== request._id));
+      toast.success('Sign-up rejected');
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to reject sign-up'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-100 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const tabClass = (tab: Tab) => `py-2 px-1 border-b-2 font-medium text-sm ${
+    activeTab === tab
+      ? 'border-blue-500 text-blue-600'
+      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+  }`;
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <div className="p-6 max-w-6xl mx-auto">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900">Invitations</h1>
+          <p className="text-gray-600">Invite people by email and approve self sign-ups</p>
+        </div>
+
+        <div className="border-b border-gray-200 mb-6">
+          <nav className="-mb-px flex space-x-8">
+            <button onClick={() => setTab('invitations')} className={tabClass('invitations')}>
+              <FaEnvelope className="inline mr-2" />
+              Invitations
+            </button>
+            <Can permission="signups.approve">
+              <button onClick={() => setTab('pending')} className={tabClass('pending')}>
+                <FaUserClock className="inline mr-2" />
+                Pending sign-ups
+                {requests.length > 0 && (
+                  <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-red-100 text-red-700">{requests.length}</span>
+                )}
+              </button>
+            </Can>
+          </nav>
+        </div>
+
+        {activeTab === 'invitations' && (
+          <div className="space-y-6">
+            {/* Invite form */}
+            <form onSubmit={handleInvite} className="bg-white rounded-lg shadow-sm p-6">
+              <h2 className="text-lg font-medium text-gray-900 mb-4">Invite someone</h2>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                <div className="md:col-span-2">
+                  <label htmlFor="invite-email" className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+                  <input
+                    id="invite-email"
+                    type="email"
+                    value={form.email}
+                    onChange={(e) => setForm({ ...form, email: e.target.value })}
+                    placeholder="name@imtsinstitute.com"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                  />
+                </div>
+                <div>
+                  <label htmlFor="invite-role" className="block text-sm font-medium text-gray-700 mb-1">Role</label>
+                  <select
+                    id="invite-role"
+                    value={form.role}
+                    onChange={(e) => setForm({ ...form, role: e.target.value as UserRole })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {invitableRoles.map(role => (
+                      <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="invite-department" className="block text-sm font-medium text-gray-700 mb-1">Department</label>
+                  {canPickDepartment ? (
+                    <select
+                      id="invite-department"
+                      value={form.departmentId}
+                      onChange={(e) => setForm({ ...form, departmentId: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      required
+                    >
+                      <option value="">Select department</option>
+                      {departments.map(department => (
+                        <option key={department._id} value={department._id}>{department.name}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      id="invite-department"
+                      value={user?.department?.name || ''}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md bg-gray-100 text-gray-600"
+                      readOnly
+                    />
+                  )}
+                </div>
+              </div>
+              <div className="mt-4 flex items-center justify-between">
+                {lastInviteUrl ? (
+                  <button
+                    type="button"
+                    onClick={() => copyInviteLink(lastInviteUrl)}
+                    className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    <FaLink className="mr-2" />
+                    Copy the link to share it another way
+                  </button>
+                ) : <span />}
+                <button
+                  type="submit"
+                  disabled={sending}
+                  className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  <FaPaperPlane className="mr-2" />
+                  {sending ? 'Sending...' : 'Send invitation'}
+                </button>
+              </div>
+            </form>
+
+            {/* Sent invitations */}
+            <div className="bg-white rounded-lg shadow-sm overflow-x-auto">
+              {invitations.length === 0 ? (
+                <p className="px-6 py-8 text-center text-sm text-gray-500">No invitations sent yet</p>
+              ) : (
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Email</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Role</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Department</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Invited by</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {invitations.map(invitation => (
+                      <tr key={invitation._id}>
+                        <td className="px-6 py-4 text-sm text-gray-900">{invitation.email}</td>
+                        <td className="px-6 py-4 text-sm text-gray-600">{ROLE_LABELS[invitation.role] || invitation.role}</td>
+                        <td className="px-6 py-4 text-sm text-gray-600">{invitation.department?.name}</td>
+                        <td className="px-6 py-4 text-sm text-gray-600">
+                          {invitation.invitedBy?.name}
+                          <div className="text-xs text-gray-400">{formatDate(invitation.createdAt)}</div>
+                        </td>
+                        <td className="px-6 py-4 text-sm">
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${STATUS_COLORS[invitation.status]}`}>
+                            {invitation.status}
+                          </span>
+                          {invitation.status === 'pending' && (
+                            <div className="text-xs text-gray-400 mt-1">Expires {formatDate(invitation.expiresAt)}</div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-right whitespace-nowrap">
+                          {(invitation.status === 'pending' || invitation.status === 'expired') && (
+                            <button
+                              onClick={() => handleResend(invitation)}
+                              disabled={busyId === invitation._id}
+                              className="inline-flex items-center text-blue-600 hover:text-blue-800 disabled:opacity-50 mr-4"
+                            >
+                              <FaRedo className="mr-1" />
+                              Resend
+                            </button>
+                          )}
+                          {invitation.status === 'pending' && (
+                            <button
+                              onClick={() => handleRevoke(invitation)}
+                              disabled={busyId === invitation._id}
+                              className="inline-flex items-center text-red-600 hover:text-red-800 disabled:opacity-50"
+                            >
+                              <FaTimes className="mr-1" />
+                              Cancel
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        )}
+
+        {activeTab === 'pending' && (
+          <div className="bg-white rounded-lg shadow-sm">
+            {requests.length === 0 ? (
+              <p className="px-6 py-8 text-center text-sm text-gray-500">No sign-ups waiting for approval</p>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {requests.map(request => (
+                  <li key={request._id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 px-6 py-4">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">{request.name}</p>
+                      <p className="text-xs text-gray-500">
+                        {request.email} • {request.phone} • {request.department?.name}
+                      </p>
+                      <p className="text-xs text-gray-400">Signed up {formatDate(request.createdAt)}</p>
+                    </div>
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => handleApprove(request)}
+                        disabled={busyId === request._id}
+                        className="inline-flex items-center px-3 py-1.5 bg-green-600 text-white text-sm rounded-md hover:bg-green-700 disabled:opacity-50"
+                      >
+                        <FaCheck className="mr-1" />
+                        Approve
+                      </button>
+                      <button
+                        onClick={() => handleReject(request)}
+                        disabled={busyId === request._id}
+                        className="inline-flex items-center px-3 py-1.5 border border-red-300 text-red-700 text-sm rounded-md hover:bg-red-50 disabled:opacity-50"
+                      >
+                        <FaTimes className="mr-1" />
+                        Reject
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Invitations;
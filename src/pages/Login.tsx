@@ -1,7 +1,8 @@
 import React, { useState } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
 import { toast } from 'react-toastify';
-import authService, { type LoginData } from '../services/authService';
+import authService, { isTwoFactorChallenge, type LoginData } from '../services/authService';
+import { getHomePath } from '../utils/permissions';
 
 interface LoginFormData {
   email: string;
@@ -36,21 +37,17 @@ const Login: React.FC = () => {
 
       const response = await authService.login(loginData);
       
-      if (response.success) {
+      if (isTwoFactorChallenge(response)) {
+        // Password was right; the session starts once the code is checked
+        navigate('/login/two-factor', { state: { challengeToken: response.data.challengeToken } });
+      } else if (response.success) {
         toast.success('Login successful! Welcome back.');
         console.log('Login successful:', response.data.user);
         
         // Role-based redirect
-        const userRole = response.data.user.role;
+        const homePath = getHomePath(response.data.user.role);
         setTimeout(() => {
-          if (userRole === 'hod') {
-            navigate('/hod/dashboard');
-          } else if (userRole === 'super_admin') {
-            navigate('/admin/dashboard');
-          } else {
-            // Employee or other roles go to regular dashboard
-            navigate('/dashboard');
-          }
+          navigate(homePath);
         }, 1500);
       }
     } catch (error: any) {
@@ -0,0 +1,334 @@
+import React, { useState, useEffect } from 'react';
+import { toast } from 'react-toastify';
+import { FaBell, FaEnvelope, FaDesktop, FaMoon, FaSave, FaUndo } from 'react-icons/fa';
+import NotificationService, { NOTIFICATION_TYPE_LABELS } from '../services/notificationService';
+import type {
+  DigestFrequency,
+  NotificationChannel,
+  NotificationPreferences as Preferences,
+  NotificationPriority,
+  NotificationType
+} from '../services/notificationService';
+import { getApiErrorMessage } from '../utils/apiError';
+
+const CHANNELS: Array<{ value: NotificationChannel; label: string; icon: React.ReactNode }> = [
+  { value: 'inApp', label: 'In-app', icon: <FaBell /> },
+  { value: 'email', label: 'Email', icon: <FaEnvelope /> },
+  { value: 'browser', label: 'Browser', icon: <FaDesktop /> },
+];
+
+const DIGEST_OPTIONS: Array<{ value: DigestFrequency; label: string; description: string }> = [
+  { value: 'instant', label: 'Instantly', description: 'One email per notification' },
+  { value: 'hourly', label: 'Hourly', description: 'One summary email per hour' },
+  { value: 'daily', label: 'Daily', description: 'One summary email each morning' },
+];
+
+const PRIORITY_OPTIONS: Array<{ value: NotificationPriority; label: string }> = [
+  { value: 'low', label: 'Everything' },
+  { value: 'medium', label: 'Medium and above' },
+  { value: 'high', label: 'High and urgent only' },
+  { value: 'urgent', label: 'Urgent only' },
+];
+
+const NOTIFICATION_TYPES = Object.keys(NOTIFICATION_TYPE_LABELS) as NotificationType[];
+
+const NotificationPreferences: React.FC = () => {
+  const [preferences, setPreferences] = useState<Preferences | null>(null);
+  const [saved, setSaved] = useState<Preferences | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [browserPermission, setBrowserPermission] = useState<NotificationPermission | 'unsupported'>(
+    'Notification' in window ? Notification.permission : 'unsupported'
+  );
+
+  useEffect(() => {
+    loadPreferences();
+  }, []);
+
+  const loadPreferences = async () => {
+    try {
+      setLoading(true);
+      const data = await NotificationService.getPreferences();
+      setPreferences(data);
+      setSaved(data);
+    } catch (error) {
+      console.error('Error loading notification preferences:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to load notification preferences'));
+      // Still let the user pick settings, starting from whatever was last known
+      const fallback = NotificationService.getCachedPreferences();
+      setPreferences(fallback);
+      setSaved(fallback);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const hasChanges = JSON.stringify(preferences) !== JSON.stringify(saved);
+  const wantsBrowser = !!preferences && NOTIFICATION_TYPES.some(type => preferences.channels[type].browser);
+
+  const update = (changes: Partial<Preferences>) => {
+    setPreferences(prev => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const toggleChannel = (type: NotificationType, channel: NotificationChannel) => {
+    if (!preferences) return;
+    update({
+      channels: {
+        ...preferences.channels,
+        [type]: { ...preferences.channels[type], [channel]: !preferences.channels[type][channel] }
+      }
+    });
+  };
+
+  // Turn a channel on or off for every type at once
+  const setChannelForAll = (channel: NotificationChannel, enabled: boolean) => {
+    if (!preferences) return;
+    const channels = { ...preferences.channels };
+    NOTIFICATION_TYPES.forEach(type => {
+      channels[type] = { ...channels[type], [channel]: enabled };
+    });
+    update({ channels });
+  };
+
+  const handleRequestPermission = async () => {
+    await NotificationService.requestNotificationPermission();
+    setBrowserPermission('Notification' in window ? Notification.permission : 'unsupported');
+  };
+
+  const handleSave = async () => {
+    if (!preferences) return;
+
+    if (preferences.quietHours.enabled && preferences.quietHours.start === preferences.quietHours.end) {
+      toast.error('Quiet hours must start and end at different times');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const data = await NotificationService.updatePreferences(preferences);
+      setPreferences(data);
+      setSaved(data);
+      toast.success('Notification preferences saved');
+    } catch (error) {
+      console.error('Error saving notification preferences:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to save notification preferences'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading || !preferences) {
+    return (
+      <div className="min-h-screen bg-gray-100 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <div className="p-6 max-w-5xl mx-auto">
+        {/* Page Title */}
+        <div className="mb-6 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Notification Settings</h1>
+            <p className="text-gray-600">Choose what you hear about, where, and when</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setPreferences(saved)}
+              disabled={!hasChanges || saving}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 bg-white text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <FaUndo className="mr-2" />
+              Discard
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!hasChanges || saving}
+              className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <FaSave className="mr-2" />
+              {saving ? 'Saving...' : 'Save Changes'}
+            </button>
+          </div>
+        </div>
+
+        {/* Channels per type */}
+        <div className="bg-white rounded-lg shadow-sm overflow-hidden mb-6">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">Notification Types</h2>
+            <p className="text-sm text-gray-600">Pick the channels each kind of notification is sent to</p>
+          </div>
+
+          {wantsBrowser && browserPermission !== 'granted' && (
+            <div className="px-6 py-3 bg-yellow-50 border-b border-yellow-200 text-sm text-yellow-800 flex items-center justify-between gap-4">
+              {browserPermission === 'unsupported' ? (
+                <span>This browser doesn't support desktop notifications.</span>
+              ) : browserPermission === 'denied' ? (
+                <span>Browser notifications are blocked. Allow them in your browser's site settings to receive them.</span>
+              ) : (
+                <>
+                  <span>Your browser needs permission before it can show notifications.</span>
+                  <button
+                    onClick={handleRequestPermission}
+                    className="px-3 py-1 bg-yellow-600 text-white rounded-md hover:bg-yellow-700 whitespace-nowrap"
+                  >
+                    Allow
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Type
+                  </th>
+                  {CHANNELS.map(channel => {
+                    const allEnabled = NOTIFICATION_TYPES.every(type => preferences.channels[type][channel.value]);
+                    return (
+                      <th key={channel.value} className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        <div className="flex flex-col items-center gap-1">
+                          <span className="flex items-center gap-1">
+                            {channel.icon}
+                            {channel.label}
+                          </span>
+                          <button
+                            onClick={() => setChannelForAll(channel.value, !allEnabled)}
+                            className="text-[11px] normal-case font-normal text-blue-600 hover:text-blue-800"
+                          >
+                            {allEnabled ? 'None' : 'All'}
+                          </button>
+                        </div>
+                      </th>
+                    );
+                  })}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {NOTIFICATION_TYPES.map(type => (
+                  <tr key={type} className="hover:bg-gray-50">
+                    <td className="px-6 py-3 text-sm text-gray-900">
+                      <span className="mr-2">{NotificationService.getNotificationIcon(type)}</span>
+                      {NOTIFICATION_TYPE_LABELS[type]}
+                    </td>
+                    {CHANNELS.map(channel => (
+                      <td key={channel.value} className="px-6 py-3 text-center">
+                        <input
+                          type="checkbox"
+                          checked={preferences.channels[type][channel.value]}
+                          onChange={() => toggleChannel(type, channel.value)}
+                          className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                          aria-label={`${NOTIFICATION_TYPE_LABELS[type]} by ${channel.label}`}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {/* Quiet hours */}
+          <div className="bg-white rounded-lg shadow-sm p-6">
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+                <FaMoon className="mr-2 text-indigo-500" />
+                Quiet Hours
+              </h2>
+              <label className="flex items-center cursor-pointer text-sm">
+                <input
+                  type="checkbox"
+                  checked={preferences.quietHours.enabled}
+                  onChange={(e) => update({ quietHours: { ...preferences.quietHours, enabled: e.target.checked } })}
+                  className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span className="ml-2">On</span>
+              </label>
+            </div>
+            <p className="text-sm text-gray-600 mb-4">
+              No sounds, pop-ups or emails during these hours. Urgent notifications still come through.
+            </p>
+            <div className="flex items-center gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                <input
+                  type="time"
+                  value={preferences.quietHours.start}
+                  disabled={!preferences.quietHours.enabled}
+                  onChange={(e) => update({ quietHours: { ...preferences.quietHours, start: e.target.value } })}
+                  className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+                <input
+                  type="time"
+                  value={preferences.quietHours.end}
+                  disabled={!preferences.quietHours.enabled}
+                  onChange={(e) => update({ quietHours: { ...preferences.quietHours, end: e.target.value } })}
+                  className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 mt-2">Times are in {preferences.timezone}</p>
+          </div>
+
+          {/* Delivery */}
+          <div className="bg-white rounded-lg shadow-sm p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Delivery</h2>
+
+            <label className="block text-sm font-medium text-gray-700 mb-2">Email digest</label>
+            <div className="space-y-2 mb-4">
+              {DIGEST_OPTIONS.map(option => (
+                <label key={option.value} className="flex items-start cursor-pointer">
+                  <input
+                    type="radio"
+                    name="digest"
+                    value={option.value}
+                    checked={preferences.digest === option.value}
+                    onChange={() => update({ digest: option.value })}
+                    className="mt-1 h-4 w-4 border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="ml-2 text-sm">
+                    <span className="font-medium text-gray-900">{option.label}</span>
+                    <span className="block text-gray-500">{option.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+
+            <label className="block text-sm font-medium text-gray-700 mb-2">Minimum priority</label>
+            <select
+              value={preferences.minimumPriority}
+              onChange={(e) => update({ minimumPriority: e.target.value as NotificationPriority })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 mb-4"
+            >
+              {PRIORITY_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+
+            <label className="flex items-center cursor-pointer text-sm">
+              <input
+                type="checkbox"
+                checked={preferences.soundEnabled}
+                onChange={(e) => update({ soundEnabled: e.target.checked })}
+                className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span className="ml-2 text-gray-900">Play a sound for new notifications</span>
+            </label>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NotificationPreferences;
@@ -0,0 +1,513 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'react-toastify';
+import {
+  FaArchive, FaBoxOpen, FaCheck, FaClock, FaCog, FaEnvelope, FaEnvelopeOpen, FaSearch, FaTrash
+} from 'react-icons/fa';
+import NotificationService, { NOTIFICATION_TYPE_LABELS, getNotificationLink } from '../services/notificationService';
+import type {
+  Notification,
+  NotificationBulkAction,
+  NotificationPriority,
+  NotificationType
+} from '../services/notificationService';
+import { getApiErrorMessage } from '../utils/apiError';
+
+type NotificationView = 'inbox' | 'archived';
+
+const PAGE_SIZE = 20;
+
+const PRIORITIES: NotificationPriority[] = ['urgent', 'high', 'medium', 'low'];
+
+const BULK_ACTION_LABELS: Record<NotificationBulkAction, string> = {
+  read: 'marked as read',
+  unread: 'marked as unread',
+  archive: 'archived',
+  unarchive: 'moved to inbox',
+  delete: 'deleted',
+};
+
+// Quick snooze choices, each returning the time the reminder should come back
+const SNOOZE_PRESETS: Array<{ label: string; getTime: () => Date }> = [
+  { label: '1 hour', getTime: () => new Date(Date.now() + 60 * 60 * 1000) },
+  { label: '3 hours', getTime: () => new Date(Date.now() + 3 * 60 * 60 * 1000) },
+  {
+    label: 'Tomorrow morning',
+    getTime: () => {
+      const date = new Date();
+      date.setDate(date.getDate() + 1);
+      date.setHours(9, 0, 0, 0);
+      return date;
+    }
+  },
+  {
+    label: 'Next week',
+    getTime: () => {
+      const date = new Date();
+      date.setDate(date.getDate() + 7);
+      date.setHours(9, 0, 0, 0);
+      return date;
+    }
+  },
+];
+
+const Notifications: React.FC = () => {
+  const navigate = useNavigate();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [view, setView] = useState<NotificationView>('inbox');
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [typeFilter, setTypeFilter] = useState<NotificationType | ''>('');
+  const [priorityFilter, setPriorityFilter] = useState<NotificationPriority | ''>('');
+  const [taskFilter, setTaskFilter] = useState('');
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [page, setPage] = useState(1);
+  const [pagination, setPagination] = useState({ page: 1, pages: 1, total: 0 });
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkWorking, setBulkWorking] = useState(false);
+  const [snoozeMenuId, setSnoozeMenuId] = useState<string | null>(null);
+  const [customSnooze, setCustomSnooze] = useState('');
+  const [reloadKey, setReloadKey] = useState(0);
+
+  // Wait for typing to pause before searching
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearch(searchInput);
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        setLoading(true);
+        const response = await NotificationService.getNotifications({
+          page,
+          limit: PAGE_SIZE,
+          search,
+          type: typeFilter || undefined,
+          priority: priorityFilter || undefined,
+          relatedTask: taskFilter || undefined,
+          unreadOnly,
+          archived: view === 'archived',
+        });
+        if (cancelled) return;
+        setNotifications(response.data);
+        setPagination(response.pagination);
+        setSelectedIds(new Set());
+      } catch (error) {
+        if (cancelled) return;
+        console.error('Error loading notifications:', error);
+        toast.error(getApiErrorMessage(error, 'Failed to load notifications'));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [page, search, typeFilter, priorityFilter, taskFilter, unreadOnly, view, reloadKey]);
+
+  const reload = () => setReloadKey(prev => prev + 1);
+
+  // Tasks that appear in the current results, for the related task filter
+  const relatedTasks = Array.from(
+    new Map(
+      notifications
+        .filter(n => n.relatedTask)
+        .map(n => [n.relatedTask!._id, n.relatedTask!.title])
+    ).entries()
+  );
+
+  const groups = NotificationService.groupNotificationsByDate(notifications);
+  const allSelected = notifications.length > 0 && notifications.every(n => selectedIds.has(n._id));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(notifications.map(n => n._id)));
+  };
+
+  const handleBulkAction = async (action: NotificationBulkAction) => {
+    const ids = Array.from(selectedIds);
+    if (ids.length === 0) return;
+
+    if (action === 'delete' && !window.confirm(`Delete ${ids.length} notification${ids.length > 1 ? 's' : ''}? This cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      setBulkWorking(true);
+      const response = await NotificationService.bulkUpdate(ids, action);
+      const count = response.data?.updated ?? ids.length;
+      toast.success(`${count} notification${count === 1 ? '' : 's'} ${BULK_ACTION_LABELS[action]}`);
+      reload();
+    } catch (error) {
+      console.error('Error updating notifications:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to update notifications'));
+    } finally {
+      setBulkWorking(false);
+    }
+  };
+
+  const setReadState = async (notification: Notification, read: boolean) => {
+    try {
+      if (read) {
+        await NotificationService.markAsRead(notification._id);
+      } else {
+        await NotificationService.markAsUnread(notification._id);
+      }
+      setNotifications(prev =>
+        prev.map(n =>
+          n._id === notification._id
+            ? { ...n, isRead: read, channels: { ...n.channels, inApp: { ...n.channels.inApp, read } } }
+            : n
+        )
+      );
+    } catch (error) {
+      console.error('Error updating notification:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to update notification'));
+    }
+  };
+
+  const handleOpen = async (notification: Notification) => {
+    if (!notification.isRead) {
+      await setReadState(notification, true);
+    }
+    const link = getNotificationLink(notification);
+    if (link) {
+      navigate(link);
+    }
+  };
+
+  const handleSnooze = async (notification: Notification, until: Date) => {
+    if (isNaN(until.getTime()) || until <= new Date()) {
+      toast.error('Pick a time in the future');
+      return;
+    }
+
+    try {
+      await NotificationService.snoozeNotification(notification._id, until.toISOString());
+      setSnoozeMenuId(null);
+      setCustomSnooze('');
+      toast.success(`Snoozed until ${until.toLocaleString()}`);
+      reload();
+    } catch (error) {
+      console.error('Error snoozing notification:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to snooze reminder'));
+    }
+  };
+
+  const renderSnoozeMenu = (notification: Notification) => (
+    <div
+      className="absolute right-0 top-full mt-1 w-56 bg-white border border-gray-200 rounded-lg shadow-lg z-20 p-2"
+      onClick={(e) => e.stopPropagation()}
+    >
+      {SNOOZE_PRESETS.map(preset => (
+        <button
+          key={preset.label}
+          onClick={() => handleSnooze(notification, preset.getTime())}
+          className="block w-full text-left px-3 py-1.5 text-sm text-gray-700 rounded hover:bg-gray-100"
+        >
+          {preset.label}
+        </button>
+      ))}
+      <div className="border-t border-gray-200 mt-2 pt-2">
+        <input
+          type="datetime-local"
+          value={customSnooze}
+          onChange={(e) => setCustomSnooze(e.target.value)}
+          className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md mb-2"
+        />
+        <button
+          onClick={() => handleSnooze(notification, new Date(customSnooze))}
+          disabled={!customSnooze}
+          className="w-full px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          Snooze until then
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderNotification = (notification: Notification) => {
+    const priorityStyles = NotificationService.getPriorityStyles(notification.priority);
+    const snoozed = notification.snoozedUntil && new Date(notification.snoozedUntil) > new Date();
+
+    return (
+      <div
+        key={notification._id}
+        className={`flex items-start gap-3 px-4 py-3 border-b border-gray-100 hover:bg-gray-50 ${
+          notification.isRead ? '' : 'bg-blue-50 border-l-4 border-l-blue-500'
+        }`}
+      >
+        <input
+          type="checkbox"
+          checked={selectedIds.has(notification._id)}
+          onChange={() => toggleSelected(notification._id)}
+          className="mt-1 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          aria-label={`Select ${notification.title}`}
+        />
+        <div className="text-lg mt-0.5">{NotificationService.getNotificationIcon(notification.type)}</div>
+        <div className="flex-1 min-w-0 cursor-pointer" onClick={() => handleOpen(notification)}>
+          <div className="flex flex-wrap items-center gap-2">
+            <p className={`text-sm text-gray-900 ${notification.isRead ? '' : 'font-semibold'}`}>{notification.title}</p>
+            {notification.priority !== 'medium' && (
+              <span className={`px-2 py-0.5 text-xs rounded-full border ${priorityStyles.bg} ${priorityStyles.text} ${priorityStyles.border}`}>
+                {notification.priority}
+              </span>
+            )}
+            {snoozed && (
+              <span className="px-2 py-0.5 text-xs rounded-full bg-indigo-100 text-indigo-800">
+                Snoozed until {new Date(notification.snoozedUntil!).toLocaleString()}
+              </span>
+            )}
+          </div>
+          <p className="text-sm text-gray-600 mt-0.5">{notification.message}</p>
+          <div className="flex items-center gap-3 mt-1 text-xs text-gray-500">
+            <span>{NotificationService.formatNotificationTime(notification.createdAt)}</span>
+            {notification.relatedTask && (
+              <span className="text-blue-600 font-medium truncate">{notification.relatedTask.title}</span>
+            )}
+          </div>
+        </div>
+        <div className="flex items-center gap-1 relative">
+          {notification.type === 'task_deadline_reminder' && view === 'inbox' && (
+            <button
+              onClick={() => setSnoozeMenuId(snoozeMenuId === notification._id ? null : notification._id)}
+              className="p-2 text-gray-400 hover:text-indigo-600"
+              title="Snooze"
+            >
+              <FaClock />
+            </button>
+          )}
+          <button
+            onClick={() => setReadState(notification, !notification.isRead)}
+            className="p-2 text-gray-400 hover:text-blue-600"
+            title={notification.isRead ? 'Mark as unread' : 'Mark as read'}
+          >
+            {notification.isRead ? <FaEnvelope /> : <FaEnvelopeOpen />}
+          </button>
+          {snoozeMenuId === notification._id && renderSnoozeMenu(notification)}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <div className="p-6 max-w-5xl mx-auto">
+        {/* Page Title */}
+        <div className="mb-6 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Notifications</h1>
+            <p className="text-gray-600">{pagination.total} {view === 'archived' ? 'archived' : 'in your inbox'}</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="inline-flex rounded-md shadow-sm">
+              {(['inbox', 'archived'] as NotificationView[]).map((option, index) => (
+                <button
+                  key={option}
+                  onClick={() => { setView(option); setPage(1); }}
+                  className={`px-4 py-2 text-sm font-medium border capitalize ${index === 0 ? 'rounded-l-md' : 'rounded-r-md border-l-0'} ${
+                    view === option ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                  }`}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => navigate('/settings/notifications')}
+              className="p-2 text-gray-500 hover:text-gray-700"
+              title="Notification settings"
+            >
+              <FaCog />
+            </button>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="bg-white rounded-lg shadow-sm p-4 mb-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-3">
+            <div className="relative lg:col-span-1">
+              <FaSearch className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={14} />
+              <input
+                type="text"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                placeholder="Search notifications..."
+                className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <select
+              value={typeFilter}
+              onChange={(e) => { setTypeFilter(e.target.value as NotificationType | ''); setPage(1); }}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All Types</option>
+              {Object.entries(NOTIFICATION_TYPE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <select
+              value={priorityFilter}
+              onChange={(e) => { setPriorityFilter(e.target.value as NotificationPriority | ''); setPage(1); }}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All Priorities</option>
+              {PRIORITIES.map(priority => (
+                <option key={priority} value={priority} className="capitalize">{priority}</option>
+              ))}
+            </select>
+            <select
+              value={taskFilter}
+              onChange={(e) => { setTaskFilter(e.target.value); setPage(1); }}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All Tasks</option>
+              {relatedTasks.map(([taskId, title]) => (
+                <option key={taskId} value={taskId}>{title}</option>
+              ))}
+            </select>
+          </div>
+          <label className="inline-flex items-center mt-3 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={unreadOnly}
+              onChange={(e) => { setUnreadOnly(e.target.checked); setPage(1); }}
+              className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span className="ml-2 text-gray-700">Unread only</span>
+          </label>
+        </div>
+
+        {/* List */}
+        <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+          {/* Bulk actions */}
+          <div className="flex flex-wrap items-center gap-3 px-4 py-3 border-b border-gray-200 bg-gray-50">
+            <label className="flex items-center text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={allSelected}
+                onChange={toggleSelectAll}
+                disabled={notifications.length === 0}
+                className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span className="ml-2 text-gray-700">
+                {selectedIds.size > 0 ? `${selectedIds.size} selected` : 'Select all'}
+              </span>
+            </label>
+            {selectedIds.size > 0 && (
+              <div className="flex flex-wrap items-center gap-2">
+                <button
+                  onClick={() => handleBulkAction('read')}
+                  disabled={bulkWorking}
+                  className="inline-flex items-center px-3 py-1 text-sm border border-gray-300 rounded-md bg-white hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <FaCheck className="mr-1" size={12} />
+                  Mark read
+                </button>
+                <button
+                  onClick={() => handleBulkAction('unread')}
+                  disabled={bulkWorking}
+                  className="inline-flex items-center px-3 py-1 text-sm border border-gray-300 rounded-md bg-white hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <FaEnvelope className="mr-1" size={12} />
+                  Mark unread
+                </button>
+                {view === 'inbox' ? (
+                  <button
+                    onClick={() => handleBulkAction('archive')}
+                    disabled={bulkWorking}
+                    className="inline-flex items-center px-3 py-1 text-sm border border-gray-300 rounded-md bg-white hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    <FaArchive className="mr-1" size={12} />
+                    Archive
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => handleBulkAction('unarchive')}
+                    disabled={bulkWorking}
+                    className="inline-flex items-center px-3 py-1 text-sm border border-gray-300 rounded-md bg-white hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    <FaBoxOpen className="mr-1" size={12} />
+                    Move to inbox
+                  </button>
+                )}
+                <button
+                  onClick={() => handleBulkAction('delete')}
+                  disabled={bulkWorking}
+                  className="inline-flex items-center px-3 py-1 text-sm border border-red-300 text-red-700 rounded-md bg-white hover:bg-red-50 disabled:opacity-50"
+                >
+                  <FaTrash className="mr-1" size={12} />
+                  Delete
+                </button>
+              </div>
+            )}
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center items-center h-48">
+              <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+            </div>
+          ) : notifications.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              {search || typeFilter || priorityFilter || taskFilter || unreadOnly
+                ? 'No notifications match your filters'
+                : view === 'archived' ? 'No archived notifications' : 'You have no notifications'}
+            </div>
+          ) : (
+            Object.entries(groups).map(([label, items]) => (
+              <div key={label}>
+                <div className="px-4 py-2 text-xs font-medium text-gray-500 uppercase bg-gray-50 border-b border-gray-100">
+                  {label}
+                </div>
+                {items.map(renderNotification)}
+              </div>
+            ))
+          )}
+
+          {/* Pagination */}
+          {pagination.pages > 1 && (
+            <div className="flex items-center justify-between px-4 py-3 border-t border-gray-200">
+              <button
+                onClick={() => setPage(prev => prev - 1)}
+                disabled={page <= 1 || loading}
+                className="px-3 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <span className="text-sm text-gray-600">Page {pagination.page} of {pagination.pages}</span>
+              <button
+                onClick={() => setPage(prev => prev + 1)}
+                disabled={page >= pagination.pages || loading}
+                className="px-3 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Notifications;
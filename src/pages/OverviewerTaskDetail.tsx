@@ -3,12 +3,18 @@ import { useParams, useNavigate } from 'react-router-dom';
 import { toast } from 'react-toastify';
 import { 
   FaArrowLeft, FaDownload, FaUsers, FaClock, FaEye,
-  FaCalendarAlt, FaUser, FaBuilding, FaFilePdf, FaImage, FaFile
+  FaCalendarAlt, FaUser, FaBuilding, FaFilePdf, FaImage, FaFile, FaHistory
 } from 'react-icons/fa';
 import taskService from '../services/taskService';
-import api from '../services/api';
-import type { Task } from '../services/taskService';
+import type { Task, TaskAttachment } from '../services/taskService';
 import NotificationBell from '../components/NotificationBell';
+import TaskActivityFeed from '../components/TaskActivityFeed';
+import TaskRemarks from '../components/TaskRemarks';
+import AttachmentViewer from '../components/AttachmentViewer';
+import AttachmentVersions from '../components/AttachmentVersions';
+import { useTaskRealtime, usePollingFallback } from '../hooks/useRealtime';
+import { useTaskHistory } from '../hooks/useTaskHistory';
+import { getPreviewKind, isPreviewable } from '../utils/attachments';
 
 const OverviewerTaskDetail: React.FC = () => {
   const { id } = useParams<{ id: string }>();
@@ -17,6 +23,9 @@ const OverviewerTaskDetail: React.FC = () => {
   // States
   const [task, setTask] = useState<Task | null>(null);
   const [loading, setLoading] = useState(true);
+  const [previewIndex, setPreviewIndex] = useState<number | null>(null);
+  const [expandedVersionsId, setExpandedVersionsId] = useState<string | null>(null);
+  const { history, applyHistory } = useTaskHistory(id, task?.updatedAt);
 
   useEffect(() => {
     loadTask();
@@ -32,6 +41,7 @@ const OverviewerTaskDetail: React.FC = () => {
       if (response && response.success && response.data && response.data.task) {
         const taskData = response.data.task;
         setTask(taskData);
+        applyHistory(response);
       } else {
         toast.error('Task not found');
         navigate('/dashboard');
@@ -45,28 +55,28 @@ const OverviewerTaskDetail: React.FC = () => {
     }
   };
 
-  const handleViewFile = (taskId: string, attachmentId: string) => {
-    const fileUrl = `${api.defaults.baseURL}/tasks/${taskId}/attachments/${attachmentId}/view`;
-    window.open(fileUrl, '_blank');
-  };
-
-  const isPDF = (fileName: string) => {
-    return fileName.toLowerCase().endsWith('.pdf');
-  };
-
-  const isImage = (fileName: string) => {
-    const imageExtensions = ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp', '.svg'];
-    return imageExtensions.some(ext => fileName.toLowerCase().endsWith(ext));
+  // Refresh quietly when the task changes, without the loading screen
+  const refreshTask = async () => {
+    if (!id) return;
+    try {
+      const response = await taskService.getTask(id);
+      if (response.success) {
+        setTask(response.data.task);
+        applyHistory(response);
+      }
+    } catch (error) {
+      console.error('Error refreshing task:', error);
+    }
   };
 
-  const isViewable = (fileName: string) => {
-    return isPDF(fileName) || isImage(fileName);
-  };
+  useTaskRealtime(id, refreshTask);
+  usePollingFallback(refreshTask);
 
-  const getFileIcon = (fileName: string) => {
-    if (isPDF(fileName)) {
+  const getFileIcon = (attachment: TaskAttachment) => {
+    const kind = getPreviewKind(attachment);
+    if (kind === 'pdf') {
       return <FaFilePdf className="text-red-500" />;
-    } else if (isImage(fileName)) {
+    } else if (kind === 'image') {
       return <FaImage className="text-blue-500" />;
     } else {
       return <FaFile className="text-gray-500" />;
@@ -259,35 +269,52 @@ const OverviewerTaskDetail: React.FC = () => {
               
               {task.attachments && task.attachments.length > 0 ? (
                 <div className="space-y-2">
-                  {task.attachments.map((attachment) => (
-                    <div key={attachment._id} className="flex items-center justify-between p-3 border border-gray-200 rounded-md">
-                      <div className="flex items-center space-x-3">
-                        {getFileIcon(attachment.originalName)}
-                        <div>
-                          <p className="text-sm font-medium text-gray-900">{attachment.originalName}</p>
-                          <p className="text-xs text-gray-500">
-                            {(attachment.size / 1024 / 1024).toFixed(2)} MB
-                          </p>
+                  {task.attachments.map((attachment, index) => (
+                    <div key={attachment._id} className="p-3 border border-gray-200 rounded-md">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-3">
+                          {getFileIcon(attachment)}
+                          <div>
+                            <p className="text-sm font-medium text-gray-900">{attachment.originalName}</p>
+                            <p className="text-xs text-gray-500">
+                              {(attachment.size / 1024 / 1024).toFixed(2)} MB
+                              {(attachment.version || 1) > 1 && ` • v${attachment.version}`}
+                            </p>
+                          </div>
                         </div>
-                      </div>
-                      <div className="flex items-center space-x-2">
-                        {isViewable(attachment.originalName) && (
+                        <div className="flex items-center space-x-2">
+                          {isPreviewable(attachment) && (
+                            <button
+                              onClick={() => setPreviewIndex(index)}
+                              className="text-green-600 hover:text-green-800"
+                              title="Preview"
+                            >
+                              <FaEye />
+                            </button>
+                          )}
+                          <button
+                            onClick={() => setExpandedVersionsId(expandedVersionsId === attachment._id ? null : attachment._id)}
+                            className="text-gray-600 hover:text-gray-800"
+                            title="Versions"
+                          >
+                            <FaHistory />
+                          </button>
                           <button
-                            onClick={() => handleViewFile(task._id, attachment._id)}
-                            className="text-green-600 hover:text-green-800"
-                            title={isPDF(attachment.originalName) ? "View PDF" : "View Image"}
+                            onClick={() => taskService.downloadAttachment(task._id, attachment._id)}
+                            className="text-blue-600 hover:text-blue-800"
+                            title="Download"
                           >
-                            <FaEye />
+                            <FaDownload />
                           </button>
-                        )}
-                        <button
-                          onClick={() => taskService.downloadAttachment(task._id, attachment._id)}
-                          className="text-blue-600 hover:text-blue-800"
-                          title="Download"
-                        >
-                          <FaDownload />
-                        </button>
+                        </div>
                       </div>
+                      {expandedVersionsId === attachment._id && (
+                        <AttachmentVersions
+                          taskId={task._id}
+                          attachment={attachment}
+                          canEdit={false}
+                        />
+                      )}
                     </div>
                   ))}
                 </div>
@@ -297,79 +324,10 @@ const OverviewerTaskDetail: React.FC = () => {
             </div>
 
             {/* Remarks Section (Read-only) */}
-            <div className="bg-white rounded-lg shadow p-4 sm:p-6">
-              <h2 className="text-lg font-medium text-gray-900 mb-4">Remarks & Comments</h2>
-              
-              <div className="space-y-3">
-                {(() => {
-                  // Combine all remarks from different categories into one array
-                  const allRemarks = [];
-                  
-                  if (task.remarks?.creator) {
-                    allRemarks.push(...task.remarks.creator.map(remark => ({ ...remark, category: 'creator' })));
-                  }
-                  if (task.remarks?.assignee) {
-                    allRemarks.push(...task.remarks.assignee.map(remark => ({ ...remark, category: 'assignee' })));
-                  }
-                  if (task.remarks?.general) {
-                    allRemarks.push(...task.remarks.general.map(remark => ({ ...remark, category: 'general' })));
-                  }
-                  
-                  // Sort by creation date (latest first)
-                  allRemarks.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-                  
-                  if (allRemarks.length === 0) {
-                    return <p className="text-gray-500 text-sm">No remarks yet</p>;
-                  }
-                  
-                  return allRemarks.map((remark, index) => {
-                    const getCategoryStyle = (category: string) => {
-                      switch (category) {
-                        case 'creator':
-                          return 'bg-blue-50 border-l-4 border-blue-400';
-                        case 'assignee':
-                          return 'bg-green-50 border-l-4 border-green-400';
-                        case 'general':
-                          return 'bg-gray-50 border-l-4 border-gray-400';
-                        default:
-                          return 'bg-gray-50 border-l-4 border-gray-400';
-                      }
-                    };
-                    
-                    const getCategoryLabel = (category: string) => {
-                      switch (category) {
-                        case 'creator':
-                          return 'Creator';
-                        case 'assignee':
-                          return 'Assignee';
-                        case 'general':
-                          return 'General';
-                        default:
-                          return 'General';
-                      }
-                    };
-                    
-                    return (
-                      <div key={`${remark.category}-${index}`} className={`p-3 rounded-r-md ${getCategoryStyle(remark.category)}`}>
-                        <div className="flex items-start justify-between">
-                          <div className="flex-1">
-                            <p className="text-sm text-gray-800">{remark.text}</p>
-                            <div className="flex items-center justify-between mt-2">
-                              <p className="text-xs text-gray-500">
-                                By {remark.author?.name} • {new Date(remark.createdAt).toLocaleString()}
-                              </p>
-                              <span className="text-xs px-2 py-1 bg-white bg-opacity-50 rounded-full">
-                                {getCategoryLabel(remark.category)}
-                              </span>
-                            </div>
-                          </div>
-                        </div>
-                      </div>
-                    );
-                  });
-                })()}
-              </div>
-            </div>
+            <TaskRemarks task={task} canComment={false} />
+
+            {/* Activity (Read-only) */}
+            <TaskActivityFeed history={history} />
           </div>
 
           {/* Sidebar */}
@@ -472,6 +430,15 @@ const OverviewerTaskDetail: React.FC = () => {
           </div>
         </div>
       </div>
+
+      {previewIndex !== null && (
+        <AttachmentViewer
+          taskId={task._id}
+          attachments={task.attachments}
+          initialIndex={previewIndex}
+          onClose={() => setPreviewIndex(null)}
+        />
+      )}
     </div>
   );
 };
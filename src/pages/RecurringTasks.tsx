@@ -0,0 +1,455 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { toast } from 'react-toastify';
+import {
+  FaRedo, FaPause, FaPlay, FaTrash, FaEdit, FaForward, FaUndo, FaEye, FaPlus, FaUser, FaTimes, FaSave
+} from 'react-icons/fa';
+import recurringTaskService from '../services/recurringTaskService';
+import type {
+  OccurrenceOverrides, RecurringOccurrence, RecurringTaskSeries
+} from '../services/recurringTaskService';
+import { describeRecurrence, toLocalInputValue } from '../utils/recurrence';
+import { getApiErrorMessage } from '../utils/apiError';
+import { getTaskPriorityColor, getStatusDisplayText } from '../utils/taskColors';
+
+const RecurringTasks: React.FC = () => {
+  const navigate = useNavigate();
+  const { seriesId } = useParams<{ seriesId: string }>();
+
+  const [seriesList, setSeriesList] = useState<RecurringTaskSeries[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [occurrences, setOccurrences] = useState<RecurringOccurrence[]>([]);
+  const [loadingOccurrences, setLoadingOccurrences] = useState(false);
+  const [updating, setUpdating] = useState(false);
+
+  // Inline editing of a single occurrence
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [overrides, setOverrides] = useState<OccurrenceOverrides>({});
+
+  const selectedSeries = seriesList.find(series => series._id === seriesId) || null;
+
+  useEffect(() => {
+    loadSeries();
+  }, []);
+
+  useEffect(() => {
+    setEditingIndex(null);
+    if (seriesId) {
+      loadOccurrences(seriesId);
+    } else {
+      setOccurrences([]);
+    }
+  }, [seriesId]);
+
+  const loadSeries = async () => {
+    try {
+      setLoading(true);
+      const response = await recurringTaskService.getSeriesList();
+      if (response.success) {
+        setSeriesList(response.data.series);
+      }
+    } catch (error) {
+      console.error('Error loading recurring tasks:', error);
+      toast.error('Failed to load recurring tasks');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadOccurrences = async (id: string) => {
+    try {
+      setLoadingOccurrences(true);
+      const response = await recurringTaskService.getOccurrences(id, 10);
+      if (response.success) {
+        setOccurrences(response.data.occurrences);
+      }
+    } catch (error) {
+      console.error('Error loading occurrences:', error);
+      toast.error('Failed to load upcoming occurrences');
+    } finally {
+      setLoadingOccurrences(false);
+    }
+  };
+
+  const replaceSeries = (updated: RecurringTaskSeries) => {
+    setSeriesList(prev => prev.map(series => (series._id === updated._id ? updated : series)));
+  };
+
+  const handleTogglePause = async (series: RecurringTaskSeries) => {
+    try {
+      setUpdating(true);
+      const response = await recurringTaskService.setPaused(series._id, !series.isPaused);
+      if (response.success) {
+        replaceSeries(response.data.series);
+        toast.success(response.data.series.isPaused ? 'Series paused' : 'Series resumed');
+        loadOccurrences(series._id);
+      }
+    } catch (error) {
+      console.error('Error pausing series:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to update series'));
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleDeleteSeries = async (series: RecurringTaskSeries) => {
+    if (!window.confirm(`Delete the recurring task "${series.template.title}"? Tasks already created from it are kept.`)) {
+      return;
+    }
+
+    try {
+      setUpdating(true);
+      await recurringTaskService.deleteSeries(series._id);
+      setSeriesList(prev => prev.filter(item => item._id !== series._id));
+      toast.success('Recurring task deleted');
+      navigate('/tasks/recurring');
+    } catch (error) {
+      console.error('Error deleting series:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to delete recurring task'));
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleToggleSkip = async (occurrence: RecurringOccurrence) => {
+    if (!seriesId) return;
+
+    try {
+      setUpdating(true);
+      const response = await recurringTaskService.setOccurrenceSkipped(
+        seriesId,
+        occurrence.index,
+        occurrence.status !== 'skipped'
+      );
+      if (response.success) {
+        setOccurrences(response.data.occurrences);
+        toast.success(occurrence.status === 'skipped' ? 'Occurrence restored' : 'Occurrence skipped');
+      }
+    } catch (error) {
+      console.error('Error skipping occurrence:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to update occurrence'));
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const startEditing = (occurrence: RecurringOccurrence) => {
+    if (!selectedSeries) return;
+    const deadline = new Date(occurrence.scheduledFor);
+    deadline.setDate(deadline.getDate() + selectedSeries.template.deadlineAfterDays);
+
+    setEditingIndex(occurrence.index);
+    setOverrides({
+      title: occurrence.overrides?.title ?? selectedSeries.template.title,
+      description: occurrence.overrides?.description ?? selectedSeries.template.description,
+      priority: occurrence.overrides?.priority ?? selectedSeries.template.priority,
+      deadline: toLocalInputValue(occurrence.overrides?.deadline
+        ? new Date(occurrence.overrides.deadline)
+        : deadline),
+    });
+  };
+
+  const handleSaveOccurrence = async () => {
+    if (!seriesId || editingIndex === null) return;
+
+    if (!overrides.title?.trim()) {
+      toast.error('Task title is required');
+      return;
+    }
+
+    try {
+      setUpdating(true);
+      const response = await recurringTaskService.updateOccurrence(seriesId, editingIndex, overrides);
+      if (response.success) {
+        setOccurrences(response.data.occurrences);
+        setEditingIndex(null);
+        toast.success('Occurrence updated');
+      }
+    } catch (error) {
+      console.error('Error updating occurrence:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to update occurrence'));
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const getOccurrenceStatusColor = (status: RecurringOccurrence['status']) => {
+    switch (status) {
+      case 'generated': return 'bg-green-100 text-green-800';
+      case 'skipped': return 'bg-gray-200 text-gray-600';
+      default: return 'bg-blue-100 text-blue-800';
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <div className="p-6">
+        {/* Page Title */}
+        <div className="mb-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Recurring Tasks</h1>
+            <p className="text-gray-600">Tasks that are created automatically on a schedule</p>
+          </div>
+          <button
+            onClick={() => navigate('/tasks/new')}
+            className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <FaPlus className="mr-2" />
+            New Task
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Series List */}
+          <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+            <div className="px-4 py-3 border-b border-gray-200 text-sm font-medium text-gray-700">
+              Series ({seriesList.length})
+            </div>
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            ) : seriesList.length === 0 ? (
+              <div className="text-center py-8 px-4 text-gray-500">
+                <FaRedo className="mx-auto h-10 w-10 text-gray-300 mb-3" />
+                <p className="text-sm">No recurring tasks yet</p>
+                <p className="text-xs text-gray-400 mt-1">Turn on "Repeat" when creating a task</p>
+              </div>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {seriesList.map(series => (
+                  <li key={series._id}>
+                    <button
+                      onClick={() => navigate(`/tasks/recurring/${series._id}`)}
+                      className={`w-full text-left px-4 py-3 hover:bg-gray-50 ${
+                        series._id === seriesId ? 'bg-blue-50' : ''
+                      }`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm font-medium text-gray-900">{series.template.title}</span>
+                        {series.isPaused && (
+                          <span className="px-2 py-0.5 text-xs rounded-full bg-yellow-100 text-yellow-800">Paused</span>
+                        )}
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">{describeRecurrence(series.rule)}</p>
+                      {series.nextOccurrenceAt && !series.isPaused && (
+                        <p className="text-xs text-blue-600 mt-1">
+                          Next: {new Date(series.nextOccurrenceAt).toLocaleString()}
+                        </p>
+                      )}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Series Detail */}
+          <div className="lg:col-span-2 space-y-6">
+            {!selectedSeries ? (
+              <div className="bg-white rounded-lg shadow-sm p-8 text-center text-gray-500">
+                {seriesId && !loading ? 'Recurring task not found' : 'Select a recurring task to see its schedule'}
+              </div>
+            ) : (
+              <>
+                <div className="bg-white rounded-lg shadow-sm p-6">
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <h2 className="text-xl font-semibold text-gray-900">{selectedSeries.template.title}</h2>
+                      <p className="text-sm text-gray-600 mt-1">{describeRecurrence(selectedSeries.rule)}</p>
+                      <p className={`text-sm mt-1 ${getTaskPriorityColor(selectedSeries.template.priority)}`}>
+                        {selectedSeries.template.priority.charAt(0).toUpperCase() + selectedSeries.template.priority.slice(1)} priority
+                        <span className="text-gray-500"> • deadline {selectedSeries.template.deadlineAfterDays} day(s) after each occurrence</span>
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={() => handleTogglePause(selectedSeries)}
+                        disabled={updating}
+                        className="inline-flex items-center px-3 py-2 text-sm border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        {selectedSeries.isPaused ? <FaPlay className="mr-2" /> : <FaPause className="mr-2" />}
+                        {selectedSeries.isPaused ? 'Resume' : 'Pause'}
+                      </button>
+                      <button
+                        onClick={() => handleDeleteSeries(selectedSeries)}
+                        disabled={updating}
+                        className="inline-flex items-center px-3 py-2 text-sm border border-red-200 rounded-lg text-red-600 hover:bg-red-50 disabled:opacity-50"
+                      >
+                        <FaTrash className="mr-2" />
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+
+                  <div className="mt-4">
+                    <p className="text-sm font-medium text-gray-700 mb-2">
+                      Assignees ({selectedSeries.assignmentMode === 'rotating' ? 'rotating' : 'fixed'})
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      {selectedSeries.assignees.map(user => (
+                        <span key={user._id} className="inline-flex items-center px-2 py-1 bg-blue-100 text-blue-800 text-xs rounded-full">
+                          <FaUser className="mr-1" />
+                          {user.name}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+
+                  {selectedSeries.isPaused && (
+                    <div className="mt-4 p-3 bg-yellow-50 border border-yellow-200 rounded-md text-sm text-yellow-800">
+                      This series is paused. No tasks are created until it is resumed.
+                    </div>
+                  )}
+                </div>
+
+                {/* Occurrences */}
+                <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+                  <div className="px-6 py-3 border-b border-gray-200 text-sm font-medium text-gray-700">
+                    Occurrences
+                  </div>
+                  {loadingOccurrences ? (
+                    <div className="flex justify-center py-8">
+                      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                    </div>
+                  ) : occurrences.length === 0 ? (
+                    <p className="px-6 py-8 text-center text-sm text-gray-500">No upcoming occurrences</p>
+                  ) : (
+                    <ul className="divide-y divide-gray-200">
+                      {occurrences.map(occurrence => (
+                        <li key={occurrence.index} className="px-6 py-4">
+                          <div className="flex items-center justify-between">
+                            <div>
+                              <div className="flex items-center space-x-2">
+                                <span className={`text-sm font-medium ${occurrence.status === 'skipped' ? 'text-gray-400 line-through' : 'text-gray-900'}`}>
+                                  {new Date(occurrence.scheduledFor).toLocaleString()}
+                                </span>
+                                <span className={`px-2 py-0.5 text-xs rounded-full ${getOccurrenceStatusColor(occurrence.status)}`}>
+                                  {occurrence.status}
+                                </span>
+                                {occurrence.overrides && Object.keys(occurrence.overrides).length > 0 && (
+                                  <span className="px-2 py-0.5 text-xs rounded-full bg-purple-100 text-purple-800">edited</span>
+                                )}
+                              </div>
+                              <p className="text-xs text-gray-500 mt-1">
+                                {occurrence.overrides?.title || selectedSeries.template.title}
+                                {occurrence.assignees.length > 0 && ` • ${occurrence.assignees.map(user => user.name).join(', ')}`}
+                              </p>
+                              {occurrence.task && (
+                                <p className="text-xs text-gray-500 mt-1">
+                                  Task status: {getStatusDisplayText(occurrence.task.status)}
+                                </p>
+                              )}
+                            </div>
+                            <div className="flex items-center space-x-2">
+                              {occurrence.status === 'generated' && occurrence.task ? (
+                                <button
+                                  onClick={() => navigate(`/tasks/${occurrence.task!._id}`)}
+                                  className="text-blue-600 hover:text-blue-900 p-1"
+                                  title="View Task"
+                                >
+                                  <FaEye />
+                                </button>
+                              ) : (
+                                <>
+                                  {occurrence.status === 'scheduled' && (
+                                    <button
+                                      onClick={() => startEditing(occurrence)}
+                                      disabled={updating}
+                                      className="text-green-600 hover:text-green-900 p-1 disabled:opacity-50"
+                                      title="Edit this occurrence"
+                                    >
+                                      <FaEdit />
+                                    </button>
+                                  )}
+                                  <button
+                                    onClick={() => handleToggleSkip(occurrence)}
+                                    disabled={updating}
+                                    className="text-gray-600 hover:text-gray-900 p-1 disabled:opacity-50"
+                                    title={occurrence.status === 'skipped' ? 'Restore occurrence' : 'Skip occurrence'}
+                                  >
+                                    {occurrence.status === 'skipped' ? <FaUndo /> : <FaForward />}
+                                  </button>
+                                </>
+                              )}
+                            </div>
+                          </div>
+
+                          {editingIndex === occurrence.index && (
+                            <div className="mt-4 p-4 border border-gray-200 rounded-lg bg-gray-50 space-y-3">
+                              <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Title</label>
+                                <input
+                                  type="text"
+                                  value={overrides.title || ''}
+                                  onChange={(e) => setOverrides(prev => ({ ...prev, title: e.target.value }))}
+                                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                />
+                              </div>
+                              <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+                                <textarea
+                                  value={overrides.description || ''}
+                                  onChange={(e) => setOverrides(prev => ({ ...prev, description: e.target.value }))}
+                                  rows={3}
+                                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                />
+                              </div>
+                              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                                <div>
+                                  <label className="block text-sm font-medium text-gray-700 mb-1">Priority</label>
+                                  <select
+                                    value={overrides.priority}
+                                    onChange={(e) => setOverrides(prev => ({ ...prev, priority: e.target.value as OccurrenceOverrides['priority'] }))}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                  >
+                                    <option value="low">Low</option>
+                                    <option value="medium">Medium</option>
+                                    <option value="high">High</option>
+                                    <option value="urgent">Urgent</option>
+                                  </select>
+                                </div>
+                                <div>
+                                  <label className="block text-sm font-medium text-gray-700 mb-1">Deadline</label>
+                                  <input
+                                    type="datetime-local"
+                                    value={overrides.deadline || ''}
+                                    onChange={(e) => setOverrides(prev => ({ ...prev, deadline: e.target.value }))}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                  />
+                                </div>
+                              </div>
+                              <div className="flex justify-end space-x-2">
+                                <button
+                                  onClick={() => setEditingIndex(null)}
+                                  className="inline-flex items-center px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-white"
+                                >
+                                  <FaTimes className="mr-1" />
+                                  Cancel
+                                </button>
+                                <button
+                                  onClick={handleSaveOccurrence}
+                                  disabled={updating}
+                                  className="inline-flex items-center px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                                >
+                                  <FaSave className="mr-1" />
+                                  Save
+                                </button>
+                              </div>
+                            </div>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecurringTasks;
@@ -0,0 +1,37 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { FaShieldAlt } from 'react-icons/fa';
+import AccountSecurity from '../components/AccountSecurity';
+import { useCurrentUser } from '../hooks/useCurrentUser';
+
+const Security: React.FC = () => {
+  const user = useCurrentUser();
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <div className="p-6 max-w-5xl mx-auto">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900">Security</h1>
+          <p className="text-gray-600">Where you're signed in and recent activity on your account</p>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm p-6 mb-6 flex items-center justify-between">
+          <div className="flex items-center">
+            <FaShieldAlt className={`text-2xl mr-3 ${user?.twoFactorEnabled ? 'text-green-600' : 'text-gray-400'}`} />
+            <div>
+              <p className="font-medium text-gray-900">Two-factor authentication</p>
+              <p className="text-sm text-gray-500">{user?.twoFactorEnabled ? 'On' : 'Off'}</p>
+            </div>
+          </div>
+          <Link to="/settings/two-factor" className="text-sm text-blue-600 hover:text-blue-800 font-medium">
+            Manage
+          </Link>
+        </div>
+
+        <AccountSecurity />
+      </div>
+    </div>
+  );
+};
+
+export default Security;
@@ -1,7 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
 import { toast } from 'react-toastify';
-import authService, { type RegisterData, type Department } from '../services/authService';
+import authService, { isPendingApproval, type RegisterData, type Department } from '../services/authService';
+import { PASSWORD_RULES, meetsPasswordRules } from '../utils/passwordRules';
 
 interface SignupFormData {
   name: string;
@@ -9,7 +10,6 @@ interface SignupFormData {
   password: string;
   confirmPassword: string;
   phone: string;
-  role: string;
   departmentId: string;
 }
 
@@ -21,20 +21,14 @@ const Signup: React.FC = () => {
     password: '',
     confirmPassword: '',
     phone: '',
-    role: 'employee',
     departmentId: '',
   });
+  // Set once the signup is waiting for the department HOD to approve it
+  const [pendingApproval, setPendingApproval] = useState(false);
   const [departments, setDepartments] = useState<Department[]>([]);
   const [loading, setLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
-  const [passwordRequirements, setPasswordRequirements] = useState({
-    minLength: false,
-    uppercase: false,
-    lowercase: false,
-    number: false,
-    specialChar: false,
-  });
 
   useEffect(() => {
     loadDepartments();
@@ -53,27 +47,12 @@ const Signup: React.FC = () => {
     }
   };
 
-  const checkPasswordRequirements = (password: string) => {
-    setPasswordRequirements({
-      minLength: password.length >= 8,
-      uppercase: /[A-Z]/.test(password),
-      lowercase: /[a-z]/.test(password),
-      number: /\d/.test(password),
-      specialChar: /[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?]/.test(password),
-    });
-  };
-
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setFormData({
       ...formData,
       [name]: value
     });
-
-    // Check password requirements when password field changes
-    if (name === 'password') {
-      checkPasswordRequirements(value);
-    }
   };
 
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
@@ -88,8 +67,7 @@ const Signup: React.FC = () => {
     }
 
     // Check if all password requirements are met
-    const allRequirementsMet = Object.values(passwordRequirements).every(req => req);
-    if (!allRequirementsMet) {
+    if (!meetsPasswordRules(formData.password)) {
       toast.error('Please ensure your password meets all the requirements');
       setLoading(false);
       return;
@@ -108,13 +86,14 @@ const Signup: React.FC = () => {
         email: formData.email,
         password: formData.password,
         phone: formData.phone,
-        role: formData.role,
         departmentId: formData.departmentId,
       };
 
       const response = await authService.register(registerData);
       
-      if (response.success) {
+      if (isPendingApproval(response)) {
+        setPendingApproval(true);
+      } else if (response.success) {
         toast.success('Account created successfully! Welcome to IMTS Institute.');
         console.log('Registration successful:', response.data.user);
         
@@ -132,6 +111,24 @@ const Signup: React.FC = () => {
     }
   };
 
+  if (pendingApproval) {
+    const department = departments.find(dept => dept._id === formData.departmentId);
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-gray-50 px-2 sm:px-4">
+        <div className="w-full max-w-md bg-white p-4 sm:p-8 md:p-10 rounded-xl shadow-lg border border-gray-200 text-center">
+          <h2 className="text-2xl font-bold mb-4 text-gray-800">Almost there</h2>
+          <p className="text-gray-600 mb-6">
+            Your account is waiting for approval from the head of {department?.name || 'your department'}.
+            We'll email {formData.email} as soon as you can sign in.
+          </p>
+          <Link to="/login" className="text-blue-600 hover:text-blue-800 font-medium">
+            Back to sign in
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <>
       <div className="flex items-center justify-center min-h-screen bg-gray-50 px-2 sm:px-4">
@@ -140,9 +137,12 @@ const Signup: React.FC = () => {
             onSubmit={handleSubmit}
             className="bg-white p-4 sm:p-8 md:p-10 rounded-xl shadow-lg w-full border border-gray-200"
           >
-          <h2 className="text-2xl sm:text-3xl font-bold mb-6 text-center text-gray-800">
+          <h2 className="text-2xl sm:text-3xl font-bold mb-2 text-center text-gray-800">
             Sign Up
           </h2>
+          <p className="text-sm text-gray-500 text-center mb-6">
+            Invited by email? Use the link in your invitation instead.
+          </p>
 
         <div className="mb-5">
           <label htmlFor="name" className="block mb-1 text-sm font-medium text-gray-700">
@@ -214,26 +214,15 @@ const Signup: React.FC = () => {
           <div className="mt-2 text-sm">
             <p className="text-gray-600 mb-1 font-medium">Password must contain:</p>
             <div className="space-y-1">
-              <div className={`flex items-center text-xs ${passwordRequirements.minLength ? 'text-green-600' : 'text-red-500'}`}>
-                <span className="mr-2">{passwordRequirements.minLength ? '✓' : '✗'}</span>
-                At least 8 characters
-              </div>
-              <div className={`flex items-center text-xs ${passwordRequirements.uppercase ? 'text-green-600' : 'text-red-500'}`}>
-                <span className="mr-2">{passwordRequirements.uppercase ? '✓' : '✗'}</span>
-                One uppercase letter (A-Z)
-              </div>
-              <div className={`flex items-center text-xs ${passwordRequirements.lowercase ? 'text-green-600' : 'text-red-500'}`}>
-                <span className="mr-2">{passwordRequirements.lowercase ? '✓' : '✗'}</span>
-                One lowercase letter (a-z)
-              </div>
-              <div className={`flex items-center text-xs ${passwordRequirements.number ? 'text-green-600' : 'text-red-500'}`}>
-                <span className="mr-2">{passwordRequirements.number ? '✓' : '✗'}</span>
-                One number (0-9)
-              </div>
-              <div className={`flex items-center text-xs ${passwordRequirements.specialChar ? 'text-green-600' : 'text-red-500'}`}>
-                <span className="mr-2">{passwordRequirements.specialChar ? '✓' : '✗'}</span>
-                One special character (!@#$%^&*)
-              </div>
+              {PASSWORD_RULES.map(rule => {
+                const met = rule.test(formData.password);
+                return (
+                  <div key={rule.label} className={`flex items-center text-xs ${met ? 'text-green-600' : 'text-red-500'}`}>
+                    <span className="mr-2">{met ? '✓' : '✗'}</span>
+                    {rule.label}
+                  </div>
+                );
+              })}
             </div>
           </div>
         </div>
@@ -291,23 +280,6 @@ const Signup: React.FC = () => {
           />
         </div>
 
-        <div className="mb-5">
-          <label htmlFor="role" className="block mb-1 text-sm font-medium text-gray-700">
-            Role
-          </label>
-          <select
-            name="role"
-            id="role"
-            value={formData.role}
-            onChange={handleChange}
-            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition"
-            required
-          >
-            <option value="employee">Employee</option>
-            <option value="hod">Head of Department</option>
-          </select>
-        </div>
-
         <div className="mb-6">
           <label htmlFor="departmentId" className="block mb-1 text-sm font-medium text-gray-700">
             Department
@@ -6,7 +6,10 @@ import {
   FaChartBar,
   FaEye,
   FaExclamationTriangle,
-  FaSignOutAlt
+  FaSignOutAlt,
+  FaBell,
+  FaShieldAlt,
+  FaUserPlus
 } from 'react-icons/fa';
 import { Home, Plus } from 'lucide-react';
 import { toast } from 'react-toastify';
@@ -14,6 +17,8 @@ import { adminService } from '../services/adminService';
 import type { AdminDashboardData } from '../services/adminService';
 import { useNavigate } from 'react-router-dom';
 import authService from '../services/authService';
+import { useTaskListRealtime } from '../hooks/useRealtime';
+import PinnedViews from '../components/PinnedViews';
 
 const SystemAdminDashboard: React.FC = () => {
   const navigate = useNavigate();
@@ -24,9 +29,9 @@ const SystemAdminDashboard: React.FC = () => {
     loadDashboardData();
   }, []);
 
-  const loadDashboardData = async () => {
+  const loadDashboardData = async (silent = false) => {
     try {
-      setLoading(true);
+      if (!silent) setLoading(true);
       const response = await adminService.getDashboard();
       
       if (response.data.success) {
@@ -45,6 +50,9 @@ const SystemAdminDashboard: React.FC = () => {
     }
   };
 
+  // Keep the numbers current as tasks change
+  useTaskListRealtime(() => loadDashboardData(true));
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'completed': return 'bg-green-100 text-green-800';
@@ -101,7 +109,7 @@ const SystemAdminDashboard: React.FC = () => {
           <h3 className="mt-2 text-sm font-medium text-gray-900">Failed to load dashboard</h3>
           <p className="mt-1 text-sm text-gray-500">Please try refreshing the page.</p>
           <button
-            onClick={loadDashboardData}
+            onClick={() => loadDashboardData()}
             className="mt-3 inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
           >
             Retry
@@ -123,7 +131,7 @@ const SystemAdminDashboard: React.FC = () => {
               <p className="text-gray-600 mb-4">System-wide overview and management</p>
               
               {/* Responsive Grid for Navigation Buttons */}
-              <div className="grid grid-cols-1 sm:grid-cols-5 gap-2 sm:gap-4 mt-4">
+              <div className="grid grid-cols-1 sm:grid-cols-4 lg:grid-cols-8 gap-2 sm:gap-4 mt-4">
                 <button
                   onClick={() => navigate('/tasks/new')}
                   className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 flex items-center space-x-2"
@@ -159,6 +167,27 @@ const SystemAdminDashboard: React.FC = () => {
                   <FaBuilding className="h-4 w-4" />
                   <span>Departments</span>
                 </button>
+                <button
+                  onClick={() => navigate('/admin/reminders')}
+                  className="bg-indigo-600 text-white px-3 py-2 rounded-md hover:bg-indigo-700 flex items-center justify-center space-x-2 text-sm"
+                >
+                  <FaBell className="h-4 w-4" />
+                  <span>Reminders</span>
+                </button>
+                <button
+                  onClick={() => navigate('/admin/security')}
+                  className="bg-gray-700 text-white px-3 py-2 rounded-md hover:bg-gray-800 flex items-center justify-center space-x-2 text-sm"
+                >
+                  <FaShieldAlt className="h-4 w-4" />
+                  <span>Security</span>
+                </button>
+                <button
+                  onClick={() => navigate('/invitations')}
+                  className="bg-pink-600 text-white px-3 py-2 rounded-md hover:bg-pink-700 flex items-center justify-center space-x-2 text-sm"
+                >
+                  <FaUserPlus className="h-4 w-4" />
+                  <span>Invitations</span>
+                </button>
               </div>
               
               {/* Logout Button */}
@@ -177,6 +206,8 @@ const SystemAdminDashboard: React.FC = () => {
       </div>
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <PinnedViews />
+
         {/* Overall Statistics */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
           <div className="bg-white overflow-hidden shadow rounded-lg">
@@ -1,13 +1,23 @@
-import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { toast } from 'react-toastify';
 import { 
-  FaArrowLeft, FaSave, FaTimes, FaUser, FaBuilding, FaSearch
+  FaArrowLeft, FaSave, FaTimes, FaUser, FaBuilding, FaSearch, FaRegFileAlt, FaTrash, FaRedo
 } from 'react-icons/fa';
 import taskService from '../services/taskService';
 import authService from '../services/authService';
 import api from '../services/api';
-import type { CreateTaskData } from '../services/taskService';
+import type { CreateTaskData, SaveDraftData, TaskDraftAttachment } from '../services/taskService';
+import recurringTaskService from '../services/recurringTaskService';
+import useDraftAutosave from '../hooks/useDraftAutosave';
+import RecurrenceSettings from '../components/RecurrenceSettings';
+import FileDropzone from '../components/FileDropzone';
+import UploadProgressList from '../components/UploadProgressList';
+import { useUploadQueue } from '../hooks/useUploadQueue';
+import type { UploadTarget } from '../services/uploadService';
+import { getApiErrorMessage } from '../utils/apiError';
+import { createDefaultRecurrence, toLocalInputValue, toRecurrenceRule, validateRecurrence } from '../utils/recurrence';
+import type { RecurrenceSettingsValue } from '../utils/recurrence';
 
 interface User {
   _id: string;
@@ -30,9 +40,12 @@ interface AssignedUser {
 
 const TaskCreate: React.FC = () => {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const resumeDraftId = searchParams.get('draft');
 
   // States
   const [saving, setSaving] = useState(false);
+  const [loadingDraft, setLoadingDraft] = useState(!!resumeDraftId);
   const [users, setUsers] = useState<User[]>([]);
   const [userSearch, setUserSearch] = useState('');
   const [showUserDropdown, setShowUserDropdown] = useState(false);
@@ -52,12 +65,49 @@ const TaskCreate: React.FC = () => {
 
   // File upload state
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const uploads = useUploadQueue();
+
+  // Set once the task (or recurring series) exists but some of its files still need uploading
+  const [createdTarget, setCreatedTarget] = useState<UploadTarget | null>(null);
+
+  // Recurrence state
+  const [recurrence, setRecurrence] = useState<RecurrenceSettingsValue>(createDefaultRecurrence);
+
+  // Attachments already stored on a resumed draft
+  const [draftAttachments, setDraftAttachments] = useState<TaskDraftAttachment[]>([]);
+  const [removedDraftAttachments, setRemovedDraftAttachments] = useState<string[]>([]);
+
+  const draftData = useMemo<SaveDraftData>(() => ({
+    title: formData.title,
+    description: formData.description,
+    deadline: formData.deadline,
+    priority: formData.priority,
+    assignedTo: formData.assignedTo || [],
+    tags: formData.tags || [],
+    isGroupTask: (formData.assignedTo || []).length > 1,
+    attachments: selectedFiles,
+    removeAttachments: removedDraftAttachments
+  }), [formData, selectedFiles, removedDraftAttachments]);
+
+  const autosave = useDraftAutosave({
+    data: draftData,
+    initialDraftId: resumeDraftId,
+    // Off for good once the task or series exists, even while its files are still uploading
+    enabled: !loadingDraft && !saving && !createdTarget
+  });
 
   // Load initial data
   useEffect(() => {
     loadUsersAndDepartments();
   }, []);
 
+  // Resume a draft when opened from "My Drafts"
+  useEffect(() => {
+    if (resumeDraftId) {
+      loadDraft(resumeDraftId);
+    }
+  }, [resumeDraftId]);
+
   // Filter users based on search
   useEffect(() => {
     if (userSearch.trim()) {
@@ -86,22 +136,65 @@ const TaskCreate: React.FC = () => {
     }
   };
 
-  const handleInputChange = (field: keyof CreateTaskData, value: any) => {
-    setFormData(prev => ({
-      ...prev,
-      [field]: value
-    }));
+  const loadDraft = async (draftId: string) => {
+    try {
+      setLoadingDraft(true);
+      const response = await taskService.getDraft(draftId);
+
+      if (response.success) {
+        const draft = response.data.draft;
+        setFormData({
+          title: draft.title || '',
+          description: draft.description || '',
+          deadline: draft.deadline ? toLocalInputValue(new Date(draft.deadline)) : '',
+          priority: draft.priority || 'medium',
+          assignedTo: draft.assignedTo.map(user => user._id),
+          tags: draft.tags || [],
+          attachments: []
+        });
+        setSelectedUsers(draft.assignedTo.map(user => ({
+          user: {
+            _id: user._id,
+            name: user.name,
+            email: user.email
+          },
+          assignedAt: new Date()
+        })));
+        setDraftAttachments(draft.attachments || []);
+      }
+    } catch (error) {
+      console.error('Error loading draft:', error);
+      toast.error('Failed to load draft');
+    } finally {
+      setLoadingDraft(false);
+    }
   };
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files) {
-      const files = Array.from(e.target.files);
-      setSelectedFiles(prev => [...prev, ...files]);
+  const handleDiscardDraft = async () => {
+    if (!window.confirm('Discard this draft? This cannot be undone.')) {
+      return;
+    }
+
+    try {
+      await autosave.discard();
+      toast.success('Draft discarded');
+      navigate('/tasks/drafts');
+    } catch (error) {
+      console.error('Error discarding draft:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to discard draft'));
     }
   };
 
-  const removeFile = (index: number) => {
-    setSelectedFiles(prev => prev.filter((_, i) => i !== index));
+  const removeDraftAttachment = (attachmentId: string) => {
+    setDraftAttachments(prev => prev.filter(attachment => attachment._id !== attachmentId));
+    setRemovedDraftAttachments(prev => [...prev, attachmentId]);
+  };
+
+  const handleInputChange = (field: keyof CreateTaskData, value: any) => {
+    setFormData(prev => ({
+      ...prev,
+      [field]: value
+    }));
   };
 
   const handleUserSelect = (user: User) => {
@@ -146,6 +239,52 @@ const TaskCreate: React.FC = () => {
     }));
   };
 
+  const handleCreateRecurring = async () => {
+    setSaving(true);
+
+    try {
+      const response = await recurringTaskService.createSeries({
+        title: formData.title,
+        description: formData.description,
+        priority: formData.priority,
+        assignedTo: formData.assignedTo,
+        tags: formData.tags,
+        isGroupTask: recurrence.assignmentMode === 'fixed' && (formData.assignedTo || []).length > 1,
+        rule: toRecurrenceRule(recurrence),
+        assignmentMode: recurrence.assignmentMode,
+        deadlineAfterDays: recurrence.deadlineAfterDays
+      });
+
+      if (response.success) {
+        // The series replaces the draft it was started from
+        if (autosave.draftId) {
+          await autosave.discard();
+        } else {
+          await autosave.cancel();
+        }
+
+        const target: UploadTarget = { kind: 'series', id: response.data.series._id };
+        if (selectedFiles.length > 0) {
+          const { failed } = await uploads.uploadFiles(target, selectedFiles);
+          if (failed > 0) {
+            setCreatedTarget(target);
+            toast.warning(`Recurring task created, but ${failed} file(s) did not upload. Retry them below or open the series.`);
+            return;
+          }
+        }
+        toast.success('Recurring task created successfully!');
+        navigate(`/tasks/recurring/${response.data.series._id}`);
+      } else {
+        toast.error('Failed to create recurring task');
+      }
+    } catch (error) {
+      console.error('Error creating recurring task:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to create recurring task'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -164,18 +303,66 @@ const TaskCreate: React.FC = () => {
       return;
     }
 
+    const recurrenceError = validateRecurrence(recurrence);
+    if (recurrenceError) {
+      toast.error(recurrenceError);
+      return;
+    }
+
+    if (recurrence.enabled) {
+      // The series replaces the draft, and the draft's stored files would be deleted with it
+      if (draftAttachments.length > 0) {
+        toast.error('Files saved in this draft can\'t be moved to a recurring task. Remove them and add them again from your computer.');
+        return;
+      }
+      await handleCreateRecurring();
+      return;
+    }
+
     setSaving(true);
 
     try {
-      // Create task data
-      const taskData: CreateTaskData = {
-        ...formData,
-        attachments: selectedFiles
-      };
-
-      console.log('Creating task with data:', taskData);
+      let response;
+
+      // Publish the draft (with its uploaded files) instead of creating from scratch.
+      // If the latest changes didn't reach the draft, publishing it would drop them.
+      let draftId: string | null = null;
+      if (autosave.draftId) {
+        try {
+          draftId = await autosave.flush();
+        } catch (error) {
+          console.error('Error saving draft before publishing:', error);
+          toast.error('Your latest changes could not be saved to the draft. Please try again.');
+          return;
+        }
+      }
 
-      const response = await taskService.createTask(taskData);
+      if (draftId) {
+        response = await taskService.publishDraft(draftId);
+      } else {
+        await autosave.cancel();
+
+        // Create the task first and upload files to it afterwards, so a failed file
+        // can be retried on its own instead of re-submitting the whole task
+        const taskData: CreateTaskData = {
+          ...formData,
+          attachments: []
+        };
+
+        console.log('Creating task with data:', taskData);
+
+        response = await taskService.createTask(taskData);
+
+        if (response.success && selectedFiles.length > 0) {
+          const target: UploadTarget = { kind: 'task', id: response.data.task._id };
+          const { failed } = await uploads.uploadFiles(target, selectedFiles);
+          if (failed > 0) {
+            setCreatedTarget(target);
+            toast.warning(`Task created, but ${failed} file(s) did not upload. Retry them below or open the task.`);
+            return;
+          }
+        }
+      }
       
       if (response.success) {
         toast.success('Task created successfully!');
@@ -211,9 +398,47 @@ const TaskCreate: React.FC = () => {
               </div>
             </div>
 
-
+            <div className="flex items-center space-x-3">
+              <span className="text-sm text-gray-500">
+                {loadingDraft && 'Loading draft...'}
+                {!loadingDraft && autosave.status === 'saving' && (autosave.upload
+                  ? `Uploading ${autosave.upload.fileName} to draft (${Math.round(autosave.upload.progress * 100)}%)...`
+                  : 'Saving draft...')}
+                {!loadingDraft && autosave.status === 'saved' && autosave.lastSavedAt &&
+                  `Draft saved at ${autosave.lastSavedAt.toLocaleTimeString()}`}
+                {!loadingDraft && autosave.status === 'error' && (
+                  <span className="text-red-600">Draft could not be saved</span>
+                )}
+              </span>
+              {autosave.draftId && (
+                <button
+                  type="button"
+                  onClick={handleDiscardDraft}
+                  className="inline-flex items-center px-3 py-2 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50 transition-colors"
+                >
+                  <FaTrash className="w-3 h-3 mr-2" />
+                  Discard Draft
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => navigate('/tasks/drafts')}
+                className="inline-flex items-center px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <FaRegFileAlt className="w-4 h-4 mr-2" />
+                My Drafts
+              </button>
+              <button
+                type="button"
+                onClick={() => navigate('/tasks/recurring')}
+                className="inline-flex items-center px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <FaRedo className="w-4 h-4 mr-2" />
+                Recurring
+              </button>
             </div>
           </div>
+        </div>
 
         {/* Task Form */}
         <div className="space-y-6">
@@ -278,8 +503,12 @@ const TaskCreate: React.FC = () => {
                   type="datetime-local"
                   value={formData.deadline}
                   onChange={(e) => handleInputChange('deadline', e.target.value)}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  disabled={recurrence.enabled}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100 disabled:cursor-not-allowed"
                 />
+                {recurrence.enabled && (
+                  <p className="text-xs text-gray-500 mt-1">Set per occurrence in the Repeat section below</p>
+                )}
               </div>
 
               {/* Tags */}
@@ -396,60 +625,94 @@ const TaskCreate: React.FC = () => {
             )}
           </div>
 
+          {/* Recurrence */}
+          <RecurrenceSettings
+            value={recurrence}
+            onChange={setRecurrence}
+            assignees={selectedUsers.map(assignment => assignment.user)}
+          />
+
           {/* File Attachments */}
           <div className="bg-white rounded-lg shadow-sm p-6">
             <h2 className="text-lg font-semibold text-gray-900 mb-4">Attachments</h2>
             
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Upload Files
-              </label>
-              <input
-                type="file"
-                multiple
-                onChange={handleFileChange}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                accept=".pdf,.doc,.docx,.xls,.xlsx,.png,.jpg,.jpeg,.gif"
-              />
-              
-              {selectedFiles.length > 0 && (
-                <div className="mt-4">
-                  <h4 className="text-sm font-medium text-gray-700 mb-2">
-                    Selected Files ({selectedFiles.length})
-                  </h4>
-                  <div className="space-y-2">
-                    {selectedFiles.map((file, index) => (
-                      <div
-                        key={index}
-                        className="flex items-center justify-between p-2 bg-gray-50 rounded"
+            {draftAttachments.length > 0 && (
+              <div className="mb-4">
+                <h4 className="text-sm font-medium text-gray-700 mb-2">
+                  Saved in Draft ({draftAttachments.length})
+                </h4>
+                {recurrence.enabled && (
+                  <p className="text-sm text-yellow-700 mb-2">
+                    Recurring tasks can't use files saved in a draft. Remove these and add them again below.
+                  </p>
+                )}
+                <div className="space-y-2">
+                  {draftAttachments.map((attachment) => (
+                    <div
+                      key={attachment._id}
+                      className="flex items-center justify-between p-2 bg-gray-50 rounded"
+                    >
+                      <span className="text-sm text-gray-700">{attachment.originalName}</span>
+                      <button
+                        type="button"
+                        onClick={() => removeDraftAttachment(attachment._id)}
+                        className="text-red-600 hover:text-red-800"
                       >
-                        <span className="text-sm text-gray-700">{file.name}</span>
-                        <button
-                          type="button"
-                          onClick={() => removeFile(index)}
-                          className="text-red-600 hover:text-red-800"
-                        >
-                          <FaTimes className="w-4 h-4" />
-                        </button>
-                      </div>
-                    ))}
-                  </div>
+                        <FaTimes className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
                 </div>
-              )}
-            </div>
+              </div>
+            )}
+
+            <FileDropzone
+              files={selectedFiles}
+              onChange={setSelectedFiles}
+              disabled={!!createdTarget}
+              getFileNote={(file) => (autosave.isFileSaved(file) ? 'saved in draft' : undefined)}
+            />
           </div>
 
+          {/* Upload progress once the task or series has been created */}
+          {uploads.items.length > 0 && (
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Uploading Attachments</h2>
+              <UploadProgressList
+                items={uploads.items}
+                onCancel={uploads.cancel}
+                onRetry={uploads.retry}
+                onDismiss={uploads.dismiss}
+              />
+            </div>
+          )}
+
           {/* Submit Button */}
           <div className="bg-white rounded-lg shadow-sm p-6">
             <div className="flex justify-end">
-              <button
-                onClick={handleSubmit}
-                disabled={saving}
-                className="inline-flex items-center px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium"
-              >
-                <FaSave className="w-5 h-5 mr-2" />
-                {saving ? 'Creating Task...' : 'Create Task'}
-              </button>
+              {createdTarget ? (
+                <button
+                  onClick={() => navigate(createdTarget.kind === 'series'
+                    ? `/tasks/recurring/${createdTarget.id}`
+                    : `/tasks/${createdTarget.id}`)}
+                  disabled={uploads.isUploading}
+                  className="inline-flex items-center px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium"
+                >
+                  {createdTarget.kind === 'series' ? 'Open Recurring Task' : 'Open Task'}
+                  {uploads.failedCount > 0 && ' Without Failed Files'}
+                </button>
+              ) : (
+                <button
+                  onClick={handleSubmit}
+                  disabled={saving}
+                  className="inline-flex items-center px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium"
+                >
+                  <FaSave className="w-5 h-5 mr-2" />
+                  {saving
+                    ? 'Creating Task...'
+                    : recurrence.enabled ? 'Create Recurring Task' : 'Create Task'}
+                </button>
+              )}
             </div>
           </div>
         </div>
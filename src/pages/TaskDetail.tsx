@@ -3,14 +3,26 @@ import { useParams, useNavigate } from 'react-router-dom';
 import { toast } from 'react-toastify';
 import { 
   FaArrowLeft, FaSave, FaDownload, FaUsers, FaClock, FaTimes,
-  FaFileUpload, FaCalendarAlt, FaUser, FaBuilding, FaEye, FaFilePdf, FaImage, FaFile, FaPlus
+  FaFileUpload, FaCalendarAlt, FaUser, FaBuilding, FaEye, FaFilePdf, FaImage, FaFile, FaHistory, FaPlus, FaRedo
 } from 'react-icons/fa';
 import taskService from '../services/taskService';
 import authService from '../services/authService';
 import api from '../services/api';
-import type { Task, CreateTaskData, RemarkData } from '../services/taskService';
+import type { Task, TaskAttachment, CreateTaskData } from '../services/taskService';
 import NotificationBell from '../components/NotificationBell';
 import OverviewerManagement from '../components/OverviewerManagement';
+import TaskDependencies from '../components/TaskDependencies';
+import TaskSubtasks from '../components/TaskSubtasks';
+import TaskRemarks from '../components/TaskRemarks';
+import TaskActivityFeed from '../components/TaskActivityFeed';
+import AttachmentViewer from '../components/AttachmentViewer';
+import AttachmentVersions from '../components/AttachmentVersions';
+import FileDropzone from '../components/FileDropzone';
+import UploadProgressList from '../components/UploadProgressList';
+import { useTaskRealtime, usePollingFallback } from '../hooks/useRealtime';
+import { useTaskHistory } from '../hooks/useTaskHistory';
+import { useUploadQueue } from '../hooks/useUploadQueue';
+import { getPreviewKind, isPreviewable } from '../utils/attachments';
 
 interface User {
   _id: string;
@@ -32,6 +44,8 @@ const TaskDetail: React.FC = () => {
   const [saving, setSaving] = useState(false);
   const [users, setUsers] = useState<User[]>([]);
   const currentUser = authService.getCurrentUser();
+  const { history, applyHistory } = useTaskHistory(isCreateMode ? undefined : id, task?.updatedAt);
+  const uploads = useUploadQueue();
 
   // Permission checks based on user role (only for existing tasks)
   const isCreator = !isCreateMode && task?.createdBy?._id === currentUser?._id;
@@ -56,15 +70,12 @@ const TaskDetail: React.FC = () => {
     formDataTitle: formData.title
   });
 
-  // Remark states
-  const [newRemark, setNewRemark] = useState('');
-  const [addingRemark, setAddingRemark] = useState(false);
-
   // File upload states
-  const [uploadingFiles, setUploadingFiles] = useState(false);
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [userSearch, setUserSearch] = useState('');
   const [showUserDropdown, setShowUserDropdown] = useState(false);
+  const [previewIndex, setPreviewIndex] = useState<number | null>(null);
+  const [expandedVersionsId, setExpandedVersionsId] = useState<string | null>(null);
 
   const loadInitialData = async () => {
     try {
@@ -87,6 +98,7 @@ const TaskDetail: React.FC = () => {
           if (taskResponse && taskResponse.success && taskResponse.data && taskResponse.data.task) {
             console.log('Setting task data:', taskResponse.data.task);
             setTask(taskResponse.data.task);
+            applyHistory(taskResponse);
             setFormData({
               title: taskResponse.data.task.title,
               description: taskResponse.data.task.description,
@@ -118,6 +130,28 @@ const TaskDetail: React.FC = () => {
     loadInitialData();
   }, [id]);
 
+  // Pick up changes other people make while the page is open, leaving the edit form alone
+  const refreshTask = async () => {
+    if (isCreateMode || !id) return;
+    try {
+      const response = await taskService.getTask(id);
+      if (response.success) {
+        setTask(response.data.task);
+        applyHistory(response);
+      }
+    } catch (error) {
+      console.error('Error refreshing task:', error);
+    }
+  };
+
+  useTaskRealtime(isCreateMode ? undefined : id, (event) => {
+    // Our own changes are already on screen
+    if ('userId' in event.payload && event.payload.userId === currentUser?._id) return;
+    refreshTask();
+  });
+
+  usePollingFallback(refreshTask, 30000, !isCreateMode);
+
   // Redirect to group page if task is group
   useEffect(() => {
     if (!isCreateMode && task?.isGroupTask && id) {
@@ -144,18 +178,7 @@ const TaskDetail: React.FC = () => {
     setFormData(prev => ({ ...prev, tags }));
   };
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = Array.from(e.target.files || []);
-    const maxFileSize = 10 * 1024 * 1024; // 10MB in bytes
-    
-    // Check file sizes
-    const oversizedFiles = files.filter(file => file.size > maxFileSize);
-    if (oversizedFiles.length > 0) {
-      toast.error(`File size limit exceeded. Maximum allowed size is 10MB. Files: ${oversizedFiles.map(f => f.name).join(', ')}`);
-      e.target.value = ''; // Clear the input
-      return;
-    }
-    
+  const handleFilesChange = (files: File[]) => {
     setSelectedFiles(files);
     setFormData(prev => ({ ...prev, attachments: files }));
   };
@@ -225,6 +248,12 @@ const TaskDetail: React.FC = () => {
 
   const handleStageChange = async (newStage: string) => {
     if (!id) return;
+
+    // A task can't be started while the tasks it depends on are still open
+    if (task && newStage !== 'not_started' && taskService.getOpenBlockers(task).length > 0) {
+      toast.error('This task is blocked by unfinished tasks. Finish them before starting it.');
+      return;
+    }
     
     try {
       const response = await taskService.updateTaskStage(id, {
@@ -240,30 +269,6 @@ const TaskDetail: React.FC = () => {
     }
   };
 
-  const handleAddRemark = async () => {
-    if (!newRemark.trim() || !id) return;
-
-    try {
-      setAddingRemark(true);
-      
-      const remarkData: RemarkData = {
-        text: newRemark,
-        category: 'auto' as const // Let backend automatically determine the category
-      };
-      
-      const response = await taskService.addRemark(id, remarkData);
-      if (response.success) {
-        toast.success('Remark added successfully');
-        setTask(response.data.task);
-        setNewRemark('');
-      }
-    } catch (error: any) {
-      toast.error(error.response?.data?.message || 'Failed to add remark');
-    } finally {
-      setAddingRemark(false);
-    }
-  };
-
   const handleAssignTask = async () => {
     if (!id || !formData.assignedTo?.length) return;
 
@@ -284,19 +289,20 @@ const TaskDetail: React.FC = () => {
   const handleFileUpload = async () => {
     if (!selectedFiles.length || !id) return;
 
-    try {
-      setUploadingFiles(true);
-      const response = await taskService.addAttachments(id, selectedFiles);
-      if (response.success) {
-        toast.success('Files uploaded successfully');
-        setSelectedFiles([]);
-        loadInitialData(); // Reload to get updated attachments
-      }
-    } catch (error: any) {
-      toast.error(error.response?.data?.message || 'Failed to upload files');
-    } finally {
-      setUploadingFiles(false);
+    const files = selectedFiles;
+    setSelectedFiles([]);
+    const { succeeded, failed } = await uploads.uploadFiles({ kind: 'task', id }, files);
+
+    if (failed === 0) {
+      toast.success('Files uploaded successfully');
+    } else {
+      toast.warning(`${failed} of ${files.length} file(s) didn't upload. Retry them from the list below.`);
     }
+    if (succeeded > 0) refreshTask();
+  };
+
+  const handleRetryUpload = async (uploadId: string) => {
+    if (await uploads.retry(uploadId)) refreshTask();
   };
 
   const handleDeleteAttachment = async (attachmentId: string) => {
@@ -313,33 +319,15 @@ const TaskDetail: React.FC = () => {
     }
   };
 
-  const handleViewFile = (taskId: string, attachmentId: string) => {
-    // Use browser's native viewer for PDFs and images with public view endpoint
-    const fileUrl = `${api.defaults.baseURL}/tasks/${taskId}/attachments/${attachmentId}/view`;
-    window.open(fileUrl, '_blank');
-  };
-
   const handleTaskUpdate = (updatedTask: Task) => {
     setTask(updatedTask);
   };
 
-  const isPDF = (fileName: string) => {
-    return fileName.toLowerCase().endsWith('.pdf');
-  };
-
-  const isImage = (fileName: string) => {
-    const imageExtensions = ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp', '.svg'];
-    return imageExtensions.some(ext => fileName.toLowerCase().endsWith(ext));
-  };
-
-  const isViewable = (fileName: string) => {
-    return isPDF(fileName) || isImage(fileName);
-  };
-
-  const getFileIcon = (fileName: string) => {
-    if (isPDF(fileName)) {
+  const getFileIcon = (attachment: TaskAttachment) => {
+    const kind = getPreviewKind(attachment);
+    if (kind === 'pdf') {
       return <FaFilePdf className="text-red-500" />;
-    } else if (isImage(fileName)) {
+    } else if (kind === 'image') {
       return <FaImage className="text-blue-500" />;
     } else {
       return <FaFile className="text-gray-500" />;
@@ -643,6 +631,16 @@ const TaskDetail: React.FC = () => {
                     </div>
                   )}
 
+                  {/* Blocked Notice while predecessors are open */}
+                  {task.stage === 'not_started' && taskService.getOpenBlockers(task).length > 0 && (
+                    <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md text-sm">
+                      <p className="text-yellow-800 font-medium">Blocked</p>
+                      <p className="text-yellow-700">
+                        Waiting on: {taskService.getOpenBlockers(task).map(blocker => blocker.title).join(', ')}
+                      </p>
+                    </div>
+                  )}
+
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">
                       Stage
@@ -670,87 +668,99 @@ const TaskDetail: React.FC = () => {
               </div>
             )}
 
+            {/* Subtasks and Checklist (only for existing tasks) */}
+            {!isCreateMode && task && (
+              <TaskSubtasks
+                task={task}
+                canEdit={isCreator || !!isAssignee}
+                onTaskUpdate={handleTaskUpdate}
+              />
+            )}
+
             {/* Attachments */}
             <div className="bg-white rounded-lg shadow p-4 sm:p-6">
               <h2 className="text-lg font-medium text-gray-900 mb-4">Attachments</h2>
               
               {/* File Upload */}
               <div className="mb-4">
-                <input
-                  type="file"
-                  multiple
-                  onChange={handleFileSelect}
-                  className="hidden"
-                  id="file-upload"
-                  accept=".pdf,.doc,.docx,.xls,.xlsx,.ppt,.pptx,.txt,.jpg,.jpeg,.png,.gif"
-                />
-                <div className="flex flex-col sm:flex-row items-start sm:items-center space-y-3 sm:space-y-0 sm:space-x-3">
-                  <div>
-                    <label
-                      htmlFor="file-upload"
-                      className="cursor-pointer px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 inline-flex items-center"
-                    >
-                      <FaFileUpload className="mr-2" />
-                      Choose Files
-                    </label>
-                    <p className="text-xs text-gray-500 mt-1">Max file size: 10MB per file</p>
-                  </div>
-                  {selectedFiles.length > 0 && (
+                <FileDropzone files={selectedFiles} onChange={handleFilesChange} />
+                {selectedFiles.length > 0 && (
+                  <div className="mt-3 flex justify-end">
                     <button
                       onClick={handleFileUpload}
-                      disabled={uploadingFiles}
-                      className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+                      className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 inline-flex items-center"
                     >
-                      {uploadingFiles ? 'Uploading...' : `Upload ${selectedFiles.length} file(s)`}
+                      <FaFileUpload className="mr-2" />
+                      {`Upload ${selectedFiles.length} file(s)`}
                     </button>
-                  )}
-                </div>
-                {selectedFiles.length > 0 && (
-                  <div className="mt-2 text-sm text-gray-600">
-                    Selected: {selectedFiles.map(f => f.name).join(', ')}
                   </div>
                 )}
               </div>
 
+              <UploadProgressList
+                items={uploads.items}
+                onCancel={uploads.cancel}
+                onRetry={handleRetryUpload}
+                onDismiss={uploads.dismiss}
+              />
+
               {/* Existing Attachments */}
               {task?.attachments && task.attachments.length > 0 ? (
                 <div className="space-y-2">
-                  {task.attachments.map((attachment) => (
-                    <div key={attachment._id} className="flex items-center justify-between p-3 border border-gray-200 rounded-md">
-                      <div className="flex items-center space-x-3">
-                        {getFileIcon(attachment.originalName)}
-                        <div>
-                          <p className="text-sm font-medium text-gray-900">{attachment.originalName}</p>
-                          <p className="text-xs text-gray-500">
-                            {(attachment.size / 1024 / 1024).toFixed(2)} MB
-                          </p>
+                  {task.attachments.map((attachment, index) => (
+                    <div key={attachment._id} className="p-3 border border-gray-200 rounded-md">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-3">
+                          {getFileIcon(attachment)}
+                          <div>
+                            <p className="text-sm font-medium text-gray-900">{attachment.originalName}</p>
+                            <p className="text-xs text-gray-500">
+                              {(attachment.size / 1024 / 1024).toFixed(2)} MB
+                              {(attachment.version || 1) > 1 && ` • v${attachment.version}`}
+                            </p>
+                          </div>
                         </div>
-                      </div>
-                      <div className="flex flex-col sm:flex-row items-start sm:items-center space-y-2 sm:space-y-0 sm:space-x-2">
-                        {isViewable(attachment.originalName) && (
+                        <div className="flex flex-col sm:flex-row items-start sm:items-center space-y-2 sm:space-y-0 sm:space-x-2">
+                          {isPreviewable(attachment) && (
+                            <button
+                              onClick={() => setPreviewIndex(index)}
+                              className="text-green-600 hover:text-green-800"
+                              title="Preview"
+                            >
+                              <FaEye />
+                            </button>
+                          )}
                           <button
-                            onClick={() => handleViewFile(task._id, attachment._id)}
-                            className="text-green-600 hover:text-green-800"
-                            title={isPDF(attachment.originalName) ? "View PDF" : "View Image"}
+                            onClick={() => setExpandedVersionsId(expandedVersionsId === attachment._id ? null : attachment._id)}
+                            className="text-gray-600 hover:text-gray-800"
+                            title="Versions"
                           >
-                            <FaEye />
+                            <FaHistory />
                           </button>
-                        )}
-                        <button
-                          onClick={() => taskService.downloadAttachment(task._id, attachment._id)}
-                          className="text-blue-600 hover:text-blue-800"
-                          title="Download"
-                        >
-                          <FaDownload />
-                        </button>
-                        <button
-                          onClick={() => handleDeleteAttachment(attachment._id)}
-                          className="text-red-600 hover:text-red-800"
-                          title="Delete"
-                        >
-                          <FaTimes />
-                        </button>
+                          <button
+                            onClick={() => taskService.downloadAttachment(task._id, attachment._id)}
+                            className="text-blue-600 hover:text-blue-800"
+                            title="Download"
+                          >
+                            <FaDownload />
+                          </button>
+                          <button
+                            onClick={() => handleDeleteAttachment(attachment._id)}
+                            className="text-red-600 hover:text-red-800"
+                            title="Delete"
+                          >
+                            <FaTimes />
+                          </button>
+                        </div>
                       </div>
+                      {expandedVersionsId === attachment._id && (
+                        <AttachmentVersions
+                          taskId={task._id}
+                          attachment={attachment}
+                          canEdit={!!(isCreator || isAssignee)}
+                          onTaskUpdate={handleTaskUpdate}
+                        />
+                      )}
                     </div>
                   ))}
                 </div>
@@ -761,105 +771,12 @@ const TaskDetail: React.FC = () => {
 
             {/* Remarks Section (only for existing tasks) */}
             {!isCreateMode && task && (
-              <div className="bg-white rounded-lg shadow p-4 sm:p-6">
-                <h2 className="text-lg font-medium text-gray-900 mb-4">Remarks & Comments</h2>
-                
-                {/* Add New Remark */}
-                <div className="mb-6 p-4 border border-gray-200 rounded-lg">
-                  <div className="flex items-start space-x-3">
-                    <div className="flex-1">
-                      <textarea
-                        value={newRemark}
-                        onChange={(e) => setNewRemark(e.target.value)}
-                        placeholder="Add a remark or comment..."
-                        rows={3}
-                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                      />
-                      <div className="flex justify-end mt-2">
-                        <button
-                          onClick={handleAddRemark}
-                          disabled={!newRemark.trim() || addingRemark}
-                          className="px-4 py-1 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50"
-                        >
-                          {addingRemark ? 'Adding...' : 'Add Remark'}
-                        </button>
-                      </div>
-                    </div>
-                  </div>
-                </div>
+              <TaskRemarks task={task} onTaskUpdate={handleTaskUpdate} />
+            )}
 
-                {/* Existing Remarks */}
-                <div className="space-y-3">
-                  {(() => {
-                    // Combine all remarks from different categories into one array
-                    const allRemarks = [];
-                    
-                    if (task.remarks?.creator) {
-                      allRemarks.push(...task.remarks.creator.map(remark => ({ ...remark, category: 'creator' })));
-                    }
-                    if (task.remarks?.assignee) {
-                      allRemarks.push(...task.remarks.assignee.map(remark => ({ ...remark, category: 'assignee' })));
-                    }
-                    if (task.remarks?.general) {
-                      allRemarks.push(...task.remarks.general.map(remark => ({ ...remark, category: 'general' })));
-                    }
-                    
-                    // Sort by creation date (latest first)
-                    allRemarks.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-                    
-                    if (allRemarks.length === 0) {
-                      return <p className="text-gray-500 text-sm">No remarks yet</p>;
-                    }
-                    
-                    return allRemarks.map((remark, index) => {
-                      // Get styling based on category
-                      const getCategoryStyle = (category: string) => {
-                        switch (category) {
-                          case 'creator':
-                            return 'bg-blue-50 border-l-4 border-blue-400';
-                          case 'assignee':
-                            return 'bg-green-50 border-l-4 border-green-400';
-                          case 'general':
-                            return 'bg-gray-50 border-l-4 border-gray-400';
-                          default:
-                            return 'bg-gray-50 border-l-4 border-gray-400';
-                        }
-                      };
-                      
-                      const getCategoryLabel = (category: string) => {
-                        switch (category) {
-                          case 'creator':
-                            return 'Creator';
-                          case 'assignee':
-                            return 'Assignee';
-                          case 'general':
-                            return 'General';
-                          default:
-                            return 'General';
-                        }
-                      };
-                      
-                      return (
-                        <div key={`${remark.category}-${index}`} className={`p-3 rounded-r-md ${getCategoryStyle(remark.category)}`}>
-                          <div className="flex items-start justify-between">
-                            <div className="flex-1">
-                              <p className="text-sm text-gray-800">{remark.text}</p>
-                              <div className="flex items-center justify-between mt-2">
-                                <p className="text-xs text-gray-500">
-                                  By {remark.author?.name} • {new Date(remark.createdAt).toLocaleString()}
-                                </p>
-                                <span className="text-xs px-2 py-1 bg-white bg-opacity-50 rounded-full">
-                                  {getCategoryLabel(remark.category)}
-                                </span>
-                              </div>
-                            </div>
-                          </div>
-                        </div>
-                      );
-                    });
-                  })()}
-                </div>
-              </div>
+            {/* Activity (only for existing tasks) */}
+            {!isCreateMode && task && (
+              <TaskActivityFeed history={history} />
             )}
           </div>
 
@@ -906,6 +823,24 @@ const TaskDetail: React.FC = () => {
                       </p>
                     </div>
                   </div>
+
+                  {task.recurrence && (
+                    <div className="flex items-center space-x-2">
+                      <FaRedo className="text-gray-400" />
+                      <div>
+                        <p className="text-sm font-medium text-gray-700">Recurring Series</p>
+                        <button
+                          onClick={() => navigate(`/tasks/recurring/${task.recurrence!.series._id}`)}
+                          className="text-sm text-blue-600 hover:text-blue-800 text-left"
+                        >
+                          {task.recurrence.series.title}
+                        </button>
+                        <p className="text-xs text-gray-500">
+                          Occurrence #{task.recurrence.occurrenceIndex + 1} • {new Date(task.recurrence.scheduledFor).toLocaleDateString()}
+                        </p>
+                      </div>
+                    </div>
+                  )}
                 </div>
               </div>
             )}
@@ -1044,10 +979,27 @@ const TaskDetail: React.FC = () => {
                 onTaskUpdate={handleTaskUpdate}
               />
             )}
+
+            {/* Dependencies - Only show for existing tasks */}
+            {!isCreateMode && task && (
+              <TaskDependencies
+                task={task}
+                canEdit={isCreator}
+                onTaskUpdate={handleTaskUpdate}
+              />
+            )}
           </div>
         </div>
       </div>
 
+      {task && previewIndex !== null && (
+        <AttachmentViewer
+          taskId={task._id}
+          attachments={task.attachments}
+          initialIndex={previewIndex}
+          onClose={() => setPreviewIndex(null)}
+        />
+      )}
     </div>
   );
 };
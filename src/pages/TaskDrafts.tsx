@@ -0,0 +1,186 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'react-toastify';
+import { FaEdit, FaTrash, FaPaperclip, FaPlus, FaRegFileAlt } from 'react-icons/fa';
+import taskService from '../services/taskService';
+import type { TaskDraft } from '../services/taskService';
+import { getApiErrorMessage } from '../utils/apiError';
+
+const TaskDrafts: React.FC = () => {
+  const navigate = useNavigate();
+  const [drafts, setDrafts] = useState<TaskDraft[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadDrafts();
+  }, []);
+
+  const loadDrafts = async () => {
+    try {
+      setLoading(true);
+      const response = await taskService.listDrafts();
+      if (response.success) {
+        setDrafts(response.data.drafts);
+      }
+    } catch (error) {
+      console.error('Error loading drafts:', error);
+      toast.error('Failed to load drafts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDeleteDraft = async (draftId: string) => {
+    if (!window.confirm('Are you sure you want to delete this draft?')) {
+      return;
+    }
+
+    try {
+      setDeletingId(draftId);
+      await taskService.deleteDraft(draftId);
+      setDrafts(prev => prev.filter(draft => draft._id !== draftId));
+      toast.success('Draft deleted successfully');
+    } catch (error) {
+      console.error('Error deleting draft:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to delete draft'));
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <div className="p-6">
+        {/* Page Title */}
+        <div className="mb-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">My Drafts</h1>
+            <p className="text-gray-600">Pick up where you left off with unfinished tasks</p>
+          </div>
+          <button
+            onClick={() => navigate('/tasks/new')}
+            className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <FaPlus className="mr-2" />
+            New Task
+          </button>
+        </div>
+
+        {/* Drafts Table */}
+        <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider w-1/3">
+                    Draft
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Assigned To
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Deadline
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Last Edited
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {loading ? (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-4 text-center">
+                      <div className="flex justify-center">
+                        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                      </div>
+                    </td>
+                  </tr>
+                ) : drafts.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-8 text-center text-gray-500">
+                      <FaRegFileAlt className="mx-auto h-10 w-10 text-gray-300 mb-3" />
+                      No drafts yet. Drafts are saved automatically while you create a task.
+                    </td>
+                  </tr>
+                ) : (
+                  drafts.map((draft) => (
+                    <tr key={draft._id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4">
+                        <div className="text-sm font-medium text-gray-900">
+                          {draft.title || <span className="italic text-gray-400">Untitled draft</span>}
+                        </div>
+                        <div className="text-sm text-gray-500">
+                          {(draft.description || '').substring(0, 100)}
+                          {(draft.description || '').length > 100 && '...'}
+                        </div>
+                        {draft.attachments.length > 0 && (
+                          <div className="flex items-center mt-1 space-x-1 text-xs text-gray-500">
+                            <FaPaperclip />
+                            <span>{draft.attachments.length} attachment(s)</span>
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4">
+                        {draft.assignedTo.length > 0 ? (
+                          <div className="flex flex-col space-y-1">
+                            {draft.assignedTo.slice(0, 2).map(user => (
+                              <span key={user._id} className="text-sm text-gray-900">{user.name}</span>
+                            ))}
+                            {draft.assignedTo.length > 2 && (
+                              <span className="text-xs text-gray-500">+{draft.assignedTo.length - 2} more</span>
+                            )}
+                          </div>
+                        ) : (
+                          <span className="text-sm text-gray-500">Unassigned</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        {draft.deadline ? formatDate(draft.deadline) : <span className="text-gray-500">Not set</span>}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-500">
+                        {new Date(draft.updatedAt).toLocaleString()}
+                      </td>
+                      <td className="px-6 py-4">
+                        <div className="flex items-center space-x-2">
+                          <button
+                            onClick={() => navigate(`/tasks/new?draft=${draft._id}`)}
+                            className="text-green-600 hover:text-green-900 p-1"
+                            title="Resume Draft"
+                          >
+                            <FaEdit />
+                          </button>
+                          <button
+                            onClick={() => handleDeleteDraft(draft._id)}
+                            disabled={deletingId === draft._id}
+                            className="text-red-600 hover:text-red-900 p-1 disabled:opacity-50"
+                            title="Delete Draft"
+                          >
+                            <FaTrash />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TaskDrafts;
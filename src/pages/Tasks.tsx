@@ -1,20 +1,38 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { toast } from 'react-toastify';
-import { FaEye, FaEdit, FaTrash, FaUser, FaClock, FaFlag } from 'react-icons/fa';
+import { FaEye, FaEdit, FaTrash, FaUser, FaClock, FaFlag, FaList, FaColumns, FaCalendarAlt } from 'react-icons/fa';
 import taskService from '../services/taskService';
 import type { Task, TaskFilters } from '../services/taskService';
+import TaskBoard from '../components/TaskBoard';
+import TaskCalendar from '../components/TaskCalendar';
+import CalendarExport from '../components/CalendarExport';
+import BulkTaskActionBar from '../components/BulkTaskActionBar';
+import SavedViewsMenu from '../components/SavedViewsMenu';
+import { useSelection } from '../hooks/useSelection';
+import { useUrlFilters } from '../hooks/useUrlFilters';
+import { withoutViewParam } from '../utils/taskFilterParams';
+
+type ViewMode = 'table' | 'board' | 'calendar';
+
+// The board and calendar show every matching task at once instead of paging through them
+const FULL_VIEW_PAGE_SIZE = 100;
+
+const DEFAULT_FILTERS: TaskFilters & { view?: ViewMode } = {
+  page: 1,
+  limit: 10,
+  sortBy: 'createdAt',
+  sortOrder: 'desc',
+  view: 'table'
+};
 
 const Tasks: React.FC = () => {
   const navigate = useNavigate();
   const [tasks, setTasks] = useState<Task[]>([]);
   const [loading, setLoading] = useState(true);
-  const [filters, setFilters] = useState<TaskFilters>({
-    page: 1,
-    limit: 10,
-    sortBy: 'createdAt',
-    sortOrder: 'desc'
-  });
+  // Filters, paging and the view mode live in the URL so a refresh or shared link opens the same list
+  const [filters, setFilters] = useUrlFilters(DEFAULT_FILTERS);
+  const viewMode = filters.view || 'table';
   const [pagination, setPagination] = useState({
     currentPage: 1,
     totalPages: 1,
@@ -22,6 +40,7 @@ const Tasks: React.FC = () => {
     hasNextPage: false,
     hasPrevPage: false
   });
+  const selection = useSelection(tasks);
 
   useEffect(() => {
     loadTasks();
@@ -30,7 +49,7 @@ const Tasks: React.FC = () => {
   const loadTasks = async () => {
     try {
       setLoading(true);
-      const response = await taskService.getTasks(filters);
+      const response = await taskService.getTasks(withoutViewParam(filters));
       setTasks(response.data.tasks);
       setPagination(response.data.pagination);
     } catch (error: any) {
@@ -49,6 +68,21 @@ const Tasks: React.FC = () => {
     }));
   };
 
+  const handleViewModeChange = (mode: ViewMode) => {
+    setFilters(prev => ({
+      ...prev,
+      view: mode,
+      page: 1,
+      limit: mode === 'table' ? 10 : FULL_VIEW_PAGE_SIZE
+    }));
+  };
+
+  // Export every task matching the current filters, not only the visible page
+  const loadCalendarTasks = async () => {
+    const response = await taskService.getTasks({ ...withoutViewParam(filters), page: 1, limit: 1000 });
+    return response.data.tasks;
+  };
+
   const handleDeleteTask = async (taskId: string) => {
     if (!window.confirm('Are you sure you want to delete this task?')) {
       return;
@@ -129,9 +163,48 @@ const Tasks: React.FC = () => {
     <div className="min-h-screen bg-gray-100">
       <div className="p-6">
         {/* Page Title */}
-        <div className="mb-6">
-          <h1 className="text-3xl font-bold text-gray-900">Task Management''''</h1>
-          <p className="text-gray-600">Manage and track all tasks efficiently</p>
+        <div className="mb-6 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Task Management''''</h1>
+            <p className="text-gray-600">Manage and track all tasks efficiently</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <SavedViewsMenu list="tasks" />
+            <CalendarExport
+              loadTasks={loadCalendarTasks}
+              calendarName="IMTS Tasks"
+              fileName={`Tasks_${new Date().toISOString().split('T')[0]}.ics`}
+            />
+            <div className="inline-flex rounded-md shadow-sm">
+              <button
+                onClick={() => handleViewModeChange('table')}
+                className={`px-4 py-2 text-sm font-medium rounded-l-md border flex items-center ${
+                  viewMode === 'table' ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                <FaList className="mr-2" />
+                Table
+              </button>
+              <button
+                onClick={() => handleViewModeChange('board')}
+                className={`px-4 py-2 text-sm font-medium border-t border-b border-r flex items-center ${
+                  viewMode === 'board' ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                <FaColumns className="mr-2" />
+                Board
+              </button>
+              <button
+                onClick={() => handleViewModeChange('calendar')}
+                className={`px-4 py-2 text-sm font-medium rounded-r-md border-t border-b border-r flex items-center ${
+                  viewMode === 'calendar' ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                <FaCalendarAlt className="mr-2" />
+                Calendar
+              </button>
+            </div>
+          </div>
         </div>
 
         {/* Filters */}
@@ -143,6 +216,7 @@ const Tasks: React.FC = () => {
                 type="text"
                 placeholder="Search tasks..."
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                value={filters.search || ''}
                 onChange={(e) => handleFilterChange('search', e.target.value)}
               />
             </div>
@@ -150,6 +224,7 @@ const Tasks: React.FC = () => {
               <label className="block text-sm font-medium text-gray-700 mb-2">Status</label>
               <select
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                value={filters.status || ''}
                 onChange={(e) => handleFilterChange('status', e.target.value)}
               >
                 <option value="">All Statuses</option>
@@ -165,6 +240,7 @@ const Tasks: React.FC = () => {
               <label className="block text-sm font-medium text-gray-700 mb-2">Priority</label>
               <select
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                value={filters.priority || ''}
                 onChange={(e) => handleFilterChange('priority', e.target.value)}
               >
                 <option value="">All Priorities</option>
@@ -190,223 +266,287 @@ const Tasks: React.FC = () => {
           </div>
         </div>
 
+        {/* Tasks Board */}
+        {viewMode === 'board' && (
+          <div className="bg-white rounded-lg shadow-sm p-6">
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            ) : (
+              <TaskBoard
+                tasks={tasks}
+                setTasks={setTasks}
+                onOpenTask={(task) => navigate(`/tasks/${task._id}`)}
+                onLaneFilter={(laneFilters) => setFilters(prev => ({ ...prev, ...laneFilters, page: 1 }))}
+              />
+            )}
+          </div>
+        )}
+
+        {/* Tasks Calendar */}
+        {viewMode === 'calendar' && (
+          <div className="bg-white rounded-lg shadow-sm p-6">
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            ) : (
+              <TaskCalendar
+                tasks={tasks}
+                onOpenTask={(task) => navigate(`/tasks/${task._id}`)}
+                onDeadlineChange={(taskId, deadline) => setTasks(prev => prev.map(task =>
+                  task._id === taskId ? { ...task, deadline } : task
+                ))}
+              />
+            )}
+          </div>
+        )}
+
         {/* Tasks Table */}
-        <div className="bg-white rounded-lg shadow-sm overflow-hidden">
-          <div className="overflow-x-auto">
-            <table className="min-w-full divide-y divide-gray-200">
-              <thead className="bg-gray-50">
-                <tr>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider w-1/4">
-                    Task
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Status
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Priority
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Approval Status
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Assigned To
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Deadline
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Actions
-                  </th>
-                </tr>
-              </thead>
-              <tbody className="bg-white divide-y divide-gray-200">
-                {loading ? (
-                  <tr>
-                    <td colSpan={7} className="px-6 py-4 text-center">
-                      <div className="flex justify-center">
-                        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
-                      </div>
-                    </td>
-                  </tr>
-                ) : tasks.length === 0 ? (
+        {viewMode === 'table' && (
+          <BulkTaskActionBar
+            selected={selection.selectedItems}
+            onSelectionChange={selection.setSelectedIds}
+            onComplete={loadTasks}
+          />
+        )}
+        {viewMode === 'table' && (
+          <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
                   <tr>
-                    <td colSpan={7} className="px-6 py-4 text-center text-gray-500">
-                      No tasks found
-                    </td>
+                    <th className="pl-6 py-3 text-left">
+                      <input
+                        type="checkbox"
+                        checked={selection.allSelected}
+                        onChange={selection.toggleAll}
+                        aria-label="Select all tasks on this page"
+                        className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                      />
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider w-1/4">
+                      Task
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Status
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Priority
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Approval Status
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Assigned To
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Deadline
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Actions
+                    </th>
                   </tr>
-                ) : (
-                  tasks.map((task) => (
-                    <tr key={task._id} className="hover:bg-gray-50">
-                      <td className="px-6 py-4">
-                        <div>
-                          <div className="text-sm font-medium text-gray-900">
-                            {task.title}
-                          </div>
-                          <div className="text-sm text-gray-500">
-                            {task.description.substring(0, 100)}
-                            {task.description.length > 100 && '...'}
-                          </div>
-                          <div className="flex items-center mt-1 space-x-2">
-                            <FaUser className="text-gray-400 text-xs" />
-                            <span className="text-xs text-gray-500">
-                              {task.createdBy?.name || 'Unknown User'}
-                            </span>
-                          </div>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {loading ? (
+                    <tr>
+                      <td colSpan={8} className="px-6 py-4 text-center">
+                        <div className="flex justify-center">
+                          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
                         </div>
                       </td>
-                      <td className="px-6 py-4">
-                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(task.status)}`}>
-                          {getStatusText(task)}
-                        </span>
-                      </td>
-                      <td className="px-6 py-4">
-                        <span className={`inline-flex items-center px-2 py-1 text-xs font-semibold rounded-full ${getPriorityColor(task.priority)}`}>
-                          <FaFlag className="mr-1" />
-                          {task.priority}
-                        </span>
-                      </td>
-                      <td className="px-6 py-4">
-                        {(() => {
-                          const approvalInfo = getApprovalStatus(task);
-                          return (
-                            <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${approvalInfo.color}`}>
-                              {approvalInfo.status}
-                            </span>
-                          );
-                        })()}
-                      </td>
-                      <td className="px-6 py-4">
-                        <div className="flex flex-col space-y-1">
-                          {task.assignedTo.length > 0 ? (
-                            task.assignedTo.slice(0, 2).map((assignment) => (
-                              <div key={assignment.user?._id || 'unknown'} className="text-sm text-gray-900">
-                                {assignment.user?.name || 'Unknown User'}
-                              </div>
-                            ))
-                          ) : (
-                            <span className="text-sm text-gray-500">Unassigned</span>
-                          )}
-                          {task.assignedTo.length > 2 && (
-                            <span className="text-xs text-gray-500">
-                              +{task.assignedTo.length - 2} more
-                            </span>
-                          )}
-                        </div>
-                      </td>
-                      <td className="px-6 py-4">
-                        <div className="flex items-center">
-                          <FaClock className={`mr-2 text-sm ${isOverdue(task.deadline, task.status) ? 'text-red-500' : 'text-gray-400'}`} />
-                          <span className={`text-sm ${isOverdue(task.deadline, task.status) ? 'text-red-600 font-medium' : 'text-gray-900'}`}>
-                            {formatDate(task.deadline)}
-                          </span>
-                        </div>
-                      </td>
-                      <td className="px-6 py-4">
-                        <div className="flex items-center space-x-2">
-                          <button
-                            onClick={() => navigate(`/tasks/${task._id}`)}
-                            className="text-blue-600 hover:text-blue-900 p-1"
-                            title="View Task"
-                          >
-                            <FaEye />
-                          </button>
-                          <button
-                            onClick={() => navigate(`/tasks/${task._id}/edit`)}
-                            className="text-green-600 hover:text-green-900 p-1"
-                            title="Edit Task"
-                          >
-                            <FaEdit />
-                          </button>
-                          <button
-                            onClick={() => handleDeleteTask(task._id)}
-                            className="text-red-600 hover:text-red-900 p-1"
-                            title="Delete Task"
-                          >
-                            <FaTrash />
-                          </button>
-                        </div>
+                    </tr>
+                  ) : tasks.length === 0 ? (
+                    <tr>
+                      <td colSpan={8} className="px-6 py-4 text-center text-gray-500">
+                        No tasks found
                       </td>
                     </tr>
-                  ))
-                )}
-              </tbody>
-            </table>
-          </div>
+                  ) : (
+                    tasks.map((task) => (
+                      <tr key={task._id} className={selection.isSelected(task._id) ? 'bg-blue-50' : 'hover:bg-gray-50'}>
+                        <td className="pl-6 py-4">
+                          <input
+                            type="checkbox"
+                            checked={selection.isSelected(task._id)}
+                            onChange={() => selection.toggle(task._id)}
+                            aria-label={`Select ${task.title}`}
+                            className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                          />
+                        </td>
+                        <td className="px-6 py-4">
+                          <div>
+                            <div className="text-sm font-medium text-gray-900">
+                              {task.title}
+                            </div>
+                            <div className="text-sm text-gray-500">
+                              {task.description.substring(0, 100)}
+                              {task.description.length > 100 && '...'}
+                            </div>
+                            <div className="flex items-center mt-1 space-x-2">
+                              <FaUser className="text-gray-400 text-xs" />
+                              <span className="text-xs text-gray-500">
+                                {task.createdBy?.name || 'Unknown User'}
+                              </span>
+                            </div>
+                          </div>
+                        </td>
+                        <td className="px-6 py-4">
+                          <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(task.status)}`}>
+                            {getStatusText(task)}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4">
+                          <span className={`inline-flex items-center px-2 py-1 text-xs font-semibold rounded-full ${getPriorityColor(task.priority)}`}>
+                            <FaFlag className="mr-1" />
+                            {task.priority}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4">
+                          {(() => {
+                            const approvalInfo = getApprovalStatus(task);
+                            return (
+                              <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${approvalInfo.color}`}>
+                                {approvalInfo.status}
+                              </span>
+                            );
+                          })()}
+                        </td>
+                        <td className="px-6 py-4">
+                          <div className="flex flex-col space-y-1">
+                            {task.assignedTo.length > 0 ? (
+                              task.assignedTo.slice(0, 2).map((assignment) => (
+                                <div key={assignment.user?._id || 'unknown'} className="text-sm text-gray-900">
+                                  {assignment.user?.name || 'Unknown User'}
+                                </div>
+                              ))
+                            ) : (
+                              <span className="text-sm text-gray-500">Unassigned</span>
+                            )}
+                            {task.assignedTo.length > 2 && (
+                              <span className="text-xs text-gray-500">
+                                +{task.assignedTo.length - 2} more
+                              </span>
+                            )}
+                          </div>
+                        </td>
+                        <td className="px-6 py-4">
+                          <div className="flex items-center">
+                            <FaClock className={`mr-2 text-sm ${isOverdue(task.deadline, task.status) ? 'text-red-500' : 'text-gray-400'}`} />
+                            <span className={`text-sm ${isOverdue(task.deadline, task.status) ? 'text-red-600 font-medium' : 'text-gray-900'}`}>
+                              {formatDate(task.deadline)}
+                            </span>
+                          </div>
+                        </td>
+                        <td className="px-6 py-4">
+                          <div className="flex items-center space-x-2">
+                            <button
+                              onClick={() => navigate(`/tasks/${task._id}`)}
+                              className="text-blue-600 hover:text-blue-900 p-1"
+                              title="View Task"
+                            >
+                              <FaEye />
+                            </button>
+                            <button
+                              onClick={() => navigate(`/tasks/${task._id}/edit`)}
+                              className="text-green-600 hover:text-green-900 p-1"
+                              title="Edit Task"
+                            >
+                              <FaEdit />
+                            </button>
+                            <button
+                              onClick={() => handleDeleteTask(task._id)}
+                              className="text-red-600 hover:text-red-900 p-1"
+                              title="Delete Task"
+                            >
+                              <FaTrash />
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
 
-          {/* Pagination */}
-          {pagination.totalPages > 1 && (
-            <div className="bg-white px-4 py-3 border-t border-gray-200 sm:px-6">
-              <div className="flex items-center justify-between">
-                <div className="flex-1 flex justify-between sm:hidden">
-                  <button
-                    onClick={() => handleFilterChange('page', pagination.currentPage - 1)}
-                    disabled={!pagination.hasPrevPage}
-                    className="relative inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-                  >
-                    Previous
-                  </button>
-                  <button
-                    onClick={() => handleFilterChange('page', pagination.currentPage + 1)}
-                    disabled={!pagination.hasNextPage}
-                    className="ml-3 relative inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-                  >
-                    Next
-                  </button>
-                </div>
-                <div className="hidden sm:flex-1 sm:flex sm:items-center sm:justify-between">
-                  <div>
-                    <p className="text-sm text-gray-700">
-                      Showing{' '}
-                      <span className="font-medium">
-                        {(pagination.currentPage - 1) * (filters.limit || 10) + 1}
-                      </span>{' '}
-                      to{' '}
-                      <span className="font-medium">
-                        {Math.min(pagination.currentPage * (filters.limit || 10), pagination.totalTasks)}
-                      </span>{' '}
-                      of{' '}
-                      <span className="font-medium">{pagination.totalTasks}</span> results
-                    </p>
+            {/* Pagination */}
+            {pagination.totalPages > 1 && (
+              <div className="bg-white px-4 py-3 border-t border-gray-200 sm:px-6">
+                <div className="flex items-center justify-between">
+                  <div className="flex-1 flex justify-between sm:hidden">
+                    <button
+                      onClick={() => handleFilterChange('page', pagination.currentPage - 1)}
+                      disabled={!pagination.hasPrevPage}
+                      className="relative inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Previous
+                    </button>
+                    <button
+                      onClick={() => handleFilterChange('page', pagination.currentPage + 1)}
+                      disabled={!pagination.hasNextPage}
+                      className="ml-3 relative inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Next
+                    </button>
                   </div>
-                  <div>
-                    <nav className="relative z-0 inline-flex rounded-md shadow-sm -space-x-px">
-                      <button
-                        onClick={() => handleFilterChange('page', pagination.currentPage - 1)}
-                        disabled={!pagination.hasPrevPage}
-                        className="relative inline-flex items-center px-2 py-2 rounded-l-md border border-gray-300 bg-white text-sm font-medium text-gray-500 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-                      >
-                        Previous
-                      </button>
-                      {Array.from({ length: Math.min(pagination.totalPages, 5) }, (_, i) => {
-                        const page = i + 1;
-                        return (
-                          <button
-                            key={page}
-                            onClick={() => handleFilterChange('page', page)}
-                            className={`relative inline-flex items-center px-4 py-2 border text-sm font-medium ${
-                              page === pagination.currentPage
-                                ? 'z-10 bg-blue-50 border-blue-500 text-blue-600'
-                                : 'bg-white border-gray-300 text-gray-500 hover:bg-gray-50'
-                            }`}
-                          >
-                            {page}
-                          </button>
-                        );
-                      })}
-                      <button
-                        onClick={() => handleFilterChange('page', pagination.currentPage + 1)}
-                        disabled={!pagination.hasNextPage}
-                        className="relative inline-flex items-center px-2 py-2 rounded-r-md border border-gray-300 bg-white text-sm font-medium text-gray-500 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-                      >
-                        Next
-                      </button>
-                    </nav>
+                  <div className="hidden sm:flex-1 sm:flex sm:items-center sm:justify-between">
+                    <div>
+                      <p className="text-sm text-gray-700">
+                        Showing{' '}
+                        <span className="font-medium">
+                          {(pagination.currentPage - 1) * (filters.limit || 10) + 1}
+                        </span>{' '}
+                        to{' '}
+                        <span className="font-medium">
+                          {Math.min(pagination.currentPage * (filters.limit || 10), pagination.totalTasks)}
+                        </span>{' '}
+                        of{' '}
+                        <span className="font-medium">{pagination.totalTasks}</span> results
+                      </p>
+                    </div>
+                    <div>
+                      <nav className="relative z-0 inline-flex rounded-md shadow-sm -space-x-px">
+                        <button
+                          onClick={() => handleFilterChange('page', pagination.currentPage - 1)}
+                          disabled={!pagination.hasPrevPage}
+                          className="relative inline-flex items-center px-2 py-2 rounded-l-md border border-gray-300 bg-white text-sm font-medium text-gray-500 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Previous
+                        </button>
+                        {Array.from({ length: Math.min(pagination.totalPages, 5) }, (_, i) => {
+                          const page = i + 1;
+                          return (
+                            <button
+                              key={page}
+                              onClick={() => handleFilterChange('page', page)}
+                              className={`relative inline-flex items-center px-4 py-2 border text-sm font-medium ${
+                                page === pagination.currentPage
+                                  ? 'z-10 bg-blue-50 border-blue-500 text-blue-600'
+                                  : 'bg-white border-gray-300 text-gray-500 hover:bg-gray-50'
+                              }`}
+                            >
+                              {page}
+                            </button>
+                          );
+                        })}
+                        <button
+                          onClick={() => handleFilterChange('page', pagination.currentPage + 1)}
+                          disabled={!pagination.hasNextPage}
+                          className="relative inline-flex items-center px-2 py-2 rounded-r-md border border-gray-300 bg-white text-sm font-medium text-gray-500 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Next
+                        </button>
+                      </nav>
+                    </div>
                   </div>
                 </div>
               </div>
-            </div>
-          )}
-        </div>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { useNavigate, useLocation, Navigate, Link } from 'react-router-dom';
+import { toast } from 'react-toastify';
+import { FaShieldAlt } from 'react-icons/fa';
+import authService from '../services/authService';
+import { getApiErrorMessage } from '../utils/apiError';
+import { getHomePath } from '../utils/permissions';
+
+/**
+ * Second sign-in step for accounts with two-factor on. Login passes the
+ * challenge token in the navigation state, so a refresh starts over.
+ */
+const TwoFactorChallenge: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const challengeToken = (location.state as { challengeToken?: string } | null)?.challengeToken;
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  if (!challengeToken) {
+    return <Navigate to="/login" replace />;
+  }
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    try {
+      setLoading(true);
+      const response = await authService.verifyTwoFactor(challengeToken, code.trim(), useRecoveryCode);
+      toast.success('Login successful! Welcome back.');
+      navigate(getHomePath(response.data.user.role), { replace: true });
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'That code didn\'t work. Please try again.'));
+      setCode('');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleMode = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    setCode('');
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gray-50 px-2 sm:px-4">
+      <div className="w-full max-w-md">
+        <form
+          onSubmit={handleSubmit}
+          className="bg-white p-4 sm:p-8 md:p-10 rounded-xl shadow-lg w-full border border-gray-200"
+        >
+          <div className="flex justify-center mb-4">
+            <FaShieldAlt className="text-4xl text-blue-600" />
+          </div>
+          <h2 className="text-2xl font-bold mb-2 text-center text-gray-800">Two-factor authentication</h2>
+          <p className="text-sm text-gray-600 text-center mb-6">
+            {useRecoveryCode
+              ? 'Enter one of the recovery codes you saved when you set up two-factor.'
+              : 'Enter the 6-digit code from your authenticator app.'}
+          </p>
+
+          <div className="mb-6">
+            <label htmlFor="code" className="block mb-1 text-sm font-medium text-gray-700">
+              {useRecoveryCode ? 'Recovery code' : 'Authentication code'}
+            </label>
+            <input
+              id="code"
+              value={code}
+              onChange={(e) => setCode(useRecoveryCode ? e.target.value : e.target.value.replace(/\D/g, ''))}
+              inputMode={useRecoveryCode ? 'text' : 'numeric'}
+              autoComplete="one-time-code"
+              maxLength={useRecoveryCode ? 20 : 6}
+              placeholder={useRecoveryCode ? 'xxxx-xxxx' : '123456'}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg text-center font-mono tracking-widest focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition"
+              autoFocus
+              required
+            />
+          </div>
+
+          <button
+            type="submit"
+            disabled={loading || (!useRecoveryCode && code.length !== 6)}
+            className="w-full bg-blue-600 text-white py-2.5 rounded-lg hover:bg-blue-700 disabled:bg-blue-400 disabled:cursor-not-allowed transition-colors font-medium"
+          >
+            {loading ? 'Verifying...' : 'Verify'}
+          </button>
+
+          <button
+            type="button"
+            onClick={toggleMode}
+            className="w-full mt-4 text-sm text-blue-600 hover:text-blue-800"
+          >
+            {useRecoveryCode ? 'Use your authenticator app instead' : 'Use a recovery code instead'}
+          </button>
+        </form>
+        <div className="mt-6 text-center space-y-2 text-sm text-gray-600">
+          <p>Lost your phone and your recovery codes? Ask an administrator to reset two-factor for your account.</p>
+          <p>
+            <Link to="/login" className="text-blue-600 hover:text-blue-800 font-medium">
+              Back to sign in
+            </Link>
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TwoFactorChallenge;
@@ -0,0 +1,233 @@
+import React, { useState, useEffect } from 'react';
+import { toast } from 'react-toastify';
+import { FaShieldAlt, FaKey, FaSyncAlt } from 'react-icons/fa';
+import authService from '../services/authService';
+import twoFactorService from '../services/twoFactorService';
+import type { TwoFactorSetup, TwoFactorStatus } from '../services/twoFactorService';
+import RecoveryCodes from '../components/RecoveryCodes';
+import { getApiErrorMessage } from '../utils/apiError';
+
+const TwoFactorSettings: React.FC = () => {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [setupCode, setSetupCode] = useState('');
+  // Shown once, right after they're issued
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const loadStatus = async () => {
+    try {
+      const response = await twoFactorService.getStatus();
+      setStatus(response.data);
+    } catch (error) {
+      console.error('Error loading two-factor status:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to load two-factor settings'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The stored user carries the two-factor flags the route guards read
+  const refreshAccount = async () => {
+    await Promise.all([loadStatus(), authService.getProfile()]);
+  };
+
+  const handleStartSetup = async () => {
+    try {
+      setBusy(true);
+      const response = await twoFactorService.startSetup();
+      setSetup(response.data);
+      setSetupCode('');
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to start two-factor setup'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleEnable = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    try {
+      setBusy(true);
+      const response = await twoFactorService.enable(setupCode);
+      setRecoveryCodes(response.data.recoveryCodes);
+      setSetup(null);
+      toast.success('Two-factor authentication is on');
+      await refreshAccount();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'That code didn\'t work. Check the time on your phone and try again.'));
+      setSetupCode('');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    const code = window.prompt('Enter a code from your authenticator app (or a recovery code) to turn off two-factor:')?.trim();
+    if (!code) return;
+
+    try {
+      setBusy(true);
+      await twoFactorService.disable(code);
+      toast.success('Two-factor authentication is off');
+      await refreshAccount();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to turn off two-factor authentication'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    if (!window.confirm('Generate new recovery codes? Your current codes will stop working.')) return;
+    const code = window.prompt('Enter a code from your authenticator app:')?.trim();
+    if (!code) return;
+
+    try {
+      setBusy(true);
+      const response = await twoFactorService.regenerateRecoveryCodes(code);
+      setRecoveryCodes(response.data.recoveryCodes);
+      toast.success('New recovery codes generated');
+      await loadStatus();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to generate new recovery codes'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-100 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <div className="p-6 max-w-3xl mx-auto">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900">Two-Factor Authentication</h1>
+          <p className="text-gray-600">Require a code from your phone as well as your password when you sign in</p>
+        </div>
+
+        {status?.required && !status.enabled && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6 text-sm text-yellow-800">
+            Your administrator requires two-factor authentication for your role. Set it up to continue using the app.
+          </div>
+        )}
+
+        {recoveryCodes && (
+          <div className="mb-6">
+            <RecoveryCodes codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center">
+              <FaShieldAlt className={`text-2xl mr-3 ${status?.enabled ? 'text-green-600' : 'text-gray-400'}`} />
+              <div>
+                <p className="font-medium text-gray-900">Authenticator app</p>
+                <p className="text-sm text-gray-500">{status?.enabled ? 'On' : 'Off'}</p>
+              </div>
+            </div>
+            {status?.enabled ? (
+              <button
+                onClick={handleDisable}
+                disabled={busy || status.required}
+                className="px-4 py-2 border border-red-300 text-red-700 rounded-lg hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                title={status.required ? 'Required for your role' : undefined}
+              >
+                Turn off
+              </button>
+            ) : !setup && (
+              <button
+                onClick={handleStartSetup}
+                disabled={busy}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                Set up
+              </button>
+            )}
+          </div>
+
+          {setup && (
+            <form onSubmit={handleEnable} className="border-t border-gray-200 pt-4">
+              <ol className="list-decimal list-inside text-sm text-gray-700 space-y-1 mb-4">
+                <li>Open an authenticator app such as Google Authenticator, Microsoft Authenticator or 1Password.</li>
+                <li>Scan this QR code, or enter the key below by hand.</li>
+                <li>Type the 6-digit code the app shows.</li>
+              </ol>
+              <div className="flex flex-col sm:flex-row items-center gap-6">
+                <img src={setup.qrCode} alt="QR code for your authenticator app" className="w-44 h-44 border border-gray-200 rounded" />
+                <div className="flex-1 w-full">
+                  <p className="text-xs text-gray-500 mb-1">Setup key</p>
+                  <p className="font-mono text-sm bg-gray-50 border border-gray-200 rounded px-3 py-2 break-all mb-4">{setup.secret}</p>
+                  <label htmlFor="setup-code" className="block text-sm font-medium text-gray-700 mb-1">Code from the app</label>
+                  <div className="flex gap-2">
+                    <input
+                      id="setup-code"
+                      value={setupCode}
+                      onChange={(e) => setSetupCode(e.target.value.replace(/\D/g, ''))}
+                      inputMode="numeric"
+                      autoComplete="one-time-code"
+                      maxLength={6}
+                      placeholder="123456"
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-lg font-mono tracking-widest focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      required
+                    />
+                    <button
+                      type="submit"
+                      disabled={busy || setupCode.length !== 6}
+                      className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      {busy ? 'Verifying...' : 'Turn on'}
+                    </button>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => setSetup(null)}
+                    className="mt-3 text-sm text-gray-500 hover:text-gray-700"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            </form>
+          )}
+
+          {status?.enabled && (
+            <div className="border-t border-gray-200 pt-4 flex items-center justify-between">
+              <div className="flex items-center">
+                <FaKey className="text-gray-400 mr-3" />
+                <div>
+                  <p className="font-medium text-gray-900">Recovery codes</p>
+                  <p className={`text-sm ${status.recoveryCodesRemaining <= 2 ? 'text-red-600' : 'text-gray-500'}`}>
+                    {status.recoveryCodesRemaining} unused
+                  </p>
+                </div>
+              </div>
+              <button
+                onClick={handleRegenerate}
+                disabled={busy}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              >
+                <FaSyncAlt className="mr-2" />
+                Regenerate
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TwoFactorSettings;
@@ -1,4 +1,6 @@
 import api from './api';
+import type { UserRole } from '../utils/permissions';
+import type { LoginHistoryResponse, SessionsResponse } from './securityService';
 
 export interface AdminDashboardData {
   overallStats: {
@@ -121,6 +123,40 @@ export interface Task {
   overviewers: Array<{ user: { name: string; email: string } }>;
 }
 
+export type ReminderPriority = 'low' | 'medium' | 'high' | 'urgent';
+
+export type EscalationTarget = 'creator' | 'hod' | 'admin';
+
+export interface EscalationStep {
+  target: EscalationTarget;
+  afterDays: number; // Days past the deadline before this person is told
+}
+
+export interface ReminderRules {
+  reminders: Record<ReminderPriority, number[]>; // Hours before the deadline each reminder is sent
+  escalation: EscalationStep[]; // Ordered from first to last
+}
+
+// An open task the scheduler will remind or escalate about
+export interface ReminderTask {
+  _id: string;
+  title: string;
+  status: string;
+  priority: ReminderPriority;
+  deadline: string;
+  createdBy: { _id: string; name: string };
+  assignedTo: Array<{ user: { _id: string; name: string } }>;
+  department?: {
+    _id: string;
+    name: string;
+    hod?: { _id?: string; name: string };
+  };
+}
+
+export interface TwoFactorPolicy {
+  requiredRoles: UserRole[]; // Users in these roles must set up two-factor before using the app
+}
+
 export const adminService = {
   // Dashboard
   getDashboard: () => 
@@ -190,6 +226,17 @@ export const adminService = {
   }) => 
     api.get<{ success: boolean; data: SystemReport }>('/admin/reports/system', { params }),
 
+  // Reminder rules
+  getReminderRules: () =>
+    api.get<{ success: boolean; data: ReminderRules }>('/admin/reminder-rules'),
+
+  updateReminderRules: (rules: ReminderRules) =>
+    api.put<{ success: boolean; message: string; data: ReminderRules }>('/admin/reminder-rules', rules),
+
+  // Open tasks due within the next `days` days, plus overdue ones still being escalated
+  getReminderTasks: (params?: { days?: number; department?: string }) =>
+    api.get<{ success: boolean; data: { tasks: ReminderTask[] } }>('/admin/reminders/tasks', { params }),
+
   // User Management
   toggleUserAccess: (userId: string, isActive: boolean) =>
     api.put(`/super-admin/users/${userId}/toggle-access`, { isActive }),
@@ -219,6 +266,30 @@ export const adminService = {
       } 
     }>('/super-admin/employees', { params }),
 
+  // Remove a user's two-factor setup so they can sign in with just their password and enrol again
+  resetUserTwoFactor: (userId: string) =>
+    api.post<{ success: boolean; message: string }>(`/admin/employees/${userId}/2fa/reset`),
+
+  // An employee's signed-in devices and sign-in history
+  getEmployeeSessions: (userId: string) =>
+    api.get<SessionsResponse>(`/admin/employees/${userId}/sessions`),
+
+  revokeEmployeeSession: (userId: string, sessionId: string) =>
+    api.delete<{ success: boolean; message: string }>(`/admin/employees/${userId}/sessions/${sessionId}`),
+
+  revokeAllEmployeeSessions: (userId: string) =>
+    api.post<{ success: boolean; message: string }>(`/admin/employees/${userId}/sessions/revoke-all`),
+
+  getEmployeeLoginHistory: (userId: string, params?: { page?: number; limit?: number }) =>
+    api.get<LoginHistoryResponse>(`/admin/employees/${userId}/login-history`, { params }),
+
+  // Security
+  getTwoFactorPolicy: () =>
+    api.get<{ success: boolean; data: TwoFactorPolicy }>('/admin/security/two-factor'),
+
+  updateTwoFactorPolicy: (policy: TwoFactorPolicy) =>
+    api.put<{ success: boolean; message: string; data: TwoFactorPolicy }>('/admin/security/two-factor', policy),
+
   // Employee detail methods
   getEmployeeDetail: (employeeId: string) =>
     api.get(`/admin/employees/${employeeId}`),
@@ -1,4 +1,7 @@
 import axios from 'axios';
+import type { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import sessionService from './sessionService';
+import { isPublicRoute } from '../utils/publicRoutes';
 
 // Create axios instance with base configuration
 const api = axios.create({
@@ -9,10 +12,31 @@ const api = axios.create({
   },
 });
 
+// Auth calls that must not trigger a token refresh when they return 401
+const AUTH_ENDPOINTS = ['/auth/login', '/auth/2fa/verify', '/auth/register', '/auth/refresh', '/auth/logout', '/auth/forgot-password', '/auth/reset-password'];
+
+interface RetriableRequestConfig extends InternalAxiosRequestConfig {
+  _retried?: boolean;
+}
+
+const endSessionAndRedirect = () => {
+  sessionService.endSession();
+
+  // Only redirect if we're not already on a public route
+  if (!isPublicRoute(window.location.pathname)) {
+    window.location.href = '/login';
+  }
+};
+
 // Request interceptor to add auth token
 api.interceptors.request.use(
-  (config) => {
-    const token = localStorage.getItem('authToken');
+  async (config) => {
+    // Requests made while the token is being renewed wait for the new one
+    if (!AUTH_ENDPOINTS.some(endpoint => config.url?.startsWith(endpoint))) {
+      await sessionService.waitForRefresh();
+    }
+
+    const token = sessionService.getAccessToken();
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
@@ -23,26 +47,49 @@ api.interceptors.request.use(
   }
 );
 
-// Response interceptor to handle errors
+// Response interceptor: renew an expired access token once and replay the request
 api.interceptors.response.use(
   (response) => {
     return response;
   },
-  (error) => {
-    if (error.response?.status === 401) {
-      // Token expired or invalid
-      localStorage.removeItem('authToken');
-      localStorage.removeItem('user');
-      
-      // Only redirect if we're not already on a public route
-      const currentPath = window.location.pathname;
-      const publicRoutes = ['/login', '/signup'];
-      
-      if (!publicRoutes.includes(currentPath)) {
-        window.location.href = '/login';
+  async (error: AxiosError) => {
+    const request = error.config as RetriableRequestConfig | undefined;
+    const isAuthEndpoint = AUTH_ENDPOINTS.some(endpoint => request?.url?.startsWith(endpoint));
+
+    if (error.response?.status !== 401 || !request || isAuthEndpoint) {
+      return Promise.reject(error);
+    }
+    if (request._retried) {
+      // Still unauthorized with a fresh token, so the session really is over
+      endSessionAndRedirect();
+      return Promise.reject(error);
+    }
+    request._retried = true;
+
+    // Another tab may have renewed the token since this request went out
+    const sentToken = String(request.headers.Authorization || '').replace('Bearer ', '');
+    const getNewerToken = () => {
+      const currentToken = sessionService.getAccessToken();
+      return currentToken && currentToken !== sentToken ? currentToken : null;
+    };
+
+    try {
+      const token = getNewerToken() || await sessionService.refreshAccessToken();
+
+      request.headers.Authorization = `Bearer ${token}`;
+      return api(request);
+    } catch (refreshError) {
+      // Our refresh may have lost a race with another tab's, which then stored a working token
+      const newerToken = getNewerToken();
+      if (newerToken) {
+        request.headers.Authorization = `Bearer ${newerToken}`;
+        return api(request);
       }
+
+      console.warn('Session could not be renewed:', refreshError);
+      endSessionAndRedirect();
+      return Promise.reject(error);
     }
-    return Promise.reject(error);
   }
 );
 
@@ -1,30 +1,41 @@
 import api from './api';
+import sessionService from './sessionService';
+import type { UserRole } from '../utils/permissions';
 
 export interface LoginData {
   email: string;
   password: string;
 }
 
+// Self-signups always start as employees; other roles come from an invitation
 export interface RegisterData {
   name: string;
   email: string;
   password: string;
   phone: string;
-  role: string;
   departmentId: string;
 }
 
+// Signing up from an invitation link; the email, role and department come from the invitation
+export interface AcceptInvitationData {
+  name: string;
+  password: string;
+  phone: string;
+}
+
 export interface User {
   _id: string;
   name: string;
   email: string;
   phone: string;
-  role: 'employee' | 'hod' | 'admin' | 'super_admin';
+  role: UserRole;
   department: {
     _id: string;
     name: string;
   };
   isActive: boolean;
+  twoFactorEnabled?: boolean;
+  twoFactorRequired?: boolean; // The role requires two-factor; set up before anything else
   createdAt: string;
   updatedAt: string;
 }
@@ -35,9 +46,40 @@ export interface AuthResponse {
   data: {
     user: User;
     token: string;
+    refreshToken?: string;
+    refreshTokenExpiresAt?: string;
+  };
+}
+
+// Returned by login instead of a session when the account has two-factor on
+export interface TwoFactorChallenge {
+  success: boolean;
+  message: string;
+  data: {
+    twoFactorRequired: true;
+    challengeToken: string; // Short-lived proof the password was right, exchanged with a code
+  };
+}
+
+export type LoginResponse = AuthResponse | TwoFactorChallenge;
+
+export const isTwoFactorChallenge = (response: LoginResponse): response is TwoFactorChallenge =>
+  'twoFactorRequired' in response.data && response.data.twoFactorRequired;
+
+// Returned by register instead of a session when the signup has to be approved first
+export interface PendingApprovalResponse {
+  success: boolean;
+  message: string;
+  data: {
+    pendingApproval: true;
   };
 }
 
+export type RegisterResponse = AuthResponse | PendingApprovalResponse;
+
+export const isPendingApproval = (response: RegisterResponse): response is PendingApprovalResponse =>
+  'pendingApproval' in response.data && response.data.pendingApproval;
+
 export interface Department {
   _id: string;
   name: string;
@@ -45,55 +87,144 @@ export interface Department {
 }
 
 class AuthService {
-  async login(credentials: LoginData): Promise<AuthResponse> {
+  private verification: Promise<User> | null = null;
+  private verified = false;
+
+  async login(credentials: LoginData): Promise<LoginResponse> {
     const response = await api.post('/auth/login', credentials);
     
-    if (response.data.success) {
-      // Store auth data in localStorage
-      localStorage.setItem('authToken', response.data.data.token);
-      localStorage.setItem('user', JSON.stringify(response.data.data.user));
+    // With two-factor on, the session only starts once the code is checked
+    if (response.data.success && !isTwoFactorChallenge(response.data)) {
+      // Store auth data and let other open tabs know
+      sessionService.startSession(response.data.data, response.data.data.user);
+      this.markVerified(response.data.data.user);
     }
     
     return response.data;
   }
 
-  async register(userData: RegisterData): Promise<AuthResponse> {
+  async register(userData: RegisterData): Promise<RegisterResponse> {
     const response = await api.post('/auth/register', userData);
     
-    if (response.data.success) {
-      // Store auth data in localStorage
-      localStorage.setItem('authToken', response.data.data.token);
-      localStorage.setItem('user', JSON.stringify(response.data.data.user));
+    // Signups waiting for approval can't sign in yet
+    if (response.data.success && !isPendingApproval(response.data)) {
+      // Store auth data and let other open tabs know
+      sessionService.startSession(response.data.data, response.data.data.user);
+      this.markVerified(response.data.data.user);
     }
     
     return response.data;
   }
 
+  /**
+   * Create the account an invitation was sent for and sign straight in
+   */
+  async acceptInvitation(token: string, data: AcceptInvitationData): Promise<AuthResponse> {
+    const response = await api.post(`/invitations/token/${encodeURIComponent(token)}/accept`, data);
+
+    if (response.data.success) {
+      sessionService.startSession(response.data.data, response.data.data.user);
+      this.markVerified(response.data.data.user);
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Finish a two-factor login with a code from the authenticator app, or a recovery code
+   */
+  async verifyTwoFactor(challengeToken: string, code: string, useRecoveryCode = false): Promise<AuthResponse> {
+    const response = await api.post('/auth/2fa/verify', {
+      challengeToken,
+      code,
+      type: useRecoveryCode ? 'recovery' : 'totp',
+    });
+
+    if (response.data.success) {
+      sessionService.startSession(response.data.data, response.data.data.user);
+      this.markVerified(response.data.data.user);
+    }
+
+    return response.data;
+  }
+
   async logout(): Promise<void> {
     try {
-      await api.post('/auth/logout');
+      // Sending the refresh token lets the server revoke it, not just the access token
+      await api.post('/auth/logout', { refreshToken: sessionService.getRefreshToken() });
     } catch (error) {
       // Continue with logout even if API call fails
       console.error('Logout API error:', error);
     } finally {
-      // Clear local storage
-      localStorage.removeItem('authToken');
-      localStorage.removeItem('user');
+      this.clearSession();
     }
   }
 
+  /**
+   * Sign out on every device, this one included
+   */
+  async logoutEverywhere(): Promise<void> {
+    await api.post('/auth/sessions/revoke-all');
+    this.clearSession();
+  }
+
   async getProfile(): Promise<{ success: boolean; data: { user: User } }> {
     const response = await api.get('/auth/profile');
+    if (response.data.success) {
+      // Keep the stored copy (and other tabs) up to date with role or department changes
+      sessionService.updateUser(response.data.data.user);
+    }
     return response.data;
   }
 
+  /**
+   * Confirm the stored session with the server and refresh the cached user from it.
+   * Only checked once per page load; later callers share the first result.
+   */
+  verifySession(): Promise<User> {
+    if (!this.verification) {
+      this.verification = this.getProfile()
+        .then(response => {
+          this.verified = true;
+          return response.data.user;
+        })
+        .catch(error => {
+          // Let the next caller try again
+          this.verification = null;
+          throw error;
+        });
+    }
+    return this.verification;
+  }
+
+  /**
+   * Whether the cached user has been confirmed by the server since the page loaded
+   */
+  isSessionVerified(): boolean {
+    return this.verified && this.isAuthenticated();
+  }
+
+  /**
+   * Renew the session before it expires
+   */
+  async extendSession(): Promise<void> {
+    await sessionService.refreshAccessToken();
+  }
+
+  /**
+   * When the session ends unless it's extended, in ms since epoch; null if unknown
+   */
+  getSessionExpiry(): number | null {
+    return sessionService.getSessionExpiry();
+  }
+
   getCurrentUser(): User | null {
     const userStr = localStorage.getItem('user');
     return userStr ? JSON.parse(userStr) : null;
   }
 
   getToken(): string | null {
-    return localStorage.getItem('authToken');
+    return sessionService.getAccessToken();
   }
 
   isAuthenticated(): boolean {
@@ -131,6 +262,19 @@ class AuthService {
     const response = await api.post('/auth/reset-password', { email, otp, newPassword });
     return response.data;
   }
+
+  // Clear local storage here and in every other tab
+  private clearSession(): void {
+    sessionService.endSession();
+    this.verification = null;
+    this.verified = false;
+  }
+
+  // A login or sign-up response comes straight from the server, so there is nothing left to check
+  private markVerified(user: User): void {
+    this.verification = Promise.resolve(user);
+    this.verified = true;
+  }
 }
 
 export default new AuthService();
@@ -0,0 +1,101 @@
+import api from './api';
+import type { UserRole } from '../utils/permissions';
+
+export type InvitationStatus = 'pending' | 'accepted' | 'revoked' | 'expired';
+
+export interface Invitation {
+  _id: string;
+  email: string;
+  role: UserRole;
+  department: {
+    _id: string;
+    name: string;
+  };
+  invitedBy: {
+    _id: string;
+    name: string;
+  };
+  status: InvitationStatus;
+  expiresAt: string;
+  createdAt: string;
+}
+
+export interface CreateInvitationData {
+  email: string;
+  role: UserRole;
+  departmentId: string;
+}
+
+// What the invitee sees before accepting; the role and department are fixed by the invitation
+export interface InvitationPreview {
+  email: string;
+  role: UserRole;
+  department: {
+    _id: string;
+    name: string;
+  };
+  invitedBy: {
+    name: string;
+  };
+  expiresAt: string;
+}
+
+export interface InvitationResponse {
+  success: boolean;
+  message: string;
+  data: {
+    invitation: Invitation;
+    inviteUrl?: string; // Returned so the link can be shared another way if the email doesn't arrive
+  };
+}
+
+export interface InvitationsResponse {
+  success: boolean;
+  data: {
+    invitations: Invitation[];
+  };
+}
+
+class InvitationService {
+  /**
+   * Invitations the current user can see: all of them for admins, their department's for HODs
+   */
+  async getInvitations(params?: { status?: InvitationStatus }): Promise<InvitationsResponse> {
+    const response = await api.get('/invitations', { params });
+    return response.data;
+  }
+
+  /**
+   * Email someone a sign-up link with their role and department already set
+   */
+  async createInvitation(data: CreateInvitationData): Promise<InvitationResponse> {
+    const response = await api.post('/invitations', data);
+    return response.data;
+  }
+
+  /**
+   * Send the email again with a fresh link; the old link stops working
+   */
+  async resendInvitation(invitationId: string): Promise<InvitationResponse> {
+    const response = await api.post(`/invitations/${invitationId}/resend`);
+    return response.data;
+  }
+
+  /**
+   * Cancel an invitation that hasn't been accepted yet
+   */
+  async revokeInvitation(invitationId: string): Promise<{ success: boolean; message: string }> {
+    const response = await api.delete(`/invitations/${invitationId}`);
+    return response.data;
+  }
+
+  /**
+   * Look up an invitation from the token in its link; doesn't need a login
+   */
+  async getInvitationByToken(token: string): Promise<{ success: boolean; data: InvitationPreview }> {
+    const response = await api.get(`/invitations/token/${encodeURIComponent(token)}`);
+    return response.data;
+  }
+}
+
+export default new InvitationService();
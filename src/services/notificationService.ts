@@ -1,7 +1,4 @@
-import axios from 'axios';
-import type { AxiosResponse } from 'axios';
-
-const API_BASE_URL = (import.meta.env?.VITE_API_URL as string) || 'http://localhost:5000/api';
+import api from './api';
 
 // Types
 export interface Notification {
@@ -11,6 +8,8 @@ export interface Notification {
     type: NotificationType;
     priority: NotificationPriority;
     isRead: boolean;
+    isArchived?: boolean;
+    snoozedUntil?: string; // Hidden from the unread list until this time
     createdAt: string;
     updatedAt?: string;
     channels: {
@@ -51,17 +50,67 @@ export type NotificationType =
     | 'task_transferred'
     | 'task_deadline_reminder'
     | 'task_overdue'
+    | 'task_unblocked'
     | 'status_changed'
     | 'stage_changed'
+    | 'comment_added'
+    | 'remark_mention'
+    | 'signup_request'
     | 'system_announcement';
 
 export type NotificationPriority = 'low' | 'medium' | 'high' | 'urgent';
 
+// Labels for every notification type, in the order filters list them
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+    'task_assigned': 'Task Assigned',
+    'task_completed': 'Task Completed',
+    'task_approved': 'Task Approved',
+    'task_rejected': 'Task Rejected',
+    'task_transferred': 'Task Transferred',
+    'task_deadline_reminder': 'Deadline Reminder',
+    'task_overdue': 'Task Overdue',
+    'task_unblocked': 'Task Unblocked',
+    'status_changed': 'Status Changed',
+    'stage_changed': 'Stage Changed',
+    'comment_added': 'Comment Added',
+    'remark_mention': 'Mentioned in Remark',
+    'signup_request': 'Sign-up Awaiting Approval',
+    'system_announcement': 'Announcement'
+};
+
+// Names older notifications may still carry, mapped to the canonical type
+const LEGACY_NOTIFICATION_TYPES: Record<string, NotificationType> = {
+    'deadline_reminder': 'task_deadline_reminder'
+};
+
+/**
+ * Where opening a notification should take the user, if anywhere
+ */
+export const getNotificationLink = (notification: Notification): string | null => {
+    if (notification.relatedTask) return `/tasks/${notification.relatedTask._id}`;
+    if (notification.type === 'signup_request') return '/invitations?tab=pending';
+    return null;
+};
+
 export interface NotificationParams {
     page?: number;
     limit?: number;
     unreadOnly?: boolean;
     type?: NotificationType;
+    priority?: NotificationPriority;
+    relatedTask?: string;
+    search?: string;
+    archived?: boolean;
+}
+
+export type NotificationBulkAction = 'read' | 'unread' | 'archive' | 'unarchive' | 'delete';
+
+export interface NotificationBulkResponse {
+    success: boolean;
+    message: string;
+    data: {
+        updated: number;
+    };
 }
 
 export interface NotificationResponse {
@@ -82,6 +131,11 @@ export interface UnreadCountResponse {
     };
 }
 
+export interface NotificationActionResponse {
+    success: boolean;
+    message: string;
+}
+
 export interface NotificationTypeOption {
     value: NotificationType;
     label: string;
@@ -97,155 +151,265 @@ export interface NotificationGroups {
     [key: string]: Notification[];
 }
 
+export type NotificationChannel = 'inApp' | 'email' | 'browser';
+
+export type DigestFrequency = 'instant' | 'hourly' | 'daily';
+
+export interface QuietHours {
+    enabled: boolean;
+    start: string; // "HH:mm" in the user's timezone
+    end: string;
+}
+
+export interface NotificationPreferences {
+    channels: Record<NotificationType, Record<NotificationChannel, boolean>>;
+    quietHours: QuietHours;
+    digest: DigestFrequency; // How often email notifications are batched
+    minimumPriority: NotificationPriority;
+    soundEnabled: boolean;
+    timezone: string;
+}
+
+export interface NotificationPreferencesResponse {
+    success: boolean;
+    message?: string;
+    data: NotificationPreferences;
+}
+
+const PRIORITY_RANK: Record<NotificationPriority, number> = {
+    'low': 0,
+    'medium': 1,
+    'high': 2,
+    'urgent': 3
+};
+
+// Last known preferences, so alerts can be checked without waiting on the server
+const PREFERENCES_STORAGE_KEY = 'notificationPreferences';
+
 class NotificationService {
     /**
      * Get notifications for the authenticated user
      */
     static async getNotifications(params: NotificationParams = {}): Promise<NotificationResponse> {
-        try {
-            const response: AxiosResponse<NotificationResponse> = await axios.get(
-                `${API_BASE_URL}/notifications`,
-                {
-                    params,
-                    headers: {
-                        'Authorization': `Bearer ${localStorage.getItem('token')}`
-                    }
-                }
-            );
-            return response.data;
-        } catch (error: any) {
-            console.error('Error fetching notifications:', error);
-            
-            // Check if it's an axios error with response
-            if (error.response) {
-                // Server responded with error status
-                const errorData = {
-                    status: error.response.status,
-                    message: error.response.data?.message || `HTTP ${error.response.status} Error`,
-                    data: error.response.data
-                };
-                throw errorData;
-            } else if (error.request) {
-                // Request was made but no response received
-                throw { message: 'Network error - please check your connection' };
-            } else {
-                // Something else happened
-                throw { message: error.message || 'Failed to fetch notifications' };
+        const response = await api.get<NotificationResponse>('/notifications', {
+            params: {
+                ...params,
+                unreadOnly: params.unreadOnly || undefined,
+                archived: params.archived || undefined,
+                search: params.search?.trim() || undefined
             }
-        }
+        });
+        return {
+            ...response.data,
+            data: response.data.data.map(NotificationService.normalizeNotification)
+        };
     }
 
     /**
      * Get unread notification count
      */
     static async getUnreadCount(): Promise<number> {
-        try {
-            const response: AxiosResponse<UnreadCountResponse> = await axios.get(
-                `${API_BASE_URL}/notifications/unread-count`,
-                {
-                    headers: {
-                        'Authorization': `Bearer ${localStorage.getItem('token')}`
-                    }
-                }
-            );
-            return response.data.data.unreadCount;
-        } catch (error: any) {
-            console.error('Error fetching unread count:', error);
-            
-            // Check if it's an axios error with response
-            if (error.response) {
-                const errorData = {
-                    status: error.response.status,
-                    message: error.response.data?.message || `HTTP ${error.response.status} Error`,
-                    data: error.response.data
-                };
-                throw errorData;
-            } else if (error.request) {
-                throw { message: 'Network error - please check your connection' };
-            } else {
-                throw { message: error.message || 'Failed to fetch unread count' };
-            }
-        }
+        const response = await api.get<UnreadCountResponse>('/notifications/unread-count');
+        return response.data.data.unreadCount;
     }
 
     /**
      * Mark a notification as read
      */
-    static async markAsRead(notificationId: string): Promise<any> {
-        try {
-            const response = await axios.put(
-                `${API_BASE_URL}/notifications/${notificationId}/read`,
-                {},
-                {
-                    headers: {
-                        'Authorization': `Bearer ${localStorage.getItem('token')}`
-                    }
-                }
-            );
-            return response.data;
-        } catch (error: any) {
-            console.error('Error marking notification as read:', error);
-            throw error.response?.data || { message: 'Failed to mark notification as read' };
-        }
+    static async markAsRead(notificationId: string): Promise<NotificationActionResponse> {
+        const response = await api.patch(`/notifications/${notificationId}/read`);
+        return response.data;
     }
 
     /**
      * Mark all notifications as read
      */
-    static async markAllAsRead(): Promise<any> {
-        try {
-            const response = await axios.put(
-                `${API_BASE_URL}/notifications/mark-all-read`,
-                {},
-                {
-                    headers: {
-                        'Authorization': `Bearer ${localStorage.getItem('token')}`
-                    }
-                }
-            );
-            return response.data;
-        } catch (error: any) {
-            console.error('Error marking all notifications as read:', error);
-            throw error.response?.data || { message: 'Failed to mark all notifications as read' };
-        }
+    static async markAllAsRead(): Promise<NotificationActionResponse> {
+        const response = await api.patch('/notifications/mark-all-read');
+        return response.data;
+    }
+
+    /**
+     * Mark a notification as unread again
+     */
+    static async markAsUnread(notificationId: string): Promise<NotificationActionResponse> {
+        const response = await api.patch(`/notifications/${notificationId}/unread`);
+        return response.data;
+    }
+
+    /**
+     * Apply one action to many notifications at once
+     */
+    static async bulkUpdate(notificationIds: string[], action: NotificationBulkAction): Promise<NotificationBulkResponse> {
+        const response = await api.post('/notifications/bulk', { ids: notificationIds, action });
+        return response.data;
+    }
+
+    /**
+     * Delete a notification
+     */
+    static async deleteNotification(notificationId: string): Promise<NotificationActionResponse> {
+        const response = await api.delete(`/notifications/${notificationId}`);
+        return response.data;
+    }
+
+    /**
+     * Hide a notification until the given time, when it comes back as unread
+     */
+    static async snoozeNotification(notificationId: string, until: string): Promise<NotificationActionResponse> {
+        const response = await api.patch(`/notifications/${notificationId}/snooze`, { until });
+        return response.data;
     }
 
     /**
      * Get notification types
      */
     static async getNotificationTypes(): Promise<NotificationTypeOption[]> {
-        try {
-            const response = await axios.get(`${API_BASE_URL}/notifications/types`, {
-                headers: {
-                    'Authorization': `Bearer ${localStorage.getItem('token')}`
-                }
-            });
-            return response.data.data;
-        } catch (error: any) {
-            console.error('Error fetching notification types:', error);
-            throw error.response?.data || { message: 'Failed to fetch notification types' };
-        }
+        const response = await api.get('/notifications/types');
+        return response.data.data;
     }
 
     /**
      * Create a test notification (development only)
      */
-    static async createTestNotification(): Promise<any> {
+    static async createTestNotification(): Promise<NotificationActionResponse> {
+        const response = await api.post('/notifications/test');
+        return response.data;
+    }
+
+    /**
+     * Default preferences: everything in-app and by email, browser pop-ups off
+     */
+    static getDefaultPreferences(): NotificationPreferences {
+        const channels = {} as NotificationPreferences['channels'];
+        (Object.keys(NOTIFICATION_TYPE_LABELS) as NotificationType[]).forEach(type => {
+            channels[type] = { inApp: true, email: true, browser: false };
+        });
+
+        return {
+            channels,
+            quietHours: { enabled: false, start: '22:00', end: '07:00' },
+            digest: 'instant',
+            minimumPriority: 'low',
+            // Carry over the old sound switch
+            soundEnabled: localStorage.getItem('notificationSoundEnabled') !== 'false',
+            timezone: Intl.DateTimeFormat().resolvedOptions().timeZone
+        };
+    }
+
+    /**
+     * Get the current user's notification preferences
+     */
+    static async getPreferences(): Promise<NotificationPreferences> {
+        const response = await api.get<NotificationPreferencesResponse>('/notifications/preferences');
+        const preferences = NotificationService.withDefaults(response.data.data);
+        NotificationService.cachePreferences(preferences);
+        return preferences;
+    }
+
+    /**
+     * Save the current user's notification preferences
+     */
+    static async updatePreferences(preferences: NotificationPreferences): Promise<NotificationPreferences> {
+        const response = await api.put<NotificationPreferencesResponse>('/notifications/preferences', preferences);
+        const saved = NotificationService.withDefaults(response.data.data);
+        NotificationService.cachePreferences(saved);
+        return saved;
+    }
+
+    /**
+     * Preferences from the last load or save, falling back to the defaults
+     */
+    static getCachedPreferences(): NotificationPreferences {
         try {
-            const response = await axios.post(
-                `${API_BASE_URL}/notifications/test`,
-                {},
-                {
-                    headers: {
-                        'Authorization': `Bearer ${localStorage.getItem('token')}`
-                    }
-                }
-            );
-            return response.data;
-        } catch (error: any) {
-            console.error('Error creating test notification:', error);
-            throw error.response?.data || { message: 'Failed to create test notification' };
+            const stored = localStorage.getItem(PREFERENCES_STORAGE_KEY);
+            if (stored) {
+                return NotificationService.withDefaults(JSON.parse(stored));
+            }
+        } catch (error) {
+            console.debug('Could not read stored notification preferences:', error);
+        }
+        return NotificationService.getDefaultPreferences();
+    }
+
+    /**
+     * Whether the time falls inside quiet hours, including ranges that cross midnight
+     */
+    static isInQuietHours(quietHours: QuietHours, now: Date = new Date()): boolean {
+        if (!quietHours.enabled || quietHours.start === quietHours.end) {
+            return false;
         }
+
+        const toMinutes = (time: string) => {
+            const [hours, minutes] = time.split(':').map(Number);
+            return hours * 60 + minutes;
+        };
+        const current = now.getHours() * 60 + now.getMinutes();
+        const start = toMinutes(quietHours.start);
+        const end = toMinutes(quietHours.end);
+
+        return start < end
+            ? current >= start && current < end
+            : current >= start || current < end;
+    }
+
+    /**
+     * Whether a notification should alert the user on a channel right now
+     */
+    static shouldNotify(
+        notification: Pick<Notification, 'type' | 'priority'>,
+        channel: NotificationChannel,
+        preferences: NotificationPreferences = NotificationService.getCachedPreferences(),
+        now: Date = new Date()
+    ): boolean {
+        if (preferences.channels[notification.type]?.[channel] === false) {
+            return false;
+        }
+        if (PRIORITY_RANK[notification.priority] < PRIORITY_RANK[preferences.minimumPriority]) {
+            return false;
+        }
+        // Urgent notifications still come through during quiet hours
+        return notification.priority === 'urgent' || !NotificationService.isInQuietHours(preferences.quietHours, now);
+    }
+
+    private static withDefaults(preferences: Partial<NotificationPreferences>): NotificationPreferences {
+        const defaults = NotificationService.getDefaultPreferences();
+        const channels = { ...defaults.channels };
+        (Object.keys(channels) as NotificationType[]).forEach(type => {
+            channels[type] = { ...channels[type], ...preferences.channels?.[type] };
+        });
+
+        return {
+            ...defaults,
+            ...preferences,
+            channels,
+            quietHours: { ...defaults.quietHours, ...preferences.quietHours }
+        };
+    }
+
+    private static cachePreferences(preferences: NotificationPreferences): void {
+        localStorage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify(preferences));
+        localStorage.setItem('notificationSoundEnabled', String(preferences.soundEnabled));
+    }
+
+    /**
+     * Bring a notification from the API or the realtime stream into the canonical shape:
+     * legacy type names are mapped and `isRead` always agrees with `channels.inApp.read`
+     */
+    static normalizeNotification(notification: Notification): Notification {
+        const isRead = notification.isRead ?? notification.channels?.inApp?.read ?? false;
+        return {
+            ...notification,
+            type: LEGACY_NOTIFICATION_TYPES[notification.type] || notification.type,
+            isRead,
+            channels: {
+                ...notification.channels,
+                inApp: {
+                    ...notification.channels?.inApp,
+                    read: isRead
+                }
+            }
+        };
     }
 
     /**
@@ -284,8 +448,12 @@ class NotificationService {
             'task_transferred': '🔄',
             'task_deadline_reminder': '⏰',
             'task_overdue': '🚨',
+            'task_unblocked': '🔓',
             'status_changed': '🔄',
             'stage_changed': '📊',
+            'comment_added': '💬',
+            'remark_mention': '🏷️',
+            'signup_request': '🙋',
             'system_announcement': '📢'
         };
         return iconMap[type] || '📬';
@@ -303,8 +471,12 @@ class NotificationService {
             'task_transferred': 'orange',
             'task_deadline_reminder': 'yellow',
             'task_overdue': 'red',
+            'task_unblocked': 'green',
             'status_changed': 'blue',
             'stage_changed': 'purple',
+            'comment_added': 'blue',
+            'remark_mention': 'purple',
+            'signup_request': 'orange',
             'system_announcement': 'gray'
         };
         return colorMap[type] || 'gray';
@@ -425,12 +597,15 @@ class NotificationService {
     /**
      * Create notification sound (if enabled)
      */
-    static playNotificationSound(): void {
+    static playNotificationSound(notification?: Pick<Notification, 'type' | 'priority'>): void {
         try {
-            // Check if user has enabled sound notifications
-            const soundEnabled = localStorage.getItem('notificationSoundEnabled') !== 'false';
+            // Check the user's preferences for sound, quiet hours and the notification itself
+            const preferences = NotificationService.getCachedPreferences();
+            const allowed = preferences.soundEnabled && (notification
+                ? NotificationService.shouldNotify(notification, 'inApp', preferences)
+                : !NotificationService.isInQuietHours(preferences.quietHours));
             
-            if (soundEnabled && 'AudioContext' in window) {
+            if (allowed && 'AudioContext' in window) {
                 // Create a simple notification sound
                 const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
                 const oscillator = audioContext.createOscillator();
@@ -454,15 +629,21 @@ class NotificationService {
     }
 
     /**
-     * Show browser notification (if permission granted)
+     * Show browser notification (if permission granted and the user's preferences allow it)
      */
     static showBrowserNotification(
         title: string, 
         message: string, 
-        options: NotificationOptions = {}
+        options: NotificationOptions = {},
+        notification?: Pick<Notification, 'type' | 'priority'>
     ): void {
         try {
-            if ('Notification' in window && Notification.permission === 'granted') {
+            const preferences = NotificationService.getCachedPreferences();
+            const allowed = notification
+                ? NotificationService.shouldNotify(notification, 'browser', preferences)
+                : !NotificationService.isInQuietHours(preferences.quietHours);
+
+            if (allowed && 'Notification' in window && Notification.permission === 'granted') {
                 new Notification(title, {
                     body: message,
                     icon: '/favicon.ico',
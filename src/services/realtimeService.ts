@@ -0,0 +1,218 @@
+import type { Notification } from './notificationService';
+import sessionService from './sessionService';
+
+// Streams from the same host as the REST API unless pointed elsewhere (e.g. a local mock server)
+const REALTIME_URL =
+  import.meta.env.VITE_REALTIME_URL ||
+  `${import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000/api'}/realtime/stream`;
+
+// Reconnect delays grow from 1s up to 30s, with some jitter so clients don't reconnect in lockstep
+const BASE_RECONNECT_DELAY = 1000;
+const MAX_RECONNECT_DELAY = 30000;
+
+// After this many failed attempts in a row, listeners fall back to polling until the stream recovers
+const FAILURES_BEFORE_POLLING = 3;
+
+// Types
+export type RealtimeStatus = 'idle' | 'connecting' | 'open' | 'polling';
+
+export interface RealtimeEventMap {
+  'notification.created': { notification: Notification };
+  'notification.unread_count': { unreadCount: number };
+  'task.updated': { taskId: string };
+  'task.remark_added': { taskId: string; remarkId?: string; userId?: string };
+  'task.stage_changed': { taskId: string; stage: string; userId?: string };
+  'task.approval_decided': { taskId: string; approval: 'approved' | 'rejected'; userId?: string };
+}
+
+export type RealtimeEventType = keyof RealtimeEventMap;
+
+export type RealtimeEvent = {
+  [K in RealtimeEventType]: { type: K; payload: RealtimeEventMap[K] };
+}[RealtimeEventType];
+
+export type TaskRealtimeEvent = Extract<RealtimeEvent, { type: `task.${string}` }>;
+
+export const TASK_EVENT_TYPES: TaskRealtimeEvent['type'][] = [
+  'task.updated',
+  'task.remark_added',
+  'task.stage_changed',
+  'task.approval_decided',
+];
+
+type Listener<K extends RealtimeEventType> = (payload: RealtimeEventMap[K]) => void;
+type StatusListener = (status: RealtimeStatus) => void;
+
+class RealtimeService {
+  private source: EventSource | null = null;
+  private status: RealtimeStatus = 'idle';
+  private failures = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Map<RealtimeEventType, Set<Listener<RealtimeEventType>>>();
+  private statusListeners = new Set<StatusListener>();
+  private subscriberCount = 0;
+
+  /**
+   * Listen for one type of event. Opens the stream on first use and closes it
+   * once the last listener is removed. Returns a function that unsubscribes.
+   */
+  subscribe<K extends RealtimeEventType>(type: K, listener: Listener<K>): () => void {
+    const listeners = this.listeners.get(type) || new Set();
+    listeners.add(listener as Listener<RealtimeEventType>);
+    this.listeners.set(type, listeners);
+    this.retain();
+
+    return () => {
+      listeners.delete(listener as Listener<RealtimeEventType>);
+      this.release();
+    };
+  }
+
+  /**
+   * Listen for every task-level event about a single task
+   */
+  subscribeToTask(taskId: string, listener: (event: TaskRealtimeEvent) => void): () => void {
+    const unsubscribers = TASK_EVENT_TYPES.map(type =>
+      this.subscribe(type, (payload) => {
+        if (payload.taskId === taskId) {
+          listener({ type, payload } as TaskRealtimeEvent);
+        }
+      })
+    );
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+
+  /**
+   * Be told when the connection opens, drops or falls back to polling
+   */
+  onStatusChange(listener: StatusListener): () => void {
+    this.statusListeners.add(listener);
+    listener(this.status);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  getStatus(): RealtimeStatus {
+    return this.status;
+  }
+
+  /**
+   * Drop the current connection and reconnect, e.g. after logging in with a new token
+   */
+  reconnect(): void {
+    this.disconnect();
+    if (this.subscriberCount > 0) {
+      this.failures = 0;
+      this.connect();
+    }
+  }
+
+  private retain(): void {
+    this.subscriberCount += 1;
+    if (this.subscriberCount === 1) {
+      this.connect();
+    }
+  }
+
+  private release(): void {
+    this.subscriberCount = Math.max(0, this.subscriberCount - 1);
+    if (this.subscriberCount === 0) {
+      this.disconnect();
+      this.setStatus('idle');
+    }
+  }
+
+  private connect(): void {
+    const token = sessionService.getAccessToken();
+    if (!token || typeof EventSource === 'undefined') {
+      // Nothing to stream without a session or browser support; polling keeps things fresh
+      this.setStatus('polling');
+      return;
+    }
+
+    this.setStatus(this.failures >= FAILURES_BEFORE_POLLING ? 'polling' : 'connecting');
+
+    // EventSource can't send headers, so the token travels in the query string
+    const url = `${REALTIME_URL}${REALTIME_URL.includes('?') ? '&' : '?'}token=${encodeURIComponent(token)}`;
+    const source = new EventSource(url);
+    this.source = source;
+
+    source.onopen = () => {
+      this.failures = 0;
+      this.setStatus('open');
+    };
+
+    source.onmessage = (message) => {
+      this.dispatch(message.data);
+    };
+
+    source.onerror = () => {
+      // Take over reconnecting so the backoff and polling fallback are under our control
+      source.close();
+      if (this.source !== source) return;
+      this.source = null;
+      this.failures += 1;
+      this.scheduleReconnect();
+    };
+  }
+
+  private disconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.source) {
+      this.source.close();
+      this.source = null;
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.failures >= FAILURES_BEFORE_POLLING) {
+      this.setStatus('polling');
+    } else {
+      this.setStatus('connecting');
+    }
+
+    const delay = Math.min(BASE_RECONNECT_DELAY * 2 ** (this.failures - 1), MAX_RECONNECT_DELAY);
+    const jitter = Math.random() * delay * 0.2;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.subscriberCount > 0) {
+        this.connect();
+      }
+    }, delay + jitter);
+  }
+
+  private dispatch(data: string): void {
+    let event: RealtimeEvent;
+    try {
+      event = JSON.parse(data);
+    } catch (error) {
+      console.warn('Ignoring malformed realtime message:', error);
+      return;
+    }
+
+    const listeners = this.listeners.get(event.type);
+    if (!listeners) return;
+
+    listeners.forEach(listener => {
+      try {
+        listener(event.payload);
+      } catch (error) {
+        console.error(`Error handling realtime event ${event.type}:`, error);
+      }
+    });
+  }
+
+  private setStatus(status: RealtimeStatus): void {
+    if (this.status === status) return;
+    this.status = status;
+    this.statusListeners.forEach(listener => listener(status));
+  }
+}
+
+export default new RealtimeService();
@@ -0,0 +1,205 @@
+import api from './api';
+import type { CreateTaskData } from './taskService';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'cron';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // every N days / weeks / months (ignored for cron)
+  daysOfWeek?: number[]; // 0 = Sunday ... 6 = Saturday, weekly only
+  dayOfMonth?: number; // 1-31, monthly only; clamped to the last day of shorter months
+  cron?: string; // "minute hour day-of-month month day-of-week", cron only
+  time: string; // HH:mm the instance is created at (ignored for cron)
+  startDate: string;
+  endDate?: string;
+  count?: number; // stop after this many occurrences
+}
+
+export type AssignmentMode = 'fixed' | 'rotating';
+
+export interface RecurringTaskTemplate {
+  title: string;
+  description: string;
+  priority: 'low' | 'medium' | 'high' | 'urgent';
+  tags: string[];
+  isGroupTask: boolean;
+  deadlineAfterDays: number; // deadline of each instance, relative to its occurrence
+}
+
+export interface OccurrenceOverrides {
+  title?: string;
+  description?: string;
+  priority?: 'low' | 'medium' | 'high' | 'urgent';
+  deadline?: string;
+  assignedTo?: string[];
+}
+
+export interface RecurringOccurrence {
+  index: number;
+  scheduledFor: string;
+  status: 'scheduled' | 'skipped' | 'generated';
+  assignees: Array<{
+    _id: string;
+    name: string;
+    email: string;
+  }>;
+  overrides?: OccurrenceOverrides;
+  task?: {
+    _id: string;
+    title: string;
+    status: string;
+  };
+}
+
+export interface RecurringTaskSeries {
+  _id: string;
+  template: RecurringTaskTemplate;
+  rule: RecurrenceRule;
+  assignmentMode: AssignmentMode;
+  assignees: Array<{
+    _id: string;
+    name: string;
+    email: string;
+  }>;
+  isPaused: boolean;
+  generatedCount: number;
+  nextOccurrenceAt?: string;
+  createdBy: {
+    _id: string;
+    name: string;
+    email: string;
+  };
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Template attachments, copied onto every generated instance, are uploaded
+// through uploadService once the series exists
+export interface CreateRecurringTaskData extends Omit<CreateTaskData, 'deadline' | 'attachments'> {
+  rule: RecurrenceRule;
+  assignmentMode: AssignmentMode;
+  deadlineAfterDays: number;
+}
+
+export interface UpdateRecurringTaskData {
+  template?: Partial<RecurringTaskTemplate>;
+  rule?: RecurrenceRule;
+  assignmentMode?: AssignmentMode;
+  assignedTo?: string[];
+}
+
+export interface RecurringSeriesResponse {
+  success: boolean;
+  data: {
+    series: RecurringTaskSeries;
+  };
+}
+
+export interface RecurringSeriesListResponse {
+  success: boolean;
+  data: {
+    series: RecurringTaskSeries[];
+  };
+}
+
+export interface RecurringOccurrencesResponse {
+  success: boolean;
+  data: {
+    occurrences: RecurringOccurrence[];
+  };
+}
+
+class RecurringTaskService {
+  /**
+   * Create a recurring series from a task template
+   */
+  async createSeries(seriesData: CreateRecurringTaskData): Promise<RecurringSeriesResponse> {
+    const formData = new FormData();
+
+    formData.append('title', seriesData.title);
+    formData.append('description', seriesData.description);
+    formData.append('priority', seriesData.priority);
+    formData.append('assignedTo', JSON.stringify(seriesData.assignedTo || []));
+    formData.append('tags', JSON.stringify(seriesData.tags || []));
+    formData.append('isGroupTask', JSON.stringify(seriesData.isGroupTask ?? false));
+    formData.append('rule', JSON.stringify(seriesData.rule));
+    formData.append('assignmentMode', seriesData.assignmentMode);
+    formData.append('deadlineAfterDays', String(seriesData.deadlineAfterDays));
+
+    const response = await api.post('/tasks/recurring', formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    });
+    return response.data;
+  }
+
+  /**
+   * Get recurring series created by the current user
+   */
+  async getSeriesList(): Promise<RecurringSeriesListResponse> {
+    const response = await api.get('/tasks/recurring');
+    return response.data;
+  }
+
+  /**
+   * Get single recurring series by ID
+   */
+  async getSeries(seriesId: string): Promise<RecurringSeriesResponse> {
+    const response = await api.get(`/tasks/recurring/${seriesId}`);
+    return response.data;
+  }
+
+  /**
+   * Update the template, rule or assignees of a series.
+   * Only occurrences that have not been generated yet are affected.
+   */
+  async updateSeries(seriesId: string, updateData: UpdateRecurringTaskData): Promise<RecurringSeriesResponse> {
+    const response = await api.put(`/tasks/recurring/${seriesId}`, updateData);
+    return response.data;
+  }
+
+  /**
+   * Delete a series. Tasks already generated from it are kept.
+   */
+  async deleteSeries(seriesId: string): Promise<{ success: boolean; message: string }> {
+    const response = await api.delete(`/tasks/recurring/${seriesId}`);
+    return response.data;
+  }
+
+  /**
+   * Pause or resume instance generation for a series
+   */
+  async setPaused(seriesId: string, paused: boolean): Promise<RecurringSeriesResponse> {
+    const response = await api.put(`/tasks/recurring/${seriesId}/pause`, { paused });
+    return response.data;
+  }
+
+  /**
+   * Get upcoming occurrences of a series (and recently generated ones)
+   */
+  async getOccurrences(seriesId: string, limit = 10): Promise<RecurringOccurrencesResponse> {
+    const response = await api.get(`/tasks/recurring/${seriesId}/occurrences`, {
+      params: { limit },
+    });
+    return response.data;
+  }
+
+  /**
+   * Skip a single occurrence, or bring a skipped one back
+   */
+  async setOccurrenceSkipped(seriesId: string, index: number, skipped: boolean): Promise<RecurringOccurrencesResponse> {
+    const response = await api.put(`/tasks/recurring/${seriesId}/occurrences/${index}/skip`, { skipped });
+    return response.data;
+  }
+
+  /**
+   * Override fields for a single upcoming occurrence without touching the series
+   */
+  async updateOccurrence(seriesId: string, index: number, overrides: OccurrenceOverrides): Promise<RecurringOccurrencesResponse> {
+    const response = await api.put(`/tasks/recurring/${seriesId}/occurrences/${index}`, overrides);
+    return response.data;
+  }
+}
+
+export default new RecurringTaskService();
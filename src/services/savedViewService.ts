@@ -0,0 +1,91 @@
+import api from './api';
+
+// The task lists a view can be saved from, and the page each one opens
+export type SavedViewList = 'tasks' | 'hod-tasks' | 'dashboard';
+
+export const SAVED_VIEW_PATHS: Record<SavedViewList, string> = {
+  tasks: '/tasks',
+  'hod-tasks': '/hod/tasks',
+  dashboard: '/dashboard',
+};
+
+export interface SavedView {
+  _id: string;
+  name: string;
+  list: SavedViewList;
+  query: string; // filter query string, without the leading "?"
+  pinned: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateSavedViewData {
+  name: string;
+  list: SavedViewList;
+  query: string;
+  pinned?: boolean;
+}
+
+export interface UpdateSavedViewData {
+  name?: string;
+  query?: string;
+  pinned?: boolean;
+}
+
+export interface SavedViewResponse {
+  success: boolean;
+  data: {
+    view: SavedView;
+  };
+}
+
+export interface SavedViewsResponse {
+  success: boolean;
+  data: {
+    views: SavedView[];
+  };
+}
+
+/**
+ * Link that opens a saved view, relative to the app root
+ */
+export const getSavedViewPath = (view: Pick<SavedView, 'list' | 'query'>): string =>
+  `${SAVED_VIEW_PATHS[view.list]}${view.query ? `?${view.query}` : ''}`;
+
+class SavedViewService {
+  /**
+   * Get the current user's saved views, optionally only those for one list
+   */
+  async getViews(list?: SavedViewList): Promise<SavedViewsResponse> {
+    const response = await api.get('/saved-views', {
+      params: list ? { list } : undefined,
+    });
+    return response.data;
+  }
+
+  /**
+   * Save the current filters of a list under a name
+   */
+  async createView(viewData: CreateSavedViewData): Promise<SavedViewResponse> {
+    const response = await api.post('/saved-views', viewData);
+    return response.data;
+  }
+
+  /**
+   * Rename a view, replace its filters, or pin it to the dashboard
+   */
+  async updateView(viewId: string, updateData: UpdateSavedViewData): Promise<SavedViewResponse> {
+    const response = await api.put(`/saved-views/${viewId}`, updateData);
+    return response.data;
+  }
+
+  /**
+   * Delete a saved view
+   */
+  async deleteView(viewId: string): Promise<{ success: boolean; message: string }> {
+    const response = await api.delete(`/saved-views/${viewId}`);
+    return response.data;
+  }
+}
+
+export default new SavedViewService();
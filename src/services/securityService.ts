@@ -0,0 +1,87 @@
+import api from './api';
+
+// A signed-in device, i.e. one refresh token that hasn't expired or been revoked
+export interface ActiveSession {
+  _id: string;
+  userAgent: string;
+  ipAddress: string;
+  location?: string; // Rough place looked up from the IP, when the server knows it
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean; // The session making this request
+}
+
+export type LoginEventType =
+  | 'login'
+  | 'login_failed'
+  | 'two_factor_failed'
+  | 'logout'
+  | 'session_revoked'
+  | 'password_reset_requested'
+  | 'password_reset';
+
+export interface LoginEvent {
+  _id: string;
+  type: LoginEventType;
+  userAgent?: string;
+  ipAddress?: string;
+  reason?: string; // Why a failed attempt failed, e.g. "Wrong password"
+  createdAt: string;
+}
+
+export const LOGIN_EVENT_LABELS: Record<LoginEventType, string> = {
+  login: 'Signed in',
+  login_failed: 'Failed sign-in',
+  two_factor_failed: 'Wrong two-factor code',
+  logout: 'Signed out',
+  session_revoked: 'Session revoked',
+  password_reset_requested: 'Password reset requested',
+  password_reset: 'Password reset',
+};
+
+export interface SessionsResponse {
+  success: boolean;
+  data: {
+    sessions: ActiveSession[];
+  };
+}
+
+export interface LoginHistoryResponse {
+  success: boolean;
+  data: {
+    events: LoginEvent[];
+    pagination: {
+      currentPage: number;
+      totalPages: number;
+      hasNextPage: boolean;
+    };
+  };
+}
+
+class SecurityService {
+  /**
+   * Every device the current user is signed in on
+   */
+  async getSessions(): Promise<SessionsResponse> {
+    const response = await api.get('/auth/sessions');
+    return response.data;
+  }
+
+  /**
+   * Sign one device out; its next request will fail and send it to the login page
+   */
+  async revokeSession(sessionId: string): Promise<{ success: boolean; message: string }> {
+    const response = await api.delete(`/auth/sessions/${sessionId}`);
+    return response.data;
+  }
+
+  /**
+   * Sign-ins, failed attempts and password resets for the current user, newest first
+   */
+  async getLoginHistory(params?: { page?: number; limit?: number }): Promise<LoginHistoryResponse> {
+    const response = await api.get('/auth/login-history', { params });
+    return response.data;
+  }
+}
+
+export default new SecurityService();
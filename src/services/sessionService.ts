@@ -0,0 +1,230 @@
+import axios from 'axios';
+
+// Same keys as before refresh tokens existed, so sessions survive the upgrade
+const ACCESS_TOKEN_KEY = 'authToken';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+const SESSION_EXPIRES_KEY = 'sessionExpiresAt';
+const USER_KEY = 'user';
+
+const CHANNEL_NAME = 'imts-session';
+
+// Only one tab may refresh at a time: a rotated refresh token sent twice looks like reuse and ends the session
+const REFRESH_LOCK_NAME = 'imts-token-refresh';
+const REFRESH_LOCK_KEY = 'tokenRefreshLock';
+const REFRESH_LOCK_TTL_MS = 15000; // Longer than the refresh request's timeout, so a closed tab can't hold it forever
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000/api';
+
+export type SessionEventType = 'login' | 'logout' | 'refresh' | 'user';
+
+export interface SessionEvent {
+  type: SessionEventType;
+  userId?: string;
+}
+
+export interface SessionTokens {
+  token: string;
+  refreshToken?: string;
+  refreshTokenExpiresAt?: string;
+}
+
+interface RefreshResponse {
+  success: boolean;
+  data: SessionTokens;
+}
+
+// `remote` is true when the change happened in another tab
+type SessionListener = (event: SessionEvent, remote: boolean) => void;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Fallback for browsers without the Web Locks API: claim a localStorage entry, then read it
+// back after a moment to make sure another tab didn't claim it at the same time
+const withStorageLock = async <T>(task: () => Promise<T>): Promise<T> => {
+  const owner = `${Date.now()}-${Math.random()}`;
+  for (;;) {
+    const held = JSON.parse(localStorage.getItem(REFRESH_LOCK_KEY) || 'null') as { owner: string; expiresAt: number } | null;
+    if (!held || held.expiresAt < Date.now()) {
+      localStorage.setItem(REFRESH_LOCK_KEY, JSON.stringify({ owner, expiresAt: Date.now() + REFRESH_LOCK_TTL_MS }));
+      await wait(50);
+      if (JSON.parse(localStorage.getItem(REFRESH_LOCK_KEY) || 'null')?.owner === owner) break;
+    } else {
+      await wait(200);
+    }
+  }
+
+  try {
+    return await task();
+  } finally {
+    if (JSON.parse(localStorage.getItem(REFRESH_LOCK_KEY) || 'null')?.owner === owner) {
+      localStorage.removeItem(REFRESH_LOCK_KEY);
+    }
+  }
+};
+
+const withRefreshLock = <T>(task: () => Promise<T>): Promise<T> =>
+  typeof navigator !== 'undefined' && navigator.locks
+    ? navigator.locks.request(REFRESH_LOCK_NAME, task)
+    : withStorageLock(task);
+
+// Read the expiry (ms since epoch) out of a JWT without verifying it; null if it isn't one
+const getJwtExpiry = (token: string | null): number | null => {
+  const payload = token?.split('.')[1];
+  if (!payload) return null;
+  try {
+    const { exp } = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Owns the stored tokens and keeps every open tab in step with them.
+ * Kept apart from authService so the api interceptors can use it without an import cycle.
+ */
+class SessionService {
+  private refreshPromise: Promise<string> | null = null;
+  private listeners = new Set<SessionListener>();
+  private channel: BroadcastChannel | null = null;
+
+  constructor() {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.onmessage = (message: MessageEvent<SessionEvent>) => this.notify(message.data, true);
+    } else if (typeof window !== 'undefined') {
+      // Older browsers: other tabs' writes still show up as storage events
+      window.addEventListener('storage', (event) => {
+        if (event.key === ACCESS_TOKEN_KEY) {
+          this.notify({ type: event.newValue ? (event.oldValue ? 'refresh' : 'login') : 'logout' }, true);
+        } else if (event.key === USER_KEY && event.newValue) {
+          this.notify({ type: 'user' }, true);
+        }
+      });
+    }
+  }
+
+  getAccessToken(): string | null {
+    return localStorage.getItem(ACCESS_TOKEN_KEY);
+  }
+
+  getRefreshToken(): string | null {
+    return localStorage.getItem(REFRESH_TOKEN_KEY);
+  }
+
+  /**
+   * When the session ends unless it's renewed: the refresh token's expiry, or the access token's without one
+   */
+  getSessionExpiry(): number | null {
+    const stored = localStorage.getItem(SESSION_EXPIRES_KEY);
+    if (stored) {
+      const time = new Date(stored).getTime();
+      if (!Number.isNaN(time)) return time;
+    }
+    // With a refresh token the access token's expiry doesn't matter; it's renewed silently
+    const refreshToken = this.getRefreshToken();
+    return refreshToken ? getJwtExpiry(refreshToken) : getJwtExpiry(this.getAccessToken());
+  }
+
+  /**
+   * Resolves once any refresh in progress has finished, so requests don't go out with a token about to be replaced
+   */
+  async waitForRefresh(): Promise<void> {
+    if (!this.refreshPromise) return;
+    try {
+      await this.refreshPromise;
+    } catch {
+      // The request will fail with a 401 and be handled there
+    }
+  }
+
+  /**
+   * Store the tokens from a login, sign-up or refresh
+   */
+  startSession(tokens: SessionTokens, user?: { _id: string }): void {
+    // Nothing from a previous user's session may outlive it
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+    localStorage.removeItem(SESSION_EXPIRES_KEY);
+    this.storeTokens(tokens);
+    if (user) localStorage.setItem(USER_KEY, JSON.stringify(user));
+    this.broadcast({ type: 'login', userId: user?._id });
+  }
+
+  /**
+   * Replace the stored user, e.g. after a profile change, and tell other tabs
+   */
+  updateUser(user: { _id: string }): void {
+    localStorage.setItem(USER_KEY, JSON.stringify(user));
+    this.broadcast({ type: 'user', userId: user._id });
+  }
+
+  /**
+   * Forget the session in this tab and every other one
+   */
+  endSession(): void {
+    localStorage.removeItem(ACCESS_TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+    localStorage.removeItem(SESSION_EXPIRES_KEY);
+    localStorage.removeItem(USER_KEY);
+    this.broadcast({ type: 'logout' });
+  }
+
+  /**
+   * Swap the refresh token for a new access token. Concurrent callers share one request,
+   * and other tabs wait for it and use its result instead of sending their own.
+   */
+  refreshAccessToken(): Promise<string> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.requestRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  subscribe(listener: SessionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async requestRefresh(): Promise<string> {
+    const staleToken = this.getAccessToken();
+
+    return withRefreshLock(async () => {
+      // Another tab renewed the token while we waited for the lock
+      const currentToken = this.getAccessToken();
+      if (currentToken && currentToken !== staleToken) return currentToken;
+
+      const refreshToken = this.getRefreshToken();
+      if (!refreshToken) throw new Error('No refresh token');
+
+      // Plain axios, not the shared instance, so a failed refresh can't trigger another refresh
+      const response = await axios.post<RefreshResponse>(`${API_BASE_URL}/auth/refresh`, { refreshToken }, {
+        timeout: 10000,
+      });
+      this.storeTokens(response.data.data);
+      this.broadcast({ type: 'refresh' });
+      return response.data.data.token;
+    });
+  }
+
+  private storeTokens({ token, refreshToken, refreshTokenExpiresAt }: SessionTokens): void {
+    localStorage.setItem(ACCESS_TOKEN_KEY, token);
+    // The server may rotate the refresh token; keep the old one if it didn't send a new one
+    if (refreshToken) localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+    if (refreshTokenExpiresAt) localStorage.setItem(SESSION_EXPIRES_KEY, refreshTokenExpiresAt);
+  }
+
+  private broadcast(event: SessionEvent): void {
+    this.channel?.postMessage(event);
+    this.notify(event, false);
+  }
+
+  private notify(event: SessionEvent, remote: boolean): void {
+    this.listeners.forEach(listener => listener(event, remote));
+  }
+}
+
+export default new SessionService();
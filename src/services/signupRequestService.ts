@@ -0,0 +1,49 @@
+import api from './api';
+
+// A self-signup waiting for the department's HOD (or an admin) to let it in
+export interface SignupRequest {
+  _id: string;
+  name: string;
+  email: string;
+  phone: string;
+  department: {
+    _id: string;
+    name: string;
+  };
+  createdAt: string;
+}
+
+export interface SignupRequestsResponse {
+  success: boolean;
+  data: {
+    requests: SignupRequest[];
+  };
+}
+
+class SignupRequestService {
+  /**
+   * Pending self-signups: all of them for admins, their department's for HODs
+   */
+  async getPendingRequests(): Promise<SignupRequestsResponse> {
+    const response = await api.get('/signup-requests');
+    return response.data;
+  }
+
+  /**
+   * Activate the account; the user is emailed that they can now sign in
+   */
+  async approveRequest(requestId: string): Promise<{ success: boolean; message: string }> {
+    const response = await api.post(`/signup-requests/${requestId}/approve`);
+    return response.data;
+  }
+
+  /**
+   * Turn the signup down; the reason is included in the email to the user
+   */
+  async rejectRequest(requestId: string, reason?: string): Promise<{ success: boolean; message: string }> {
+    const response = await api.post(`/signup-requests/${requestId}/reject`, { reason });
+    return response.data;
+  }
+}
+
+export default new SignupRequestService();
@@ -1,5 +1,79 @@
 import api from './api';
 
+export interface TaskDependency {
+  _id: string;
+  title: string;
+  status: 'created' | 'assigned' | 'in_progress' | 'completed' | 'approved' | 'rejected' | 'transferred' | 'pending';
+  stage: 'not_started' | 'pending' | 'done';
+  deadline?: string;
+}
+
+export interface Subtask {
+  _id: string;
+  title: string;
+  parentId?: string | null; // Set when nested under another subtask
+  owner?: {
+    _id: string;
+    name: string;
+    email: string;
+  };
+  deadline?: string;
+  stage: 'not_started' | 'pending' | 'done';
+  order: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ChecklistItem {
+  _id: string;
+  text: string;
+  done: boolean;
+  order: number;
+  completedAt?: string;
+}
+
+export interface AttachmentVersion {
+  _id: string;
+  version: number;
+  filename: string;
+  originalName: string;
+  size: number;
+  mimetype: string;
+  uploadedBy: string | { _id: string; name: string };
+  uploadedAt: string;
+  note?: string; // What changed in this version
+}
+
+export interface TaskAttachment {
+  _id: string;
+  filename: string;
+  originalName: string;
+  path: string;
+  size: number;
+  mimetype: string;
+  uploadedBy: string | { _id: string; name: string };
+  uploadedAt: string;
+  version?: number; // Current version number, 1 for files never replaced
+  note?: string;
+  versions?: AttachmentVersion[]; // Earlier versions, oldest first
+}
+
+export interface TaskRemark {
+  _id: string;
+  text: string; // Markdown; mentions are written as @[Name](userId)
+  author: {
+    _id: string;
+    name: string;
+    email: string;
+    role: string;
+  };
+  createdAt: string;
+  parentId?: string | null; // Set on replies
+  mentions?: string[];
+  editedAt?: string;
+  isDeleted?: boolean; // Deleted remarks keep their place so replies stay threaded
+}
+
 export interface Task {
   _id: string;
   title: string;
@@ -58,50 +132,11 @@ export interface Task {
     name: string;
   };
   tags: string[];
-  attachments: Array<{
-    _id: string;
-    filename: string;
-    originalName: string;
-    path: string;
-    size: number;
-    mimetype: string;
-    uploadedBy: string;
-    uploadedAt: string;
-  }>;
+  attachments: TaskAttachment[];
   remarks: {
-    creator: Array<{
-      _id: string;
-      text: string;
-      author: {
-        _id: string;
-        name: string;
-        email: string;
-        role: string;
-      };
-      createdAt: string;
-    }>;
-    assignee: Array<{
-      _id: string;
-      text: string;
-      author: {
-        _id: string;
-        name: string;
-        email: string;
-        role: string;
-      };
-      createdAt: string;
-    }>;
-    general: Array<{
-      _id: string;
-      text: string;
-      author: {
-        _id: string;
-        name: string;
-        email: string;
-        role: string;
-      };
-      createdAt: string;
-    }>;
+    creator: TaskRemark[];
+    assignee: TaskRemark[];
+    general: TaskRemark[];
   };
   isActive: boolean;
   createdAt: string;
@@ -111,6 +146,18 @@ export interface Task {
   approvedBy?: string;
   completionTime?: string; // Time taken for task completion
   individualStages: Array<{ userId: string; stage: string; timeTaken: string; }>; // Individual stages for each assignee
+  subtasks?: Subtask[];
+  checklist?: ChecklistItem[];
+  blockedBy?: TaskDependency[]; // Tasks that must be finished before this one can start
+  blocks?: TaskDependency[]; // Tasks waiting on this one
+  recurrence?: { // Set on tasks generated from a recurring series
+    series: {
+      _id: string;
+      title: string;
+    };
+    occurrenceIndex: number;
+    scheduledFor: string;
+  };
 }
 
 export interface CreateTaskData {
@@ -180,11 +227,60 @@ export interface TasksResponse {
   };
 }
 
+export type TaskHistoryAction =
+  | 'created'
+  | 'updated'
+  | 'status_changed'
+  | 'stage_changed'
+  | 'individual_stage_changed'
+  | 'assigned'
+  | 'unassigned'
+  | 'attachment_added'
+  | 'attachment_removed'
+  | 'overviewer_added'
+  | 'overviewer_removed'
+  | 'overviewer_permissions_changed'
+  | 'approved'
+  | 'rejected'
+  | 'remark_added';
+
+export interface TaskHistoryChange {
+  field: string;
+  from?: unknown;
+  to?: unknown;
+}
+
+export interface TaskHistoryEntry {
+  _id: string;
+  action: TaskHistoryAction;
+  performedBy: {
+    _id: string;
+    name: string;
+    email?: string;
+    role?: string;
+  } | null; // Null for changes made by the system, e.g. recurring task generation
+  timestamp: string;
+  reason?: string;
+  changes: TaskHistoryChange[];
+  targetUser?: { _id: string; name: string }; // The assignee or overviewer the change was about
+  attachment?: { _id: string; originalName: string; size?: number };
+}
+
+// Older history entries were stored before the shape above settled
+interface RawTaskHistoryEntry extends Omit<Partial<TaskHistoryEntry>, 'changes'> {
+  createdAt?: string;
+  user?: TaskHistoryEntry['performedBy'];
+  changes?: TaskHistoryChange[] | Record<string, { from?: unknown; to?: unknown }>;
+  field?: string;
+  oldValue?: unknown;
+  newValue?: unknown;
+}
+
 export interface TaskResponse {
   success: boolean;
   data: {
     task: Task;
-    history?: any[];
+    history?: TaskHistoryEntry[];
   };
 }
 
@@ -229,6 +325,13 @@ export interface DashboardStatsResponse {
 export interface RemarkData {
   text: string;
   category?: 'creator' | 'assignee' | 'general' | 'auto';
+  parentId?: string;
+  mentions?: string[]; // Each mentioned user gets a remark_mention notification
+}
+
+export interface UpdateRemarkData {
+  text: string;
+  mentions?: string[];
 }
 
 export interface AssignTaskData {
@@ -279,6 +382,42 @@ export interface RemoveOverviewerData {
   userId: string;
 }
 
+export interface SubtaskData {
+  title: string;
+  parentId?: string | null;
+  owner?: string;
+  deadline?: string;
+  stage?: 'not_started' | 'pending' | 'done';
+}
+
+export interface ChecklistItemData {
+  text?: string;
+  done?: boolean;
+}
+
+export interface DependencyGraphResponse {
+  success: boolean;
+  data: {
+    nodes: TaskDependency[];
+    edges: Array<{
+      task: string;
+      blockedBy: string;
+    }>;
+  };
+}
+
+export interface CalendarFeed {
+  token: string;
+  url: string; // Absolute URL calendar apps subscribe to; contains the token
+  createdAt: string;
+}
+
+export interface CalendarFeedResponse {
+  success: boolean;
+  message?: string;
+  data: CalendarFeed;
+}
+
 export interface OverviewTasksResponse {
   success: boolean;
   data: {
@@ -287,6 +426,61 @@ export interface OverviewTasksResponse {
   };
 }
 
+export interface TaskDraftAttachment {
+  _id: string;
+  filename: string;
+  originalName: string;
+  size: number;
+  mimetype: string;
+  uploadedAt: string;
+}
+
+export interface TaskDraft {
+  _id: string;
+  title: string;
+  description: string;
+  deadline: string;
+  startDate?: string;
+  priority: 'low' | 'medium' | 'high' | 'urgent';
+  assignedTo: Array<{
+    _id: string;
+    name: string;
+    email: string;
+  }>;
+  tags: string[];
+  isGroupTask: boolean;
+  attachments: TaskDraftAttachment[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SaveDraftData {
+  title?: string;
+  description?: string;
+  deadline?: string;
+  startDate?: string;
+  priority?: 'low' | 'medium' | 'high' | 'urgent';
+  assignedTo?: string[];
+  tags?: string[];
+  isGroupTask?: boolean;
+  attachments?: File[]; // Local files; uploaded to the draft separately through uploadService
+  removeAttachments?: string[];
+}
+
+export interface TaskDraftResponse {
+  success: boolean;
+  data: {
+    draft: TaskDraft;
+  };
+}
+
+export interface TaskDraftsResponse {
+  success: boolean;
+  data: {
+    drafts: TaskDraft[];
+  };
+}
+
 class TaskService {
   /**
    * Create a new task
@@ -362,6 +556,12 @@ class TaskService {
       const response = await api.get(`/tasks/${id}`);
       console.log('TaskService: API response received:', response);
       console.log('TaskService: Response data:', response.data);
+      const history: RawTaskHistoryEntry[] | undefined = response.data.data?.history;
+      if (history) {
+        response.data.data.history = history
+          .map(entry => this.normalizeHistoryEntry(entry))
+          .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+      }
       return response.data;
     } catch (error) {
       console.error('TaskService: API call failed:', error);
@@ -439,6 +639,22 @@ class TaskService {
     return response.data;
   }
 
+  /**
+   * Edit a remark's text (author only)
+   */
+  async updateRemark(id: string, remarkId: string, remarkData: UpdateRemarkData): Promise<TaskResponse> {
+    const response = await api.put(`/tasks/${id}/remarks/${remarkId}`, remarkData);
+    return response.data;
+  }
+
+  /**
+   * Delete a remark (author only). The server keeps a placeholder so its replies remain visible.
+   */
+  async deleteRemark(id: string, remarkId: string): Promise<TaskResponse> {
+    const response = await api.delete(`/tasks/${id}/remarks/${remarkId}`);
+    return response.data;
+  }
+
   /**
    * Delete task (soft delete)
    */
@@ -447,6 +663,14 @@ class TaskService {
     return response.data;
   }
 
+  /**
+   * Bring back a soft-deleted task
+   */
+  async restoreTask(id: string): Promise<TaskResponse> {
+    const response = await api.post(`/tasks/${id}/restore`);
+    return response.data;
+  }
+
   /**
    * Get task statistics
    */
@@ -500,6 +724,14 @@ class TaskService {
     return response.data;
   }
 
+  /**
+   * Make an earlier version current again. This is recorded as a new version, so nothing is lost.
+   */
+  async restoreAttachmentVersion(taskId: string, attachmentId: string, versionId: string, note?: string): Promise<TaskResponse> {
+    const response = await api.post(`/tasks/${taskId}/attachments/${attachmentId}/versions/${versionId}/restore`, { note });
+    return response.data;
+  }
+
   /**
    * Get download URL for attachment
    */
@@ -509,11 +741,25 @@ class TaskService {
   }
 
   /**
-   * Download task attachment
+   * Fetch an attachment's contents for previewing in the app. Goes through `api`
+   * so the auth header is sent, which a plain link to the file can't do.
+   */
+  async getAttachmentBlob(taskId: string, attachmentId: string): Promise<Blob> {
+    const response = await api.get<Blob>(`/tasks/${taskId}/attachments/${attachmentId}/view`, {
+      responseType: 'blob',
+    });
+    return response.data;
+  }
+
+  /**
+   * Download task attachment, or one of its earlier versions
    */
-  async downloadAttachment(taskId: string, attachmentId: string): Promise<void> {
+  async downloadAttachment(taskId: string, attachmentId: string, versionId?: string): Promise<void> {
     try {
-      const response = await api.get(`/tasks/${taskId}/attachments/${attachmentId}/download`, {
+      const path = versionId
+        ? `/tasks/${taskId}/attachments/${attachmentId}/versions/${versionId}/download`
+        : `/tasks/${taskId}/attachments/${attachmentId}/download`;
+      const response = await api.get(path, {
         responseType: 'blob',
         headers: {
           'Accept': 'application/octet-stream'
@@ -669,6 +915,182 @@ class TaskService {
     };
   }
 
+  // ==================== SUBTASK METHODS ====================
+
+  /**
+   * Add a subtask, optionally nested under another subtask
+   */
+  async addSubtask(taskId: string, subtaskData: SubtaskData): Promise<TaskResponse> {
+    const response = await api.post(`/tasks/${taskId}/subtasks`, subtaskData);
+    return response.data;
+  }
+
+  /**
+   * Update a subtask's title, owner, deadline or stage
+   */
+  async updateSubtask(taskId: string, subtaskId: string, subtaskData: Partial<SubtaskData>): Promise<TaskResponse> {
+    const response = await api.put(`/tasks/${taskId}/subtasks/${subtaskId}`, subtaskData);
+    return response.data;
+  }
+
+  /**
+   * Delete a subtask together with the subtasks nested under it
+   */
+  async deleteSubtask(taskId: string, subtaskId: string): Promise<TaskResponse> {
+    const response = await api.delete(`/tasks/${taskId}/subtasks/${subtaskId}`);
+    return response.data;
+  }
+
+  /**
+   * Save a new order for the subtasks sharing the same parent
+   */
+  async reorderSubtasks(taskId: string, parentId: string | null, subtaskIds: string[]): Promise<TaskResponse> {
+    const response = await api.put(`/tasks/${taskId}/subtasks/reorder`, { parentId, order: subtaskIds });
+    return response.data;
+  }
+
+  /**
+   * Add an item to the task's checklist
+   */
+  async addChecklistItem(taskId: string, text: string): Promise<TaskResponse> {
+    const response = await api.post(`/tasks/${taskId}/checklist`, { text });
+    return response.data;
+  }
+
+  /**
+   * Rename or tick/untick a checklist item
+   */
+  async updateChecklistItem(taskId: string, itemId: string, itemData: ChecklistItemData): Promise<TaskResponse> {
+    const response = await api.put(`/tasks/${taskId}/checklist/${itemId}`, itemData);
+    return response.data;
+  }
+
+  /**
+   * Delete a checklist item
+   */
+  async deleteChecklistItem(taskId: string, itemId: string): Promise<TaskResponse> {
+    const response = await api.delete(`/tasks/${taskId}/checklist/${itemId}`);
+    return response.data;
+  }
+
+  /**
+   * Save a new order for the checklist items
+   */
+  async reorderChecklist(taskId: string, itemIds: string[]): Promise<TaskResponse> {
+    const response = await api.put(`/tasks/${taskId}/checklist/reorder`, { order: itemIds });
+    return response.data;
+  }
+
+  // ==================== DEPENDENCY METHODS ====================
+
+  /**
+   * Get every task connected to this one through blocked-by links
+   */
+  async getDependencyGraph(taskId: string): Promise<DependencyGraphResponse> {
+    const response = await api.get(`/tasks/${taskId}/dependencies`);
+    return response.data;
+  }
+
+  /**
+   * Mark a task as blocked by another task
+   */
+  async addDependency(taskId: string, blockedById: string): Promise<TaskResponse> {
+    const response = await api.post(`/tasks/${taskId}/dependencies`, { blockedBy: blockedById });
+    return response.data;
+  }
+
+  /**
+   * Remove a blocked-by link between two tasks
+   */
+  async removeDependency(taskId: string, blockedById: string): Promise<TaskResponse> {
+    const response = await api.delete(`/tasks/${taskId}/dependencies/${blockedById}`);
+    return response.data;
+  }
+
+  /**
+   * Get predecessors that still have to be finished before the task can start
+   */
+  getOpenBlockers(task: Pick<Task, 'blockedBy'>): TaskDependency[] {
+    return (task.blockedBy || []).filter(blocker => !['completed', 'approved'].includes(blocker.status));
+  }
+
+  /**
+   * Whether moving a task to this stage or status means work on it has started, which open blockers don't allow
+   */
+  startsWork(field: 'stage' | 'status', value: string): boolean {
+    return field === 'stage'
+      ? value !== 'not_started'
+      : ['in_progress', 'pending', 'completed', 'approved'].includes(value);
+  }
+
+  // ==================== DRAFT METHODS ====================
+
+  /**
+   * Create a draft, or update it when a draft ID is given.
+   * Files are not sent here; drafts keep previously uploaded attachments
+   * unless they are listed in removeAttachments.
+   */
+  async saveDraft(draftData: Omit<SaveDraftData, 'attachments'>, draftId?: string | null): Promise<TaskDraftResponse> {
+    const formData = new FormData();
+
+    if (draftData.title !== undefined) formData.append('title', draftData.title);
+    if (draftData.description !== undefined) formData.append('description', draftData.description);
+    if (draftData.deadline !== undefined) formData.append('deadline', draftData.deadline);
+    if (draftData.startDate !== undefined) formData.append('startDate', draftData.startDate);
+    if (draftData.priority) formData.append('priority', draftData.priority);
+    if (draftData.assignedTo) formData.append('assignedTo', JSON.stringify(draftData.assignedTo));
+    if (draftData.tags) formData.append('tags', JSON.stringify(draftData.tags));
+    if (draftData.isGroupTask !== undefined) {
+      formData.append('isGroupTask', JSON.stringify(draftData.isGroupTask));
+    }
+    if (draftData.removeAttachments && draftData.removeAttachments.length > 0) {
+      formData.append('removeAttachments', JSON.stringify(draftData.removeAttachments));
+    }
+
+    const config = {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    };
+
+    const response = draftId
+      ? await api.put(`/tasks/drafts/${draftId}`, formData, config)
+      : await api.post('/tasks/drafts', formData, config);
+    return response.data;
+  }
+
+  /**
+   * Get drafts of the current user, most recently edited first
+   */
+  async listDrafts(): Promise<TaskDraftsResponse> {
+    const response = await api.get('/tasks/drafts');
+    return response.data;
+  }
+
+  /**
+   * Get single draft by ID
+   */
+  async getDraft(draftId: string): Promise<TaskDraftResponse> {
+    const response = await api.get(`/tasks/drafts/${draftId}`);
+    return response.data;
+  }
+
+  /**
+   * Delete a draft together with its uploaded attachments
+   */
+  async deleteDraft(draftId: string): Promise<{ success: boolean; message: string }> {
+    const response = await api.delete(`/tasks/drafts/${draftId}`);
+    return response.data;
+  }
+
+  /**
+   * Turn a saved draft into a real task. The draft is removed on success.
+   */
+  async publishDraft(draftId: string): Promise<TaskResponse> {
+    const response = await api.post(`/tasks/drafts/${draftId}/publish`);
+    return response.data;
+  }
+
   /**
    * Get individual user report - all tasks assigned to the current user
    */
@@ -686,6 +1108,24 @@ class TaskService {
     return response.data;
   }
 
+  // ==================== CALENDAR FEED METHODS ====================
+
+  /**
+   * Get the current user's calendar subscription feed, creating it on first use
+   */
+  async getCalendarFeed(): Promise<CalendarFeedResponse> {
+    const response = await api.get('/tasks/calendar-feed');
+    return response.data;
+  }
+
+  /**
+   * Replace the feed token so the old subscription URL stops working
+   */
+  async regenerateCalendarFeed(): Promise<CalendarFeedResponse> {
+    const response = await api.post('/tasks/calendar-feed/regenerate');
+    return response.data;
+  }
+
   /**
    * Get unique creators from existing tasks
    */
@@ -711,6 +1151,31 @@ class TaskService {
       throw error;
     }
   }
+
+  /**
+   * Bring a history entry into the current shape, oldest entries included
+   */
+  private normalizeHistoryEntry(entry: RawTaskHistoryEntry): TaskHistoryEntry {
+    let changes: TaskHistoryChange[] = [];
+    if (Array.isArray(entry.changes)) {
+      changes = entry.changes;
+    } else if (entry.changes) {
+      changes = Object.entries(entry.changes).map(([field, change]) => ({ field, ...change }));
+    } else if (entry.field) {
+      changes = [{ field: entry.field, from: entry.oldValue, to: entry.newValue }];
+    }
+
+    return {
+      _id: entry._id || `${entry.action}-${entry.timestamp || entry.createdAt}`,
+      action: entry.action || 'updated',
+      performedBy: entry.performedBy ?? entry.user ?? null,
+      timestamp: entry.timestamp || entry.createdAt || '',
+      reason: entry.reason,
+      changes,
+      targetUser: entry.targetUser,
+      attachment: entry.attachment,
+    };
+  }
 }
 
 export default new TaskService();
@@ -0,0 +1,75 @@
+import api from './api';
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean; // The user's role must use two-factor, so it can't be turned off
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorSetup {
+  qrCode: string; // data: URL of the QR image for the authenticator app
+  secret: string; // The same key, for typing in by hand
+  otpauthUrl: string;
+}
+
+export interface TwoFactorStatusResponse {
+  success: boolean;
+  data: TwoFactorStatus;
+}
+
+export interface TwoFactorSetupResponse {
+  success: boolean;
+  data: TwoFactorSetup;
+}
+
+export interface RecoveryCodesResponse {
+  success: boolean;
+  message: string;
+  data: {
+    recoveryCodes: string[];
+  };
+}
+
+class TwoFactorService {
+  /**
+   * Whether the current user has two-factor authentication on, and how many recovery codes are left
+   */
+  async getStatus(): Promise<TwoFactorStatusResponse> {
+    const response = await api.get('/auth/2fa/status');
+    return response.data;
+  }
+
+  /**
+   * Generate a new secret to scan. Nothing changes until it's confirmed with `enable`.
+   */
+  async startSetup(): Promise<TwoFactorSetupResponse> {
+    const response = await api.post('/auth/2fa/setup');
+    return response.data;
+  }
+
+  /**
+   * Turn two-factor on with a code from the newly set-up app; returns the first recovery codes
+   */
+  async enable(code: string): Promise<RecoveryCodesResponse> {
+    const response = await api.post('/auth/2fa/enable', { code });
+    return response.data;
+  }
+
+  /**
+   * Turn two-factor off; needs a current authenticator or recovery code
+   */
+  async disable(code: string): Promise<{ success: boolean; message: string }> {
+    const response = await api.post('/auth/2fa/disable', { code });
+    return response.data;
+  }
+
+  /**
+   * Replace every recovery code; the old ones stop working straight away
+   */
+  async regenerateRecoveryCodes(code: string): Promise<RecoveryCodesResponse> {
+    const response = await api.post('/auth/2fa/recovery-codes', { code });
+    return response.data;
+  }
+}
+
+export default new TwoFactorService();
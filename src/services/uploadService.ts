@@ -0,0 +1,180 @@
+import axios from 'axios';
+import api from './api';
+
+const CHUNK_SIZE = 5 * 1024 * 1024;
+
+// Files larger than one chunk are sent in chunks so a dropped connection only costs the current chunk
+export const CHUNKED_UPLOAD_THRESHOLD = CHUNK_SIZE;
+
+// Each chunk is retried this many times on network errors before the upload is reported as failed
+const CHUNK_RETRIES = 3;
+
+// Where unfinished chunked uploads are remembered so a retry (or a reload) resumes them
+const SESSION_KEY_PREFIX = 'uploadSession:';
+
+// Anything that can own attachments: a task, a saved draft, or a recurring series' template.
+// A 'version' target replaces an existing task attachment (its ID) with a new version instead.
+export type UploadTarget =
+  | { kind: 'task' | 'draft' | 'series'; id: string }
+  | { kind: 'version'; id: string; taskId: string; note?: string };
+
+export interface UploadOptions {
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+interface UploadSessionResponse {
+  success: boolean;
+  data: {
+    uploadId: string;
+    receivedBytes: number;
+  };
+}
+
+const ATTACHMENT_PATHS: Record<Exclude<UploadTarget['kind'], 'version'>, string> = {
+  task: '/tasks',
+  draft: '/tasks/drafts',
+  series: '/tasks/recurring',
+};
+
+const getUploadPath = (target: UploadTarget) =>
+  target.kind === 'version'
+    ? `/tasks/${target.taskId}/attachments/${target.id}/versions`
+    : `${ATTACHMENT_PATHS[target.kind]}/${target.id}/attachments`;
+
+// Sent alongside the file, whichever way it is uploaded
+const getExtraFields = (target: UploadTarget): Record<string, string> =>
+  target.kind === 'version' && target.note ? { note: target.note } : {};
+
+const getSessionKey = (target: UploadTarget, file: File) =>
+  `${SESSION_KEY_PREFIX}${getUploadPath(target)}:${file.name}:${file.size}:${file.lastModified}`;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Only connection problems and server errors are worth retrying; a 4xx will fail the same way again
+const isRetryable = (error: unknown) =>
+  axios.isAxiosError(error) && !axios.isCancel(error) && (!error.response || error.response.status >= 500);
+
+class UploadService {
+  /**
+   * Upload one file as an attachment of an existing task, draft or series (or as a new version of an attachment),
+   * reporting progress as a fraction from 0 to 1.
+   * Large files are uploaded in resumable chunks; calling this again for the same file picks up where it stopped.
+   */
+  async uploadAttachment(target: UploadTarget, file: File, options: UploadOptions = {}): Promise<void> {
+    if (file.size > CHUNKED_UPLOAD_THRESHOLD) {
+      await this.uploadInChunks(target, file, options);
+    } else {
+      await this.uploadWhole(target, file, options);
+    }
+  }
+
+  /**
+   * Forget a chunked upload the user gave up on, and let the server free what it received
+   */
+  async discardUpload(target: UploadTarget, file: File): Promise<void> {
+    const key = getSessionKey(target, file);
+    const uploadId = localStorage.getItem(key);
+    localStorage.removeItem(key);
+    if (!uploadId) return;
+
+    try {
+      await api.delete(`${getUploadPath(target)}/uploads/${uploadId}`);
+    } catch (error) {
+      // The server expires abandoned uploads on its own
+      console.warn('Could not discard upload session:', error);
+    }
+  }
+
+  private async uploadWhole(target: UploadTarget, file: File, { onProgress, signal }: UploadOptions): Promise<void> {
+    const formData = new FormData();
+    // The versions endpoint takes exactly one file
+    formData.append(target.kind === 'version' ? 'attachment' : 'attachments', file);
+    Object.entries(getExtraFields(target)).forEach(([name, value]) => formData.append(name, value));
+
+    await api.post(getUploadPath(target), formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+      timeout: 0, // The default 10s timeout is far too short for uploads
+      signal,
+      onUploadProgress: (event) => {
+        if (event.total) onProgress?.(event.loaded / event.total);
+      },
+    });
+    onProgress?.(1);
+  }
+
+  private async uploadInChunks(target: UploadTarget, file: File, { onProgress, signal }: UploadOptions): Promise<void> {
+    const path = getUploadPath(target);
+    const key = getSessionKey(target, file);
+    let session = await this.resumeSession(path, localStorage.getItem(key));
+
+    if (!session) {
+      const response = await api.post<UploadSessionResponse>(`${path}/uploads`, {
+        fileName: file.name,
+        size: file.size,
+        mimetype: file.type,
+        ...getExtraFields(target),
+      }, { signal });
+      session = response.data.data;
+      localStorage.setItem(key, session.uploadId);
+    }
+
+    let offset = session.receivedBytes;
+    onProgress?.(offset / file.size);
+
+    while (offset < file.size) {
+      const end = Math.min(offset + CHUNK_SIZE, file.size);
+      await this.sendChunk(path, session.uploadId, file, offset, end, (loaded) => {
+        onProgress?.((offset + loaded) / file.size);
+      }, signal);
+      offset = end;
+    }
+
+    await api.post(`${path}/uploads/${session.uploadId}/complete`, {}, { signal });
+    localStorage.removeItem(key);
+    onProgress?.(1);
+  }
+
+  private async resumeSession(path: string, uploadId: string | null): Promise<UploadSessionResponse['data'] | null> {
+    if (!uploadId) return null;
+    try {
+      const response = await api.get<UploadSessionResponse>(`${path}/uploads/${uploadId}`);
+      return response.data.data;
+    } catch {
+      // Expired or unknown on the server, so start again
+      return null;
+    }
+  }
+
+  private async sendChunk(
+    path: string,
+    uploadId: string,
+    file: File,
+    start: number,
+    end: number,
+    onChunkProgress: (loaded: number) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await api.put(`${path}/uploads/${uploadId}`, file.slice(start, end), {
+          headers: {
+            'Content-Type': 'application/octet-stream',
+            'Content-Range': `bytes ${start}-${end - 1}/${file.size}`,
+          },
+          timeout: 0,
+          signal,
+          onUploadProgress: (event) => onChunkProgress(event.loaded),
+        });
+        return;
+      } catch (error) {
+        if (attempt >= CHUNK_RETRIES || !isRetryable(error)) throw error;
+        await wait(1000 * 2 ** attempt);
+      }
+    }
+  }
+}
+
+export default new UploadService();
@@ -1,10 +1,11 @@
 import api from './api';
+import type { UserRole } from '../utils/permissions';
 
 export interface User {
   _id: string;
   name: string;
   email: string;
-  role: 'employee' | 'hod' | 'admin';
+  role: UserRole;
   department: {
     _id: string;
     name: string;
@@ -0,0 +1,13 @@
+import axios from 'axios';
+
+/**
+ * Extract the message sent by the backend from a failed API call,
+ * falling back to a generic text for network or unexpected errors
+ */
+export const getApiErrorMessage = (error: unknown, fallback: string): string => {
+  if (axios.isAxiosError(error)) {
+    const data = error.response?.data as { message?: string } | undefined;
+    return data?.message || fallback;
+  }
+  return fallback;
+};
@@ -0,0 +1,68 @@
+/**
+ * Utility functions for working out how a task attachment can be previewed
+ */
+
+import type { TaskAttachment } from '../services/taskService';
+
+export type PreviewKind = 'image' | 'pdf' | 'text' | 'spreadsheet';
+
+// Raster formats only: an SVG is a document that can carry script, so it is never previewed
+const IMAGE_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.bmp': 'image/bmp',
+  '.webp': 'image/webp',
+};
+const SAFE_IMAGE_MIMETYPES = Object.values(IMAGE_TYPES);
+const TEXT_EXTENSIONS = ['.txt', '.csv', '.md', '.log', '.json', '.xml'];
+const SPREADSHEET_EXTENSIONS = ['.xlsx', '.xls', '.ods'];
+
+// Larger text files are cut off in the preview; the full file can still be downloaded
+export const MAX_TEXT_PREVIEW_CHARS = 200000;
+
+// Rows shown per sheet, so a huge spreadsheet can't lock up the page
+export const MAX_SPREADSHEET_PREVIEW_ROWS = 500;
+
+const hasExtension = (fileName: string, extensions: string[]) =>
+  extensions.some(ext => fileName.toLowerCase().endsWith(ext));
+
+const getImageType = ({ originalName, mimetype = '' }: Pick<TaskAttachment, 'originalName' | 'mimetype'>): string | null => {
+  const extension = Object.keys(IMAGE_TYPES).find(ext => hasExtension(originalName, [ext]));
+  if (extension) return IMAGE_TYPES[extension];
+  return SAFE_IMAGE_MIMETYPES.includes(mimetype) ? mimetype : null;
+};
+
+/**
+ * How an attachment can be shown in the viewer, or null if it can only be downloaded
+ */
+export const getPreviewKind = (attachment: Pick<TaskAttachment, 'originalName' | 'mimetype'>): PreviewKind | null => {
+  const { originalName, mimetype = '' } = attachment;
+
+  if (mimetype === 'application/pdf' || hasExtension(originalName, ['.pdf'])) return 'pdf';
+  if (getImageType(attachment)) return 'image';
+  if (
+    hasExtension(originalName, SPREADSHEET_EXTENSIONS) ||
+    mimetype.includes('spreadsheet') ||
+    mimetype === 'application/vnd.ms-excel'
+  ) {
+    return 'spreadsheet';
+  }
+  if (mimetype.startsWith('text/') || mimetype === 'application/json' || hasExtension(originalName, TEXT_EXTENSIONS)) {
+    return 'text';
+  }
+  return null;
+};
+
+/**
+ * The type to render an image or PDF preview as. Never the stored mimetype as-is: the uploader
+ * chose it, and a blob typed text/html would run as a page on our origin.
+ */
+export const getPreviewBlobType = (
+  attachment: Pick<TaskAttachment, 'originalName' | 'mimetype'>,
+  kind: 'image' | 'pdf'
+): string => (kind === 'pdf' ? 'application/pdf' : getImageType(attachment) || 'application/octet-stream');
+
+export const isPreviewable = (attachment: Pick<TaskAttachment, 'originalName' | 'mimetype'>): boolean =>
+  getPreviewKind(attachment) !== null;
@@ -0,0 +1,110 @@
+/**
+ * Utility functions for describing and applying bulk changes to tasks picked from a list
+ */
+
+import type { Task, UpdateStageData, UpdateStatusData } from '../services/taskService';
+
+// How long the undo button stays available after a bulk change
+export const BULK_UNDO_WINDOW_MS = 15000;
+
+// Task titles named in the confirmation before the rest are summarised as "and N more"
+const SUMMARY_TITLE_LIMIT = 5;
+
+export type BulkAction =
+  | { type: 'reassign'; userIds: string[]; userNames: string[] }
+  | { type: 'status'; status: UpdateStatusData['status'] }
+  | { type: 'stage'; stage: UpdateStageData['stage'] }
+  | { type: 'priority'; priority: Task['priority'] }
+  | { type: 'deadline'; days: number }
+  | { type: 'tag'; tag: string }
+  | { type: 'delete' };
+
+export type BulkActionType = BulkAction['type'];
+
+export const BULK_ACTION_LABELS: Record<BulkActionType, string> = {
+  reassign: 'Reassign',
+  status: 'Change status',
+  stage: 'Change stage',
+  priority: 'Change priority',
+  deadline: 'Shift deadline',
+  tag: 'Add tag',
+  delete: 'Delete',
+};
+
+// Enough of a task to name it in summaries and reports; everything else is fetched fresh before changing it
+export interface BulkTaskItem {
+  _id: string;
+  title: string;
+}
+
+export interface BulkItemResult {
+  item: BulkTaskItem;
+  outcome: 'changed' | 'unchanged' | 'failed';
+  error?: string;
+}
+
+const formatLabel = (value: string) => value.replace(/_/g, ' ');
+
+/**
+ * Move a deadline by whole days, keeping its time of day
+ */
+export const shiftDeadline = (deadline: string, days: number): string => {
+  const date = new Date(deadline);
+  date.setDate(date.getDate() + days);
+  return date.toISOString();
+};
+
+/**
+ * What an action does, phrased to follow "for N tasks" style summaries, e.g. "set priority to high"
+ */
+export const describeBulkAction = (action: BulkAction): string => {
+  switch (action.type) {
+    case 'reassign':
+      return `reassign to ${action.userNames.join(', ')}`;
+    case 'status':
+      return `set status to ${formatLabel(action.status)}`;
+    case 'stage':
+      return `set stage to ${formatLabel(action.stage)}`;
+    case 'priority':
+      return `set priority to ${action.priority}`;
+    case 'deadline': {
+      const days = Math.abs(action.days);
+      return `move deadline ${action.days > 0 ? 'later' : 'earlier'} by ${days} day${days === 1 ? '' : 's'}`;
+    }
+    case 'tag':
+      return `add tag "${action.tag}"`;
+    case 'delete':
+      return 'delete';
+  }
+};
+
+/**
+ * The text of the confirmation shown before a bulk action runs
+ */
+export const buildBulkConfirmation = (action: BulkAction, items: BulkTaskItem[]): string => {
+  const titles = items.slice(0, SUMMARY_TITLE_LIMIT).map(item => `• ${item.title}`);
+  if (items.length > SUMMARY_TITLE_LIMIT) {
+    titles.push(`…and ${items.length - SUMMARY_TITLE_LIMIT} more`);
+  }
+
+  const description = describeBulkAction(action);
+  return [
+    `${description.charAt(0).toUpperCase()}${description.slice(1)} for ${items.length} task${items.length === 1 ? '' : 's'}?`,
+    '',
+    ...titles,
+    '',
+    `You can undo this for ${BULK_UNDO_WINDOW_MS / 1000} seconds afterwards.`,
+  ].join('\n');
+};
+
+/**
+ * An error message for an invalid action, or null if it can be run
+ */
+export const validateBulkAction = (action: BulkAction): string | null => {
+  if (action.type === 'reassign' && action.userIds.length === 0) return 'Choose at least one user to assign';
+  if (action.type === 'deadline' && (!Number.isInteger(action.days) || action.days === 0)) {
+    return 'Enter a whole number of days other than zero';
+  }
+  if (action.type === 'tag' && !action.tag.trim()) return 'Enter a tag to add';
+  return null;
+};
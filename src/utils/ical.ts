@@ -0,0 +1,159 @@
+/**
+ * Utility functions for exporting task deadlines as iCalendar (.ics) files
+ * The subscription feed is generated by the backend with the same UIDs and
+ * reminders, so events from an export and from the feed don't duplicate
+ */
+
+// The fields an exported event needs, shared by the task list and the individual report
+export interface CalendarTask {
+  _id: string;
+  title: string;
+  description?: string;
+  priority: string;
+  status: string;
+  deadline: string;
+}
+
+// How long before the deadline each reminder fires, in minutes
+export const PRIORITY_REMINDERS: Record<string, number[]> = {
+  urgent: [24 * 60, 60],
+  high: [24 * 60],
+  medium: [4 * 60],
+  low: [60],
+};
+
+// iCalendar priorities run from 1 (highest) to 9 (lowest)
+const ICAL_PRIORITY: Record<string, number> = {
+  urgent: 1,
+  high: 3,
+  medium: 5,
+  low: 9,
+};
+
+const PRODUCT_ID = '-//IMTS//Task Management//EN';
+const UID_DOMAIN = 'imts-task-management';
+
+// The whole event sits on the deadline, so calendars show it as a short block
+const EVENT_DURATION_MINUTES = 30;
+
+/**
+ * Stable identifier for a task's event, so re-importing updates it instead of adding a copy
+ */
+export const getTaskEventUid = (taskId: string): string => `task-${taskId}@${UID_DOMAIN}`;
+
+export const getTaskUrl = (taskId: string, baseUrl: string = window.location.origin): string =>
+  `${baseUrl}/tasks/${taskId}`;
+
+// UTC date-time in the basic format, e.g. 20250131T170000Z
+const formatDateTime = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+/**
+ * Split a content line into 75-octet pieces, continuing each piece with a leading space
+ */
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+const formatAlarm = (minutes: number, title: string): string[] => [
+  'BEGIN:VALARM',
+  'ACTION:DISPLAY',
+  `DESCRIPTION:${escapeText(`Task due: ${title}`)}`,
+  `TRIGGER:-PT${minutes}M`,
+  'END:VALARM',
+];
+
+const formatEvent = (task: CalendarTask, stamp: string, baseUrl: string): string[] => {
+  const deadline = new Date(task.deadline);
+  const end = new Date(deadline.getTime() + EVENT_DURATION_MINUTES * 60 * 1000);
+  const url = getTaskUrl(task._id, baseUrl);
+  // Finished tasks stay on the calendar but stop reminding anyone
+  const reminders = ['completed', 'approved'].includes(task.status) ? [] : PRIORITY_REMINDERS[task.priority] || [];
+
+  const details = [`Priority: ${task.priority}`, `Status: ${task.status.replace('_', ' ')}`];
+  if (task.description) details.push('', task.description);
+  details.push('', url);
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${getTaskEventUid(task._id)}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatDateTime(deadline)}`,
+    `DTEND:${formatDateTime(end)}`,
+    `SUMMARY:${escapeText(task.title)}`,
+    `DESCRIPTION:${escapeText(details.join('\n'))}`,
+    `URL:${url}`,
+    `PRIORITY:${ICAL_PRIORITY[task.priority] ?? 0}`,
+    ...reminders.flatMap(minutes => formatAlarm(minutes, task.title)),
+    'END:VEVENT',
+  ];
+};
+
+/**
+ * Build an iCalendar document with one event per task deadline
+ */
+export const buildTaskCalendar = (
+  tasks: CalendarTask[],
+  calendarName: string,
+  baseUrl: string = window.location.origin
+): string => {
+  const stamp = formatDateTime(new Date());
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    ...tasks
+      .filter(task => task.deadline && !isNaN(new Date(task.deadline).getTime()))
+      .flatMap(task => formatEvent(task, stamp, baseUrl)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+/**
+ * Build the calendar and save it as a .ics file
+ */
+export const downloadTaskCalendar = (tasks: CalendarTask[], calendarName: string, fileName: string): void => {
+  const blob = new Blob([buildTaskCalendar(tasks, calendarName)], { type: 'text/calendar;charset=utf-8' });
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName.endsWith('.ics') ? fileName : `${fileName}.ics`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  window.URL.revokeObjectURL(url);
+};
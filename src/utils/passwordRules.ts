@@ -0,0 +1,20 @@
+/**
+ * Utility functions for checking a new password against the server's rules
+ * while the user types it.
+ */
+
+export interface PasswordRule {
+  label: string;
+  test: (password: string) => boolean;
+}
+
+export const PASSWORD_RULES: PasswordRule[] = [
+  { label: 'At least 8 characters', test: password => password.length >= 8 },
+  { label: 'One uppercase letter (A-Z)', test: password => /[A-Z]/.test(password) },
+  { label: 'One lowercase letter (a-z)', test: password => /[a-z]/.test(password) },
+  { label: 'One number (0-9)', test: password => /\d/.test(password) },
+  { label: 'One special character (!@#$%^&*)', test: password => /[!@#$%^&*()_+\-=[\]{};':"\\|,.<>/?]/.test(password) },
+];
+
+export const meetsPasswordRules = (password: string): boolean =>
+  PASSWORD_RULES.every(rule => rule.test(password));
@@ -0,0 +1,68 @@
+/**
+ * Utility functions for deciding what each role may see and do.
+ * Routes, menus and buttons all check against this one matrix, so a role's
+ * access only has to change in one place. The server still enforces the same
+ * rules; this only keeps the UI from offering what would be refused.
+ */
+
+export type UserRole = 'employee' | 'hod' | 'admin' | 'super_admin';
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  employee: 'Employee',
+  hod: 'Head of Department',
+  admin: 'Admin',
+  super_admin: 'Super Admin',
+};
+
+export type Permission =
+  // HOD pages: the department dashboard, its tasks, employees and reports
+  | 'department.manage'
+  // System admin dashboard, departments, reminders and organisation reports
+  | 'admin.access'
+  // Viewing and editing any employee's account
+  | 'users.manage'
+  // Inviting people by email; HODs only into their own department
+  | 'users.invite'
+  // Approving or rejecting self-signups waiting in the queue
+  | 'signups.approve';
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  employee: [],
+  hod: ['department.manage', 'users.invite', 'signups.approve'],
+  admin: ['admin.access', 'users.manage', 'users.invite', 'signups.approve'],
+  super_admin: ['admin.access', 'users.manage', 'users.invite', 'signups.approve'],
+};
+
+// The roles each role may give the people it invites
+const INVITABLE_ROLES: Record<UserRole, UserRole[]> = {
+  employee: [],
+  hod: ['employee'],
+  admin: ['employee', 'hod', 'admin'],
+  super_admin: ['employee', 'hod', 'admin', 'super_admin'],
+};
+
+/**
+ * Whether a user (or a bare role) has a permission; no user means no permissions
+ */
+export const hasPermission = (
+  user: { role: string } | string | null | undefined,
+  permission: Permission
+): boolean => {
+  const role = typeof user === 'string' ? user : user?.role;
+  return !!role && (ROLE_PERMISSIONS[role as UserRole]?.includes(permission) ?? false);
+};
+
+/**
+ * The dashboard a role lands on after signing in, or when sent away from a page it can't open
+ */
+export const getHomePath = (role: string | undefined): string => {
+  if (hasPermission(role, 'admin.access')) return '/admin/dashboard';
+  if (hasPermission(role, 'department.manage')) return '/hod/dashboard';
+  return '/dashboard';
+};
+
+/**
+ * Roles a user may choose from when inviting someone
+ */
+export const getInvitableRoles = (role: string | undefined): UserRole[] =>
+  INVITABLE_ROLES[role as UserRole] || [];
@@ -0,0 +1,12 @@
+/**
+ * Utility functions for telling the pages that work without a session
+ * from the ones that need one.
+ */
+
+export const PUBLIC_ROUTES = ['/login', '/login/two-factor', '/signup', '/forgot-password', '/reset-password'];
+
+// Invitation links carry their token in the path
+export const PUBLIC_ROUTE_PREFIXES = ['/invite/'];
+
+export const isPublicRoute = (pathname: string): boolean =>
+  PUBLIC_ROUTES.includes(pathname) || PUBLIC_ROUTE_PREFIXES.some(prefix => pathname.startsWith(prefix));
@@ -0,0 +1,313 @@
+/**
+ * Utility functions for recurring task rules
+ * Used to preview and describe schedules on the client; the backend remains
+ * the source of truth for the instances it actually generates
+ */
+
+import type { AssignmentMode, RecurrenceRule } from '../services/recurringTaskService';
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Stop scanning after this many candidate dates so broken rules can't hang the UI
+const MAX_ITERATIONS = 5000;
+
+const CRON_FIELD_RANGES: Array<[number, number]> = [
+  [0, 59], // minute
+  [0, 23], // hour
+  [1, 31], // day of month
+  [1, 12], // month
+  [0, 7], // day of week (0 and 7 are both Sunday)
+];
+
+interface ParsedCron {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  restrictsDayOfMonth: boolean;
+  restrictsDayOfWeek: boolean;
+}
+
+const parseCronField = (field: string, [min, max]: [number, number]): number[] | null => {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) return null;
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = min;
+      end = max;
+    } else if (rangePart.includes('-')) {
+      [start, end] = rangePart.split('-').map(Number);
+    } else {
+      start = Number(rangePart);
+      end = stepPart === undefined ? start : max;
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      return null;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return Array.from(values).sort((a, b) => a - b);
+};
+
+/**
+ * Parse a five-field cron expression ("minute hour day-of-month month day-of-week").
+ * Supports `*`, lists, ranges and steps. Returns null when the expression is invalid.
+ */
+export const parseCron = (expression: string): ParsedCron | null => {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) return null;
+
+  const parsed = fields.map((field, i) => parseCronField(field, CRON_FIELD_RANGES[i]));
+  if (parsed.some(values => values === null || values.length === 0)) return null;
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parsed as number[][];
+  return {
+    minutes,
+    hours,
+    daysOfMonth: new Set(daysOfMonth),
+    months: new Set(months),
+    daysOfWeek: new Set(daysOfWeek.map(day => day % 7)),
+    restrictsDayOfMonth: fields[2] !== '*',
+    restrictsDayOfWeek: fields[4] !== '*',
+  };
+};
+
+export const isValidCron = (expression: string): boolean => parseCron(expression) !== null;
+
+const withTime = (date: Date, time: string): Date => {
+  const [hours, minutes] = (time || '09:00').split(':').map(Number);
+  const result = new Date(date);
+  result.setHours(hours || 0, minutes || 0, 0, 0);
+  return result;
+};
+
+// Date-only strings ("2025-01-31") would otherwise be parsed as UTC midnight
+const parseLocalDate = (value: string): Date =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00`) : new Date(value);
+
+// The local date and time as "YYYY-MM-DDTHH:mm", as date and datetime-local inputs expect;
+// toISOString() alone would give the UTC one
+export const toLocalInputValue = (date: Date): string =>
+  new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+
+const daysInMonth = (year: number, month: number): number => new Date(year, month + 1, 0).getDate();
+
+function* candidateDates(rule: RecurrenceRule): Generator<Date> {
+  const start = parseLocalDate(rule.startDate);
+  const interval = Math.max(1, rule.interval || 1);
+
+  switch (rule.frequency) {
+    case 'daily': {
+      for (let i = 0; ; i += interval) {
+        const date = new Date(start);
+        date.setDate(start.getDate() + i);
+        yield withTime(date, rule.time);
+      }
+    }
+    case 'weekly': {
+      const days = rule.daysOfWeek && rule.daysOfWeek.length > 0
+        ? [...rule.daysOfWeek].sort((a, b) => a - b)
+        : [start.getDay()];
+      const weekStart = new Date(start);
+      weekStart.setDate(start.getDate() - start.getDay());
+      for (let week = 0; ; week += interval) {
+        for (const day of days) {
+          const date = new Date(weekStart);
+          date.setDate(weekStart.getDate() + week * 7 + day);
+          const occurrence = withTime(date, rule.time);
+          if (occurrence >= withTime(start, '00:00')) {
+            yield occurrence;
+          }
+        }
+      }
+    }
+    case 'monthly': {
+      const dayOfMonth = rule.dayOfMonth || start.getDate();
+      for (let month = 0; ; month += interval) {
+        const year = start.getFullYear() + Math.floor((start.getMonth() + month) / 12);
+        const monthIndex = (start.getMonth() + month) % 12;
+        const date = new Date(year, monthIndex, Math.min(dayOfMonth, daysInMonth(year, monthIndex)));
+        const occurrence = withTime(date, rule.time);
+        if (occurrence >= withTime(start, '00:00')) {
+          yield occurrence;
+        }
+      }
+    }
+    case 'cron': {
+      const cron = parseCron(rule.cron || '');
+      if (!cron) return;
+      const day = new Date(start);
+      day.setHours(0, 0, 0, 0);
+      for (;;) {
+        const dayOfMonthMatches = cron.daysOfMonth.has(day.getDate());
+        const dayOfWeekMatches = cron.daysOfWeek.has(day.getDay());
+        // Standard cron: when both day fields are restricted, either one may match
+        const dayMatches = cron.restrictsDayOfMonth && cron.restrictsDayOfWeek
+          ? dayOfMonthMatches || dayOfWeekMatches
+          : dayOfMonthMatches && dayOfWeekMatches;
+
+        if (cron.months.has(day.getMonth() + 1) && dayMatches) {
+          for (const hour of cron.hours) {
+            for (const minute of cron.minutes) {
+              const occurrence = new Date(day);
+              occurrence.setHours(hour, minute, 0, 0);
+              if (occurrence >= start) {
+                yield occurrence;
+              }
+            }
+          }
+        } else {
+          // Yield nothing for this day, but still count it against the iteration cap
+          yield new Date(NaN);
+        }
+        day.setDate(day.getDate() + 1);
+      }
+    }
+  }
+}
+
+/**
+ * Get the next occurrences of a rule, honouring its end date and count.
+ * Occurrences before `from` are counted towards `count` but not returned.
+ */
+export const getUpcomingOccurrences = (
+  rule: RecurrenceRule,
+  limit = 5,
+  from: Date = new Date()
+): Date[] => {
+  const results: Date[] = [];
+  const endDate = rule.endDate ? withTime(parseLocalDate(rule.endDate), '23:59') : null;
+  let occurrenceCount = 0;
+  let iterations = 0;
+
+  for (const date of candidateDates(rule)) {
+    if (++iterations > MAX_ITERATIONS) break;
+    if (isNaN(date.getTime())) continue;
+    if (endDate && date > endDate) break;
+    if (rule.count && occurrenceCount >= rule.count) break;
+
+    occurrenceCount++;
+    if (date >= from) {
+      results.push(date);
+      if (results.length >= limit) break;
+    }
+  }
+
+  return results;
+};
+
+/**
+ * Pick the assignee for an occurrence when assignees rotate
+ */
+export const getRotatingAssignee = <T>(assignees: T[], occurrenceIndex: number): T | undefined => {
+  if (assignees.length === 0) return undefined;
+  return assignees[occurrenceIndex % assignees.length];
+};
+
+/**
+ * Human-readable summary of a rule, e.g. "Every 2 weeks on Mon, Thu at 09:00"
+ */
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  const interval = Math.max(1, rule.interval || 1);
+  let summary: string;
+
+  switch (rule.frequency) {
+    case 'daily':
+      summary = interval === 1 ? 'Every day' : `Every ${interval} days`;
+      break;
+    case 'weekly': {
+      const days = (rule.daysOfWeek && rule.daysOfWeek.length > 0
+        ? [...rule.daysOfWeek].sort((a, b) => a - b)
+        : [parseLocalDate(rule.startDate).getDay()]
+      ).map(day => WEEKDAY_LABELS[day]).join(', ');
+      summary = `${interval === 1 ? 'Every week' : `Every ${interval} weeks`} on ${days}`;
+      break;
+    }
+    case 'monthly': {
+      const day = rule.dayOfMonth || parseLocalDate(rule.startDate).getDate();
+      summary = `${interval === 1 ? 'Every month' : `Every ${interval} months`} on day ${day}`;
+      break;
+    }
+    case 'cron':
+      return `Custom schedule (${rule.cron || 'not set'})${describeEnd(rule)}`;
+    default:
+      summary = 'Custom schedule';
+  }
+
+  return `${summary} at ${rule.time || '09:00'}${describeEnd(rule)}`;
+};
+
+const describeEnd = (rule: RecurrenceRule): string => {
+  if (rule.count) return `, ${rule.count} times`;
+  if (rule.endDate) return `, until ${parseLocalDate(rule.endDate).toLocaleDateString()}`;
+  return '';
+};
+
+// Form state of the "Repeat" section on the task creation page
+export interface RecurrenceSettingsValue {
+  enabled: boolean;
+  rule: RecurrenceRule;
+  endType: 'never' | 'on_date' | 'after_count';
+  assignmentMode: AssignmentMode;
+  deadlineAfterDays: number;
+}
+
+export const createDefaultRecurrence = (): RecurrenceSettingsValue => ({
+  enabled: false,
+  rule: {
+    frequency: 'weekly',
+    interval: 1,
+    daysOfWeek: [new Date().getDay()],
+    time: '09:00',
+    startDate: toLocalInputValue(new Date()).slice(0, 10),
+  },
+  endType: 'never',
+  assignmentMode: 'fixed',
+  deadlineAfterDays: 1,
+});
+
+/**
+ * Returns the rule to send to the backend, with the unused end condition removed
+ */
+export const toRecurrenceRule = (value: RecurrenceSettingsValue): RecurrenceRule => {
+  const { endDate, count, ...rule } = value.rule;
+  if (value.endType === 'on_date') return { ...rule, endDate };
+  if (value.endType === 'after_count') return { ...rule, count };
+  return rule;
+};
+
+/**
+ * Returns an error message when the settings can't be saved, otherwise null
+ */
+export const validateRecurrence = (value: RecurrenceSettingsValue): string | null => {
+  if (!value.enabled) return null;
+  const { rule } = value;
+
+  if (!rule.startDate) return 'Please choose when the recurring task starts';
+  if (rule.frequency === 'cron' && !isValidCron(rule.cron || '')) {
+    return 'Please enter a valid cron expression (minute hour day month weekday)';
+  }
+  if (rule.frequency === 'weekly' && (!rule.daysOfWeek || rule.daysOfWeek.length === 0)) {
+    return 'Please pick at least one day of the week';
+  }
+  if (value.endType === 'on_date' && (!rule.endDate || rule.endDate < rule.startDate)) {
+    return 'The end date must be on or after the start date';
+  }
+  if (value.endType === 'after_count' && (!rule.count || rule.count < 1)) {
+    return 'The number of occurrences must be at least 1';
+  }
+  if (value.deadlineAfterDays < 0) return 'The deadline offset cannot be negative';
+  return null;
+};
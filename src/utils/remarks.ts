@@ -0,0 +1,162 @@
+/**
+ * Utility functions for task remarks: threading, @mentions and the small
+ * markdown subset remarks support.
+ *
+ * Markdown is parsed into tokens rather than HTML, so remark text is only ever
+ * rendered as React text nodes and links are limited to safe protocols.
+ */
+
+import type { Task, TaskRemark } from '../services/taskService';
+
+export type RemarkCategory = 'creator' | 'assignee' | 'general';
+
+export interface RemarkNode extends TaskRemark {
+  category: RemarkCategory;
+  replies: RemarkNode[];
+}
+
+export interface MentionUser {
+  _id: string;
+  name: string;
+}
+
+/**
+ * Combine the remark categories into threads. Top-level remarks are latest
+ * first; replies read top to bottom, oldest first. Replies whose parent is
+ * missing are shown at the top level.
+ */
+export const buildRemarkThreads = (remarks: Task['remarks'] | undefined): RemarkNode[] => {
+  const all: RemarkNode[] = (['creator', 'assignee', 'general'] as RemarkCategory[]).flatMap(category =>
+    (remarks?.[category] || []).map(remark => ({ ...remark, category, replies: [] }))
+  );
+  const nodes = new Map(all.map(node => [node._id, node]));
+  const roots: RemarkNode[] = [];
+
+  [...all]
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+    .forEach(node => {
+      const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+      if (parent && parent !== node) {
+        parent.replies.push(node);
+      } else {
+        roots.push(node);
+      }
+    });
+
+  return roots.reverse();
+};
+
+// Mentions are stored in the text as @[Name](userId) so names with spaces survive editing
+const MENTION_PATTERN = /@\[([^\]]+)\]\(([a-zA-Z0-9]+)\)/g;
+
+export const formatMention = (user: MentionUser): string => `@[${user.name}](${user._id})`;
+
+/**
+ * Ids of everyone mentioned in a remark, without duplicates
+ */
+export const extractMentionIds = (text: string): string[] =>
+  Array.from(new Set(Array.from(text.matchAll(MENTION_PATTERN), match => match[2])));
+
+/**
+ * The partial @name being typed just before the caret, if any
+ */
+export const findMentionQuery = (text: string, caret: number): { start: number; query: string } | null => {
+  const match = /(^|\s)@([^\s@[\]()]*)$/.exec(text.slice(0, caret));
+  if (!match) return null;
+  return { start: caret - match[2].length - 1, query: match[2] };
+};
+
+/**
+ * Replace the partial @name that starts at `start` with a full mention
+ */
+export const insertMention = (
+  text: string,
+  start: number,
+  caret: number,
+  user: MentionUser
+): { text: string; caret: number } => {
+  const mention = `${formatMention(user)} `;
+  return {
+    text: text.slice(0, start) + mention + text.slice(caret),
+    caret: start + mention.length,
+  };
+};
+
+export type InlineToken =
+  | { type: 'text'; text: string }
+  | { type: 'bold' | 'italic'; children: InlineToken[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; text: string; href: string }
+  | { type: 'mention'; name: string; userId: string };
+
+export type RemarkBlock =
+  | { type: 'paragraph'; lines: InlineToken[][] }
+  | { type: 'list'; items: InlineToken[][] };
+
+const SAFE_URL = /^(https?:|mailto:)/i;
+
+const INLINE_PATTERN = /@\[([^\]]+)\]\(([a-zA-Z0-9]+)\)|`([^`]+)`|\*\*(.+?)\*\*|\*([^*\s][^*]*?)\*|(?<!\w)_([^_\s][^_]*?)_(?!\w)|\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+const parseInline = (text: string): InlineToken[] => {
+  const tokens: InlineToken[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      tokens.push({ type: 'text', text: text.slice(lastIndex, index) });
+    }
+
+    const [whole, mentionName, mentionId, code, bold, starItalic, underscoreItalic, linkText, href] = match;
+    if (mentionName) {
+      tokens.push({ type: 'mention', name: mentionName, userId: mentionId });
+    } else if (code) {
+      tokens.push({ type: 'code', text: code });
+    } else if (bold) {
+      tokens.push({ type: 'bold', children: parseInline(bold) });
+    } else if (starItalic || underscoreItalic) {
+      tokens.push({ type: 'italic', children: parseInline(starItalic || underscoreItalic) });
+    } else if (linkText && SAFE_URL.test(href)) {
+      tokens.push({ type: 'link', text: linkText, href });
+    } else {
+      // Links to anything but http(s) or mailto stay as plain text
+      tokens.push({ type: 'text', text: whole });
+    }
+
+    lastIndex = index + whole.length;
+  }
+
+  if (lastIndex < text.length) {
+    tokens.push({ type: 'text', text: text.slice(lastIndex) });
+  }
+  return tokens;
+};
+
+/**
+ * Parse remark text into paragraphs and bullet lists
+ */
+export const parseRemarkMarkdown = (text: string): RemarkBlock[] => {
+  const blocks: RemarkBlock[] = [];
+
+  text.split(/\r?\n/).forEach(line => {
+    const last = blocks[blocks.length - 1];
+    const bullet = /^\s*[-*]\s+(.*)$/.exec(line);
+
+    if (bullet) {
+      if (last?.type === 'list') {
+        last.items.push(parseInline(bullet[1]));
+      } else {
+        blocks.push({ type: 'list', items: [parseInline(bullet[1])] });
+      }
+    } else if (!line.trim()) {
+      // A blank line ends the current block
+      blocks.push({ type: 'paragraph', lines: [] });
+    } else if (last?.type === 'paragraph') {
+      last.lines.push(parseInline(line));
+    } else {
+      blocks.push({ type: 'paragraph', lines: [parseInline(line)] });
+    }
+  });
+
+  return blocks.filter(block => (block.type === 'paragraph' ? block.lines.length > 0 : true));
+};
@@ -0,0 +1,153 @@
+/**
+ * Utility functions for deadline reminder and overdue escalation rules
+ * Used to preview the schedule on the admin screen; the backend remains the
+ * source of truth for the notifications it actually sends. Every function
+ * takes the current time as `now`, so the schedule can be checked against
+ * any point in time.
+ */
+
+import type { EscalationStep, EscalationTarget, ReminderPriority, ReminderRules, ReminderTask } from '../services/adminService';
+
+export const REMINDER_PRIORITIES: ReminderPriority[] = ['urgent', 'high', 'medium', 'low'];
+
+export const ESCALATION_ORDER: EscalationTarget[] = ['creator', 'hod', 'admin'];
+
+export const ESCALATION_LABELS: Record<EscalationTarget, string> = {
+  creator: 'Task creator',
+  hod: 'Department HOD',
+  admin: 'Administrators',
+};
+
+export const DEFAULT_REMINDER_RULES: ReminderRules = {
+  reminders: {
+    urgent: [24, 4, 1],
+    high: [24, 4],
+    medium: [24],
+    low: [48],
+  },
+  escalation: [
+    { target: 'creator', afterDays: 0 },
+    { target: 'hod', afterDays: 2 },
+    { target: 'admin', afterDays: 5 },
+  ],
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export type ScheduledEvent =
+  | { kind: 'reminder'; task: ReminderTask; at: Date; hoursBefore: number }
+  | { kind: 'escalation'; task: ReminderTask; at: Date; step: EscalationStep };
+
+const isFinished = (task: Pick<ReminderTask, 'status'>): boolean =>
+  ['completed', 'approved'].includes(task.status);
+
+/**
+ * Reminder offsets for a priority, largest first and without duplicates
+ */
+export const getReminderOffsets = (rules: ReminderRules, priority: ReminderPriority): number[] =>
+  Array.from(new Set(rules.reminders[priority] || [])).sort((a, b) => b - a);
+
+/**
+ * Escalation steps in the order they fire
+ */
+export const getEscalationSteps = (rules: ReminderRules): EscalationStep[] =>
+  [...rules.escalation].sort((a, b) =>
+    a.afterDays - b.afterDays || ESCALATION_ORDER.indexOf(a.target) - ESCALATION_ORDER.indexOf(b.target)
+  );
+
+/**
+ * Who an overdue task has been escalated to so far, or null if it isn't overdue
+ */
+export const getCurrentEscalation = (
+  task: ReminderTask,
+  rules: ReminderRules,
+  now: Date = new Date()
+): EscalationStep | null => {
+  const deadline = new Date(task.deadline).getTime();
+  if (isFinished(task) || now.getTime() <= deadline) return null;
+
+  const daysOverdue = (now.getTime() - deadline) / DAY_MS;
+  const reached = getEscalationSteps(rules).filter(step => step.afterDays <= daysOverdue);
+  return reached.length > 0 ? reached[reached.length - 1] : null;
+};
+
+/**
+ * Every reminder and escalation for a task that is still to come
+ */
+export const getTaskSchedule = (
+  task: ReminderTask,
+  rules: ReminderRules,
+  now: Date = new Date()
+): ScheduledEvent[] => {
+  if (isFinished(task)) return [];
+
+  const deadline = new Date(task.deadline).getTime();
+  if (isNaN(deadline)) return [];
+
+  const reminders: ScheduledEvent[] = getReminderOffsets(rules, task.priority)
+    .map(hoursBefore => ({ kind: 'reminder' as const, task, at: new Date(deadline - hoursBefore * HOUR_MS), hoursBefore }));
+
+  const escalations: ScheduledEvent[] = getEscalationSteps(rules)
+    .map(step => ({ kind: 'escalation' as const, task, at: new Date(deadline + step.afterDays * DAY_MS), step }));
+
+  return [...reminders, ...escalations]
+    .filter(event => event.at > now)
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+};
+
+/**
+ * Everything scheduled across tasks between now and `now + withinHours`, soonest first
+ */
+export const getUpcomingSchedule = (
+  tasks: ReminderTask[],
+  rules: ReminderRules,
+  withinHours: number,
+  now: Date = new Date()
+): ScheduledEvent[] => {
+  const until = now.getTime() + withinHours * HOUR_MS;
+  return tasks
+    .flatMap(task => getTaskSchedule(task, rules, now))
+    .filter(event => event.at.getTime() <= until)
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+};
+
+/**
+ * Problems that would stop the rules being saved, as messages for the user
+ */
+export const validateReminderRules = (rules: ReminderRules): string[] => {
+  const errors: string[] = [];
+
+  REMINDER_PRIORITIES.forEach(priority => {
+    const offsets = rules.reminders[priority] || [];
+    if (offsets.some(hours => !Number.isFinite(hours) || hours <= 0)) {
+      errors.push(`${priority} reminders must be a positive number of hours before the deadline`);
+    }
+  });
+
+  const steps = [...rules.escalation].sort(
+    (a, b) => ESCALATION_ORDER.indexOf(a.target) - ESCALATION_ORDER.indexOf(b.target)
+  );
+  if (steps.some(step => !Number.isFinite(step.afterDays) || step.afterDays < 0)) {
+    errors.push('Escalation days cannot be negative');
+  }
+  for (let i = 1; i < steps.length; i++) {
+    if (steps[i].afterDays < steps[i - 1].afterDays) {
+      errors.push(`${ESCALATION_LABELS[steps[i].target]} can't be told before ${ESCALATION_LABELS[steps[i - 1].target].toLowerCase()}`);
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Short description of when something fires relative to now, e.g. "in 3h" or "in 2d 4h"
+ */
+export const formatTimeUntil = (at: Date, now: Date = new Date()): string => {
+  const minutes = Math.max(0, Math.round((at.getTime() - now.getTime()) / 60000));
+  if (minutes < 60) return `in ${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `in ${hours}h`;
+  const days = Math.floor(hours / 24);
+  return hours % 24 === 0 ? `in ${days}d` : `in ${days}d ${hours % 24}h`;
+};
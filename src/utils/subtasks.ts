@@ -0,0 +1,74 @@
+/**
+ * Utility functions for subtasks and checklists
+ */
+
+import type { ChecklistItem, Subtask, Task } from '../services/taskService';
+
+export interface SubtaskNode extends Subtask {
+  children: SubtaskNode[];
+}
+
+const byOrder = (a: { order: number }, b: { order: number }) => a.order - b.order;
+
+/**
+ * Arrange the flat subtask list into a tree, siblings sorted by their order.
+ * Subtasks whose parent no longer exists are shown at the top level.
+ */
+export const buildSubtaskTree = (subtasks: Subtask[]): SubtaskNode[] => {
+  const nodes = new Map<string, SubtaskNode>(
+    subtasks.map(subtask => [subtask._id, { ...subtask, children: [] }])
+  );
+  const roots: SubtaskNode[] = [];
+
+  [...subtasks].sort(byOrder).forEach(subtask => {
+    const node = nodes.get(subtask._id)!;
+    const parent = subtask.parentId ? nodes.get(subtask.parentId) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  return roots;
+};
+
+export const sortChecklist = (checklist: ChecklistItem[]): ChecklistItem[] => [...checklist].sort(byOrder);
+
+// A subtask marked done counts fully, otherwise it is as far along as its own subtasks
+const getNodeProgress = (node: SubtaskNode): number => {
+  if (node.stage === 'done') return 1;
+  if (node.children.length === 0) return 0;
+  return node.children.reduce((sum, child) => sum + getNodeProgress(child), 0) / node.children.length;
+};
+
+/**
+ * Roll the subtasks and checklist items up into a completion percentage for the parent task.
+ * Every top-level subtask and every checklist item weighs the same.
+ * Returns null when the task has neither, so callers can fall back to their own progress.
+ */
+export const getSubtaskProgress = (task: Pick<Task, 'subtasks' | 'checklist'>): number | null => {
+  const roots = buildSubtaskTree(task.subtasks || []);
+  const checklist = task.checklist || [];
+  const total = roots.length + checklist.length;
+  if (total === 0) return null;
+
+  const completed = roots.reduce((sum, node) => sum + getNodeProgress(node), 0)
+    + checklist.filter(item => item.done).length;
+
+  return Math.round((completed / total) * 100);
+};
+
+/**
+ * Move an item one place up or down in a list of IDs.
+ * Returns null when it is already at that end of the list.
+ */
+export const moveId = (ids: string[], id: string, direction: -1 | 1): string[] | null => {
+  const index = ids.indexOf(id);
+  const target = index + direction;
+  if (index === -1 || target < 0 || target >= ids.length) return null;
+
+  const result = [...ids];
+  [result[index], result[target]] = [result[target], result[index]];
+  return result;
+};
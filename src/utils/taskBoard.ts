@@ -0,0 +1,123 @@
+/**
+ * Utility functions for the Kanban board view of tasks
+ */
+
+import type { TaskDependency, TaskFilters } from '../services/taskService';
+
+// The fields the board needs, so both the task and HOD task lists can be shown on it
+export interface BoardTask {
+  _id: string;
+  title: string;
+  status: string;
+  stage?: string;
+  priority: string;
+  deadline: string;
+  assignedTo: Array<{
+    user?: {
+      _id: string;
+      name: string;
+    } | null;
+  }>;
+  department?: {
+    _id: string;
+    name: string;
+  };
+  blockedBy?: TaskDependency[];
+}
+
+export type BoardGroupBy = 'stage' | 'status' | 'priority';
+export type BoardSwimlane = 'none' | 'assignee' | 'department';
+
+export interface BoardColumn {
+  value: string;
+  label: string;
+}
+
+export interface BoardLane {
+  key: string;
+  label: string;
+  filters: TaskFilters;
+}
+
+export const BOARD_COLUMNS: Record<BoardGroupBy, BoardColumn[]> = {
+  stage: [
+    { value: 'not_started', label: 'Not Started' },
+    { value: 'pending', label: 'In Progress' },
+    { value: 'done', label: 'Done' },
+  ],
+  status: [
+    { value: 'created', label: 'Created' },
+    { value: 'assigned', label: 'Assigned' },
+    { value: 'in_progress', label: 'In Progress' },
+    { value: 'pending', label: 'Pending Review' },
+    { value: 'completed', label: 'Completed' },
+    { value: 'approved', label: 'Approved' },
+    { value: 'rejected', label: 'Rejected' },
+  ],
+  priority: [
+    { value: 'low', label: 'Low' },
+    { value: 'medium', label: 'Medium' },
+    { value: 'high', label: 'High' },
+    { value: 'urgent', label: 'Urgent' },
+  ],
+};
+
+// Stands in for "no assignee" / "no department" in a lane's filters
+export const UNASSIGNED = 'unassigned';
+
+export const getBoardValue = (task: BoardTask, groupBy: BoardGroupBy): string =>
+  (groupBy === 'stage' ? task.stage : task[groupBy]) || '';
+
+/**
+ * Client-side version of the task list filters, used to place tasks in swimlanes
+ */
+export const matchesTaskFilters = (task: BoardTask, filters: TaskFilters): boolean => {
+  if (filters.status && task.status !== filters.status) return false;
+  if (filters.priority && task.priority !== filters.priority) return false;
+  if (filters.stage && task.stage !== filters.stage) return false;
+  if (filters.department) {
+    const inDepartment = filters.department === UNASSIGNED
+      ? !task.department
+      : task.department?._id === filters.department;
+    if (!inDepartment) return false;
+  }
+  if (filters.assignedTo) {
+    const isAssigned = filters.assignedTo === UNASSIGNED
+      ? task.assignedTo.every(assignment => !assignment.user)
+      : task.assignedTo.some(assignment => assignment.user?._id === filters.assignedTo);
+    if (!isAssigned) return false;
+  }
+  return true;
+};
+
+/**
+ * Build one swimlane per assignee or department found in the tasks.
+ * A task assigned to several people shows up in each of their lanes.
+ */
+export const getBoardLanes = (tasks: BoardTask[], swimlane: BoardSwimlane): BoardLane[] => {
+  if (swimlane === 'none') return [{ key: 'all', label: 'All tasks', filters: {} }];
+
+  const lanes = new Map<string, BoardLane>();
+
+  tasks.forEach(task => {
+    if (swimlane === 'department') {
+      const key = task.department?._id || UNASSIGNED;
+      if (!lanes.has(key)) {
+        lanes.set(key, { key, label: task.department?.name || 'No department', filters: { department: key } });
+      }
+      return;
+    }
+
+    const users = task.assignedTo.map(assignment => assignment.user).filter(user => !!user);
+    if (users.length === 0 && !lanes.has(UNASSIGNED)) {
+      lanes.set(UNASSIGNED, { key: UNASSIGNED, label: 'Unassigned', filters: { assignedTo: UNASSIGNED } });
+    }
+    users.forEach(user => {
+      if (!lanes.has(user._id)) {
+        lanes.set(user._id, { key: user._id, label: user.name, filters: { assignedTo: user._id } });
+      }
+    });
+  });
+
+  return Array.from(lanes.values()).sort((a, b) => a.label.localeCompare(b.label));
+};
@@ -0,0 +1,56 @@
+/**
+ * Utility functions for blocked-by relationships between tasks
+ */
+
+export interface DependencyEdge {
+  task: string;
+  blockedBy: string;
+}
+
+/**
+ * Find a chain of blocked-by links leading from `fromId` to `toId`.
+ * Returns the task IDs along the chain (both ends included) or null if there is none.
+ */
+export const findDependencyPath = (
+  edges: DependencyEdge[],
+  fromId: string,
+  toId: string
+): string[] | null => {
+  const blockersOf = new Map<string, string[]>();
+  edges.forEach(edge => {
+    blockersOf.set(edge.task, [...(blockersOf.get(edge.task) || []), edge.blockedBy]);
+  });
+
+  const visited = new Set<string>([fromId]);
+  const stack: string[][] = [[fromId]];
+
+  while (stack.length > 0) {
+    const path = stack.pop()!;
+    const current = path[path.length - 1];
+    if (current === toId) return path;
+
+    for (const next of blockersOf.get(current) || []) {
+      if (!visited.has(next)) {
+        visited.add(next);
+        stack.push([...path, next]);
+      }
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Check whether making `taskId` blocked by `blockerId` would close a loop.
+ * That happens when the blocker is itself (directly or indirectly) blocked by the task.
+ * Returns the loop as a list of task IDs, or null when the link is safe.
+ */
+export const findDependencyCycle = (
+  edges: DependencyEdge[],
+  taskId: string,
+  blockerId: string
+): string[] | null => {
+  if (taskId === blockerId) return [taskId, taskId];
+  const path = findDependencyPath(edges, blockerId, taskId);
+  return path ? [taskId, ...path] : null;
+};
@@ -0,0 +1,96 @@
+/**
+ * Utility functions for keeping task list filters in the URL query string,
+ * so a refreshed or shared link opens the same list.
+ */
+
+// Every filter, sort and paging option a task list can put in the URL, plus the list's view mode
+export const TASK_FILTER_PARAM_KEYS = [
+  'search',
+  'status',
+  'priority',
+  'stage',
+  'assignedTo',
+  'createdBy',
+  'department',
+  'startDate',
+  'endDate',
+  'sortBy',
+  'sortOrder',
+  'page',
+  'limit',
+  'view',
+] as const;
+
+export type TaskFilterParamKey = typeof TASK_FILTER_PARAM_KEYS[number];
+
+const NUMERIC_KEYS: TaskFilterParamKey[] = ['page', 'limit'];
+
+type FilterValues = { [K in TaskFilterParamKey]?: string | number };
+
+/**
+ * Read filters from the query string, falling back to `defaults` for anything missing or malformed
+ */
+export const searchParamsToFilters = <T extends FilterValues>(params: URLSearchParams, defaults: T): T => {
+  const filters: FilterValues = { ...defaults };
+
+  TASK_FILTER_PARAM_KEYS.forEach(key => {
+    const value = params.get(key);
+    if (value === null || value === '') return;
+
+    if (NUMERIC_KEYS.includes(key)) {
+      const number = Number(value);
+      if (Number.isInteger(number) && number > 0) filters[key] = number;
+    } else if (key === 'sortOrder') {
+      if (value === 'asc' || value === 'desc') filters[key] = value;
+    } else {
+      filters[key] = value;
+    }
+  });
+
+  return filters as T;
+};
+
+/**
+ * Write filters into a copy of `current`, leaving out empty values and anything equal to its default
+ * so links stay short. Params that aren't filters (a tab, say) are kept.
+ */
+export const filtersToSearchParams = <T extends FilterValues>(
+  filters: T,
+  defaults: T,
+  current: URLSearchParams = new URLSearchParams()
+): URLSearchParams => {
+  const params = new URLSearchParams(current);
+
+  TASK_FILTER_PARAM_KEYS.forEach(key => {
+    const value = filters[key];
+    if (value === undefined || value === '' || value === defaults[key]) {
+      params.delete(key);
+    } else {
+      params.set(key, String(value));
+    }
+  });
+
+  return params;
+};
+
+/**
+ * Just the filter part of a query string, in a stable order, for storing and comparing saved views
+ */
+export const getFilterQuery = (params: URLSearchParams): string => {
+  const filterParams = new URLSearchParams();
+  TASK_FILTER_PARAM_KEYS.forEach(key => {
+    const value = params.get(key);
+    // A saved view should open on its first page
+    if (value && key !== 'page') filterParams.set(key, value);
+  });
+  return filterParams.toString();
+};
+
+/**
+ * Filters ready to send to the API, without the view mode that only the page itself uses
+ */
+export const withoutViewParam = <T extends { view?: string }>(filters: T): Omit<T, 'view'> => {
+  const apiFilters = { ...filters };
+  delete apiFilters.view;
+  return apiFilters;
+};
@@ -0,0 +1,136 @@
+/**
+ * Utility functions for describing task history entries in the activity feed
+ */
+
+import type { TaskHistoryAction, TaskHistoryChange, TaskHistoryEntry } from '../services/taskService';
+import { getPriorityDisplayText, getStatusDisplayText } from './taskColors';
+
+export type HistoryCategory = 'status' | 'assignment' | 'attachment' | 'overviewer' | 'approval' | 'edit';
+
+export const HISTORY_ACTION_CATEGORIES: Record<TaskHistoryAction, HistoryCategory> = {
+  created: 'edit',
+  updated: 'edit',
+  remark_added: 'edit',
+  status_changed: 'status',
+  stage_changed: 'status',
+  individual_stage_changed: 'status',
+  assigned: 'assignment',
+  unassigned: 'assignment',
+  attachment_added: 'attachment',
+  attachment_removed: 'attachment',
+  overviewer_added: 'overviewer',
+  overviewer_removed: 'overviewer',
+  overviewer_permissions_changed: 'overviewer',
+  approved: 'approval',
+  rejected: 'approval',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  description: 'Description',
+  deadline: 'Deadline',
+  priority: 'Priority',
+  status: 'Status',
+  stage: 'Stage',
+  individualStage: 'Stage',
+  tags: 'Tags',
+  assignedTo: 'Assignees',
+  approval: 'Approval',
+  canViewDetails: 'View details',
+  canViewAttachments: 'View attachments',
+  canViewRemarks: 'View remarks',
+  canViewProgress: 'View progress',
+};
+
+const STAGE_LABELS: Record<string, string> = {
+  not_started: 'Not Started',
+  pending: 'In Progress',
+  done: 'Done',
+};
+
+export const getHistoryFieldLabel = (field: string): string =>
+  FIELD_LABELS[field.split('.').pop() || field] || field;
+
+/**
+ * Render a before/after value the way the rest of the task page shows it
+ */
+export const formatHistoryValue = (field: string, value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+
+  const key = field.split('.').pop() || field;
+  if (typeof value === 'boolean') return value ? 'Allowed' : 'Not allowed';
+  if (Array.isArray(value)) {
+    return value.length > 0
+      ? value.map(item => (typeof item === 'object' && item && 'name' in item ? String(item.name) : String(item))).join(', ')
+      : '—';
+  }
+  if (typeof value === 'object') {
+    return 'name' in value ? String(value.name) : JSON.stringify(value);
+  }
+
+  const text = String(value);
+  switch (key) {
+    case 'status':
+      return getStatusDisplayText(text);
+    case 'stage':
+    case 'individualStage':
+      return STAGE_LABELS[text] || text;
+    case 'priority':
+      return getPriorityDisplayText(text);
+    case 'deadline': {
+      const date = new Date(text);
+      return isNaN(date.getTime()) ? text : date.toLocaleString();
+    }
+    default:
+      return text;
+  }
+};
+
+/**
+ * One-line summary of what happened, without the actor's name
+ */
+export const describeHistoryEntry = (entry: TaskHistoryEntry): string => {
+  const target = entry.targetUser?.name;
+  const fileName = entry.attachment?.originalName || 'a file';
+
+  switch (entry.action) {
+    case 'created':
+      return 'created the task';
+    case 'updated':
+      return 'edited the task';
+    case 'remark_added':
+      return 'added a remark';
+    case 'status_changed':
+      return 'changed the status';
+    case 'stage_changed':
+      return 'changed the stage';
+    case 'individual_stage_changed':
+      return target ? `changed ${target}'s stage` : 'changed their stage';
+    case 'assigned':
+      return target ? `assigned ${target}` : 'assigned the task';
+    case 'unassigned':
+      return target ? `removed ${target} from the task` : 'removed an assignee';
+    case 'attachment_added':
+      return `uploaded ${fileName}`;
+    case 'attachment_removed':
+      return `removed ${fileName}`;
+    case 'overviewer_added':
+      return target ? `added ${target} as an overviewer` : 'added an overviewer';
+    case 'overviewer_removed':
+      return target ? `removed overviewer ${target}` : 'removed an overviewer';
+    case 'overviewer_permissions_changed':
+      return target ? `changed ${target}'s overviewer permissions` : 'changed overviewer permissions';
+    case 'approved':
+      return target ? `approved ${target}'s work` : 'approved the task';
+    case 'rejected':
+      return target ? `rejected ${target}'s work` : 'rejected the task';
+    default:
+      return 'updated the task';
+  }
+};
+
+/**
+ * Changes that actually differ, so no-op saves don't show empty diffs
+ */
+export const getVisibleChanges = (entry: TaskHistoryEntry): TaskHistoryChange[] =>
+  entry.changes.filter(change => JSON.stringify(change.from) !== JSON.stringify(change.to));
@@ -0,0 +1,71 @@
+/**
+ * Utility functions for the calendar and timeline views of tasks
+ */
+
+// The fields the calendar and timeline need, shared by the task, HOD and admin task lists
+export interface ScheduleTask {
+  _id: string;
+  title: string;
+  status: string;
+  priority: string;
+  deadline: string;
+  createdAt: string;
+  completedAt?: string;
+  isGroupTask?: boolean;
+}
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const startOfDay = (date: Date): Date => {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  return result;
+};
+
+export const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+export const startOfWeek = (date: Date): Date => addDays(startOfDay(date), -date.getDay());
+
+// Whole calendar days from `from` to `to`, ignoring the time of day
+export const diffInDays = (from: Date, to: Date): number =>
+  Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / DAY_MS);
+
+export const isSameDay = (a: Date, b: Date): boolean => diffInDays(a, b) === 0;
+
+/**
+ * The six weeks shown on a month calendar, starting on the Sunday before the 1st
+ */
+export const getMonthGrid = (month: Date): Date[] => {
+  const first = startOfWeek(new Date(month.getFullYear(), month.getMonth(), 1));
+  return Array.from({ length: 42 }, (_, i) => addDays(first, i));
+};
+
+export const getWeekDays = (date: Date): Date[] => {
+  const first = startOfWeek(date);
+  return Array.from({ length: 7 }, (_, i) => addDays(first, i));
+};
+
+export const isTaskFinished = (task: Pick<ScheduleTask, 'status'>): boolean =>
+  ['completed', 'approved'].includes(task.status);
+
+export const isTaskOverdue = (task: Pick<ScheduleTask, 'status' | 'deadline'>, now: Date = new Date()): boolean =>
+  !isTaskFinished(task) && new Date(task.deadline) < now;
+
+/**
+ * Move a deadline to another day, keeping its time of day
+ */
+export const moveDeadlineToDay = (deadline: string, day: Date): string => {
+  const current = new Date(deadline);
+  const result = new Date(day);
+  result.setHours(current.getHours(), current.getMinutes(), current.getSeconds(), 0);
+  return result.toISOString();
+};
+
+export const getTasksDueOn = <T extends ScheduleTask>(tasks: T[], day: Date): T[] =>
+  tasks
+    .filter(task => isSameDay(new Date(task.deadline), day))
+    .sort((a, b) => new Date(a.deadline).getTime() - new Date(b.deadline).getTime());
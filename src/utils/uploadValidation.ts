@@ -0,0 +1,94 @@
+/**
+ * Utility functions for checking files before they are uploaded as task attachments
+ */
+
+export const ATTACHMENT_EXTENSIONS = [
+  '.pdf', '.doc', '.docx', '.xls', '.xlsx', '.ppt', '.pptx', '.txt', '.csv', '.jpg', '.jpeg', '.png', '.gif',
+];
+
+// For the `accept` attribute of file inputs
+export const ATTACHMENT_ACCEPT = ATTACHMENT_EXTENSIONS.join(',');
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024; // 10MB, the same limit CreateTask has always applied
+
+export interface RejectedFile {
+  file: File;
+  reason: string;
+}
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+};
+
+const getExtension = (fileName: string): string => {
+  const dot = fileName.lastIndexOf('.');
+  return dot === -1 ? '' : fileName.slice(dot).toLowerCase();
+};
+
+/**
+ * Split chosen files into those that can be uploaded and those that can't, with the reason.
+ * Files already in `existing` (same name, size and modified time) are skipped as duplicates.
+ */
+export const validateAttachmentFiles = (
+  files: File[],
+  existing: File[] = []
+): { accepted: File[]; rejected: RejectedFile[] } => {
+  const accepted: File[] = [];
+  const rejected: RejectedFile[] = [];
+  const seen = new Set(existing.map(file => `${file.name}:${file.size}:${file.lastModified}`));
+
+  files.forEach(file => {
+    const key = `${file.name}:${file.size}:${file.lastModified}`;
+
+    if (!ATTACHMENT_EXTENSIONS.includes(getExtension(file.name))) {
+      rejected.push({ file, reason: `${getExtension(file.name) || 'files without an extension'} is not an allowed file type` });
+    } else if (file.size === 0) {
+      rejected.push({ file, reason: 'the file is empty' });
+    } else if (file.size > MAX_ATTACHMENT_SIZE) {
+      rejected.push({ file, reason: `larger than ${formatFileSize(MAX_ATTACHMENT_SIZE)}` });
+    } else if (seen.has(key)) {
+      rejected.push({ file, reason: 'already selected' });
+    } else {
+      seen.add(key);
+      accepted.push(file);
+    }
+  });
+
+  return { accepted, rejected };
+};
+
+/**
+ * One message describing every rejected file, for a toast
+ */
+export const describeRejectedFiles = (rejected: RejectedFile[]): string =>
+  rejected.map(({ file, reason }) => `${file.name}: ${reason}`).join('; ');
+
+const IMAGE_MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/gif': '.gif',
+};
+
+/**
+ * Files pasted from the clipboard, with screenshots given a readable name.
+ * Browsers call every pasted screenshot "image.png", which is useless once there are a few of them.
+ */
+export const getPastedFiles = (clipboardData: DataTransfer | null): File[] => {
+  if (!clipboardData) return [];
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[-:]/g, '').replace('T', '-');
+
+  return Array.from(clipboardData.files).map((file, index) => {
+    const extension = IMAGE_MIME_EXTENSIONS[file.type];
+    if (!extension || !/^image\.\w+$/i.test(file.name)) return file;
+
+    const suffix = clipboardData.files.length > 1 ? `-${index + 1}` : '';
+    return new File([file], `screenshot-${stamp}${suffix}${extension}`, {
+      type: file.type,
+      lastModified: file.lastModified,
+    });
+  });
+};
+
+export const isImageFile = (file: File): boolean => file.type.startsWith('image/');
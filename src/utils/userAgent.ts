@@ -0,0 +1,52 @@
+/**
+ * Utility functions for turning a browser's user agent string into something
+ * a person recognises, like "Chrome on Windows".
+ */
+
+export interface DeviceDescription {
+  browser: string;
+  os: string;
+  isMobile: boolean;
+}
+
+// Checked in order; Edge and Opera also claim to be Chrome, and Chrome claims to be Safari
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const OPERATING_SYSTEMS: Array<[RegExp, string]> = [
+  [/Windows/, 'Windows'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+const match = (userAgent: string, patterns: Array<[RegExp, string]>): string =>
+  patterns.find(([pattern]) => pattern.test(userAgent))?.[1] || 'Unknown';
+
+export const describeUserAgent = (userAgent: string | undefined): DeviceDescription => {
+  const ua = userAgent || '';
+  return {
+    browser: match(ua, BROWSERS),
+    os: match(ua, OPERATING_SYSTEMS),
+    isMobile: /Mobi|Android|iPhone|iPad|iPod/.test(ua),
+  };
+};
+
+/**
+ * Short label such as "Firefox on macOS"
+ */
+export const formatDevice = (userAgent: string | undefined): string => {
+  const { browser, os } = describeUserAgent(userAgent);
+  if (browser === 'Unknown' && os === 'Unknown') return 'Unknown device';
+  if (os === 'Unknown') return browser;
+  if (browser === 'Unknown') return os;
+  return `${browser} on ${os}`;
+};
@@ -0,0 +1,139 @@
+// Contract tests for src/services/notificationService.ts against the mock server in
+// mock-realtime-server.js. The service is loaded through Vite, so it runs exactly as
+// the app ships it: on the shared `api` instance, with the stored access token.
+//
+// Run with:   npm test
+
+import { test, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'vite';
+import { createMockServer } from '../mock-realtime-server.js';
+
+// The bits of the browser the services touch when they load
+const storage = new Map();
+globalThis.localStorage = {
+    getItem: key => (storage.has(key) ? storage.get(key) : null),
+    setItem: (key, value) => storage.set(key, String(value)),
+    removeItem: key => storage.delete(key),
+    clear: () => storage.clear()
+};
+globalThis.window = {
+    location: { pathname: '/notifications', href: '/notifications' },
+    addEventListener: () => {}
+};
+// Node's BroadcastChannel would keep the test process alive
+globalThis.BroadcastChannel = undefined;
+
+const mock = createMockServer();
+let vite;
+let notificationService;
+let NOTIFICATION_TYPE_LABELS;
+
+before(async () => {
+    await new Promise(resolve => mock.server.listen(0, resolve));
+    process.env.VITE_API_BASE_URL = `http://localhost:${mock.server.address().port}/api`;
+
+    vite = await createServer({
+        appType: 'custom',
+        logLevel: 'error',
+        server: { middlewareMode: true, hmr: false, watch: null }
+    });
+    ({ default: notificationService, NOTIFICATION_TYPE_LABELS } = await vite.ssrLoadModule('/src/services/notificationService.ts'));
+});
+
+after(async () => {
+    await vite?.close();
+    await new Promise(resolve => mock.server.close(resolve));
+});
+
+beforeEach(() => {
+    storage.clear();
+    localStorage.setItem('authToken', 'contract-test-token');
+    mock.resetNotifications();
+});
+
+test('getUnreadCount reads data.unreadCount', async () => {
+    assert.equal(await notificationService.getUnreadCount(), 2);
+});
+
+test('getNotifications returns the page with its pagination', async () => {
+    const response = await notificationService.getNotifications({ page: 1, limit: 2 });
+
+    assert.equal(response.success, true);
+    assert.equal(response.data.length, 2);
+    assert.deepEqual(response.pagination, { page: 1, limit: 2, total: 3, pages: 2 });
+});
+
+test('getNotifications maps legacy types and keeps isRead in step with the in-app channel', async () => {
+    const { data } = await notificationService.getNotifications();
+    const reminder = data.find(notification => notification.title === 'Deadline tomorrow');
+
+    assert.equal(reminder.type, 'task_deadline_reminder');
+    assert.equal(reminder.isRead, false);
+    data.forEach(notification => assert.equal(notification.isRead, notification.channels.inApp.read));
+});
+
+test('getNotifications only sends the unread filter when it is on', async () => {
+    const unread = await notificationService.getNotifications({ unreadOnly: true });
+    const all = await notificationService.getNotifications({ unreadOnly: false });
+
+    assert.equal(unread.data.length, 2);
+    assert.equal(all.data.length, 3);
+});
+
+test('markAsRead and markAsUnread change the unread count', async () => {
+    const { data } = await notificationService.getNotifications({ unreadOnly: true });
+
+    await notificationService.markAsRead(data[0]._id);
+    assert.equal(await notificationService.getUnreadCount(), 1);
+
+    await notificationService.markAsUnread(data[0]._id);
+    assert.equal(await notificationService.getUnreadCount(), 2);
+});
+
+test('markAllAsRead clears the unread count', async () => {
+    const response = await notificationService.markAllAsRead();
+
+    assert.equal(response.success, true);
+    assert.equal(await notificationService.getUnreadCount(), 0);
+});
+
+test('bulkUpdate reports how many were updated and archived ones leave the inbox', async () => {
+    const { data } = await notificationService.getNotifications();
+    const response = await notificationService.bulkUpdate(data.slice(0, 2).map(notification => notification._id), 'archive');
+
+    assert.equal(response.data.updated, 2);
+    assert.equal((await notificationService.getNotifications()).data.length, 1);
+    assert.equal((await notificationService.getNotifications({ archived: true })).data.length, 2);
+});
+
+test('deleteNotification removes it, and unknown IDs are rejected', async () => {
+    const { data } = await notificationService.getNotifications();
+
+    await notificationService.deleteNotification(data[0]._id);
+    assert.equal((await notificationService.getNotifications()).data.length, 2);
+
+    await assert.rejects(notificationService.deleteNotification('missing'), error => error.response?.status === 404);
+});
+
+test('every type the server lists has a label on the client', async () => {
+    const types = await notificationService.getNotificationTypes();
+
+    assert.ok(types.length > 0);
+    types.forEach(({ value }) => assert.ok(value in NOTIFICATION_TYPE_LABELS, `no label for "${value}"`));
+});
+
+test('preferences are filled in with defaults and cached for offline checks', async () => {
+    const saved = await notificationService.updatePreferences({
+        ...notificationService.getDefaultPreferences(),
+        minimumPriority: 'high'
+    });
+    assert.equal(saved.minimumPriority, 'high');
+
+    storage.delete('notificationPreferences');
+    const loaded = await notificationService.getPreferences();
+
+    assert.equal(loaded.minimumPriority, 'high');
+    assert.deepEqual(loaded.channels.task_assigned, { inApp: true, email: true, browser: false });
+    assert.equal(notificationService.getCachedPreferences().minimumPriority, 'high');
+});
@@ -0,0 +1,200 @@
+// Tests for the realtime client in src/services/realtimeService.ts against the stream in
+// mock-realtime-server.js: delivering events, reconnecting with backoff after the
+// connection drops, and falling back to polling while the stream is down.
+//
+// Run with:   npm test
+
+import { test, before, after, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'vite';
+import { createMockServer } from '../mock-realtime-server.js';
+
+// The bits of the browser the services touch when they load
+const storage = new Map();
+globalThis.localStorage = {
+    getItem: key => (storage.has(key) ? storage.get(key) : null),
+    setItem: (key, value) => storage.set(key, String(value)),
+    removeItem: key => storage.delete(key),
+    clear: () => storage.clear()
+};
+globalThis.window = {
+    location: { pathname: '/dashboard', href: '/dashboard' },
+    addEventListener: () => {}
+};
+// Node's BroadcastChannel would keep the test process alive
+globalThis.BroadcastChannel = undefined;
+// The mock server logs every connection, which garbles the test runner's output
+console.log = () => {};
+
+// Node 20 has no EventSource, so read the stream with fetch. Every attempt is recorded
+// to check the backoff between them.
+const connectionAttempts = [];
+
+globalThis.EventSource = class {
+    constructor(url) {
+        this.url = url;
+        this.onopen = null;
+        this.onmessage = null;
+        this.onerror = null;
+        this.controller = new AbortController();
+        connectionAttempts.push({ url, at: Date.now() });
+        this.read();
+    }
+
+    async read() {
+        try {
+            const response = await fetch(this.url, { signal: this.controller.signal });
+            if (!response.ok) throw new Error(`Stream answered ${response.status}`);
+            this.onopen?.();
+
+            const decoder = new TextDecoder();
+            let buffer = '';
+            for await (const chunk of response.body) {
+                buffer += decoder.decode(chunk, { stream: true });
+                const messages = buffer.split('\n\n');
+                buffer = messages.pop();
+                messages.forEach(message => {
+                    const data = message.split('\n')
+                        .filter(line => line.startsWith('data: '))
+                        .map(line => line.slice('data: '.length))
+                        .join('\n');
+                    if (data) this.onmessage?.({ data });
+                });
+            }
+            throw new Error('Stream ended');
+        } catch {
+            if (!this.controller.signal.aborted) this.onerror?.();
+        }
+    }
+
+    close() {
+        this.controller.abort();
+    }
+};
+
+const mock = createMockServer();
+let vite;
+let realtimeService;
+let unsubscribe = () => {};
+
+// Resolves once the client reports the given status, or fails after `timeout` ms
+const waitForStatus = (status, timeout = 5000) => new Promise((resolve, reject) => {
+    let stop = () => {};
+    const timer = setTimeout(() => {
+        stop();
+        reject(new Error(`Still "${realtimeService.getStatus()}" after ${timeout}ms, expected "${status}"`));
+    }, timeout);
+    stop = realtimeService.onStatusChange(current => {
+        if (current !== status) return;
+        clearTimeout(timer);
+        // onStatusChange calls back straight away, before it has returned its unsubscribe
+        queueMicrotask(() => stop());
+        resolve();
+    });
+});
+
+before(async () => {
+    await new Promise(resolve => mock.server.listen(0, resolve));
+    process.env.VITE_API_BASE_URL = `http://localhost:${mock.server.address().port}/api`;
+
+    vite = await createServer({
+        appType: 'custom',
+        logLevel: 'error',
+        server: { middlewareMode: true, hmr: false, watch: null }
+    });
+    ({ default: realtimeService } = await vite.ssrLoadModule('/src/services/realtimeService.ts'));
+});
+
+afterEach(() => {
+    unsubscribe();
+    unsubscribe = () => {};
+    mock.setRefuseConnections(false);
+    connectionAttempts.length = 0;
+    storage.clear();
+});
+
+after(async () => {
+    await vite?.close();
+    mock.dropConnections();
+    await new Promise(resolve => mock.server.close(resolve));
+});
+
+test('without a session it polls instead of opening the stream', () => {
+    unsubscribe = realtimeService.subscribe('task.updated', () => {});
+
+    assert.equal(realtimeService.getStatus(), 'polling');
+    assert.equal(connectionAttempts.length, 0);
+});
+
+test('opens the stream with the access token and delivers events to subscribers', async () => {
+    localStorage.setItem('authToken', 'realtime-test-token');
+    const received = [];
+    const opened = waitForStatus('open');
+    unsubscribe = realtimeService.subscribe('notification.unread_count', payload => received.push(payload));
+    await opened;
+
+    assert.equal(new URL(connectionAttempts[0].url).searchParams.get('token'), 'realtime-test-token');
+
+    mock.broadcast({ type: 'task.updated', payload: { taskId: 'task-1' } });
+    mock.broadcast({ type: 'notification.unread_count', payload: { unreadCount: 4 } });
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    assert.deepEqual(received, [{ unreadCount: 4 }]);
+});
+
+test('closes the stream once the last listener unsubscribes', async () => {
+    localStorage.setItem('authToken', 'realtime-test-token');
+    const opened = waitForStatus('open');
+    unsubscribe = realtimeService.subscribe('task.updated', () => {});
+    await opened;
+
+    unsubscribe();
+    unsubscribe = () => {};
+
+    assert.equal(realtimeService.getStatus(), 'idle');
+});
+
+test('reconnects after the connection drops, backing off between failed attempts', async (t) => {
+    t.mock.method(Math, 'random', () => 0);
+    localStorage.setItem('authToken', 'realtime-test-token');
+    const opened = waitForStatus('open');
+    unsubscribe = realtimeService.subscribe('task.updated', () => {});
+    await opened;
+
+    // The first failure is retried after 1s and the next after 2s
+    mock.setRefuseConnections(true);
+    const dropped = Date.now();
+    const reconnecting = waitForStatus('connecting');
+    mock.dropConnections();
+    await reconnecting;
+    await new Promise(resolve => setTimeout(resolve, 1500));
+
+    assert.equal(connectionAttempts.length, 2);
+    assert.ok(connectionAttempts[1].at - dropped >= 1000);
+
+    mock.setRefuseConnections(false);
+    await waitForStatus('open', 3000);
+
+    assert.equal(connectionAttempts.length, 3);
+    assert.ok(connectionAttempts[2].at - connectionAttempts[1].at >= 2000);
+});
+
+test('falls back to polling while the stream stays down, and streams again after reconnect()', async (t) => {
+    t.mock.method(Math, 'random', () => 0);
+    localStorage.setItem('authToken', 'realtime-test-token');
+    const opened = waitForStatus('open');
+    unsubscribe = realtimeService.subscribe('task.updated', () => {});
+    await opened;
+
+    mock.setRefuseConnections(true);
+    const polling = waitForStatus('polling');
+    mock.dropConnections();
+    await polling;
+
+    mock.setRefuseConnections(false);
+    const reopened = waitForStatus('open');
+    realtimeService.reconnect();
+    await reopened;
+
+    assert.equal(realtimeService.getStatus(), 'open');
+});
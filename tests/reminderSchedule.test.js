@@ -0,0 +1,144 @@
+// Tests for the reminder and escalation schedule in src/utils/reminderSchedule.ts.
+// Every check passes the same fixed `now`, so the results don't depend on when the
+// tests run.
+//
+// Run with:   npm test
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'vite';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const NOW = new Date('2026-03-02T09:00:00.000Z');
+
+const at = offsetMs => new Date(NOW.getTime() + offsetMs);
+
+const makeTask = (overrides = {}) => ({
+    _id: 'task-1',
+    title: 'Quarterly report',
+    status: 'in_progress',
+    priority: 'medium',
+    deadline: at(3 * DAY_MS).toISOString(),
+    createdBy: { _id: 'user-1', name: 'Creator' },
+    assignedTo: [],
+    ...overrides
+});
+
+let vite;
+let schedule;
+
+before(async () => {
+    vite = await createServer({
+        appType: 'custom',
+        logLevel: 'error',
+        server: { middlewareMode: true, hmr: false, watch: null }
+    });
+    schedule = await vite.ssrLoadModule('/src/utils/reminderSchedule.ts');
+});
+
+after(async () => {
+    await vite?.close();
+});
+
+test('each priority is reminded at its own offsets before the deadline', () => {
+    const { getTaskSchedule, DEFAULT_REMINDER_RULES } = schedule;
+    const expected = { urgent: [24, 4, 1], high: [24, 4], medium: [24], low: [48] };
+
+    Object.entries(expected).forEach(([priority, hours]) => {
+        const task = makeTask({ priority });
+        const reminders = getTaskSchedule(task, DEFAULT_REMINDER_RULES, NOW).filter(event => event.kind === 'reminder');
+
+        assert.deepEqual(reminders.map(event => event.hoursBefore), hours, priority);
+        reminders.forEach(event => {
+            assert.equal(event.at.getTime(), new Date(task.deadline).getTime() - event.hoursBefore * HOUR_MS);
+        });
+    });
+});
+
+test('reminder offsets are sorted largest first without duplicates', () => {
+    const { getReminderOffsets, DEFAULT_REMINDER_RULES } = schedule;
+    const rules = { ...DEFAULT_REMINDER_RULES, reminders: { ...DEFAULT_REMINDER_RULES.reminders, high: [4, 24, 4, 12] } };
+
+    assert.deepEqual(getReminderOffsets(rules, 'high'), [24, 12, 4]);
+});
+
+test('reminders that have already gone out are left off the schedule', () => {
+    const { getTaskSchedule, DEFAULT_REMINDER_RULES } = schedule;
+    const task = makeTask({ priority: 'urgent', deadline: at(2 * HOUR_MS).toISOString() });
+
+    const reminders = getTaskSchedule(task, DEFAULT_REMINDER_RULES, NOW).filter(event => event.kind === 'reminder');
+
+    assert.deepEqual(reminders.map(event => event.hoursBefore), [1]);
+});
+
+test('an overdue task escalates to the creator, then the HOD, then administrators', () => {
+    const { getTaskSchedule, DEFAULT_REMINDER_RULES } = schedule;
+    const task = makeTask();
+    const deadline = new Date(task.deadline).getTime();
+
+    const escalations = getTaskSchedule(task, DEFAULT_REMINDER_RULES, NOW).filter(event => event.kind === 'escalation');
+
+    assert.deepEqual(escalations.map(event => event.step.target), ['creator', 'hod', 'admin']);
+    assert.deepEqual(
+        escalations.map(event => event.at.getTime()),
+        [deadline, deadline + 2 * DAY_MS, deadline + 5 * DAY_MS]
+    );
+});
+
+test('getCurrentEscalation follows the days overdue', () => {
+    const { getCurrentEscalation, DEFAULT_REMINDER_RULES } = schedule;
+    const overdueBy = offsetMs => makeTask({ deadline: at(-offsetMs).toISOString() });
+
+    assert.equal(getCurrentEscalation(makeTask(), DEFAULT_REMINDER_RULES, NOW), null);
+    assert.equal(getCurrentEscalation(overdueBy(HOUR_MS), DEFAULT_REMINDER_RULES, NOW).target, 'creator');
+    assert.equal(getCurrentEscalation(overdueBy(2 * DAY_MS - HOUR_MS), DEFAULT_REMINDER_RULES, NOW).target, 'creator');
+    assert.equal(getCurrentEscalation(overdueBy(2 * DAY_MS), DEFAULT_REMINDER_RULES, NOW).target, 'hod');
+    assert.equal(getCurrentEscalation(overdueBy(5 * DAY_MS), DEFAULT_REMINDER_RULES, NOW).target, 'admin');
+    assert.equal(getCurrentEscalation(overdueBy(30 * DAY_MS), DEFAULT_REMINDER_RULES, NOW).target, 'admin');
+});
+
+test('finished tasks have nothing scheduled and are never escalated', () => {
+    const { getTaskSchedule, getCurrentEscalation, DEFAULT_REMINDER_RULES } = schedule;
+
+    ['completed', 'approved'].forEach(status => {
+        assert.deepEqual(getTaskSchedule(makeTask({ status }), DEFAULT_REMINDER_RULES, NOW), []);
+        assert.equal(getCurrentEscalation(makeTask({ status, deadline: at(-10 * DAY_MS).toISOString() }), DEFAULT_REMINDER_RULES, NOW), null);
+    });
+});
+
+test('getUpcomingSchedule merges tasks soonest first within the window', () => {
+    const { getUpcomingSchedule, DEFAULT_REMINDER_RULES } = schedule;
+    const urgent = makeTask({ _id: 'urgent', priority: 'urgent', deadline: at(6 * HOUR_MS).toISOString() });
+    const low = makeTask({ _id: 'low', priority: 'low', deadline: at(50 * HOUR_MS).toISOString() });
+
+    const upcoming = getUpcomingSchedule([low, urgent], DEFAULT_REMINDER_RULES, 24, NOW);
+
+    assert.deepEqual(
+        upcoming.map(event => [event.task._id, event.kind, event.at.getTime() - NOW.getTime()]),
+        [
+            ['low', 'reminder', 2 * HOUR_MS],
+            ['urgent', 'reminder', 2 * HOUR_MS],
+            ['urgent', 'reminder', 5 * HOUR_MS],
+            ['urgent', 'escalation', 6 * HOUR_MS]
+        ]
+    );
+});
+
+test('escalating to the HOD before the creator is rejected', () => {
+    const { validateReminderRules, DEFAULT_REMINDER_RULES } = schedule;
+
+    assert.deepEqual(validateReminderRules(DEFAULT_REMINDER_RULES), []);
+    assert.deepEqual(
+        validateReminderRules({
+            ...DEFAULT_REMINDER_RULES,
+            escalation: [
+                { target: 'creator', afterDays: 3 },
+                { target: 'hod', afterDays: 1 },
+                { target: 'admin', afterDays: 5 }
+            ]
+        }),
+        ["Department HOD can't be told before task creator"]
+    );
+});